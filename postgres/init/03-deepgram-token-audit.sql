@@ -0,0 +1,13 @@
+-- Create audit table for short-lived DeepGram credentials issued to clients
+CREATE TABLE IF NOT EXISTS deepgram_token_audit (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  ip_address TEXT,
+  user_agent TEXT,
+  expires_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for token audit lookups
+CREATE INDEX IF NOT EXISTS idx_deepgram_token_audit_user_id ON deepgram_token_audit(user_id);
+CREATE INDEX IF NOT EXISTS idx_deepgram_token_audit_created_at ON deepgram_token_audit(created_at DESC);
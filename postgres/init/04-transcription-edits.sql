@@ -0,0 +1,13 @@
+-- Create edit history table for corrections made to transcriptions
+CREATE TABLE IF NOT EXISTS transcription_edits (
+  id SERIAL PRIMARY KEY,
+  transcription_id INTEGER REFERENCES transcriptions(id) ON DELETE CASCADE,
+  previous_text TEXT NOT NULL,
+  new_text TEXT NOT NULL,
+  corrections JSONB,
+  edited_by TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create indexes for edit history lookups
+CREATE INDEX IF NOT EXISTS idx_transcription_edits_transcription_id ON transcription_edits(transcription_id, created_at DESC);
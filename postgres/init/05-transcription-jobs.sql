@@ -0,0 +1,21 @@
+-- Create table tracking batch transcription of uploaded audio files
+CREATE TABLE IF NOT EXISTS transcription_jobs (
+  id SERIAL PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'pending',
+  provider TEXT NOT NULL,
+  file_name TEXT,
+  content_type TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  audio_key TEXT NOT NULL,
+  options JSONB,
+  transcription_id INTEGER REFERENCES transcriptions(id) ON DELETE SET NULL,
+  error TEXT,
+  user_id TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+-- Create indexes for job lookups
+CREATE INDEX IF NOT EXISTS idx_transcription_jobs_status ON transcription_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_transcription_jobs_user_id ON transcription_jobs(user_id, created_at DESC);
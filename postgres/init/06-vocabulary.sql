@@ -0,0 +1,17 @@
+-- Create table for custom vocabulary applied to transcriptions.
+-- Keywords are boosted during recognition; substitutions rewrite final transcripts.
+CREATE TABLE IF NOT EXISTS vocabulary_terms (
+  id SERIAL PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('user_type', 'user')),
+  scope_value TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('keyword', 'substitution')),
+  term TEXT NOT NULL,
+  replacement TEXT,
+  boost REAL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Each term appears once per scope and kind, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vocabulary_terms_unique ON vocabulary_terms(scope, scope_value, kind, LOWER(term));
+CREATE INDEX IF NOT EXISTS idx_vocabulary_terms_scope ON vocabulary_terms(scope, scope_value);
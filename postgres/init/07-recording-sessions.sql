@@ -0,0 +1,18 @@
+-- Create table for recording sessions that can be paused, resumed and restored
+CREATE TABLE IF NOT EXISTS recording_sessions (
+  id SERIAL PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'recording',
+  user_id TEXT,
+  user_type TEXT,
+  purpose TEXT,
+  options JSONB,
+  transcription_id INTEGER REFERENCES transcriptions(id) ON DELETE SET NULL,
+  segments JSONB NOT NULL DEFAULT '[]',
+  duration REAL NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMP
+);
+
+-- Create index for finding a user's unfinished session
+CREATE INDEX IF NOT EXISTS idx_recording_sessions_user_status ON recording_sessions(user_id, status, updated_at DESC);
@@ -0,0 +1,10 @@
+-- Create table for personal details removed from transcriptions by redaction.
+-- Values are encrypted by the application; each token is derived from a keyed
+-- hash of its value, so the same detail always maps to the same token.
+CREATE TABLE IF NOT EXISTS redaction_tokens (
+  id SERIAL PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('name', 'date_of_birth', 'phone', 'address', 'identifier', 'email')),
+  encrypted_value TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,2 @@
+-- Full-text index for searching the transcription library
+CREATE INDEX IF NOT EXISTS idx_transcriptions_text_search ON transcriptions USING GIN (to_tsvector('english', text));
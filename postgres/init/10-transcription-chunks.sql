@@ -0,0 +1,15 @@
+-- Create table for transcription chunks with embeddings for semantic search
+CREATE TABLE IF NOT EXISTS transcription_chunks (
+  id SERIAL PRIMARY KEY,
+  transcription_id INTEGER NOT NULL REFERENCES transcriptions(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding VECTOR(1536),
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (transcription_id, chunk_index)
+);
+
+-- Create indexes for chunk lookup and nearest-neighbour search
+CREATE INDEX IF NOT EXISTS idx_transcription_chunks_transcription_id ON transcription_chunks(transcription_id);
+CREATE INDEX IF NOT EXISTS idx_transcription_chunks_embedding ON transcription_chunks USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);
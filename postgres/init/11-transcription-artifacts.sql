@@ -0,0 +1,19 @@
+-- Create table for versioned outputs generated from transcriptions
+CREATE TABLE IF NOT EXISTS transcription_artifacts (
+  id SERIAL PRIMARY KEY,
+  transcription_id INTEGER NOT NULL REFERENCES transcriptions(id) ON DELETE CASCADE,
+  artifact_type TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  data JSONB,
+  model TEXT,
+  prompt_version TEXT,
+  created_by TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (transcription_id, artifact_type, version)
+);
+
+-- Create index for listing the versions of an artifact
+CREATE INDEX IF NOT EXISTS idx_transcription_artifacts_type_version
+  ON transcription_artifacts(transcription_id, artifact_type, version DESC);
+
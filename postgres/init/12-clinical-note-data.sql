@@ -0,0 +1,4 @@
+-- Index artifact data so fields of structured notes can be queried, e.g.
+-- data @> '{"medications": [{"name": "amoxicillin"}]}'
+CREATE INDEX IF NOT EXISTS idx_transcription_artifacts_data
+  ON transcription_artifacts USING GIN (data jsonb_path_ops);
@@ -0,0 +1,17 @@
+-- Create table for user-defined output format templates.
+-- Templates without a user_id are shared with everyone and managed by admins.
+CREATE TABLE IF NOT EXISTS format_templates (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT,
+  name TEXT NOT NULL,
+  system_prompt TEXT NOT NULL,
+  sections TEXT[] NOT NULL DEFAULT '{}',
+  output_type TEXT NOT NULL DEFAULT 'markdown' CHECK (output_type IN ('text', 'markdown', 'html')),
+  -- Increased on every update and recorded as the prompt version of outputs
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Each name appears once among the shared templates and once per user, ignoring case
+CREATE UNIQUE INDEX IF NOT EXISTS idx_format_templates_unique ON format_templates(COALESCE(user_id, ''), LOWER(name));
@@ -0,0 +1,29 @@
+-- Create table for cached LLM results, shared by every app instance.
+-- Each key is a SHA-256 hash of everything the result depends on, including
+-- the prompt version and the model it was requested from.
+CREATE TABLE IF NOT EXISTS llm_cache (
+  key TEXT PRIMARY KEY,
+  -- What the result is, e.g. 'format' or 'chat'
+  namespace TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  model TEXT NOT NULL,
+  value JSONB NOT NULL,
+  -- Bytes of the serialized value
+  size INTEGER NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_cache_namespace ON llm_cache(namespace, last_used_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_cache_prompt_version ON llm_cache(prompt_version);
+CREATE INDEX IF NOT EXISTS idx_llm_cache_expires_at ON llm_cache(expires_at);
+
+-- Lookup counts per namespace, kept apart from the entries so they survive invalidation
+CREATE TABLE IF NOT EXISTS llm_cache_stats (
+  namespace TEXT PRIMARY KEY,
+  hits BIGINT NOT NULL DEFAULT 0,
+  misses BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
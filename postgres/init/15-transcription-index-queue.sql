@@ -0,0 +1,17 @@
+-- Create table of transcriptions waiting to be (re)indexed for semantic search.
+-- A row stays until its transcription is indexed, so work cut short by a
+-- restart or a failed embedding is picked up again by the next run.
+CREATE TABLE IF NOT EXISTS transcription_index_queue (
+  transcription_id INTEGER PRIMARY KEY REFERENCES transcriptions(id) ON DELETE CASCADE,
+  -- Counts the times the transcription was queued, so a run does not clear a newer request
+  generation INTEGER NOT NULL DEFAULT 1,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  -- A worker holds a row until then; an expired lock means it stopped part-way
+  locked_until TIMESTAMP,
+  queued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for picking the oldest waiting transcription
+CREATE INDEX IF NOT EXISTS idx_transcription_index_queue_queued_at ON transcription_index_queue(queued_at);
@@ -0,0 +1,16 @@
+-- Create table for running summaries of lectures that are still being recorded
+CREATE TABLE IF NOT EXISTS live_summary_sessions (
+  id UUID PRIMARY KEY,
+  owner_id TEXT NOT NULL,
+  summary TEXT NOT NULL DEFAULT '',
+  topics JSONB NOT NULL DEFAULT '[]',
+  key_points JSONB NOT NULL DEFAULT '[]',
+  updates INTEGER NOT NULL DEFAULT 0,
+  model TEXT,
+  prompt_version TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create index for discarding idle sessions
+CREATE INDEX IF NOT EXISTS idx_live_summary_sessions_updated_at ON live_summary_sessions(updated_at);
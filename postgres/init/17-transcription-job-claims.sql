@@ -0,0 +1,8 @@
+-- Track attempts at batch transcription jobs, so a job left pending or
+-- processing by a process that stopped is picked up again
+ALTER TABLE transcription_jobs ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE transcription_jobs ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP;
+
+-- Create index for claiming the oldest unfinished job
+CREATE INDEX IF NOT EXISTS idx_transcription_jobs_unfinished
+  ON transcription_jobs(created_at) WHERE status IN ('pending', 'processing');
@@ -58,14 +58,19 @@ async function runMigration() {
       console.warn('Warning: Could not enable vector extension:', error.message);
     }
     
-    // Execute SQL files directly
-    const initSqlPath = path.resolve(process.cwd(), 'postgres/init/01-init.sql');
-    const createTablesSqlPath = path.resolve(process.cwd(), 'postgres/init/02-create-tables.sql');
+    // Execute every SQL file in postgres/init in filename order
+    const initDir = path.resolve(process.cwd(), 'postgres/init');
+    const sqlFiles = fs.readdirSync(initDir)
+      .filter(file => file.endsWith('.sql'))
+      .sort();
     
-    const initSuccess = await executeSqlFile(client, initSqlPath);
-    const tablesSuccess = await executeSqlFile(client, createTablesSqlPath);
+    let allSuccess = true;
+    for (const file of sqlFiles) {
+      const success = await executeSqlFile(client, path.join(initDir, file));
+      allSuccess = allSuccess && success;
+    }
     
-    if (initSuccess && tablesSuccess) {
+    if (allSuccess) {
       // Commit transaction
       await client.query('COMMIT');
       console.log('Migration completed successfully!');
@@ -1,42 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server';
-import OpenAI from 'openai';
 import { 
   checkDatabaseConnection, 
   performVectorSearch, 
   getArticleById 
 } from '@/lib/db';
+import { generateEmbedding } from '@/services/embedding';
+import { getLlm, LlmMessage } from '@/services/llm';
+import { getLlmCache, LlmCacheKey } from '@/services/llmCache';
+import { canReidentify, createStreamReidentifier, isRedactionEnabled, redactText, reidentifyText } from '@/services/redaction';
+import type { PromptDefinition } from '@/types/prompt';
+import { createEventStreamResponse, wantsEventStream } from '@/utils/eventStream';
+import { getLanguageInstruction } from '@/utils/language';
+import { getPromptId, renderPrompt, selectPrompt } from '@/utils/prompts';
+import { REDACTION_INSTRUCTION } from '@/utils/redaction';
+import { getRequestUser } from '@/utils/requestUser';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
-
-// Simple in-memory cache for chat responses
-interface CacheEntry {
+// A chat answer as cached
+interface CachedChat {
   response: string;
   sources: any[];
-  timestamp: number;
 }
 
-const chatCache = new Map<string, CacheEntry>();
-const CACHE_TTL = 1000 * 60 * 30; // 30 minutes cache TTL
+// Model requested for answers to queries, which is also part of the cache key
+const CHAT_MODEL = 'gpt-4-turbo';
 
-// Generate a cache key from request parameters
-function generateCacheKey(query: string, userType: string): string {
-  return `${query}_${userType}`;
-}
+// Registry prompt for each user type; others use chat.general
+const CHAT_PROMPT_NAMES: Record<string, string> = {
+  gp: 'chat.gp',
+  school: 'chat.school'
+};
 
 /**
  * POST /api/chat
- * Process a chat query using vector search and OpenAI
+ * Process a chat query using vector search and OpenAI.
+ * Personal details are redacted before anything reaches a model. The
+ * answer includes the promptVersion of the registry prompt it used.
+ * With stream: true the answer is sent as server-sent events while it is
+ * generated, followed by a "done" event with the usual JSON response.
  */
 export async function POST(request: NextRequest) {
   try {
-    const { query, userType, messages, context } = await request.json();
+    const body = await request.json();
+    const { query, userType, messages, context, transcript, sourceLanguage, targetLanguage } = body;
+    const stream = wantsEventStream(body, request);
+    // Redacted whenever redaction is enabled, since the user type is chosen by the caller
+    const redact = isRedactionEnabled();
+    const reidentify = redact && canReidentify(await getRequestUser(request));
+    const languageInstruction = getLanguageInstruction(sourceLanguage, targetLanguage) +
+      (redact ? REDACTION_INSTRUCTION : '');
 
     // Handle lecture-specific chat if context is provided
     if (context) {
-      return handleLectureChat(messages, context);
+      return handleLectureChat(request, messages, context, languageInstruction, redact, reidentify, stream);
     }
 
     // Regular chat processing for non-lecture queries
@@ -48,145 +63,147 @@ export async function POST(request: NextRequest) {
     }
 
     console.log('Starting chat API request');
-    console.log(`Chat query: "${query}", User type: ${userType}`);
+    console.log(`Chat query length: ${query.length}, User type: ${userType}`);
     
-    // Check cache first
-    const now = Date.now();
-    const cacheKey = generateCacheKey(query, userType);
+    const modelQuery = redact ? await redactText(query) : query;
+    const modelTranscript = redact && transcript ? await redactText(transcript) : transcript;
     
-    if (chatCache.has(cacheKey)) {
-      const cachedResult = chatCache.get(cacheKey)!;
-      
-      // Check if the cache is still valid
-      if (now - cachedResult.timestamp < CACHE_TTL) {
-        console.log('Returning cached response');
-        return NextResponse.json({
-          response: cachedResult.response,
-          sources: cachedResult.sources,
-          fromCache: true
-        });
-      } else {
-        console.log('Cache expired, generating new response');
-        chatCache.delete(cacheKey);
-      }
+    // The prompt version is chosen once per request and is part of the cache key
+    const prompt = selectPrompt(CHAT_PROMPT_NAMES[userType] || 'chat.general');
+    const promptVersion = getPromptId(prompt);
+    
+    // Check the shared cache first
+    const cacheKey: LlmCacheKey = {
+      namespace: 'chat',
+      promptVersion,
+      model: CHAT_MODEL,
+      input: { query: modelQuery, transcript: modelTranscript, languageInstruction }
+    };
+    const cached = await getLlmCache().get<CachedChat>(cacheKey);
+    
+    if (cached) {
+      console.log('Returning cached response');
+      return NextResponse.json({
+        response: reidentify ? await reidentifyText(cached.value.response) : cached.value.response,
+        sources: cached.value.sources,
+        promptVersion,
+        fromCache: true
+      });
     }
     
     console.log('Cache miss. Generating new chat response.');
     
-    // Check database connection
-    const isConnected = await checkDatabaseConnection();
-    console.log('Database connection status:', isConnected);
+    // Answer the query, passing on the answer as it is generated when asked to
+    const generate = async (onDelta?: (text: string) => void, onReset?: () => Promise<void>) => {
+      // Check database connection
+      const isConnected = await checkDatabaseConnection();
+      console.log('Database connection status:', isConnected);
 
-    // Generate embeddings for the query
-    const embedding = await generateEmbedding(query);
+      // Generate embeddings for the query
+      const embedding = await generateEmbedding(modelQuery);
 
-    // Get relevant chunks from the database
-    const chunks = await performVectorSearch(embedding, 5);
-    console.log(`Found ${chunks.length} relevant chunks`);
+      // Get relevant chunks from the database
+      const chunks = await performVectorSearch(embedding, 5);
+      console.log(`Found ${chunks.length} relevant chunks`);
 
-    // Generate AI response
-    const aiResponse = await generateAIResponse(query, chunks, userType);
+      // Generate AI response; a failure is reported rather than answered or cached
+      const aiResponse = await generateAIResponse(prompt, modelQuery, chunks, userType, modelTranscript, languageInstruction, onDelta, onReset, request.signal);
 
-    // Get article details for the chunks
-    const articleIds = Array.from(new Set(chunks.map(chunk => chunk.article_id)));
-    const articles = [];
+      // Get article details for the chunks
+      const articleIds = Array.from(new Set(chunks.map(chunk => chunk.article_id)));
+      const articles = [];
     
-    for (const articleId of articleIds) {
-      const article = await getArticleById(articleId);
-      if (article) {
-        articles.push({
-          title: article.title,
-          source: article.source,
-          url: article.url,
-          author: article.author,
-          publishedDate: article.published_date
-        });
+      for (const articleId of articleIds) {
+        const article = await getArticleById(articleId);
+        if (article) {
+          articles.push({
+            title: article.title,
+            source: article.source,
+            url: article.url,
+            author: article.author,
+            publishedDate: article.published_date
+          });
+        }
       }
-    }
 
-    // Cache the result
-    chatCache.set(cacheKey, {
-      response: aiResponse,
-      sources: articles,
-      timestamp: now
-    });
+      // Cache the result, unless the model gave no answer
+      if (aiResponse) {
+        await getLlmCache().set<CachedChat>(cacheKey, {
+          response: aiResponse,
+          sources: articles
+        });
+      }
 
-    return NextResponse.json({
-      response: aiResponse,
-      sources: articles,
-      fromCache: false
-    });
+      const answer = aiResponse || 'Sorry, I could not generate a response.';
+      return {
+        response: reidentify ? await reidentifyText(answer) : answer,
+        sources: articles,
+        promptVersion,
+        fromCache: false
+      };
+    };
+    
+    if (!stream) {
+      return NextResponse.json(await generate());
+    }
+    
+    return streamChatResponse(request, reidentify, generate);
   } catch (error) {
     console.error('Error in chat API:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
 
-/**
- * Generate embeddings using OpenAI
- */
-async function generateEmbedding(text: string): Promise<number[]> {
-  try {
-    const response = await openai.embeddings.create({
-      model: "text-embedding-ada-002",
-      input: text
-    });
-
-    return response.data[0].embedding;
-  } catch (error) {
-    console.error('Error generating embedding:', error);
-    // Return a zero vector as fallback
-    return Array(1536).fill(0);
-  }
-}
-
 /**
  * Generate AI response using OpenAI
+ * @returns The answer, empty when the model gave none; throws when every provider fails
  */
-async function generateAIResponse(query: string, chunks: any[], userType: string): Promise<string> {
-  try {
-    // Prepare context from chunks
-    const context = chunks.map(chunk => chunk.content).join("\n\n");
-
-    // Prepare system message based on user type
-    let systemMessage = '';
-    
-    if (userType === 'gp') {
-      systemMessage = `You are a helpful medical assistant. Answer the user's question based on the provided medical literature. 
-      If the information is not in the provided context, say that you don't have enough information and provide a general response based on your knowledge.
-      Always cite your sources when you use information from the provided context.`;
-    } else if (userType === 'school') {
-      systemMessage = `You are a helpful teaching assistant. Answer the student's question based on the provided educational material.
-      If the information is not in the provided context, say that you don't have enough information and provide a general response based on your knowledge.
-      Always cite your sources when you use information from the provided context.`;
-    } else {
-      systemMessage = `You are a helpful assistant. Answer the user's question based on the provided information.
-      If the information is not in the provided context, say that you don't have enough information and provide a general response based on your knowledge.
-      Always cite your sources when you use information from the provided context.`;
-    }
+async function generateAIResponse(
+  prompt: PromptDefinition,
+  query: string,
+  chunks: any[],
+  userType: string,
+  transcript?: string,
+  languageInstruction: string = '',
+  onDelta?: (text: string) => void,
+  onReset?: () => Promise<void>,
+  signal?: AbortSignal
+): Promise<string> {
+  // Prepare context from chunks, led by the user's own transcription when provided
+  const chunkContext = chunks.map(chunk => chunk.content).join("\n\n");
+  const context = transcript
+    ? `TRANSCRIPTION:\n${transcript}\n\nLITERATURE:\n${chunkContext}`
+    : chunkContext;
 
-    // Generate response using OpenAI
-    const response = await openai.chat.completions.create({
-      model: "gpt-4-turbo",
-      messages: [
-        { role: "system", content: systemMessage },
-        { role: "user", content: `Context information is below.\n\n${context}\n\nGiven the context information and not prior knowledge, answer the query: ${query}` }
-      ],
-      temperature: 0.5,
-      max_tokens: 1000
-    });
+  // Generate response with the configured LLM providers
+  const { systemPrompt, userPrompt } = renderPrompt(prompt, { context, query });
+  const response = await getLlm().chat([
+    { role: "system", content: systemPrompt + languageInstruction },
+    { role: "user", content: userPrompt }
+  ], {
+    model: CHAT_MODEL,
+    temperature: 0.5,
+    maxTokens: 1000,
+    onDelta,
+    onReset,
+    signal
+  });
 
-    return response.choices[0].message.content || 'Sorry, I could not generate a response.';
-  } catch (error) {
-    console.error('Error generating AI response:', error);
-    return 'Sorry, there was an error generating a response. Please try again.';
-  }
+  return response.content;
 }
 
 /**
  * Handle lecture-specific chat questions
  */
-async function handleLectureChat(messages: any[], context: any) {
+async function handleLectureChat(
+  request: NextRequest,
+  messages: any[],
+  context: any,
+  languageInstruction: string = '',
+  redact: boolean = false,
+  reidentify: boolean = false,
+  stream: boolean = false
+) {
   try {
     // Get the last user message
     const lastUserMessage = messages.findLast(m => m.role === 'user')?.content || '';
@@ -198,46 +215,55 @@ async function handleLectureChat(messages: any[], context: any) {
       );
     }
 
-    // Extract context information
-    const { summary, topics, resources } = context;
+    // Extract context information, redacting what the model will see
+    const { resources } = context;
+    const summary = redact && context.summary ? await redactText(context.summary) : context.summary;
+    const topics: string[] | undefined = redact && Array.isArray(context.topics)
+      ? await Promise.all(context.topics.map((topic: string) => redactText(String(topic))))
+      : context.topics;
+    const modelMessages: LlmMessage[] = await Promise.all(messages.map(async message => ({
+      role: message.role,
+      content: redact ? await redactText(String(message.content)) : String(message.content)
+    })));
     
-    // Create a context string from the lecture information
-    const contextString = `
-LECTURE SUMMARY:
-${summary || "No summary available"}
-
-KEY TOPICS:
-${topics?.join(', ') || "No topics available"}
-
-RESOURCES:
-${resources?.articles?.length ? `Articles: ${resources.articles.length}` : "No articles available"}
-${resources?.videos?.length ? `Videos: ${resources.videos.length}` : "No videos available"}
-`;
-
-    // Generate response using OpenAI
-    const response = await openai.chat.completions.create({
-      model: 'gpt-3.5-turbo',
-      messages: [
-        {
-          role: 'system',
-          content: `You are a helpful educational assistant answering questions about a lecture. 
-          Use the following lecture context to inform your answers. 
-          Be concise, accurate, and helpful. If you don't know the answer based on the context, 
-          say so and suggest resources the user might want to check.
-          
-          ${contextString}`
-        },
-        ...messages
-      ],
-      temperature: 0.7,
-      max_tokens: 500
+    // Fill in the lecture context
+    const prompt = selectPrompt('chat.lecture');
+    const { systemPrompt } = renderPrompt(prompt, {
+      summary: summary || "No summary available",
+      topics: topics?.join(', ') || "No topics available",
+      resources: [
+        resources?.articles?.length ? `Articles: ${resources.articles.length}` : "No articles available",
+        resources?.videos?.length ? `Videos: ${resources.videos.length}` : "No videos available"
+      ].join('\n')
     });
 
-    const aiResponse = response.choices[0]?.message?.content || 'Sorry, I could not generate a response.';
+    // Generate response with the configured LLM providers, passing on the answer as it is generated when asked to
+    const generate = async (onDelta?: (text: string) => void, onReset?: () => Promise<void>) => {
+      const response = await getLlm().chat([
+        { role: 'system', content: systemPrompt + languageInstruction },
+        ...modelMessages
+      ], {
+        model: 'gpt-3.5-turbo',
+        temperature: 0.7,
+        maxTokens: 500,
+        onDelta,
+        onReset,
+        signal: request.signal
+      });
 
-    return NextResponse.json({
-      response: aiResponse
-    });
+      const aiResponse = response.content || 'Sorry, I could not generate a response.';
+
+      return {
+        response: reidentify ? await reidentifyText(aiResponse) : aiResponse,
+        promptVersion: getPromptId(prompt)
+      };
+    };
+
+    if (!stream) {
+      return NextResponse.json(await generate());
+    }
+
+    return streamChatResponse(request, reidentify, generate);
   } catch (error) {
     console.error('Error handling lecture chat:', error);
     return NextResponse.json(
@@ -246,3 +272,27 @@ ${resources?.videos?.length ? `Videos: ${resources.videos.length}` : "No videos
     );
   }
 }
+
+/**
+ * Stream an answer as server-sent events, re-identified for authorized viewers,
+ * followed by a "done" event with the JSON response
+ */
+function streamChatResponse(
+  request: NextRequest,
+  reidentify: boolean,
+  generate: (onDelta: (text: string) => void, onReset: () => Promise<void>) => Promise<object>
+): Response {
+  return createEventStreamResponse(request, async (send) => {
+    const sendDelta = (delta: string) => send('delta', { text: delta });
+    const reidentifier = createStreamReidentifier(sendDelta);
+    // A retry or fallback model starts the answer over
+    const restart = async () => {
+      await reidentifier.flush();
+      send('reset', {});
+    };
+    const response = await generate(reidentify ? reidentifier.push : sendDelta, restart);
+
+    await reidentifier.flush();
+    send('done', response);
+  });
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FormatTemplatePg, PgFormatTemplate } from '@/models/postgres/FormatTemplate';
+import { validateTemplateInput } from '@/utils/formatPrompts';
+import { getRequestUser, isAdminUser, RequestUser } from '@/utils/requestUser';
+
+/**
+ * Check that the caller may see a template. Personal templates belong to one user.
+ */
+function canView(user: RequestUser, template: PgFormatTemplate): boolean {
+  return template.user_id === null || template.user_id === user.userId;
+}
+
+/**
+ * Check that the caller may change a template. Shared templates are managed by admins.
+ */
+function canModify(user: RequestUser, template: PgFormatTemplate): boolean {
+  return template.user_id === null ? isAdminUser(user) : template.user_id === user.userId;
+}
+
+/**
+ * GET /api/format-templates/[id]
+ * Retrieve a format template
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const templateId = parseInt(id);
+    
+    if (isNaN(templateId)) {
+      return NextResponse.json(
+        { error: 'Invalid template ID' },
+        { status: 400 }
+      );
+    }
+    
+    const template = await FormatTemplatePg.findById(templateId);
+    const user = await getRequestUser(request);
+    
+    if (!template || !canView(user, template)) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error('Error fetching format template:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch format template' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/format-templates/[id]
+ * Update a template's name, prompt, sections or output type
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const templateId = parseInt(id);
+    
+    if (isNaN(templateId)) {
+      return NextResponse.json(
+        { error: 'Invalid template ID' },
+        { status: 400 }
+      );
+    }
+    
+    const existing = await FormatTemplatePg.findById(templateId);
+    const user = await getRequestUser(request);
+    
+    if (!existing || !canView(user, existing)) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (!canModify(user, existing)) {
+      return NextResponse.json(
+        { error: 'Only admins can change shared templates' },
+        { status: 403 }
+      );
+    }
+    
+    const validation = validateTemplateInput(await request.json(), true);
+    
+    if ('error' in validation) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+    
+    const updated = await FormatTemplatePg.update(templateId, validation.input);
+    
+    return NextResponse.json(updated);
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      return NextResponse.json(
+        { error: 'A template with this name already exists' },
+        { status: 409 }
+      );
+    }
+    
+    console.error('Error updating format template:', error);
+    return NextResponse.json(
+      { error: 'Failed to update format template' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/format-templates/[id]
+ * Delete a format template. Outputs already generated with it are kept.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const templateId = parseInt(id);
+    
+    if (isNaN(templateId)) {
+      return NextResponse.json(
+        { error: 'Invalid template ID' },
+        { status: 400 }
+      );
+    }
+    
+    const existing = await FormatTemplatePg.findById(templateId);
+    const user = await getRequestUser(request);
+    
+    if (!existing || !canView(user, existing)) {
+      return NextResponse.json(
+        { error: 'Template not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (!canModify(user, existing)) {
+      return NextResponse.json(
+        { error: 'Only admins can delete shared templates' },
+        { status: 403 }
+      );
+    }
+    
+    await FormatTemplatePg.delete(templateId);
+    
+    return NextResponse.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting format template:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete format template' },
+      { status: 500 }
+    );
+  }
+}
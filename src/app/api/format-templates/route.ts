@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FormatTemplatePg } from '@/models/postgres/FormatTemplate';
+import { validateTemplateInput } from '@/utils/formatPrompts';
+import { getRequestUser, isAdminUser } from '@/utils/requestUser';
+
+/**
+ * GET /api/format-templates
+ * List the shared format templates and the caller's own
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const user = await getRequestUser(req);
+    const templates = await FormatTemplatePg.findAvailable(user.userId);
+    
+    return NextResponse.json({ templates, canManageShared: isAdminUser(user) });
+  } catch (error) {
+    console.error('Error fetching format templates:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch format templates' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/format-templates
+ * Create a template for the caller, or a shared one ({ shared: true }, admins only)
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const user = await getRequestUser(req);
+    
+    if (body.shared && !isAdminUser(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can create shared templates' },
+        { status: 403 }
+      );
+    }
+    
+    const validation = validateTemplateInput(body);
+    
+    if ('error' in validation) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      );
+    }
+    
+    const { name, system_prompt, sections, output_type } = validation.input;
+    const created = await FormatTemplatePg.create({
+      user_id: body.shared ? null : user.userId,
+      name: name!,
+      system_prompt: system_prompt!,
+      sections: sections || [],
+      output_type: output_type || 'markdown'
+    });
+    
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    // Unique violation: the name is already used
+    if ((error as { code?: string }).code === '23505') {
+      return NextResponse.json(
+        { error: 'A template with this name already exists' },
+        { status: 409 }
+      );
+    }
+    
+    console.error('Error creating format template:', error);
+    return NextResponse.json(
+      { error: 'Failed to create format template' },
+      { status: 500 }
+    );
+  }
+}
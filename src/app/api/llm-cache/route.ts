@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLlmCache } from '@/services/llmCache';
+import type { LlmCacheFilter } from '@/types/llmCache';
+import { getRequestUser, isAdminUser } from '@/utils/requestUser';
+
+/**
+ * GET /api/llm-cache
+ * Get the entries, size, hits, misses and hit rate of each cache namespace (admins only)
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!isAdminUser(await getRequestUser(req))) {
+      return NextResponse.json(
+        { error: 'Only admins can view the LLM cache' },
+        { status: 403 }
+      );
+    }
+
+    const cache = getLlmCache();
+    return NextResponse.json({ store: cache.storeName, namespaces: await cache.stats() });
+  } catch (error) {
+    console.error('Error fetching LLM cache stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch LLM cache stats' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/llm-cache?namespace=format&promptVersion=format.soap@1&model=gpt-4
+ * Invalidate the cached results matching every filter given (admins only).
+ * Clearing the whole cache takes all=true instead of a filter.
+ */
+export async function DELETE(req: NextRequest) {
+  try {
+    if (!isAdminUser(await getRequestUser(req))) {
+      return NextResponse.json(
+        { error: 'Only admins can invalidate the LLM cache' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(req.url);
+    const filter: LlmCacheFilter = {
+      namespace: searchParams.get('namespace') || undefined,
+      promptVersion: searchParams.get('promptVersion') || undefined,
+      model: searchParams.get('model') || undefined
+    };
+
+    if (!filter.namespace && !filter.promptVersion && !filter.model && searchParams.get('all') !== 'true') {
+      return NextResponse.json(
+        { error: 'Give a namespace, promptVersion or model, or all=true to clear the whole cache' },
+        { status: 400 }
+      );
+    }
+
+    const removed = await getLlmCache().invalidate(filter);
+    console.log(`LLM cache: Invalidated ${removed} entries`, filter);
+
+    return NextResponse.json({ removed });
+  } catch (error) {
+    console.error('Error invalidating the LLM cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to invalidate the LLM cache' },
+      { status: 500 }
+    );
+  }
+}
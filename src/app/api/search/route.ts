@@ -1,15 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ArticleChunkPg } from '@/models/postgres/ArticleChunk';
+import { TranscriptionChunkPg } from '@/models/postgres/TranscriptionChunk';
 import { generateEmbedding as generateEmbeddingService } from '@/services/embedding';
+import { canReidentify, isRedactionEnabled, redactText, reidentifyText, shouldRedact } from '@/services/redaction';
+import { getRequestUser } from '@/utils/requestUser';
+
+type SearchScope = 'articles' | 'transcriptions' | 'both';
+
+const SCOPES: SearchScope[] = ['articles', 'transcriptions', 'both'];
 
 /**
  * POST /api/search
- * Perform semantic search using embeddings with PostgreSQL
+ * Perform semantic search using embeddings with PostgreSQL.
+ * Body: { query, limit, scope } where scope is 'articles' (default),
+ * 'transcriptions' or 'both', plus an optional userType to search only
+ * transcriptions of that type. Results are ordered by distance.
  */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { query, limit = 5 } = body;
+    const { query, limit = 5, scope = 'articles', userType } = body;
     
     if (!query) {
       return NextResponse.json(
@@ -18,16 +28,36 @@ export async function POST(req: NextRequest) {
       );
     }
     
+    if (!SCOPES.includes(scope)) {
+      return NextResponse.json(
+        { error: `Scope must be one of: ${SCOPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    // Redacted transcriptions are embedded with tokens in place of personal details, so the
+    // query is redacted in the same way before it reaches the embedding provider. Without a
+    // user type, transcriptions of any type may be searched.
+    const filterUserType = typeof userType === 'string' && userType ? userType : undefined;
+    const redact = filterUserType ? shouldRedact(filterUserType) : isRedactionEnabled();
+    const modelQuery = redact ? await redactText(String(query)) : String(query);
+    
     // Generate embedding for the query
-    console.log(`Generating embedding for query: "${query}"`);
-    const embedding = await generateEmbeddingService(query);
+    console.log(`Generating embedding for a query of length ${modelQuery.length}`);
+    const embedding = await generateEmbeddingService(modelQuery);
     
     // Perform vector search
-    console.log('Performing vector search with PostgreSQL');
-    const results = await ArticleChunkPg.vectorSearch(embedding, limit);
+    console.log(`Performing vector search with PostgreSQL over ${scope}`);
+    const [articleResults, transcriptionResults] = await Promise.all([
+      scope === 'transcriptions' ? [] : ArticleChunkPg.vectorSearch(embedding, limit),
+      scope === 'articles'
+        ? []
+        : TranscriptionChunkPg.vectorSearch(embedding, limit, filterUserType)
+    ]);
     
     // Format the results
-    const formattedResults = results.map(result => ({
+    const formattedArticles = articleResults.map(result => ({
+      type: 'article' as const,
       chunkId: result.chunk_id,
       articleId: result.article_id,
       content: result.content,
@@ -42,9 +72,30 @@ export async function POST(req: NextRequest) {
       }
     }));
     
+    // Redacted details are restored only for authorized viewers
+    const reidentify = canReidentify(await getRequestUser(req));
+    const formattedTranscriptions = await Promise.all(transcriptionResults.map(async result => ({
+      type: 'transcription' as const,
+      chunkId: result.chunk_id,
+      transcriptionId: result.transcription_id,
+      content: reidentify ? await reidentifyText(result.content) : result.content,
+      chunkIndex: result.chunk_index,
+      distance: result.distance,
+      transcription: {
+        userType: result.user_type,
+        purpose: result.purpose,
+        createdAt: result.created_at
+      }
+    })));
+    
+    const results = [...formattedArticles, ...formattedTranscriptions]
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+    
     return NextResponse.json({
-      results: formattedResults,
-      query
+      results,
+      query,
+      scope
     });
   } catch (error) {
     console.error('Error performing semantic search:', error);
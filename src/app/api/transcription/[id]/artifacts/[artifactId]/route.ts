@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionArtifactPg } from '@/models/postgres/TranscriptionArtifact';
+import { toViewerArtifacts } from '@/services/artifacts';
+import { canReidentify } from '@/services/redaction';
+import { getRequestUser } from '@/utils/requestUser';
+
+/**
+ * GET /api/transcription/[id]/artifacts/[artifactId]
+ * Retrieve one version of an artifact
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; artifactId: string }> }
+) {
+  try {
+    const { id, artifactId } = await context.params;
+    const transcriptionId = parseInt(id);
+    const artifactIdNumber = parseInt(artifactId);
+    
+    if (isNaN(transcriptionId) || isNaN(artifactIdNumber)) {
+      return NextResponse.json(
+        { error: 'Invalid artifact ID' },
+        { status: 400 }
+      );
+    }
+    
+    const artifact = await TranscriptionArtifactPg.findById(artifactIdNumber);
+    
+    if (!artifact || artifact.transcription_id !== transcriptionId) {
+      return NextResponse.json(
+        { error: 'Artifact not found' },
+        { status: 404 }
+      );
+    }
+    
+    const [visible] = await toViewerArtifacts([artifact], canReidentify(await getRequestUser(request)));
+    return NextResponse.json(visible);
+  } catch (error) {
+    console.error('Error fetching transcription artifact:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transcription artifact' },
+      { status: 500 }
+    );
+  }
+}
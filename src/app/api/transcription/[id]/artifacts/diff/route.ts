@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionArtifactPg } from '@/models/postgres/TranscriptionArtifact';
+import { toViewerArtifacts } from '@/services/artifacts';
+import { canReidentify } from '@/services/redaction';
+import { diffLines, getArtifactText } from '@/utils/artifacts';
+import { getRequestUser } from '@/utils/requestUser';
+
+/**
+ * GET /api/transcription/[id]/artifacts/diff?type=SOAP&from=1&to=2
+ * Compare two versions of an artifact line by line. "to" defaults to the
+ * latest version and "from" to the version before "to".
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const transcriptionId = parseInt(id);
+    
+    if (isNaN(transcriptionId)) {
+      return NextResponse.json(
+        { error: 'Invalid transcription ID' },
+        { status: 400 }
+      );
+    }
+    
+    const { searchParams } = request.nextUrl;
+    const type = searchParams.get('type');
+    
+    if (!type) {
+      return NextResponse.json(
+        { error: 'Artifact type is required' },
+        { status: 400 }
+      );
+    }
+    
+    const versions = await TranscriptionArtifactPg.findVersions(transcriptionId, type);
+    
+    if (versions.length === 0) {
+      return NextResponse.json(
+        { error: 'Artifact not found' },
+        { status: 404 }
+      );
+    }
+    
+    const to = searchParams.has('to') ? parseInt(searchParams.get('to') || '') : versions[0].version;
+    const from = searchParams.has('from') ? parseInt(searchParams.get('from') || '') : to - 1;
+    
+    if (isNaN(from) || isNaN(to)) {
+      return NextResponse.json(
+        { error: 'Versions must be numbers' },
+        { status: 400 }
+      );
+    }
+    
+    const before = versions.find(artifact => artifact.version === from);
+    const after = versions.find(artifact => artifact.version === to);
+    
+    if (!before || !after) {
+      return NextResponse.json(
+        { error: `Version ${!before ? from : to} of ${type} not found` },
+        { status: 404 }
+      );
+    }
+    
+    const [visibleBefore, visibleAfter] = await toViewerArtifacts(
+      [before, after],
+      canReidentify(await getRequestUser(request))
+    );
+    
+    return NextResponse.json({
+      type,
+      from: visibleBefore,
+      to: visibleAfter,
+      changes: diffLines(getArtifactText(visibleBefore), getArtifactText(visibleAfter))
+    });
+  } catch (error) {
+    console.error('Error comparing transcription artifacts:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare transcription artifacts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionPg } from '@/models/postgres/Transcription';
+import { TranscriptionArtifactPg } from '@/models/postgres/TranscriptionArtifact';
+import { toViewerArtifacts } from '@/services/artifacts';
+import { canReidentify } from '@/services/redaction';
+import { LECTURE_SUMMARY_ARTIFACT } from '@/utils/artifacts';
+import { getRequestUser } from '@/utils/requestUser';
+import { insertSectionMarkers } from '@/utils/voiceCommands';
+
+/**
+ * POST /api/transcription/[id]/artifacts/regenerate
+ * Generate a new version of an artifact from the saved transcription.
+ * Body: { type, targetLanguage? } where type is an output format such as
+ * "SOAP", or "Lecture Summary".
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const transcriptionId = parseInt(id);
+    
+    if (isNaN(transcriptionId)) {
+      return NextResponse.json(
+        { error: 'Invalid transcription ID' },
+        { status: 400 }
+      );
+    }
+    
+    const { type, targetLanguage } = await request.json();
+    
+    if (!type || typeof type !== 'string') {
+      return NextResponse.json(
+        { error: 'Artifact type is required' },
+        { status: 400 }
+      );
+    }
+    
+    const transcription = await TranscriptionPg.findById(transcriptionId);
+    
+    if (!transcription) {
+      return NextResponse.json(
+        { error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+    
+    // Generate through the same route the app uses, so the new version is
+    // produced and recorded exactly as it would be from the recorder; the
+    // caller's session goes along so the version is recorded against them
+    const user = await getRequestUser(request);
+    const isSummary = type === LECTURE_SUMMARY_ARTIFACT;
+    const response = await fetch(
+      new URL(`/api/transcription/${isSummary ? 'summarize' : 'format'}`, request.url),
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(request.headers.get('cookie') ? { cookie: request.headers.get('cookie')! } : {}),
+          ...(request.headers.get('authorization') ? { authorization: request.headers.get('authorization')! } : {}),
+        },
+        body: JSON.stringify({
+          text: insertSectionMarkers(transcription.text, transcription.metadata?.sections || []),
+          ...(isSummary ? {} : { format: type }),
+          userType: transcription.user_type,
+          sourceLanguage: transcription.metadata?.language,
+          targetLanguage,
+          transcriptionId,
+          regenerate: true,
+        }),
+      }
+    );
+    
+    const result = await response.json().catch(() => ({}));
+    
+    if (!response.ok || !result.artifact) {
+      console.error('Error regenerating artifact:', result);
+      return NextResponse.json(
+        { error: result.error || 'Failed to regenerate artifact' },
+        { status: 502 }
+      );
+    }
+    
+    const artifact = await TranscriptionArtifactPg.findById(result.artifact.id);
+    
+    if (!artifact) {
+      return NextResponse.json(
+        { error: 'Failed to regenerate artifact' },
+        { status: 500 }
+      );
+    }
+    
+    const [visible] = await toViewerArtifacts([artifact], canReidentify(user));
+    return NextResponse.json(visible, { status: 201 });
+  } catch (error) {
+    console.error('Error regenerating transcription artifact:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate transcription artifact' },
+      { status: 500 }
+    );
+  }
+}
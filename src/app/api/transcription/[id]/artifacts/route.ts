@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionArtifactPg } from '@/models/postgres/TranscriptionArtifact';
+import { saveArtifact, toViewerArtifacts } from '@/services/artifacts';
+import { canReidentify } from '@/services/redaction';
+import { isClinicalNoteFormat, renderClinicalNote, validateClinicalNote } from '@/utils/clinicalNote';
+import { getRequestUser } from '@/utils/requestUser';
+
+/**
+ * GET /api/transcription/[id]/artifacts
+ * List the latest version of each artifact generated from a transcription,
+ * or every version of one artifact with ?type=SOAP (newest first)
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const transcriptionId = parseInt(id);
+    
+    if (isNaN(transcriptionId)) {
+      return NextResponse.json(
+        { error: 'Invalid transcription ID' },
+        { status: 400 }
+      );
+    }
+    
+    const type = request.nextUrl.searchParams.get('type');
+    const artifacts = type
+      ? await TranscriptionArtifactPg.findVersions(transcriptionId, type)
+      : await TranscriptionArtifactPg.findLatestByTranscriptionId(transcriptionId);
+    
+    return NextResponse.json({
+      artifacts: await toViewerArtifacts(artifacts, canReidentify(await getRequestUser(request)))
+    });
+  } catch (error) {
+    console.error('Error fetching transcription artifacts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transcription artifacts' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/transcription/[id]/artifacts
+ * Save an edited structured note as a new version of its artifact.
+ * Body: { type, data } where type is "SOAP" or "Clinical Summary" and data
+ * matches the clinical note schema.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const transcriptionId = parseInt(id);
+    
+    if (isNaN(transcriptionId)) {
+      return NextResponse.json(
+        { error: 'Invalid transcription ID' },
+        { status: 400 }
+      );
+    }
+    
+    const { type, data } = await request.json();
+    
+    if (typeof type !== 'string' || !isClinicalNoteFormat(type)) {
+      return NextResponse.json(
+        { error: 'Only SOAP and Clinical Summary notes can be edited' },
+        { status: 400 }
+      );
+    }
+    
+    const { note, errors } = validateClinicalNote(data, type);
+    
+    if (!note) {
+      return NextResponse.json(
+        { error: 'Invalid clinical note', details: errors },
+        { status: 400 }
+      );
+    }
+    
+    const user = await getRequestUser(request);
+    const artifact = await saveArtifact({
+      transcriptionId,
+      type,
+      content: renderClinicalNote(note),
+      data: note,
+      createdBy: user.userId
+    });
+    
+    if (!artifact) {
+      return NextResponse.json(
+        { error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+    
+    const [visible] = await toViewerArtifacts([artifact], canReidentify(user));
+    return NextResponse.json(visible, { status: 201 });
+  } catch (error) {
+    console.error('Error saving transcription artifact:', error);
+    return NextResponse.json(
+      { error: 'Failed to save transcription artifact' },
+      { status: 500 }
+    );
+  }
+}
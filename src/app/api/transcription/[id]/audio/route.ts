@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionPg } from '@/models/postgres/Transcription';
+import { getStorage } from '@/services/storage';
+import type { AudioMetadata } from '@/types/transcript';
+
+// Largest recording accepted, in megabytes
+const MAX_UPLOAD_MB = parseInt(process.env.AUDIO_UPLOAD_MAX_MB || '100');
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+/**
+ * Parse a single "bytes=start-end" range against an object size
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(size - parseInt(match[2]), 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] ? Math.min(parseInt(match[2]), size - 1) : size - 1;
+  }
+
+  return start <= end && start < size ? { start, end } : null;
+}
+
+/**
+ * GET /api/transcription/[id]/audio
+ * Stream the recorded audio for a transcription (supports Range requests for seeking)
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const transcriptionId = parseInt(id);
+    
+    if (isNaN(transcriptionId)) {
+      return NextResponse.json(
+        { error: 'Invalid transcription ID' },
+        { status: 400 }
+      );
+    }
+    
+    const transcription = await TranscriptionPg.findById(transcriptionId);
+    const audio: AudioMetadata | undefined = transcription?.metadata?.audio;
+    
+    if (!audio) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+    
+    const stored = await getStorage().read(audio.key);
+    
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Recording not found' },
+        { status: 404 }
+      );
+    }
+    
+    const rangeHeader = request.headers.get('range');
+    
+    if (rangeHeader) {
+      const range = parseRange(rangeHeader, stored.size);
+      
+      if (!range) {
+        return new NextResponse(null, {
+          status: 416,
+          headers: { 'Content-Range': `bytes */${stored.size}` }
+        });
+      }
+      
+      return new NextResponse(new Uint8Array(stored.data.subarray(range.start, range.end + 1)), {
+        status: 206,
+        headers: {
+          'Content-Type': stored.contentType,
+          'Content-Length': String(range.end - range.start + 1),
+          'Content-Range': `bytes ${range.start}-${range.end}/${stored.size}`,
+          'Accept-Ranges': 'bytes'
+        }
+      });
+    }
+    
+    return new NextResponse(new Uint8Array(stored.data), {
+      headers: {
+        'Content-Type': stored.contentType,
+        'Content-Length': String(stored.size),
+        'Accept-Ranges': 'bytes'
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching recording:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recording' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/transcription/[id]/audio
+ * Upload the recorded audio for a transcription as multipart field "audio"
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const transcriptionId = parseInt(id);
+    
+    if (isNaN(transcriptionId)) {
+      return NextResponse.json(
+        { error: 'Invalid transcription ID' },
+        { status: 400 }
+      );
+    }
+    
+    const formData = await request.formData();
+    const file = formData.get('audio');
+    
+    if (!(file instanceof Blob) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'An audio file is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+      return NextResponse.json(
+        { error: `Recording exceeds the ${MAX_UPLOAD_MB} MB limit` },
+        { status: 413 }
+      );
+    }
+    
+    const transcription = await TranscriptionPg.findById(transcriptionId);
+    
+    if (!transcription) {
+      return NextResponse.json(
+        { error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+    
+    // Strip codec parameters, e.g. "audio/webm;codecs=opus"
+    const contentType = file.type || 'audio/webm';
+    const extension = EXTENSIONS[contentType.split(';')[0]] || 'bin';
+    const key = `transcriptions/${transcriptionId}/recording.${extension}`;
+    
+    const storage = getStorage();
+    const previous: AudioMetadata | undefined = transcription.metadata?.audio;
+    
+    await storage.save(key, Buffer.from(await file.arrayBuffer()), contentType);
+    
+    if (previous && previous.key !== key) {
+      await storage.delete(previous.key);
+    }
+    
+    const audio: AudioMetadata = {
+      key,
+      contentType,
+      size: file.size,
+      uploadedAt: new Date().toISOString()
+    };
+    
+    const updated = await TranscriptionPg.update(transcriptionId, {
+      metadata: { ...transcription.metadata, audio }
+    });
+    
+    return NextResponse.json(updated, { status: 201 });
+  } catch (error) {
+    console.error('Error uploading recording:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload recording' },
+      { status: 500 }
+    );
+  }
+}
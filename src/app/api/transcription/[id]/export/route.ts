@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionPg } from '@/models/postgres/Transcription';
+import { TranscriptionArtifactPg } from '@/models/postgres/TranscriptionArtifact';
+import { toViewerArtifacts } from '@/services/artifacts';
+import {
+  buildArtifactDocument,
+  buildTranscriptDocument,
+  ExportFile,
+  isExportFormat,
+  renderExport,
+  renderSubtitles
+} from '@/services/export';
+import { canReidentify, reidentifyTranscription } from '@/services/redaction';
+import { getRequestUser } from '@/utils/requestUser';
+
+/**
+ * GET /api/transcription/[id]/export?format=pdf
+ * Download the transcript as pdf, docx, md or txt, or as srt or vtt
+ * subtitles when it has word timings. With ?artifact=SOAP the latest
+ * version of that artifact is exported instead (or ?version=2).
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const transcriptionId = parseInt(id);
+
+    if (isNaN(transcriptionId)) {
+      return NextResponse.json(
+        { error: 'Invalid transcription ID' },
+        { status: 400 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get('format');
+    const artifactType = searchParams.get('artifact');
+    const versionParam = searchParams.get('version');
+    const version = versionParam ? parseInt(versionParam) : null;
+
+    if (!isExportFormat(format)) {
+      return NextResponse.json(
+        { error: 'format must be one of pdf, docx, md, txt, srt or vtt' },
+        { status: 400 }
+      );
+    }
+
+    if (version !== null && (isNaN(version) || !artifactType)) {
+      return NextResponse.json(
+        { error: 'version requires an artifact type and must be a number' },
+        { status: 400 }
+      );
+    }
+
+    const stored = await TranscriptionPg.findById(transcriptionId);
+
+    if (!stored) {
+      return NextResponse.json(
+        { error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+
+    const reidentify = canReidentify(await getRequestUser(request));
+    const transcription = reidentify ? await reidentifyTranscription(stored) : stored;
+    let file: ExportFile | null;
+    let filename = `transcription-${transcriptionId}`;
+
+    if (format === 'srt' || format === 'vtt') {
+      if (artifactType) {
+        return NextResponse.json(
+          { error: 'Subtitles can only be exported for the transcript' },
+          { status: 400 }
+        );
+      }
+
+      file = renderSubtitles(transcription, format);
+
+      if (!file) {
+        return NextResponse.json(
+          { error: 'This transcription has no word timings to build subtitles from' },
+          { status: 400 }
+        );
+      }
+    } else if (artifactType) {
+      const artifact = version !== null
+        ? await TranscriptionArtifactPg.findVersion(transcriptionId, artifactType, version)
+        : (await TranscriptionArtifactPg.findVersions(transcriptionId, artifactType))[0];
+
+      if (!artifact) {
+        return NextResponse.json(
+          { error: 'Artifact not found' },
+          { status: 404 }
+        );
+      }
+
+      const [visible] = await toViewerArtifacts([artifact], reidentify);
+      file = renderExport(buildArtifactDocument(transcription, visible), format);
+      filename += `-${artifactType.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}-v${artifact.version}`;
+    } else {
+      file = renderExport(buildTranscriptDocument(transcription), format);
+    }
+
+    const body = typeof file.body === 'string' ? Buffer.from(file.body, 'utf8') : file.body;
+    return new NextResponse(new Uint8Array(body), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Length': String(body.length),
+        'Content-Disposition': `attachment; filename="${filename}.${format}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting transcription:', error);
+    return NextResponse.json(
+      { error: 'Failed to export transcription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionEditPg } from '@/models/postgres/TranscriptionEdit';
+import { canReidentify, reidentifyValue } from '@/services/redaction';
+import { getRequestUser } from '@/utils/requestUser';
+
+/**
+ * GET /api/transcription/[id]/history
+ * List the edits made to a transcription, most recent first. Redacted details
+ * are restored only for users listed in REDACTION_AUTHORIZED_USERS.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const transcriptionId = parseInt(id);
+    
+    if (isNaN(transcriptionId)) {
+      return NextResponse.json(
+        { error: 'Invalid transcription ID' },
+        { status: 400 }
+      );
+    }
+    
+    const edits = await TranscriptionEditPg.findByTranscriptionId(transcriptionId);
+    
+    if (canReidentify(await getRequestUser(request))) {
+      const visible = await reidentifyValue(edits.map(({ previous_text, new_text, corrections }) => ({
+        previous_text,
+        new_text,
+        corrections
+      })));
+      
+      return NextResponse.json({ edits: edits.map((edit, index) => ({ ...edit, ...visible[index] })) });
+    }
+    
+    return NextResponse.json({ edits });
+  } catch (error) {
+    console.error('Error fetching transcription history:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transcription history' },
+      { status: 500 }
+    );
+  }
+}
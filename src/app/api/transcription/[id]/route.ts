@@ -1,10 +1,17 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { after, NextRequest, NextResponse } from 'next/server';
 import { executeQuery } from '@/lib/postgres';
 import { getTranscriptionById } from '@/lib/db';
+import { getStorage } from '@/services/storage';
+import { TranscriptionPg, PgTranscription } from '@/models/postgres/Transcription';
+import { TranscriptionEditPg } from '@/models/postgres/TranscriptionEdit';
+import { canReidentify, redactTranscription, redactValue, reidentifyTranscription, shouldRedact } from '@/services/redaction';
+import { enqueueTranscriptionIndexing, processTranscriptionIndexQueue } from '@/services/transcriptionIndex';
+import { getRequestUser } from '@/utils/requestUser';
 
 /**
  * GET /api/transcription/[id]
- * Retrieve a specific transcription by ID
+ * Retrieve a specific transcription by ID. Redacted details are restored
+ * only for users listed in REDACTION_AUTHORIZED_USERS.
  */
 export async function GET(
   request: NextRequest,
@@ -30,6 +37,10 @@ export async function GET(
       );
     }
     
+    if (canReidentify(await getRequestUser(request))) {
+      return NextResponse.json(await reidentifyTranscription(transcription));
+    }
+    
     return NextResponse.json(transcription);
   } catch (error) {
     console.error('Error fetching transcription:', error);
@@ -42,7 +53,8 @@ export async function GET(
 
 /**
  * PUT /api/transcription/[id]
- * Update a specific transcription
+ * Update a specific transcription. Text changes are recorded in the edit
+ * history along with any word-level corrections.
  */
 export async function PUT(
   request: NextRequest,
@@ -60,40 +72,76 @@ export async function PUT(
       );
     }
     
+    const { text, metadata, words, corrections } = body;
+    
+    if (text !== undefined && (typeof text !== 'string' || !text.trim())) {
+      return NextResponse.json(
+        { error: 'Transcription text cannot be empty' },
+        { status: 400 }
+      );
+    }
+    
     // Check if transcription exists
-    const checkResult = await executeQuery(
-      'SELECT * FROM transcriptions WHERE id = $1',
-      [transcriptionId]
-    );
+    const existing = await TranscriptionPg.findById(transcriptionId);
     
-    // Check if the result has any rows
-    if (!checkResult || !Array.isArray(checkResult) || checkResult.length === 0) {
+    if (!existing) {
       return NextResponse.json(
         { error: 'Transcription not found' },
         { status: 404 }
       );
     }
     
-    // Update transcription
-    const { text, metadata } = body;
+    // Keep existing metadata unless it is replaced, then apply corrected word timings
+    let updatedMetadata = metadata !== undefined ? metadata : existing.metadata;
+    if (Array.isArray(words)) {
+      updatedMetadata = { ...updatedMetadata, words };
+    }
     
-    const updateResult = await executeQuery(
-      `UPDATE transcriptions 
-       SET content = $1, metadata = $2, updated_at = NOW()
-       WHERE id = $3
-       RETURNING *`,
-      [text, metadata, transcriptionId]
-    );
+    // Edits may bring back details that were redacted when the transcription was saved
+    let updatedText: string | undefined = text;
+    let updatedCorrections = Array.isArray(corrections) ? corrections : undefined;
+    if (shouldRedact(existing.user_type)) {
+      const redacted = await redactTranscription({ text: text ?? '', metadata: updatedMetadata });
+      updatedText = text !== undefined ? redacted.text : undefined;
+      updatedMetadata = redacted.metadata;
+      updatedCorrections = updatedCorrections && await redactValue(updatedCorrections);
+    }
+    
+    // Record the edit before overwriting the text
+    if (updatedText !== undefined && updatedText !== existing.text) {
+      await TranscriptionEditPg.create({
+        transcription_id: transcriptionId,
+        previous_text: existing.text,
+        new_text: updatedText,
+        corrections: updatedCorrections,
+        edited_by: (await getRequestUser(request)).userId
+      });
+    }
+    
+    const updated = await TranscriptionPg.update(transcriptionId, {
+      text: updatedText,
+      metadata: updatedMetadata
+    });
     
     // Check if the update was successful
-    if (!updateResult || !Array.isArray(updateResult) || updateResult.length === 0) {
+    if (!updated) {
       return NextResponse.json(
         { error: 'Failed to update transcription' },
         { status: 500 }
       );
     }
     
-    return NextResponse.json(updateResult[0]);
+    // Reindexed for semantic search once the response is sent
+    if (updatedText !== undefined && updatedText !== existing.text) {
+      await enqueueTranscriptionIndexing(transcriptionId);
+      after(processTranscriptionIndexQueue);
+    }
+    
+    if (canReidentify(await getRequestUser(request))) {
+      return NextResponse.json(await reidentifyTranscription(updated));
+    }
+    
+    return NextResponse.json(updated);
   } catch (error) {
     console.error('Error updating transcription:', error);
     return NextResponse.json(
@@ -123,7 +171,7 @@ export async function DELETE(
     }
     
     // Check if transcription exists
-    const checkResult = await executeQuery(
+    const checkResult = await executeQuery<PgTranscription>(
       'SELECT * FROM transcriptions WHERE id = $1',
       [transcriptionId]
     );
@@ -142,6 +190,14 @@ export async function DELETE(
       [transcriptionId]
     );
     
+    // Remove the stored recording, if any
+    const audioKey = checkResult[0].metadata?.audio?.key;
+    if (audioKey) {
+      await getStorage().delete(audioKey).catch(err => {
+        console.error('Error deleting recording:', err);
+      });
+    }
+    
     return NextResponse.json({ message: 'Transcription deleted successfully' });
   } catch (error) {
     console.error('Error deleting transcription:', error);
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TranscriptionPg } from '@/models/postgres/Transcription';
+import type { DiarizationMetadata } from '@/types/transcript';
+
+/**
+ * PUT /api/transcription/[id]/speakers
+ * Rename speakers in a diarized transcription
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const transcriptionId = parseInt(id);
+    
+    if (isNaN(transcriptionId)) {
+      return NextResponse.json(
+        { error: 'Invalid transcription ID' },
+        { status: 400 }
+      );
+    }
+    
+    const { speakerNames } = await request.json();
+    
+    if (!speakerNames || typeof speakerNames !== 'object' || Array.isArray(speakerNames)) {
+      return NextResponse.json(
+        { error: 'speakerNames must be an object keyed by speaker number' },
+        { status: 400 }
+      );
+    }
+    
+    const transcription = await TranscriptionPg.findById(transcriptionId);
+    
+    if (!transcription) {
+      return NextResponse.json(
+        { error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+    
+    const metadata = transcription.metadata || {};
+    const diarization: DiarizationMetadata | undefined = metadata.diarization;
+    
+    if (!diarization) {
+      return NextResponse.json(
+        { error: 'Transcription has no speaker information' },
+        { status: 400 }
+      );
+    }
+    
+    // Merge names, dropping blank entries so the default label is restored
+    const mergedNames: Record<string, string> = { ...diarization.speakerNames };
+    Object.entries(speakerNames).forEach(([speaker, name]) => {
+      if (typeof name === 'string' && name.trim()) {
+        mergedNames[speaker] = name.trim();
+      } else {
+        delete mergedNames[speaker];
+      }
+    });
+    
+    const updated = await TranscriptionPg.update(transcriptionId, {
+      metadata: {
+        ...metadata,
+        diarization: { ...diarization, speakerNames: mergedNames }
+      }
+    });
+    
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error('Error renaming speakers:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename speakers' },
+      { status: 500 }
+    );
+  }
+}
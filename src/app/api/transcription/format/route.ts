@@ -1,36 +1,50 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Simple in-memory cache for formatted responses
-interface CacheEntry {
-  formattedText: string;
-  timestamp: number;
-}
-
-const formatCache = new Map<string, CacheEntry>();
-const CACHE_TTL = 1000 * 60 * 30; // 30 minutes cache TTL
-
-// Generate a cache key from request parameters
-function generateCacheKey(text: string, format: string, userType: string): string {
-  // Use a hash of the text to avoid extremely long keys
-  const textHash = text.split('').reduce((hash, char) => {
-    return ((hash << 5) - hash) + char.charCodeAt(0) | 0;
-  }, 0);
-  
-  return `${textHash}_${format}_${userType}`;
+import { FormatTemplatePg } from '@/models/postgres/FormatTemplate';
+import { saveArtifact } from '@/services/artifacts';
+import { FormatResult, formatTranscription, selectFormatModel } from '@/services/formatting';
+import { getLlmCache, LlmCacheKey } from '@/services/llmCache';
+import { canReidentify, createStreamReidentifier, redactText, reidentifyText, reidentifyValue, shouldRedactRequest } from '@/services/redaction';
+import { isClinicalNoteFormat } from '@/utils/clinicalNote';
+import { BUILT_IN_OUTPUT_TYPES, BuiltInFormat, FORMAT_MERGE_PROMPT_NAME, getFormatPromptName, isBuiltInFormat } from '@/utils/formatPrompts';
+import { getLanguageInstruction } from '@/utils/language';
+import { getPromptId, selectPrompt } from '@/utils/prompts';
+import { createEventStreamResponse, wantsEventStream } from '@/utils/eventStream';
+import { REDACTION_INSTRUCTION } from '@/utils/redaction';
+import { getRequestUser } from '@/utils/requestUser';
+
+// Where a streamed request sends text as it is generated
+interface FormatOutput {
+  onDelta: (text: string) => void;
+  // Called before a retry or fallback, which starts the text over
+  restart: () => Promise<void>;
+}
+
+// A formatted result as cached, with the model that produced it
+interface CachedFormat extends FormatResult {
+  model: string;
 }
 
 /**
  * POST /api/transcription/format
- * Format a transcription based on the specified format and user type
+ * Format a transcription based on the specified format and user type.
+ * Personal details are redacted before the text reaches a model.
+ * With a transcriptionId the result is saved as a version of that
+ * transcription's artifact for the format; regenerate skips the cache.
+ * SOAP and Clinical Summary are also returned as a structured note.
+ * Any other format names one of the caller's templates or a shared one.
+ * Prompts come from the prompt registry; the version chosen for the
+ * request is returned as promptVersion and saved with the artifact.
+ * With stream: true the text is sent as server-sent events while it is
+ * generated, followed by a "done" event with the usual JSON response.
  */
 export async function POST(req: NextRequest) {
   console.log('Format API called with request:', req.url);
   
   try {
     const body = await req.json();
-    console.log('Request body:', body);
-    
-    const { text, format, userType } = body;
+    const { text, format, userType, sourceLanguage, targetLanguage, transcriptionId, regenerate } = body;
+    console.log(`Format: ${format}, User type: ${userType}, Text length: ${typeof text === 'string' ? text.length : 0}`);
+    const languageInstruction = getLanguageInstruction(sourceLanguage, targetLanguage);
     
     if (!text) {
       console.log('Error: Transcription text is required');
@@ -48,93 +62,142 @@ export async function POST(req: NextRequest) {
       );
     }
     
-    // Check cache first
-    const cacheKey = generateCacheKey(text, format, userType);
-    const cachedResult = formatCache.get(cacheKey);
-    const now = Date.now();
+    // Models only see redacted text; the output is re-identified for authorized viewers
+    const redact = await shouldRedactRequest(transcriptionId);
+    
+    if (redact === null) {
+      return NextResponse.json(
+        { error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+    
+    const modelText = redact ? await redactText(text) : text;
+    const promptInstruction = languageInstruction + (redact ? REDACTION_INSTRUCTION : '');
+    const user = await getRequestUser(req);
+    const reidentify = redact && canReidentify(user);
+    
+    const template = isBuiltInFormat(format) ? null : await FormatTemplatePg.findByName(format, user.userId);
+    
+    if (!isBuiltInFormat(format) && !template) {
+      return NextResponse.json(
+        { error: `Unknown format "${format}"` },
+        { status: 400 }
+      );
+    }
     
-    if (cachedResult && (now - cachedResult.timestamp) < CACHE_TTL) {
+    // Outputs are recorded against the prompt version chosen for this request,
+    // and template outputs also against the template version
+    const prompt = selectPrompt(getFormatPromptName(format, template));
+    const mergePrompt = selectPrompt(FORMAT_MERGE_PROMPT_NAME);
+    const promptVersion = template
+      ? `${getPromptId(prompt)}+template-${template.id}-v${template.version}`
+      : getPromptId(prompt);
+    const outputType = template ? template.output_type : BUILT_IN_OUTPUT_TYPES[format as BuiltInFormat];
+    
+    // Keep the output as the next version of the transcription's artifact
+    const recordArtifact = async ({ formattedText, structured }: FormatResult, model: string) => {
+      if (typeof transcriptionId !== 'number') return null;
+      
+      try {
+        const artifact = await saveArtifact({
+          transcriptionId,
+          type: template ? template.name : format,
+          content: formattedText,
+          data: structured,
+          model,
+          promptVersion,
+          createdBy: user.userId
+        });
+        return artifact && { id: artifact.id, version: artifact.version };
+      } catch (error) {
+        console.error('Error saving formatted artifact:', error);
+        return null;
+      }
+    };
+    
+    // Check the shared cache first
+    const cacheKey: LlmCacheKey = {
+      namespace: 'format',
+      promptVersion,
+      model: selectFormatModel(modelText),
+      input: { text: modelText, format, userType, languageInstruction: promptInstruction }
+    };
+    const cached = regenerate ? null : await getLlmCache().get<CachedFormat>(cacheKey);
+    
+    if (cached) {
       console.log('Cache hit! Returning cached formatted text');
+      const cachedResult = cached.value;
       return NextResponse.json({
-        formattedText: cachedResult.formattedText,
+        formattedText: reidentify ? await reidentifyText(cachedResult.formattedText) : cachedResult.formattedText,
+        structured: reidentify ? await reidentifyValue(cachedResult.structured ?? null) : cachedResult.structured ?? null,
         originalText: text,
         format,
+        outputType,
+        model: cachedResult.model,
+        promptVersion,
+        artifact: await recordArtifact(cachedResult, cachedResult.model),
         fromCache: true
       });
     }
     
     console.log('Cache miss or expired. Generating new formatted text.');
-    let formattedText = '';
-    
-    // Check if OpenAI API key is configured (standard API takes precedence)
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    const openaiModel = process.env.OPENAI_MODEL || 'gpt-4';
-    
-    console.log('OpenAI API Key available:', !!openaiApiKey);
-    console.log('OpenAI Model:', openaiModel);
-    
-    // Fallback to Azure OpenAI if standard OpenAI is not configured
-    const azureApiKey = process.env.AZURE_OPENAI_API_KEY;
-    const azureEndpoint = process.env.AZURE_OPENAI_ENDPOINT;
-    const azureDeploymentName = process.env.AZURE_OPENAI_DEPLOYMENT_NAME;
-    
-    console.log('Azure OpenAI available:', !!(azureApiKey && azureEndpoint && azureDeploymentName));
     
-    if (openaiApiKey) {
-      // Use standard OpenAI API for formatting
-      try {
-        console.log('Attempting to format with OpenAI...');
-        formattedText = await formatWithOpenAI(text, format, userType, openaiApiKey, openaiModel);
-        console.log('OpenAI formatting successful');
-      } catch (error) {
-        console.error('Error with OpenAI formatting:', error);
-        // Fall back to Azure OpenAI if available
-        if (azureApiKey && azureEndpoint && azureDeploymentName) {
-          try {
-            console.log('Falling back to Azure OpenAI...');
-            formattedText = await formatWithAzureOpenAI(text, format, userType);
-            console.log('Azure OpenAI formatting successful');
-          } catch (azureError) {
-            console.error('Error with Azure OpenAI formatting:', azureError);
-            console.log('Falling back to basic formatting rules...');
-            formattedText = await formatWithBasicRules(text, format, userType);
-          }
-        } else {
-          // Fall back to basic formatting if OpenAI fails and Azure is not available
-          console.log('Falling back to basic formatting rules...');
-          formattedText = await formatWithBasicRules(text, format, userType);
-        }
-      }
-    } else if (azureApiKey && azureEndpoint && azureDeploymentName) {
-      // Use Azure OpenAI if standard OpenAI is not configured
-      try {
-        console.log('Attempting to format with Azure OpenAI...');
-        formattedText = await formatWithAzureOpenAI(text, format, userType);
-        console.log('Azure OpenAI formatting successful');
-      } catch (error) {
-        console.error('Error with Azure OpenAI formatting:', error);
-        // Fall back to basic formatting if Azure OpenAI fails
-        console.log('Falling back to basic formatting rules...');
-        formattedText = await formatWithBasicRules(text, format, userType);
+    // Run the formatters in order of preference, streaming their text when asked to
+    const generate = async (output?: FormatOutput) => {
+      const { result, model } = await formatTranscription(modelText, format, userType, {
+        prompt,
+        mergePrompt,
+        languageInstruction: promptInstruction,
+        template,
+        signal: req.signal,
+        // Clinical notes are generated as JSON, so they arrive whole in the final event
+        onDelta: output && !isClinicalNoteFormat(format) ? output.onDelta : undefined,
+        onReset: output?.restart
+      });
+      
+      // Cache the result, unless a model failed and it is only the basic-rules fallback
+      if (model !== 'basic-rules') {
+        await getLlmCache().set<CachedFormat>(cacheKey, { ...result, model });
       }
-    } else {
-      // Use basic formatting rules if neither OpenAI nor Azure OpenAI is configured
-      console.log('No AI services configured, using basic formatting rules...');
-      formattedText = await formatWithBasicRules(text, format, userType);
+      
+      console.log('Formatting complete, returning response');
+      return {
+        formattedText: reidentify ? await reidentifyText(result.formattedText) : result.formattedText,
+        structured: reidentify ? await reidentifyValue(result.structured ?? null) : result.structured ?? null,
+        originalText: text,
+        format,
+        outputType,
+        model,
+        promptVersion,
+        artifact: await recordArtifact(result, model),
+        fromCache: false
+      };
+    };
+    
+    if (!wantsEventStream(body, req)) {
+      return NextResponse.json(await generate());
     }
     
-    // Cache the result
-    formatCache.set(cacheKey, {
-      formattedText,
-      timestamp: now
-    });
-    
-    console.log('Formatting complete, returning response');
-    return NextResponse.json({
-      formattedText,
-      originalText: text,
-      format,
-      fromCache: false
+    return createEventStreamResponse(req, async (send) => {
+      let streamed = false;
+      const sendDelta = (delta: string) => {
+        streamed = true;
+        send('delta', { text: delta });
+      };
+      const reidentifier = createStreamReidentifier(sendDelta);
+      
+      const response = await generate({
+        onDelta: reidentify ? reidentifier.push : sendDelta,
+        restart: async () => {
+          await reidentifier.flush();
+          if (streamed) send('reset', {});
+          streamed = false;
+        }
+      });
+      
+      await reidentifier.flush();
+      send('done', response);
     });
   } catch (error) {
     console.error('Error formatting transcription:', error);
@@ -144,407 +207,3 @@ export async function POST(req: NextRequest) {
     );
   }
 }
-
-/**
- * Format text using standard OpenAI API
- */
-async function formatWithOpenAI(
-  text: string, 
-  format: string, 
-  userType: string, 
-  apiKey: string, 
-  model: string
-): Promise<string> {
-  console.log(`Formatting with OpenAI model: ${model}`);
-  
-  if (!apiKey) {
-    throw new Error('OpenAI API key is missing');
-  }
-  
-  // Use a faster model for shorter texts
-  const actualModel = text.length < 1000 ? 'gpt-3.5-turbo' : model;
-  console.log(`Using model: ${actualModel} based on text length: ${text.length}`);
-  
-  // Limit the input text length for faster responses
-  const maxInputLength = 4000;
-  const trimmedText = text.length > maxInputLength 
-    ? text.substring(0, maxInputLength) + "... (text truncated for faster processing)"
-    : text;
-  
-  let systemPrompt = '';
-  let userPrompt = '';
-  
-  // Customize the prompt based on the format and user type
-  switch (format) {
-    case 'SOAP':
-      systemPrompt = 'You are a medical documentation assistant. Format the following transcription into a proper SOAP note (Subjective, Objective, Assessment, Plan). Use appropriate medical terminology and structure. Be concise.';
-      userPrompt = `Please format this medical transcription into a SOAP note. The context is a ${userType} consultation:\n\n${trimmedText}`;
-      break;
-    case 'Clinical Summary':
-      systemPrompt = 'You are a medical documentation assistant. Create a concise clinical summary from the following transcription. Include key findings, diagnoses, and recommendations. Be brief and to the point.';
-      userPrompt = `Please create a clinical summary from this transcription. The context is a ${userType} consultation:\n\n${trimmedText}`;
-      break;
-    case 'Bullet Points':
-      systemPrompt = 'You are a documentation assistant. Convert the following transcription into a well-organized bullet point list, grouping related information together. Be concise.';
-      userPrompt = `Please convert this transcription into bullet points. The context is a ${userType} consultation:\n\n${trimmedText}`;
-      break;
-    case 'HTML':
-      systemPrompt = 'You are a documentation assistant. Convert the following transcription into well-formatted HTML with appropriate headings, paragraphs, and lists. Use semantic HTML5 elements where appropriate. Be concise.';
-      userPrompt = `Please convert this transcription into HTML format. The context is a ${userType} consultation:\n\n${trimmedText}`;
-      break;
-    case 'Markdown':
-      systemPrompt = 'You are a documentation assistant. Convert the following transcription into well-formatted Markdown with appropriate headings, paragraphs, and lists. Be concise.';
-      userPrompt = `Please convert this transcription into Markdown format. The context is a ${userType} consultation:\n\n${trimmedText}`;
-      break;
-    default:
-      systemPrompt = 'You are a documentation assistant. Improve the formatting and clarity of the following transcription while preserving all information. Be concise.';
-      userPrompt = `Please improve the formatting and clarity of this transcription. The context is a ${userType} consultation:\n\n${trimmedText}`;
-  }
-  
-  console.log('Sending request to OpenAI API...');
-  const startTime = Date.now();
-  
-  try {
-    // Call OpenAI API with optimized parameters
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: actualModel,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.3, // Lower temperature for more deterministic responses
-        max_tokens: 1500, // Limit output tokens
-        presence_penalty: 0,
-        frequency_penalty: 0,
-      }),
-    });
-    
-    const endTime = Date.now();
-    console.log(`OpenAI API response time: ${(endTime - startTime) / 1000} seconds`);
-    console.log('OpenAI API response status:', response.status);
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText} ${JSON.stringify(errorData)}`);
-    }
-    
-    const data = await response.json();
-    console.log('OpenAI API response received successfully');
-    return data.choices[0].message.content;
-  } catch (error) {
-    console.error('Error in OpenAI API call:', error);
-    throw error;
-  }
-}
-
-/**
- * Format text using Azure OpenAI
- */
-async function formatWithAzureOpenAI(text: string, format: string, userType: string): Promise<string> {
-  const apiKey = process.env.AZURE_OPENAI_API_KEY;
-  const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-  const deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT_NAME;
-  
-  if (!apiKey || !endpoint || !deploymentName) {
-    throw new Error('Azure OpenAI configuration is missing');
-  }
-  
-  let systemPrompt = '';
-  let userPrompt = '';
-  
-  // Customize the prompt based on the format and user type
-  switch (format) {
-    case 'SOAP':
-      systemPrompt = 'You are a medical documentation assistant. Format the following transcription into a proper SOAP note (Subjective, Objective, Assessment, Plan). Use appropriate medical terminology and structure.';
-      userPrompt = `Please format this medical transcription into a SOAP note. The context is a ${userType} consultation:\n\n${text}`;
-      break;
-    case 'Clinical Summary':
-      systemPrompt = 'You are a medical documentation assistant. Create a concise clinical summary from the following transcription. Include key findings, diagnoses, and recommendations.';
-      userPrompt = `Please create a clinical summary from this transcription. The context is a ${userType} consultation:\n\n${text}`;
-      break;
-    case 'Bullet Points':
-      systemPrompt = 'You are a documentation assistant. Convert the following transcription into a well-organized bullet point list, grouping related information together.';
-      userPrompt = `Please convert this transcription into bullet points. The context is a ${userType} consultation:\n\n${text}`;
-      break;
-    case 'HTML':
-      systemPrompt = 'You are a documentation assistant. Convert the following transcription into well-formatted HTML with appropriate headings, paragraphs, and lists. Use semantic HTML5 elements where appropriate.';
-      userPrompt = `Please convert this transcription into HTML format. The context is a ${userType} consultation:\n\n${text}`;
-      break;
-    case 'Markdown':
-      systemPrompt = 'You are a documentation assistant. Convert the following transcription into well-formatted Markdown with appropriate headings, paragraphs, and lists.';
-      userPrompt = `Please convert this transcription into Markdown format. The context is a ${userType} consultation:\n\n${text}`;
-      break;
-    default:
-      systemPrompt = 'You are a documentation assistant. Improve the formatting and clarity of the following transcription while preserving all information.';
-      userPrompt = `Please improve the formatting and clarity of this transcription. The context is a ${userType} consultation:\n\n${text}`;
-  }
-  
-  // Call Azure OpenAI API
-  const url = `${endpoint}/openai/deployments/${deploymentName}/chat/completions?api-version=2023-05-15`;
-  
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'api-key': apiKey,
-    },
-    body: JSON.stringify({
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt }
-      ],
-      temperature: 0.7,
-      max_tokens: 2000,
-    }),
-  });
-  
-  if (!response.ok) {
-    throw new Error(`Azure OpenAI API error: ${response.status} ${response.statusText}`);
-  }
-  
-  const data = await response.json();
-  return data.choices[0].message.content;
-}
-
-/**
- * Format text using basic rules when OpenAI is not available
- */
-async function formatWithBasicRules(text: string, format: string, userType: string): Promise<string> {
-  switch (format) {
-    case 'SOAP':
-      return formatAsSOAP(text, userType);
-    case 'Clinical Summary':
-      return formatAsClinicalSummary(text, userType);
-    case 'Bullet Points':
-      return formatAsBulletPoints(text, userType);
-    case 'HTML':
-      return formatAsHTML(text, userType);
-    case 'Markdown':
-      return formatAsMarkdown(text, userType);
-    case 'Plain':
-    default:
-      return text;
-  }
-}
-
-/**
- * Format text in SOAP (Subjective, Objective, Assessment, Plan) format
- */
-function formatAsSOAP(text: string, userType: string): string {
-  const subjective = extractSubjective(text);
-  const objective = extractObjective(text);
-  const assessment = extractAssessment(text);
-  const plan = extractPlan(text);
-  
-  return `# SOAP Note
-
-## Subjective
-${subjective}
-
-## Objective
-${objective}
-
-## Assessment
-${assessment}
-
-## Plan
-${plan}`;
-}
-
-/**
- * Format text as a clinical summary
- */
-function formatAsClinicalSummary(text: string, userType: string): string {
-  const summary = extractSummary(text);
-  const keyPoints = extractKeyPoints(text);
-  const plan = extractPlan(text);
-  
-  return `# Clinical Summary
-
-## Overview
-${summary}
-
-## Key Findings
-${keyPoints}
-
-## Plan
-${plan}`;
-}
-
-/**
- * Format text as bullet points
- */
-function formatAsBulletPoints(text: string, userType: string): string {
-  const lines = text.split(/[.!?]\s+/);
-  const bullets = lines
-    .filter(line => line.trim().length > 0)
-    .map(line => `• ${line.trim()}${line.trim().endsWith('.') ? '' : '.'}`)
-    .join('\n');
-  
-  return bullets;
-}
-
-/**
- * Format text as HTML with appropriate styling
- */
-function formatAsHTML(text: string, userType: string): string {
-  let html = '<div class="transcription">';
-  
-  if (userType === 'General Practitioner') {
-    const subjective = extractSubjective(text);
-    const objective = extractObjective(text);
-    const assessment = extractAssessment(text);
-    const plan = extractPlan(text);
-    
-    html += `
-      <h2>SOAP Note</h2>
-      
-      <h3>Subjective</h3>
-      <p>${subjective.replace(/\n/g, '<br>')}</p>
-      
-      <h3>Objective</h3>
-      <p>${objective.replace(/\n/g, '<br>')}</p>
-      
-      <h3>Assessment</h3>
-      <p>${assessment.replace(/\n/g, '<br>')}</p>
-      
-      <h3>Plan</h3>
-      <p>${plan.replace(/\n/g, '<br>')}</p>
-    `;
-  } else {
-    // Basic HTML formatting for other user types
-    const paragraphs = text.split('\n\n');
-    
-    for (const paragraph of paragraphs) {
-      if (paragraph.trim()) {
-        html += `<p>${paragraph.replace(/\n/g, '<br>')}</p>`;
-      }
-    }
-  }
-  
-  html += '</div>';
-  return html;
-}
-
-/**
- * Format text as Markdown
- */
-function formatAsMarkdown(text: string, userType: string): string {
-  if (userType === 'General Practitioner') {
-    return formatAsSOAP(text, userType);
-  } else {
-    // Basic Markdown formatting
-    const paragraphs = text.split('\n\n');
-    let markdown = '';
-    
-    for (const paragraph of paragraphs) {
-      if (paragraph.trim()) {
-        markdown += `${paragraph.trim()}\n\n`;
-      }
-    }
-    
-    return markdown;
-  }
-}
-
-// Helper functions to extract different sections from the text
-// These are simple implementations and could be enhanced with NLP in a production environment
-
-function extractSubjective(text: string): string {
-  // Look for patient complaints, history, symptoms
-  const subjPatterns = [
-    /(?:patient|client) (?:reports|states|complains|presents with) (.*?)(?=\.|$)/i,
-    /(?:history|complaint|reason for visit|chief complaint):? (.*?)(?=\.|$)/i,
-    /(?:symptoms|subjective findings):? (.*?)(?=\.|$)/i
-  ];
-  
-  return extractWithPatterns(text, subjPatterns, 'No subjective information found.');
-}
-
-function extractObjective(text: string): string {
-  // Look for vital signs, examination findings, test results
-  const objPatterns = [
-    /(?:vitals|vital signs|examination|exam|physical exam):? (.*?)(?=\.|$)/i,
-    /(?:observed|noted|findings|results):? (.*?)(?=\.|$)/i,
-    /(?:temperature|pulse|blood pressure|bp|heart rate|respiratory rate):? (.*?)(?=\.|$)/i
-  ];
-  
-  return extractWithPatterns(text, objPatterns, 'No objective findings recorded.');
-}
-
-function extractAssessment(text: string): string {
-  // Look for diagnoses, impressions, assessments
-  const assessPatterns = [
-    /(?:assessment|diagnosis|impression|evaluation):? (.*?)(?=\.|$)/i,
-    /(?:diagnosed with|condition|disorder):? (.*?)(?=\.|$)/i,
-    /(?:assessment and plan|a\/p):? (.*?)(?=\.|$)/i
-  ];
-  
-  return extractWithPatterns(text, assessPatterns, 'No assessment provided.');
-}
-
-function extractPlan(text: string): string {
-  // Look for treatment plans, medications, follow-ups
-  const planPatterns = [
-    /(?:plan|treatment|therapy|management):? (.*?)(?=\.|$)/i,
-    /(?:prescribed|recommended|advised):? (.*?)(?=\.|$)/i,
-    /(?:follow-up|follow up|return|next visit):? (.*?)(?=\.|$)/i
-  ];
-  
-  return extractWithPatterns(text, planPatterns, 'No plan documented.');
-}
-
-function extractSummary(text: string): string {
-  // Extract first few sentences as summary
-  const sentences = text.split(/[.!?]\s+/);
-  const summary = sentences.slice(0, 3).join('. ');
-  return summary || 'No summary available.';
-}
-
-function extractKeyPoints(text: string): string {
-  // Extract key points based on common patterns
-  const keyPointPatterns = [
-    /(?:key|important|significant|notable) (?:points|findings|observations):? (.*?)(?=\.|$)/i,
-    /(?:primary|main|chief) (?:concern|complaint|issue|problem):? (.*?)(?=\.|$)/i,
-    /(?:diagnosis|assessment):? (.*?)(?=\.|$)/i
-  ];
-  
-  const keyPoints = extractWithPatterns(text, keyPointPatterns, '');
-  
-  if (keyPoints.trim()) {
-    return keyPoints;
-  }
-  
-  // If no key points found with patterns, extract sentences with important medical terms
-  const medicalTerms = ['diagnosis', 'condition', 'treatment', 'symptom', 'pain', 'medication'];
-  const sentences = text.split(/[.!?]\s+/);
-  
-  const relevantSentences = sentences.filter(sentence => 
-    medicalTerms.some(term => sentence.toLowerCase().includes(term))
-  );
-  
-  if (relevantSentences.length > 0) {
-    return relevantSentences.map(s => `• ${s.trim()}`).join('\n');
-  }
-  
-  return 'No key points identified.';
-}
-
-function extractWithPatterns(text: string, patterns: RegExp[], defaultText: string): string {
-  let extracted = '';
-  
-  for (const pattern of patterns) {
-    const matches = text.match(pattern);
-    if (matches && matches[1]) {
-      extracted += `${matches[1].trim()}. `;
-    }
-  }
-  
-  return extracted || defaultText;
-}
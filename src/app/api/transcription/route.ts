@@ -1,77 +1,73 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { executeQuery } from '@/lib/postgres';
+import { after, NextRequest, NextResponse } from 'next/server';
 import { createTranscription } from '@/lib/db';
+import { TranscriptionPg, TranscriptionSort } from '@/models/postgres/Transcription';
+import { canReidentify, redactTranscription, reidentifyTranscription, shouldRedact } from '@/services/redaction';
+import { enqueueTranscriptionIndexing, processTranscriptionIndexQueue } from '@/services/transcriptionIndex';
+import { getRequestUser } from '@/utils/requestUser';
+
+const SORT_OPTIONS: TranscriptionSort[] = ['newest', 'oldest', 'updated', 'relevance'];
+
+// Check for a real calendar date in YYYY-MM-DD form
+function isValidDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+}
 
 /**
  * GET /api/transcription
- * Retrieve all transcriptions, with optional pagination
+ * Retrieve transcriptions, with optional pagination, filters and sorting.
+ * Query parameters: page, limit, q (full-text search), userType, purpose,
+ * from and to (YYYY-MM-DD, inclusive) and sort (newest, oldest, updated, relevance).
  */
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
-    const page = parseInt(searchParams.get('page') || '1');
-    const limit = parseInt(searchParams.get('limit') || '10');
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+    const limit = Math.min(100, Math.max(1, parseInt(searchParams.get('limit') || '10') || 10));
     const offset = (page - 1) * limit;
-    const userType = searchParams.get('userType');
-    const purpose = searchParams.get('purpose');
-
-    try {
-      // Build query based on filters
-      let query = 'SELECT * FROM transcriptions WHERE 1=1';
-      const params: any[] = [];
-      let paramIndex = 1;
-      
-      if (userType) {
-        query += ` AND user_type = $${paramIndex}`;
-        params.push(userType);
-        paramIndex++;
-      }
-      
-      if (purpose) {
-        query += ` AND purpose = $${paramIndex}`;
-        params.push(purpose);
-        paramIndex++;
-      }
-      
-      // Add sorting, pagination
-      query += ` ORDER BY created_at DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
-      params.push(limit, offset);
-      
-      // Execute query
-      const result = await executeQuery(query, params);
-      
-      // Get total count for pagination
-      let countQuery = 'SELECT COUNT(*) FROM transcriptions WHERE 1=1';
-      const countParams: any[] = [];
-      let countParamIndex = 1;
-      
-      if (userType) {
-        countQuery += ` AND user_type = $${countParamIndex}`;
-        countParams.push(userType);
-        countParamIndex++;
-      }
-      
-      if (purpose) {
-        countQuery += ` AND purpose = $${countParamIndex}`;
-        countParams.push(purpose);
-        countParamIndex++;
-      }
-      
-      const countResult = await executeQuery<{ count: string }>(countQuery, countParams);
-      const total = parseInt(countResult[0].count);
-      
-      return NextResponse.json({
-        transcriptions: result,
-        pagination: {
-          total,
-          page,
-          limit,
-          pages: Math.ceil(total / limit)
-        }
-      });
-    } catch (error) {
-      throw error;
+    const query = searchParams.get('q')?.trim() || undefined;
+    const from = searchParams.get('from') || undefined;
+    const to = searchParams.get('to') || undefined;
+    const sort = (searchParams.get('sort') || 'newest') as TranscriptionSort;
+    
+    if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+      return NextResponse.json(
+        { error: 'Dates must be in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+    
+    if (!SORT_OPTIONS.includes(sort)) {
+      return NextResponse.json(
+        { error: `Sort must be one of: ${SORT_OPTIONS.join(', ')}` },
+        { status: 400 }
+      );
     }
+    
+    const { transcriptions, total } = await TranscriptionPg.search({
+      query,
+      userType: searchParams.get('userType') || undefined,
+      purpose: searchParams.get('purpose') || undefined,
+      from,
+      to,
+      sort,
+      limit,
+      offset
+    });
+    
+    // Redacted details are restored only for authorized viewers
+    const visible = canReidentify(await getRequestUser(req))
+      ? await Promise.all(transcriptions.map(transcription => reidentifyTranscription(transcription)))
+      : transcriptions;
+    
+    return NextResponse.json({
+      transcriptions: visible,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit)
+      }
+    });
   } catch (error) {
     console.error('Error fetching transcriptions:', error);
     return NextResponse.json(
@@ -83,7 +79,8 @@ export async function GET(req: NextRequest) {
 
 /**
  * POST /api/transcription
- * Create a new transcription
+ * Create a new transcription. Personal details are redacted before saving
+ * for user types configured in REDACTION_USER_TYPES.
  */
 export async function POST(req: NextRequest) {
   try {
@@ -101,14 +98,23 @@ export async function POST(req: NextRequest) {
     const extractedUserType = userType || (metadata?.userType || 'Other');
     const extractedPurpose = purpose || (metadata?.purpose || 'general');
     
+    const content = shouldRedact(extractedUserType)
+      ? await redactTranscription({ text, metadata })
+      : { text, metadata };
+    
     const transcription = await createTranscription({
-      text,
-      metadata,
+      ...content,
       user_id: userId,
       user_type: extractedUserType,
       purpose: extractedPurpose
     });
     
+    // Indexed for semantic search once the response is sent
+    if (transcription) {
+      await enqueueTranscriptionIndexing(transcription.id);
+      after(processTranscriptionIndexQueue);
+    }
+    
     return NextResponse.json(transcription, { status: 201 });
   } catch (error) {
     console.error('Error creating transcription:', error);
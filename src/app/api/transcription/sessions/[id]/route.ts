@@ -0,0 +1,115 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { RecordingSessionPg } from '@/models/postgres/RecordingSession';
+import { enqueueTranscriptionIndexing, processTranscriptionIndexQueue } from '@/services/transcriptionIndex';
+import type { RecordingSessionStatus } from '@/types/recordingSession';
+import { toRecordingSessionResponse } from '@/utils/recordingSession';
+import { getOwnerId, getRequestUser } from '@/utils/requestUser';
+
+const STATUSES: RecordingSessionStatus[] = ['recording', 'paused', 'completed'];
+
+/**
+ * GET /api/transcription/sessions/[id]
+ * Get a recording session with its segment boundaries
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const sessionId = parseInt(id);
+    
+    if (isNaN(sessionId)) {
+      return NextResponse.json(
+        { error: 'Invalid session ID' },
+        { status: 400 }
+      );
+    }
+    
+    const session = await RecordingSessionPg.findById(sessionId);
+    
+    if (!session || session.user_id !== getOwnerId(await getRequestUser(request))) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(toRecordingSessionResponse(session));
+  } catch (error) {
+    console.error('Error fetching recording session:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recording session' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/transcription/sessions/[id]
+ * Pause, resume or complete a recording session. Completed sessions cannot change.
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const sessionId = parseInt(id);
+    
+    if (isNaN(sessionId)) {
+      return NextResponse.json(
+        { error: 'Invalid session ID' },
+        { status: 400 }
+      );
+    }
+    
+    const { status } = await request.json();
+    
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const session = await RecordingSessionPg.findById(sessionId);
+    
+    if (!session || session.user_id !== getOwnerId(await getRequestUser(request))) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (session.status === 'completed') {
+      return NextResponse.json(
+        { error: 'Session is already completed' },
+        { status: 409 }
+      );
+    }
+    
+    const updated = await RecordingSessionPg.updateStatus(sessionId, status);
+    
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    // Index the whole recording once, rather than after every segment
+    if (status === 'completed' && updated.transcription_id) {
+      await enqueueTranscriptionIndexing(updated.transcription_id);
+      after(processTranscriptionIndexQueue);
+    }
+    
+    return NextResponse.json(toRecordingSessionResponse(updated));
+  } catch (error) {
+    console.error('Error updating recording session:', error);
+    return NextResponse.json(
+      { error: 'Failed to update recording session' },
+      { status: 500 }
+    );
+  }
+}
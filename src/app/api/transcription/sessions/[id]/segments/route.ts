@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RecordingSessionPg } from '@/models/postgres/RecordingSession';
+import { TranscriptionPg } from '@/models/postgres/Transcription';
+import { canReidentify, redactTranscriptContent, reidentifyTranscription, shouldRedact } from '@/services/redaction';
+import type { RecordedSegment } from '@/types/recordingSession';
+import { mergeRecordedSegment, toRecordingSessionResponse } from '@/utils/recordingSession';
+import { getOwnerId, getRequestUser } from '@/utils/requestUser';
+
+/**
+ * POST /api/transcription/sessions/[id]/segments
+ * Append a finished segment to the session's transcription, creating the
+ * transcription with the first segment that contains speech
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const sessionId = parseInt(id);
+    
+    if (isNaN(sessionId)) {
+      return NextResponse.json(
+        { error: 'Invalid session ID' },
+        { status: 400 }
+      );
+    }
+    
+    const segment: RecordedSegment = await request.json();
+    
+    if (
+      typeof segment.text !== 'string' ||
+      typeof segment.duration !== 'number' ||
+      segment.duration < 0 ||
+      !segment.startedAt ||
+      !segment.endedAt
+    ) {
+      return NextResponse.json(
+        { error: 'Segment text, duration, startedAt and endedAt are required' },
+        { status: 400 }
+      );
+    }
+    
+    const user = await getRequestUser(request);
+    const session = await RecordingSessionPg.findById(sessionId);
+    
+    if (!session || session.user_id !== getOwnerId(user)) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (session.status === 'completed') {
+      return NextResponse.json(
+        { error: 'Session is already completed' },
+        { status: 409 }
+      );
+    }
+    
+    // Redact the new segment; text already in the transcription was redacted when it was added
+    const content = shouldRedact(session.user_type)
+      ? await redactTranscriptContent({ text: segment.text, words: segment.words, segments: segment.speakerSegments })
+      : { text: segment.text, words: segment.words, segments: segment.speakerSegments };
+    
+    const current = session.transcription_id
+      ? await TranscriptionPg.findById(session.transcription_id)
+      : null;
+    const { text, metadata, boundary } = mergeRecordedSegment(
+      current,
+      {
+        ...segment,
+        text: content.text,
+        words: content.words || [],
+        speakerSegments: content.segments || []
+      },
+      (session.segments || []).length,
+      Number(session.duration) || 0
+    );
+    
+    let transcription = current;
+    
+    if (current) {
+      transcription = await TranscriptionPg.update(current.id, { text, metadata });
+    } else if (text) {
+      transcription = await TranscriptionPg.create({
+        text,
+        user_id: user.userId,
+        user_type: session.user_type || 'Other',
+        purpose: session.purpose || 'general',
+        metadata: {
+          source: 'deepgram',
+          userType: session.user_type,
+          purpose: session.purpose,
+          sessionId: session.id,
+          ...metadata
+        }
+      });
+    }
+    
+    const updated = await RecordingSessionPg.addSegment(sessionId, boundary, transcription?.id ?? null);
+    
+    return NextResponse.json({
+      session: updated ? toRecordingSessionResponse(updated) : null,
+      transcription: transcription && canReidentify(user)
+        ? await reidentifyTranscription(transcription)
+        : transcription
+    });
+  } catch (error) {
+    console.error('Error adding recording segment:', error);
+    return NextResponse.json(
+      { error: 'Failed to add recording segment' },
+      { status: 500 }
+    );
+  }
+}
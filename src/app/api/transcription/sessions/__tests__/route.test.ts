@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+import { getToken } from 'next-auth/jwt';
+import { PgRecordingSession, RecordingSessionPg } from '@/models/postgres/RecordingSession';
+import { GET, POST } from '@/app/api/transcription/sessions/route';
+import { GET as GET_SESSION } from '@/app/api/transcription/sessions/[id]/route';
+import { BROWSER_ID_COOKIE } from '@/utils/browserId';
+
+jest.mock('next-auth/jwt', () => ({ getToken: jest.fn() }));
+jest.mock('@/models/postgres/RecordingSession', () => ({
+  RecordingSessionPg: { findById: jest.fn(), findActiveByUserId: jest.fn(), create: jest.fn() }
+}));
+
+const FIRST_BROWSER = '11111111-1111-4111-8111-111111111111';
+const SECOND_BROWSER = '22222222-2222-4222-8222-222222222222';
+
+let sessions: PgRecordingSession[] = [];
+
+function request(path: string, browserId: string | null, body?: unknown): NextRequest {
+  return new NextRequest(`http://localhost/api/transcription/sessions${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: browserId ? { cookie: `${BROWSER_ID_COOKIE}=${browserId}` } : {},
+    ...(body !== undefined && { body: JSON.stringify(body) })
+  });
+}
+
+function params(id: number) {
+  return { params: Promise.resolve({ id: String(id) }) };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  sessions = [];
+  process.env.AUTH_SECRET = 'secret';
+  delete process.env.TRUSTED_PROXY_HOPS;
+  (getToken as jest.Mock).mockResolvedValue(null);
+  (RecordingSessionPg.create as jest.Mock).mockImplementation(async (session: Partial<PgRecordingSession>) => {
+    const created = {
+      ...session,
+      id: sessions.length + 1,
+      status: 'recording',
+      segments: [],
+      duration: 0,
+      created_at: new Date(),
+      updated_at: new Date()
+    } as PgRecordingSession;
+    sessions.push(created);
+    return created;
+  });
+  (RecordingSessionPg.findActiveByUserId as jest.Mock).mockImplementation(async (userId: string) =>
+    sessions.filter(session => session.user_id === userId)
+  );
+  (RecordingSessionPg.findById as jest.Mock).mockImplementation(async (id: number) =>
+    sessions.find(session => session.id === id) || null
+  );
+});
+
+describe('recording sessions of callers without a session', () => {
+  it('are only listed and restored for the browser that started them', async () => {
+    const created = await POST(request('', FIRST_BROWSER, { userType: 'medical' }));
+    expect(created.status).toBe(201);
+    const { id } = await created.json();
+
+    expect(await (await GET(request('', FIRST_BROWSER))).json()).toHaveLength(1);
+    expect(await (await GET(request('', SECOND_BROWSER))).json()).toEqual([]);
+
+    expect((await GET_SESSION(request(`/${id}`, FIRST_BROWSER), params(id))).status).toBe(200);
+    expect((await GET_SESSION(request(`/${id}`, SECOND_BROWSER), params(id))).status).toBe(404);
+  });
+
+  it('are neither listed nor created without a browser id', async () => {
+    await POST(request('', FIRST_BROWSER, {}));
+
+    expect(await (await GET(request('', null))).json()).toEqual([]);
+    expect((await POST(request('', null, {}))).status).toBe(403);
+    expect((await GET_SESSION(request('/1', null), params(1))).status).toBe(404);
+    expect(RecordingSessionPg.findActiveByUserId).not.toHaveBeenCalled();
+  });
+});
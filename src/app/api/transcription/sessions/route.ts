@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RecordingSessionPg } from '@/models/postgres/RecordingSession';
+import { toRecordingSessionResponse } from '@/utils/recordingSession';
+import { getOwnerId, getRequestUser } from '@/utils/requestUser';
+
+/**
+ * GET /api/transcription/sessions
+ * List the caller's unfinished (recording or paused) sessions, most recent first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = getOwnerId(await getRequestUser(request));
+    
+    // Callers known only by address may share it, so they have no sessions to restore
+    if (!ownerId) {
+      return NextResponse.json([]);
+    }
+    
+    const sessions = await RecordingSessionPg.findActiveByUserId(ownerId);
+    
+    return NextResponse.json(sessions.map(toRecordingSessionResponse));
+  } catch (error) {
+    console.error('Error fetching recording sessions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch recording sessions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/transcription/sessions
+ * Start a recording session. Segments are added as the recording is paused or stopped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { userType, purpose, language, diarize } = await request.json();
+    const ownerId = getOwnerId(await getRequestUser(request));
+    
+    if (!ownerId) {
+      return NextResponse.json(
+        { error: 'Sign in or allow cookies to record sessions' },
+        { status: 403 }
+      );
+    }
+    
+    const session = await RecordingSessionPg.create({
+      user_id: ownerId,
+      user_type: userType,
+      purpose,
+      options: {
+        ...(language && { language }),
+        ...(diarize !== undefined && { diarize: !!diarize })
+      }
+    });
+    
+    return NextResponse.json(toRecordingSessionResponse(session), { status: 201 });
+  } catch (error) {
+    console.error('Error creating recording session:', error);
+    return NextResponse.json(
+      { error: 'Failed to create recording session' },
+      { status: 500 }
+    );
+  }
+}
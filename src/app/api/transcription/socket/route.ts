@@ -1,36 +1,92 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@deepgram/sdk';
+import { DeepgramTokenAuditPg } from '@/models/postgres/DeepgramTokenAudit';
+import { createRateLimiter } from '@/utils/rateLimit';
+import { getRequestUser } from '@/utils/requestUser';
+
+const SOCKET_URL = 'wss://api.deepgram.com/v1/listen';
+
+// Per-user limit on issued tokens (default 10 per minute)
+const TOKEN_RATE_LIMIT = parseInt(process.env.DEEPGRAM_TOKEN_RATE_LIMIT || '10');
+const TOKEN_RATE_WINDOW = 1000 * 60;
+
+const tokenRateLimiter = createRateLimiter(TOKEN_RATE_LIMIT, TOKEN_RATE_WINDOW);
+
+/**
+ * HEAD /api/transcription/socket
+ * Check whether the server can issue DeepGram credentials
+ */
+export async function HEAD() {
+  return new NextResponse(null, {
+    status: process.env.DEEPGRAM_API_KEY ? 200 : 503
+  });
+}
 
 /**
  * GET /api/transcription/socket
- * Endpoint to get DeepGram API credentials for client-side WebSocket connection
+ * Issue a short-lived DeepGram access token for a client-side WebSocket connection.
+ * The master API key never leaves the server.
  */
 export async function GET(req: NextRequest) {
   try {
-    // In a production app, you might want to check authentication here
-    // and only provide the API key to authenticated users
-    
-    // For security reasons, we're not returning the actual API key directly
-    // Instead, we're confirming that it exists in the environment variables
     const apiKey = process.env.DEEPGRAM_API_KEY;
-    
+
     if (!apiKey) {
       return NextResponse.json(
         { error: 'DeepGram API key not configured' },
         { status: 500 }
       );
     }
-    
-    // Return information needed for the client to establish a connection
-    return NextResponse.json({
-      configured: true,
-      socketUrl: 'wss://api.deepgram.com/v1/listen',
-      // In a production app, you might want to generate a short-lived token here
-      // instead of exposing your API key to the client
+
+    const user = await getRequestUser(req);
+
+    // Enforce the per-user rate limit before minting anything
+    const rateLimit = tokenRateLimiter.check(user.rateLimitKey);
+
+    if (!rateLimit.allowed) {
+      const retryAfter = Math.ceil(rateLimit.retryAfterMs / 1000);
+      return NextResponse.json(
+        { error: 'Too many token requests. Please try again later.', retryAfter },
+        { status: 429, headers: { 'Retry-After': retryAfter.toString() } }
+      );
+    }
+
+    // Mint a temporary token scoped to streaming transcription
+    const deepgram = createClient(apiKey);
+    const { result, error } = await deepgram.auth.grantToken();
+
+    if (error || !result) {
+      console.error('Error granting DeepGram token:', error);
+      return NextResponse.json(
+        { error: 'Failed to issue DeepGram token' },
+        { status: 502 }
+      );
+    }
+
+    const expiresAt = new Date(Date.now() + result.expires_in * 1000);
+
+    // Every issued token gets an audit entry
+    await DeepgramTokenAuditPg.create({
+      user_id: user.userId,
+      ip_address: user.ipAddress || undefined,
+      user_agent: user.userAgent || undefined,
+      expires_at: expiresAt
     });
+
+    return NextResponse.json(
+      {
+        configured: true,
+        socketUrl: SOCKET_URL,
+        accessToken: result.access_token,
+        expiresIn: result.expires_in,
+        expiresAt: expiresAt.toISOString()
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
   } catch (error) {
-    console.error('Error fetching DeepGram configuration:', error);
+    console.error('Error issuing DeepGram token:', error);
     return NextResponse.json(
-      { error: 'Failed to fetch DeepGram configuration' },
+      { error: 'Failed to issue DeepGram token' },
       { status: 500 }
     );
   }
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  endLiveSummarySession,
+  findLiveSummarySession,
+  LiveSummaryEvent,
+  subscribeToLiveSummary,
+  toViewerLiveSummary
+} from '@/services/liveSummary';
+import { canReidentify } from '@/services/redaction';
+import { getRequestUser } from '@/utils/requestUser';
+
+// Comment lines sent to keep idle connections open through proxies
+const HEARTBEAT_INTERVAL = 1000 * 15;
+
+/**
+ * GET /api/transcription/summarize/live/[sessionId]
+ * Stream live summary updates as server-sent events. The current summary is
+ * sent first, followed by an "update" event after every delta and an "end"
+ * event when the session finishes.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  const { sessionId } = await context.params;
+  const user = await getRequestUser(request);
+  const session = await findLiveSummarySession(sessionId);
+  
+  if (!session || session.ownerId !== user.userId) {
+    return NextResponse.json(
+      { error: 'Live summary session not found' },
+      { status: 404 }
+    );
+  }
+  
+  const encoder = new TextEncoder();
+  const reidentify = canReidentify(user);
+  let cleanup = () => {};
+  
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Events are sent in order, once redacted details are restored for authorized viewers
+      let sending = Promise.resolve();
+      const send = (event: LiveSummaryEvent) => {
+        sending = sending
+          .then(async () => {
+            const summary = await toViewerLiveSummary(event.summary, reidentify);
+            controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(summary)}\n\n`));
+            if (event.type === 'end') {
+              controller.close();
+            }
+          })
+          .catch(error => {
+            console.error('Error sending live summary update:', error);
+          });
+      };
+      
+      const unsubscribe = subscribeToLiveSummary(session.summary, (event) => {
+        send(event);
+        if (event.type === 'end') {
+          cleanup();
+        }
+      });
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL);
+      
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      
+      request.signal.addEventListener('abort', () => cleanup());
+      send({ type: 'update', summary: session.summary });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+  
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+/**
+ * DELETE /api/transcription/summarize/live/[sessionId]
+ * End a live summary session
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ sessionId: string }> }
+) {
+  try {
+    const { sessionId } = await context.params;
+    const session = await findLiveSummarySession(sessionId);
+    
+    if (!session || session.ownerId !== (await getRequestUser(request)).userId) {
+      return NextResponse.json(
+        { error: 'Live summary session not found' },
+        { status: 404 }
+      );
+    }
+    
+    await endLiveSummarySession(sessionId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error ending live summary session:', error);
+    return NextResponse.json(
+      { error: 'Failed to end live summary session' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  appendTranscriptDelta,
+  createLiveSummarySession,
+  findLiveSummarySession,
+  toViewerLiveSummary
+} from '@/services/liveSummary';
+import { canReidentify, redactText, shouldRedactRequest } from '@/services/redaction';
+import { getLanguageInstruction } from '@/utils/language';
+import { REDACTION_INSTRUCTION } from '@/utils/redaction';
+import { getRequestUser } from '@/utils/requestUser';
+
+/**
+ * POST /api/transcription/summarize/live
+ * Add a transcript delta to a live summary session, starting a new session
+ * when no sessionId is given. Deltas are redacted as the recording's
+ * transcription is, when a transcriptionId is given. Subscribe to updates via
+ * GET /api/transcription/summarize/live/[sessionId].
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, delta, userType, sourceLanguage, targetLanguage, transcriptionId } = await request.json();
+    const user = await getRequestUser(request);
+    const { userId } = user;
+    
+    if (delta !== undefined && typeof delta !== 'string') {
+      return NextResponse.json(
+        { error: 'Delta must be a string' },
+        { status: 400 }
+      );
+    }
+    
+    let session = sessionId ? await findLiveSummarySession(sessionId) : null;
+    
+    if (sessionId && (!session || session.ownerId !== userId)) {
+      return NextResponse.json(
+        { error: 'Live summary session not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (!session) {
+      session = { ownerId: userId, summary: await createLiveSummarySession(userId) };
+    }
+    
+    // Redacted details are restored only for authorized viewers
+    const reidentify = canReidentify(user);
+    
+    if (!delta || !delta.trim()) {
+      return NextResponse.json(
+        await toViewerLiveSummary(session.summary, reidentify),
+        { status: sessionId ? 200 : 201 }
+      );
+    }
+    
+    // The running summary is built from redacted text only
+    const redact = await shouldRedactRequest(transcriptionId);
+    
+    if (redact === null) {
+      return NextResponse.json(
+        { error: 'Transcription not found' },
+        { status: 404 }
+      );
+    }
+    
+    const summary = await appendTranscriptDelta(
+      session.summary.sessionId,
+      redact ? await redactText(delta.trim()) : delta.trim(),
+      {
+        userType,
+        languageInstruction: getLanguageInstruction(sourceLanguage, targetLanguage) +
+          (redact ? REDACTION_INSTRUCTION : '')
+      }
+    );
+    
+    return NextResponse.json(
+      await toViewerLiveSummary(summary, reidentify),
+      { status: sessionId ? 200 : 201 }
+    );
+  } catch (error) {
+    console.error('Error updating live summary:', error);
+    return NextResponse.json(
+      { error: 'Failed to update live summary' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { TranscriptionJobPg } from '@/models/postgres/TranscriptionJob';
+import { processTranscriptionJobQueue } from '@/services/batch/runner';
+
+/**
+ * GET /api/transcription/upload/[jobId]
+ * Get the status of a batch transcription job. While it is unfinished the
+ * job queue is checked, so jobs left behind by a stopped process are resumed.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ jobId: string }> }
+) {
+  try {
+    const { jobId } = await context.params;
+    const id = parseInt(jobId);
+    
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Invalid job ID' },
+        { status: 400 }
+      );
+    }
+    
+    const job = await TranscriptionJobPg.findById(id);
+    
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (job.status === 'pending' || job.status === 'processing') {
+      after(processTranscriptionJobQueue);
+    }
+    
+    return NextResponse.json({
+      jobId: job.id,
+      status: job.status,
+      fileName: job.file_name,
+      transcriptionId: job.transcription_id ?? null,
+      error: job.error ?? null,
+      createdAt: job.created_at,
+      completedAt: job.completed_at ?? null
+    });
+  } catch (error) {
+    console.error('Error fetching transcription job:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transcription job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { randomUUID } from 'crypto';
+import { TranscriptionJobPg } from '@/models/postgres/TranscriptionJob';
+import { getStorage } from '@/services/storage';
+import { processTranscriptionJobQueue } from '@/services/batch/runner';
+import { getRequestUser } from '@/utils/requestUser';
+
+// Largest file accepted, in megabytes
+const MAX_UPLOAD_MB = parseInt(process.env.AUDIO_UPLOAD_MAX_MB || '100');
+
+// Supported file extensions and the content type sent to the provider
+const SUPPORTED_TYPES: Record<string, string> = {
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  webm: 'audio/webm',
+};
+
+/**
+ * GET /api/transcription/upload
+ * List the caller's recent upload jobs
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { userId } = await getRequestUser(req);
+    const jobs = await TranscriptionJobPg.findByUserId(userId);
+    
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('Error fetching transcription jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch transcription jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/transcription/upload
+ * Upload a pre-recorded audio file (multipart field "audio") for batch transcription.
+ * Returns a job that can be polled at /api/transcription/upload/[jobId].
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const formData = await req.formData();
+    const file = formData.get('audio');
+    
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json(
+        { error: 'An audio file is required' },
+        { status: 400 }
+      );
+    }
+    
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    const contentType = SUPPORTED_TYPES[extension];
+    
+    if (!contentType) {
+      return NextResponse.json(
+        { error: `Unsupported audio format. Upload one of: ${Object.keys(SUPPORTED_TYPES).join(', ')}` },
+        { status: 415 }
+      );
+    }
+    
+    if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+      return NextResponse.json(
+        { error: `File exceeds the ${MAX_UPLOAD_MB} MB limit` },
+        { status: 413 }
+      );
+    }
+    
+    const field = (name: string) => {
+      const value = formData.get(name);
+      return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    };
+    
+    // Keep the upload so the job can be retried and the lecture played back
+    const audioKey = `uploads/${randomUUID()}.${extension}`;
+    await getStorage().save(audioKey, Buffer.from(await file.arrayBuffer()), contentType);
+    
+    const job = await TranscriptionJobPg.create({
+      provider: process.env.BATCH_TRANSCRIPTION_PROVIDER || 'deepgram',
+      file_name: file.name,
+      content_type: contentType,
+      size: file.size,
+      audio_key: audioKey,
+      options: {
+        userType: field('userType'),
+        purpose: field('purpose'),
+        language: field('language'),
+        diarize: field('diarize') === 'true',
+      },
+      user_id: (await getRequestUser(req)).userId,
+    });
+    
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Failed to create transcription job' },
+        { status: 500 }
+      );
+    }
+    
+    // Transcribed once the response is sent; the job is saved, so it is not lost if that stops
+    after(processTranscriptionJobQueue);
+    
+    return NextResponse.json(
+      { jobId: job.id, status: job.status },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error uploading audio for transcription:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload audio' },
+      { status: 500 }
+    );
+  }
+}
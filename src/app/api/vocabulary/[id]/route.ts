@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VocabularyTermPg, PgVocabularyTerm } from '@/models/postgres/VocabularyTerm';
+import { getRequestUser, isAdminUser, RequestUser } from '@/utils/requestUser';
+
+/**
+ * Check that the caller may see a term. Personal terms belong to one user.
+ */
+function canView(user: RequestUser, term: PgVocabularyTerm): boolean {
+  return term.scope !== 'user' || term.scope_value === user.userId;
+}
+
+/**
+ * Check that the caller may change a term. User type terms are managed by admins.
+ */
+function canModify(user: RequestUser, term: PgVocabularyTerm): boolean {
+  return term.scope === 'user' ? term.scope_value === user.userId : isAdminUser(user);
+}
+
+/**
+ * PUT /api/vocabulary/[id]
+ * Update a vocabulary term's text, replacement or boost
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const termId = parseInt(id);
+    
+    if (isNaN(termId)) {
+      return NextResponse.json(
+        { error: 'Invalid term ID' },
+        { status: 400 }
+      );
+    }
+    
+    const existing = await VocabularyTermPg.findById(termId);
+    const user = await getRequestUser(request);
+    
+    if (!existing || !canView(user, existing)) {
+      return NextResponse.json(
+        { error: 'Term not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (!canModify(user, existing)) {
+      return NextResponse.json(
+        { error: 'Only admins can change user type vocabulary' },
+        { status: 403 }
+      );
+    }
+    
+    const { term, replacement, boost } = await request.json();
+    
+    if (term !== undefined && (typeof term !== 'string' || !term.trim())) {
+      return NextResponse.json(
+        { error: 'term cannot be empty' },
+        { status: 400 }
+      );
+    }
+    
+    if (boost !== undefined && (typeof boost !== 'number' || !isFinite(boost))) {
+      return NextResponse.json(
+        { error: 'boost must be a number' },
+        { status: 400 }
+      );
+    }
+    
+    const updated = await VocabularyTermPg.update(termId, {
+      term: term?.trim(),
+      replacement: existing.kind === 'substitution' ? replacement : undefined,
+      boost: existing.kind === 'keyword' ? boost : undefined
+    });
+    
+    return NextResponse.json(updated);
+  } catch (error) {
+    if ((error as { code?: string }).code === '23505') {
+      return NextResponse.json(
+        { error: 'This term already exists' },
+        { status: 409 }
+      );
+    }
+    
+    console.error('Error updating vocabulary term:', error);
+    return NextResponse.json(
+      { error: 'Failed to update vocabulary term' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/vocabulary/[id]
+ * Delete a vocabulary term
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context.params;
+    const termId = parseInt(id);
+    
+    if (isNaN(termId)) {
+      return NextResponse.json(
+        { error: 'Invalid term ID' },
+        { status: 400 }
+      );
+    }
+    
+    const existing = await VocabularyTermPg.findById(termId);
+    const user = await getRequestUser(request);
+    
+    if (!existing || !canView(user, existing)) {
+      return NextResponse.json(
+        { error: 'Term not found' },
+        { status: 404 }
+      );
+    }
+    
+    if (!canModify(user, existing)) {
+      return NextResponse.json(
+        { error: 'Only admins can change user type vocabulary' },
+        { status: 403 }
+      );
+    }
+    
+    await VocabularyTermPg.delete(termId);
+    
+    return NextResponse.json({ message: 'Term deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting vocabulary term:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete vocabulary term' },
+      { status: 500 }
+    );
+  }
+}
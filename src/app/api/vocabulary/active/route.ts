@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VocabularyTermPg } from '@/models/postgres/VocabularyTerm';
+import { getRequestUser } from '@/utils/requestUser';
+import { resolveVocabulary } from '@/utils/vocabulary';
+
+/**
+ * GET /api/vocabulary/active?userType=...
+ * Get the keyword boosts and substitutions that apply to the caller's
+ * recordings, combining the user type's vocabulary with their own
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const userType = searchParams.get('userType');
+    const { userId } = await getRequestUser(req);
+    
+    const terms = await VocabularyTermPg.findForContext(userType, userId);
+    
+    return NextResponse.json(resolveVocabulary(terms), {
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Error fetching active vocabulary:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch vocabulary' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { VocabularyTermPg } from '@/models/postgres/VocabularyTerm';
+import { getRequestUser, isAdminUser } from '@/utils/requestUser';
+import type { VocabularyKind, VocabularyScope } from '@/types/vocabulary';
+
+const SCOPES: VocabularyScope[] = ['user_type', 'user'];
+const KINDS: VocabularyKind[] = ['keyword', 'substitution'];
+
+/**
+ * GET /api/vocabulary
+ * List vocabulary terms for a user type (?scope=user_type&scopeValue=...) or
+ * for the caller (?scope=user), optionally filtered by kind
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const scope = (searchParams.get('scope') || 'user_type') as VocabularyScope;
+    const kind = searchParams.get('kind') as VocabularyKind | null;
+    
+    if (!SCOPES.includes(scope) || (kind && !KINDS.includes(kind))) {
+      return NextResponse.json(
+        { error: 'Invalid scope or kind' },
+        { status: 400 }
+      );
+    }
+    
+    // Users can only list their own personal vocabulary
+    const scopeValue = scope === 'user'
+      ? (await getRequestUser(req)).userId
+      : searchParams.get('scopeValue');
+    
+    if (!scopeValue) {
+      return NextResponse.json(
+        { error: 'scopeValue is required for user type vocabulary' },
+        { status: 400 }
+      );
+    }
+    
+    const terms = await VocabularyTermPg.findByScope(scope, scopeValue, kind || undefined);
+    
+    return NextResponse.json({ terms });
+  } catch (error) {
+    console.error('Error fetching vocabulary:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch vocabulary' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/vocabulary
+ * Add a keyword boost or substitution for the caller, or for a user type (admins only)
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { scope, kind, term, replacement, boost } = body;
+    
+    if (!SCOPES.includes(scope) || !KINDS.includes(kind)) {
+      return NextResponse.json(
+        { error: `scope must be one of ${SCOPES.join(', ')} and kind one of ${KINDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    if (typeof term !== 'string' || !term.trim()) {
+      return NextResponse.json(
+        { error: 'term is required' },
+        { status: 400 }
+      );
+    }
+    
+    if (kind === 'substitution' && typeof replacement !== 'string') {
+      return NextResponse.json(
+        { error: 'replacement is required for substitutions' },
+        { status: 400 }
+      );
+    }
+    
+    if (boost !== undefined && (typeof boost !== 'number' || !isFinite(boost))) {
+      return NextResponse.json(
+        { error: 'boost must be a number' },
+        { status: 400 }
+      );
+    }
+    
+    const user = await getRequestUser(req);
+    
+    if (scope === 'user_type' && !isAdminUser(user)) {
+      return NextResponse.json(
+        { error: 'Only admins can add user type vocabulary' },
+        { status: 403 }
+      );
+    }
+    
+    const scopeValue = scope === 'user' ? user.userId : body.scopeValue;
+    
+    if (typeof scopeValue !== 'string' || !scopeValue.trim()) {
+      return NextResponse.json(
+        { error: 'scopeValue is required for user type vocabulary' },
+        { status: 400 }
+      );
+    }
+    
+    const created = await VocabularyTermPg.create({
+      scope,
+      scope_value: scopeValue.trim(),
+      kind,
+      term: term.trim(),
+      replacement: kind === 'substitution' ? replacement : undefined,
+      boost: kind === 'keyword' ? boost : undefined
+    });
+    
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    // Unique violation: the term already exists in this scope
+    if ((error as { code?: string }).code === '23505') {
+      return NextResponse.json(
+        { error: 'This term already exists' },
+        { status: 409 }
+      );
+    }
+    
+    console.error('Error creating vocabulary term:', error);
+    return NextResponse.json(
+      { error: 'Failed to create vocabulary term' },
+      { status: 500 }
+    );
+  }
+}
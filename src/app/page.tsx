@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react';
 import dynamic from 'next/dynamic';
+import Link from 'next/link';
 import { getFeatureFlags, getEnabledUserTypes } from '@/utils/featureFlags';
 import ExampleLectureButtons from '@/components/lecture/ExampleLectureButtons';
 
@@ -14,10 +15,24 @@ const TranscriptionRecorder = dynamic(
 // Import the ChatBot component
 import ChatBot from '@/components/chat/ChatBot';
 import LectureArticleView from '@/components/lecture/LectureArticleView';
+import SpeakerTranscript from '@/components/transcription/SpeakerTranscript';
+import TranscriptPlayback from '@/components/transcription/TranscriptPlayback';
+import TranscriptEditor from '@/components/transcription/TranscriptEditor';
+import AudioUploadButton from '@/components/transcription/AudioUploadButton';
+import ClinicalNoteForm from '@/components/transcription/ClinicalNoteForm';
 import { SummaryResponse as LectureSummaryResponse } from '@/types/summary';
+import type { ClinicalNote } from '@/types/clinicalNote';
+import type { FormatTemplate } from '@/types/formatTemplate';
+import type { RecordedSegment, RecordingSession, RecordingSessionStatus } from '@/types/recordingSession';
+import type { SectionMarker, TranscriptionMetadata, TranscriptSegment, TranscriptWord } from '@/types/transcript';
+import type { VoiceCommand } from '@/types/voiceCommands';
+import { applyCorrection, getConfidenceThreshold, wordsToText } from '@/utils/corrections';
+import { isAbortError, postEventStream } from '@/utils/eventStream';
+import { AUTO_DETECT_LANGUAGE, DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES, getAutoDetectDescription, getLanguageName } from '@/utils/language';
+import { getVoiceCommands, insertSectionMarkers } from '@/utils/voiceCommands';
 
 // Import the TranscriptionRecorderHandle type
-import type { TranscriptionRecorderHandle } from '@/components/transcription/TranscriptionRecorder';
+import type { CompletedRecording, RecordingStatus, TranscriptionRecorderHandle } from '@/components/transcription/TranscriptionRecorder';
 
 // Define the user types
 type UserType = 'General Practitioner' | 'School Lecture' | 'Raghav';
@@ -64,8 +79,14 @@ interface PageConfig {
   showManualConvertButton: boolean;
   containerWidth: string; // Width of the container
   outputType: 'formatted' | 'summary'; // Type of output to display
+  diarize: boolean; // Label who is speaking
+  liveSummary: boolean; // Build a rolling summary while recording
+  voiceCommands: boolean; // Listen for spoken commands while recording
 }
 
+// How often transcript deltas are sent for the live summary (default 2 minutes)
+const LIVE_SUMMARY_INTERVAL_MS = parseFloat(process.env.NEXT_PUBLIC_LIVE_SUMMARY_INTERVAL_MINUTES || '2') * 60 * 1000;
+
 export default function Home() {
   const [transcription, setTranscription] = useState<string>('');
   const [transcriptionByUserType, setTranscriptionByUserType] = useState<Record<UserType, string>>({
@@ -75,13 +96,51 @@ export default function Home() {
   });
   const [error, setError] = useState<string | null>(null);
   const [isRecording, setIsRecording] = useState(false);
+  const [recordingStatus, setRecordingStatus] = useState<RecordingStatus>('idle');
   const [userType, setUserType] = useState<UserType>('School Lecture');
-  const [outputFormat, setOutputFormat] = useState<OutputFormat>('Plain');
+  // A built-in format or the name of a format template
+  const [outputFormat, setOutputFormat] = useState<string>('Plain');
+  const [formatTemplates, setFormatTemplates] = useState<FormatTemplate[]>([]);
   const [formattedOutput, setFormattedOutput] = useState<string>('');
+  // Structured form of a SOAP note or clinical summary
+  const [clinicalNote, setClinicalNote] = useState<ClinicalNote | null>(null);
   const [isFormatting, setIsFormatting] = useState(false);
   const [baseUrl, setBaseUrl] = useState('');
   const [summaryResponse, setSummaryResponse] = useState<LectureSummaryResponse | null>(null);
+  // Summary text received so far while the full summary is generated
+  const [streamingSummary, setStreamingSummary] = useState('');
+  // Cancels the format or summarize request in progress
+  const formatAbortRef = useRef<AbortController | null>(null);
   const [enabledUserTypes, setEnabledUserTypes] = useState<UserType[]>(['School Lecture']);
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+  const [savedTranscriptionId, setSavedTranscriptionId] = useState<number | null>(null);
+  // Sent with format and summarize requests, which may start before the transcription is saved
+  const savedTranscriptionIdRef = useRef<number | null>(null);
+  savedTranscriptionIdRef.current = savedTranscriptionId;
+  const [words, setWords] = useState<TranscriptWord[]>([]);
+  const [confidenceThreshold, setConfidenceThreshold] = useState(getConfidenceThreshold());
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [pendingAutoConvert, setPendingAutoConvert] = useState(false);
+  // Language selected for recording, the language the transcript turned out to be in,
+  // and the language AI output should be written in ('' keeps the transcript's language)
+  const [language, setLanguage] = useState<string>(DEFAULT_LANGUAGE);
+  const [transcriptionLanguage, setTranscriptionLanguage] = useState<string | null>(null);
+  const [targetLanguage, setTargetLanguage] = useState<string>('');
+  const sourceLanguage = transcriptionLanguage || (language === AUTO_DETECT_LANGUAGE ? undefined : language);
+  // Sections started by voice command, inserted as headings before formatting
+  const [sectionMarkers, setSectionMarkers] = useState<SectionMarker[]>([]);
+  const [liveSummarySessionId, setLiveSummarySessionId] = useState<string | null>(null);
+  // Resolves to the live summary session that deltas are posted to
+  const liveSummarySessionRef = useRef<Promise<string | null> | null>(null);
+  // Unfinished recording session; segments are appended to its transcription
+  const [recordingSession, setRecordingSession] = useState<RecordingSession | null>(null);
+  const recordingSessionRef = useRef<RecordingSession | null>(null);
+  // Session requests run in order so every segment is stored before the session completes
+  const sessionQueueRef = useRef<Promise<unknown>>(Promise.resolve());
+  // True when the session was restored after a reload, so earlier audio is not in this page
+  const restoredSessionRef = useRef(false);
+  const isPaused = recordingStatus === 'paused';
   
   // Reference to the TranscriptionRecorder component
   const recorderRef = useRef<TranscriptionRecorderHandle>(null);
@@ -96,7 +155,10 @@ export default function Home() {
       showFormatControls: true,
       showManualConvertButton: true,
       containerWidth: 'max-w-3xl', // Default width
-      outputType: 'formatted'
+      outputType: 'formatted',
+      diarize: true,
+      liveSummary: false,
+      voiceCommands: true
     },
     'School Lecture': {
       showAIAssistant: false,
@@ -106,7 +168,10 @@ export default function Home() {
       showFormatControls: false,
       showManualConvertButton: true,
       containerWidth: 'w-3/4', // 75% of window space
-      outputType: 'summary'
+      outputType: 'summary',
+      diarize: true,
+      liveSummary: true,
+      voiceCommands: false
     },
     'Raghav': {
       showAIAssistant: true,
@@ -116,7 +181,10 @@ export default function Home() {
       showFormatControls: true,
       showManualConvertButton: true,
       containerWidth: 'max-w-3xl', // Default width
-      outputType: 'formatted'
+      outputType: 'formatted',
+      diarize: false,
+      liveSummary: false,
+      voiceCommands: false
     }
   };
 
@@ -132,6 +200,12 @@ export default function Home() {
     if (enabledTypes.length > 0 && !enabledTypes.includes(userType)) {
       setUserType(enabledTypes[0]);
     }
+    
+    // Load the user's format templates for the format dropdown
+    fetch('/api/format-templates')
+      .then(response => response.ok ? response.json() : { templates: [] })
+      .then(data => setFormatTemplates(data.templates || []))
+      .catch(err => console.error('Error loading format templates:', err));
   }, []);
 
   // Update output format when user type changes
@@ -149,9 +223,20 @@ export default function Home() {
   };
 
   // Save the transcription to the database
-  const saveTranscription = async (text: string) => {
+  const saveTranscription = async (text: string, recording?: CompletedRecording) => {
+    // Session recordings are saved segment by segment
+    if (recordingSessionRef.current) {
+      return completeRecordingSession(recording);
+    }
+    
     if (!text.trim()) return;
     
+    const recordedSegments = recording?.segments || [];
+    const recordedWords = recording?.words || [];
+    setWords(recordedWords);
+    setTranscriptionLanguage(recording?.language ?? null);
+    setSectionMarkers(recording?.sections || []);
+    
     try {
       // Save transcription to the database
       const response = await fetch('/api/transcription', {
@@ -165,6 +250,12 @@ export default function Home() {
             source: 'deepgram',
             userType: userType,
             purpose: getPurposeFromUserType(userType),
+            ...(recordedSegments.length > 0 && {
+              diarization: { segments: recordedSegments, speakerNames },
+            }),
+            ...(recordedWords.length > 0 && { words: recordedWords }),
+            ...(recording?.language && { language: recording.language }),
+            ...(recording?.sections.length && { sections: recording.sections }),
           },
         }),
       });
@@ -174,7 +265,14 @@ export default function Home() {
       }
       
       setError(null);
-      return await response.json();
+      const saved = await response.json();
+      setSavedTranscriptionId(saved?.id ?? null);
+      
+      if (saved?.id && recording?.audio) {
+        await uploadRecording(saved.id, recording.audio);
+      }
+      
+      return saved;
     } catch (err) {
       setError('Failed to save transcription. Please try again.');
       console.error('Error saving transcription:', err);
@@ -182,6 +280,233 @@ export default function Home() {
     }
   };
 
+  // Track the current recording session in state and for async callbacks
+  const updateRecordingSession = (session: RecordingSession | null) => {
+    recordingSessionRef.current = session;
+    setRecordingSession(session);
+  };
+  
+  // Run a session request after the ones already queued
+  const queueSessionRequest = <T,>(request: () => Promise<T>): Promise<T> => {
+    const next = sessionQueueRef.current.then(request);
+    sessionQueueRef.current = next.catch(() => undefined);
+    return next;
+  };
+  
+  // Start a recording session; recording still works without one if this fails
+  const startRecordingSession = async () => {
+    try {
+      const response = await fetch('/api/transcription/sessions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          userType,
+          purpose: getPurposeFromUserType(userType),
+          language,
+          diarize: pageConfigs[userType].diarize,
+        }),
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Session API error: ${response.status}`);
+      }
+      
+      restoredSessionRef.current = false;
+      updateRecordingSession(await response.json());
+    } catch (err) {
+      console.error('Error starting recording session:', err);
+      updateRecordingSession(null);
+    }
+  };
+  
+  // Pause, resume or complete the current session
+  const setRecordingSessionStatus = (status: RecordingSessionStatus) => {
+    const session = recordingSessionRef.current;
+    if (!session) return Promise.resolve(null);
+    
+    return queueSessionRequest(async () => {
+      const response = await fetch(`/api/transcription/sessions/${session.id}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status }),
+        // Lets the pause sent while the page unloads complete
+        keepalive: true,
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Session API error: ${response.status}`);
+      }
+      
+      const updated: RecordingSession = await response.json();
+      if (status !== 'completed') {
+        updateRecordingSession(updated);
+      }
+      return updated;
+    }).catch(err => {
+      console.error(`Error updating recording session to ${status}:`, err);
+      return null;
+    });
+  };
+  
+  // Store a finished segment with the session's transcription
+  const handleSegmentComplete = (segment: RecordedSegment) => {
+    const session = recordingSessionRef.current;
+    if (!session) return;
+    
+    queueSessionRequest(async () => {
+      const response = await fetch(`/api/transcription/sessions/${session.id}/segments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(segment),
+        keepalive: true,
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Session API error: ${response.status}`);
+      }
+      
+      const data = await response.json();
+      if (data.session) {
+        updateRecordingSession(data.session);
+      }
+      if (data.transcription?.id) {
+        setSavedTranscriptionId(data.transcription.id);
+      }
+    }).catch(err => {
+      setError('Failed to save part of the recording. Please try again.');
+      console.error('Error saving recording segment:', err);
+    });
+  };
+  
+  // Complete the session and load the transcription built from its segments
+  const completeRecordingSession = async (recording?: CompletedRecording) => {
+    const session = await setRecordingSessionStatus('completed');
+    const restored = restoredSessionRef.current;
+    updateRecordingSession(null);
+    restoredSessionRef.current = false;
+    
+    if (!session?.transcriptionId) {
+      return null;
+    }
+    
+    try {
+      const response = await fetch(`/api/transcription/${session.transcriptionId}`);
+      
+      if (!response.ok) {
+        throw new Error('Failed to load transcription');
+      }
+      
+      const saved = await response.json();
+      const metadata = saved.metadata || {};
+      
+      setSavedTranscriptionId(saved.id);
+      setWords(metadata.words || []);
+      setSegments(metadata.diarization?.segments || []);
+      setTranscriptionLanguage(metadata.language || null);
+      setSectionMarkers(metadata.sections || []);
+      setError(null);
+      
+      // Audio recorded before a reload is lost, so it would not line up with the words
+      if (recording?.audio && !restored) {
+        await uploadRecording(saved.id, recording.audio);
+      }
+      
+      return saved;
+    } catch (err) {
+      setError('Recording saved, but the transcription could not be loaded.');
+      console.error('Error completing recording session:', err);
+      return null;
+    }
+  };
+  
+  // Upload the recorded audio so the transcript can be played back
+  const uploadRecording = async (id: number, audio: Blob) => {
+    try {
+      const formData = new FormData();
+      formData.append('audio', audio, 'recording');
+      
+      const response = await fetch(`/api/transcription/${id}/audio`, {
+        method: 'POST',
+        body: formData,
+      });
+      
+      if (!response.ok) {
+        throw new Error('Failed to upload recording');
+      }
+      
+      setRecordingUrl(`/api/transcription/${id}/audio`);
+    } catch (err) {
+      setError('Transcription saved, but the recording could not be uploaded.');
+      console.error('Error uploading recording:', err);
+    }
+  };
+
+  // Apply a word correction and persist it with the saved transcription
+  const handleCorrectWord = async (index: number, text: string) => {
+    const { words: correctedWords, correction } = applyCorrection(words, index, text);
+    const correctedText = wordsToText(correctedWords);
+    
+    setWords(correctedWords);
+    setTranscription(correctedText);
+    setTranscriptionByUserType(prev => ({
+      ...prev,
+      [userType]: correctedText
+    }));
+    
+    if (savedTranscriptionId === null) return;
+    
+    try {
+      const response = await fetch(`/api/transcription/${savedTranscriptionId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          text: correctedText,
+          words: correctedWords,
+          corrections: [correction],
+        }),
+      });
+      
+      if (!response.ok) {
+        throw new Error('Failed to save correction');
+      }
+    } catch (err) {
+      setError('Failed to save correction. Please try again.');
+      console.error('Error saving correction:', err);
+    }
+  };
+
+  // Rename a speaker locally and on the saved transcription
+  const handleRenameSpeaker = async (speaker: number, name: string) => {
+    setSpeakerNames(prev => ({ ...prev, [speaker]: name }));
+    
+    if (savedTranscriptionId === null) return;
+    
+    try {
+      const response = await fetch(`/api/transcription/${savedTranscriptionId}/speakers`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ speakerNames: { [speaker]: name } }),
+      });
+      
+      if (!response.ok) {
+        throw new Error('Failed to rename speaker');
+      }
+    } catch (err) {
+      setError('Failed to save speaker name. Please try again.');
+      console.error('Error renaming speaker:', err);
+    }
+  };
+
   // Get the purpose based on the user type
   const getPurposeFromUserType = (type: UserType): string => {
     switch (type) {
@@ -206,6 +531,13 @@ export default function Home() {
     setIsFormatting(true);
     // Show immediate feedback by setting a loading message
     setFormattedOutput('Formatting your text...');
+    setClinicalNote(null);
+    
+    formatAbortRef.current?.abort();
+    const controller = new AbortController();
+    formatAbortRef.current = controller;
+    // Text received so far; structured notes only arrive complete
+    let streamedText = '';
     
     try {
       // Use the baseUrl state instead of checking window
@@ -213,39 +545,142 @@ export default function Home() {
       
       console.log('Making format API call to:', apiUrl);
       
-      // Call the formatting API endpoint with the correct base URL
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      // Call the formatting API endpoint with the correct base URL, showing the text as it is generated
+      const data = await postEventStream<{ formattedText: string; structured?: ClinicalNote | null; fromCache?: boolean }>(apiUrl, {
+        text: insertSectionMarkers(transcription, sectionMarkers),
+        format: outputFormat,
+        userType: userType,
+        sourceLanguage,
+        targetLanguage: targetLanguage || undefined,
+        // Saved as a version of the transcription's artifact for this format
+        transcriptionId: savedTranscriptionIdRef.current ?? undefined,
+      }, {
+        onDelta: (text) => {
+          streamedText += text;
+          setFormattedOutput(streamedText);
         },
-        body: JSON.stringify({
-          text: transcription,
-          format: outputFormat,
-          userType: userType,
-        }),
+        onReset: () => {
+          streamedText = '';
+          setFormattedOutput('Formatting your text...');
+        },
+        signal: controller.signal,
       });
       
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Format API error: ${response.status} ${response.statusText} ${JSON.stringify(errorData)}`);
-      }
-      
-      const data = await response.json();
-      
       // If the response came from cache, show that to the user
       if (data.fromCache) {
         setFormattedOutput(data.formattedText + "\n\n(Retrieved from cache)");
       } else {
         setFormattedOutput(data.formattedText);
       }
+      setClinicalNote(data.structured || null);
       
       setError(null);
     } catch (err: any) {
+      if (isAbortError(err)) {
+        // Keep the text generated before formatting was stopped
+        setFormattedOutput(streamedText);
+        return;
+      }
       setError(`Failed to format transcription: ${err.message || 'Unknown error'}`);
       console.error('Error formatting transcription:', err);
     } finally {
-      setIsFormatting(false);
+      if (formatAbortRef.current === controller) {
+        formatAbortRef.current = null;
+        setIsFormatting(false);
+      }
+    }
+  };
+
+  // Stop the format or summarize request in progress
+  const cancelFormatting = () => {
+    formatAbortRef.current?.abort();
+  };
+
+  // Save an edited SOAP note or clinical summary as a new version of the saved transcription's artifact
+  const saveClinicalNote = async (note: ClinicalNote) => {
+    const response = await fetch(`/api/transcription/${savedTranscriptionIdRef.current}/artifacts`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ type: note.format, data: note }),
+    });
+    
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error([data.error, ...(data.details || [])].filter(Boolean).join(': ') || `Save API error: ${response.status}`);
+    }
+    
+    setClinicalNote(data.data);
+    setFormattedOutput(data.content);
+  };
+
+  // End the current live summary session, if any
+  const endLiveSummary = async () => {
+    const sessionId = await liveSummarySessionRef.current;
+    liveSummarySessionRef.current = null;
+    setLiveSummarySessionId(null);
+    
+    if (sessionId) {
+      fetch(`/api/transcription/summarize/live/${sessionId}`, { method: 'DELETE' })
+        .catch(err => console.error('Error ending live summary session:', err));
+    }
+  };
+  
+  // Open a new live summary session for the recording about to start
+  const startLiveSummary = async () => {
+    await endLiveSummary();
+    
+    liveSummarySessionRef.current = fetch('/api/transcription/summarize/live', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({}),
+    })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`Live summary API error: ${response.status}`);
+        }
+        return response.json();
+      })
+      .then(data => {
+        setLiveSummarySessionId(data.sessionId);
+        setSummaryResponse(null);
+        return data.sessionId as string;
+      })
+      .catch(err => {
+        console.error('Error starting live summary:', err);
+        return null;
+      });
+  };
+  
+  // Fold newly recorded text into the live summary
+  const handleTranscriptDelta = async (delta: string) => {
+    const sessionId = await liveSummarySessionRef.current;
+    if (!sessionId) return;
+    
+    try {
+      const response = await fetch('/api/transcription/summarize/live', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          sessionId,
+          delta,
+          userType,
+          transcriptionId: recordingSessionRef.current?.transcriptionId,
+          sourceLanguage,
+          targetLanguage: targetLanguage || undefined,
+        }),
+      });
+      
+      if (!response.ok) {
+        throw new Error(`Live summary API error: ${response.status}`);
+      }
+    } catch (err) {
+      console.error('Error updating live summary:', err);
     }
   };
 
@@ -253,7 +688,22 @@ export default function Home() {
   const startRecording = async () => {
     try {
       if (recorderRef.current) {
-        await recorderRef.current.startRecording();
+        if (pageConfigs[userType].liveSummary) {
+          await startLiveSummary();
+        }
+        
+        // Continue a restored session, or start a new one
+        const resumeFrom = recordingSessionRef.current
+          ? { text: transcription, segments, sections: sectionMarkers }
+          : undefined;
+        if (resumeFrom) {
+          await setRecordingSessionStatus('recording');
+        } else {
+          setSectionMarkers([]);
+          await startRecordingSession();
+        }
+        
+        await recorderRef.current.startRecording(resumeFrom);
         setIsRecording(true);
       }
     } catch (err: any) {
@@ -266,8 +716,9 @@ export default function Home() {
   const stopRecording = async () => {
     try {
       if (recorderRef.current) {
-        recorderRef.current.stopRecording();
         setIsRecording(false);
+        // Resolves once audio buffered while offline has been transcribed
+        await recorderRef.current.stopRecording();
         
         // Auto-convert if enabled for this user type
         if (pageConfigs[userType].autoConvert) {
@@ -287,13 +738,72 @@ export default function Home() {
     }
   };
 
+  // Pause the recording, ending the current segment
+  const pauseRecording = () => {
+    if (recorderRef.current) {
+      recorderRef.current.pauseRecording();
+      setRecordingSessionStatus('paused');
+    }
+  };
+  
+  // Resume the recording in a new segment
+  const resumeRecording = () => {
+    if (recorderRef.current) {
+      recorderRef.current.resumeRecording();
+      setRecordingSessionStatus('recording');
+    }
+  };
+  
+  // Act on a command spoken during the recording
+  const handleVoiceCommand = (command: VoiceCommand) => {
+    switch (command.action) {
+      case 'section':
+        if (command.value) {
+          setSectionMarkers(prev => [
+            ...prev,
+            { section: command.value as string, offset: command.textOffset, time: command.time ?? 0 }
+          ]);
+        }
+        break;
+      case 'pause':
+        pauseRecording();
+        break;
+      case 'stop':
+        stopRecording();
+        break;
+      case 'format':
+        if (
+          pageConfigs[userType].availableFormats.includes(command.value as OutputFormat) ||
+          formatTemplates.some(template => template.name === command.value)
+        ) {
+          setOutputFormat(command.value as string);
+        }
+        break;
+    }
+  };
+  
   // Clear the current transcription
   const clearCurrentTranscription = () => {
+    // A restored session that is cleared is finished as it stands
+    if (recordingSessionRef.current && !isRecording) {
+      setRecordingSessionStatus('completed');
+      updateRecordingSession(null);
+      restoredSessionRef.current = false;
+    }
     if (recorderRef.current) {
       recorderRef.current.clearTranscription();
     }
+    endLiveSummary();
     setTranscription('');
     setFormattedOutput('');
+    setClinicalNote(null);
+    setSegments([]);
+    setSpeakerNames({});
+    setSavedTranscriptionId(null);
+    setWords([]);
+    setRecordingUrl(null);
+    setTranscriptionLanguage(null);
+    setSectionMarkers([]);
     setTranscriptionByUserType(prev => ({
       ...prev,
       [userType]: ''
@@ -301,6 +811,33 @@ export default function Home() {
     setSummaryResponse(null);
   };
 
+  // Load a transcription produced from an uploaded recording
+  const handleUploadedTranscription = (saved: { id: number; text: string; metadata?: TranscriptionMetadata }) => {
+    const metadata = saved.metadata || {};
+    
+    setTranscription(saved.text);
+    setTranscriptionByUserType(prev => ({
+      ...prev,
+      [userType]: saved.text
+    }));
+    setWords(metadata.words || []);
+    setSegments(metadata.diarization?.segments || []);
+    setSpeakerNames(metadata.diarization?.speakerNames || {});
+    setTranscriptionLanguage(metadata.language || null);
+    setSectionMarkers(metadata.sections || []);
+    setSavedTranscriptionId(saved.id);
+    setRecordingUrl(metadata.audio ? `/api/transcription/${saved.id}/audio` : null);
+    setFormattedOutput('');
+    setClinicalNote(null);
+    setSummaryResponse(null);
+    setError(null);
+    
+    // Run the same conversion a finished live recording would get
+    if (pageConfigs[userType].autoConvert) {
+      setPendingAutoConvert(true);
+    }
+  };
+
   // Handle recording state change from the recorder component
   const handleRecordingStateChange = (isRecording: boolean) => {
     setIsRecording(isRecording);
@@ -316,6 +853,11 @@ export default function Home() {
     setIsFormatting(true);
     // Show immediate feedback by setting a loading message
     setSummaryResponse(null);
+    setStreamingSummary('');
+    
+    formatAbortRef.current?.abort();
+    const controller = new AbortController();
+    formatAbortRef.current = controller;
     
     try {
       // Use the baseUrl state instead of checking window
@@ -323,25 +865,19 @@ export default function Home() {
       
       console.log('Making summarize API call to:', apiUrl);
       
-      // Call the summarization API endpoint with the correct base URL
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          text: transcription,
-          userType: userType,
-        }),
+      // Call the summarization API endpoint with the correct base URL, showing the summary as it is written
+      const data = await postEventStream<LectureSummaryResponse>(apiUrl, {
+        text: insertSectionMarkers(transcription, sectionMarkers),
+        userType: userType,
+        sourceLanguage,
+        targetLanguage: targetLanguage || undefined,
+        transcriptionId: savedTranscriptionIdRef.current ?? undefined,
+      }, {
+        onDelta: (text) => setStreamingSummary(current => current + text),
+        onReset: () => setStreamingSummary(''),
+        signal: controller.signal,
       });
       
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Summarize API error: ${response.status} ${response.statusText} ${JSON.stringify(errorData)}`);
-      }
-      
-      const data = await response.json();
-      
       setSummaryResponse(data);
       
       // Prevent auto-scrolling by using setTimeout to delay focus
@@ -355,23 +891,97 @@ export default function Home() {
       
       setError(null);
     } catch (err: any) {
+      if (isAbortError(err)) return;
       setError(`Failed to summarize transcription: ${err.message || 'Unknown error'}`);
       console.error('Error summarizing transcription:', err);
     } finally {
-      setIsFormatting(false);
+      if (formatAbortRef.current === controller) {
+        formatAbortRef.current = null;
+        setIsFormatting(false);
+        setStreamingSummary('');
+      }
     }
   };
 
+  // Convert the transcription to the output this user type gets
+  const convertTranscription = () => {
+    if (pageConfigs[userType].outputType === 'summary') {
+      getSummary();
+    } else {
+      formatTranscription();
+    }
+  };
+
+  // Handlers from the latest render, for effects that should not re-run when they change
+  const handlers = { pauseRecording, setRecordingSessionStatus, handleUploadedTranscription, convertTranscription };
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  // Keep what was recorded if the page is closed or reloaded mid-recording
+  useEffect(() => {
+    if (!isRecording || isPaused) return;
+    
+    const handlePageHide = () => handlersRef.current.pauseRecording();
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [isRecording, isPaused]);
+  
+  // Restore an unfinished recording session after a reload
+  useEffect(() => {
+    const restoreRecordingSession = async () => {
+      try {
+        const response = await fetch('/api/transcription/sessions', { cache: 'no-store' });
+        if (!response.ok) return;
+        
+        const sessions: RecordingSession[] = await response.json();
+        if (sessions.length === 0) return;
+        
+        restoredSessionRef.current = true;
+        updateRecordingSession(sessions[0]);
+        
+        // The recording that was in progress ended with the previous page
+        if (sessions[0].status === 'recording') {
+          await handlersRef.current.setRecordingSessionStatus('paused');
+        }
+        
+        if (sessions[0].transcriptionId) {
+          const transcriptionResponse = await fetch(`/api/transcription/${sessions[0].transcriptionId}`);
+          if (transcriptionResponse.ok) {
+            handlersRef.current.handleUploadedTranscription(await transcriptionResponse.json());
+          }
+        }
+      } catch (err) {
+        console.error('Error restoring recording session:', err);
+      }
+    };
+    
+    restoreRecordingSession();
+  }, []);
+
+  // Auto-convert once an uploaded transcription has been loaded into state
+  useEffect(() => {
+    if (!pendingAutoConvert || !transcription.trim()) return;
+    
+    setPendingAutoConvert(false);
+    handlersRef.current.convertTranscription();
+  }, [pendingAutoConvert, transcription]);
+
   return (
     <div className="min-h-screen bg-gradient-to-b from-purple-50 to-white">
       <header className="bg-white shadow-sm">
         <div className="container mx-auto px-4 py-4">
-          <div className="flex justify-center">
+          <div className="relative flex justify-center items-center">
             <h1 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-purple-600 to-purple-400">
               {enabledUserTypes.length === 1 && enabledUserTypes[0] === 'School Lecture' 
                 ? 'School Lecture Transcriber' 
                 : "I'm Listening"}
             </h1>
+            <Link
+              href="/transcriptions"
+              className="absolute right-0 text-sm text-purple-600 hover:text-purple-800 transition-colors"
+            >
+              Library
+            </Link>
           </div>
         </div>
       </header>
@@ -412,31 +1022,107 @@ export default function Home() {
               <div className="mb-6">
                 <div className="flex justify-between items-center mb-2">
                   <h2 className="text-lg font-medium text-purple-800">Live Transcribe</h2>
-                  <button
-                    onClick={isRecording ? stopRecording : startRecording}
-                    className={`flex items-center px-4 py-2 rounded-full text-sm font-medium transition-colors shadow-sm ${
-                      isRecording
-                        ? 'bg-gradient-to-r from-red-500 to-red-600 text-white hover:from-red-600 hover:to-red-700'
-                        : 'bg-gradient-to-r from-purple-600 to-purple-500 text-white hover:from-purple-700 hover:to-purple-600'
-                    }`}
-                  >
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={language}
+                      onChange={(e) => setLanguage(e.target.value)}
+                      disabled={isRecording}
+                      title="Spoken language"
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                    >
+                      <option value={AUTO_DETECT_LANGUAGE} title={getAutoDetectDescription()}>Auto-detect</option>
+                      {SUPPORTED_LANGUAGES.map(({ code, name }) => (
+                        <option key={code} value={code}>{name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={targetLanguage}
+                      onChange={(e) => setTargetLanguage(e.target.value)}
+                      title="Language for formatted output, summaries and chat"
+                      className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    >
+                      <option value="">Respond in transcript language</option>
+                      {SUPPORTED_LANGUAGES.map(({ code, name }) => (
+                        <option key={code} value={code}>Respond in {name}</option>
+                      ))}
+                    </select>
                     {isRecording ? (
-                      <>
-                        <span className="mr-2 h-2 w-2 rounded-full bg-white animate-pulse"></span>
-                        Stop Recording
-                      </>
-                    ) : (
-                      <>
-                        <span className="mr-2">🎤</span>
-                        Start Recording
-                      </>
+                      <button
+                        onClick={isPaused ? resumeRecording : pauseRecording}
+                        className="px-4 py-2 rounded-full text-sm font-medium transition-colors shadow-sm bg-white border border-purple-200 text-purple-700 hover:bg-purple-50"
+                      >
+                        {isPaused ? 'Resume' : 'Pause'}
+                      </button>
+                    ) : recordingSession && (
+                      <button
+                        onClick={() => completeRecordingSession()}
+                        className="px-4 py-2 rounded-full text-sm font-medium transition-colors shadow-sm bg-white border border-purple-200 text-purple-700 hover:bg-purple-50"
+                      >
+                        Finish Session
+                      </button>
                     )}
-                  </button>
+                    <button
+                      onClick={isRecording ? stopRecording : startRecording}
+                      className={`flex items-center px-4 py-2 rounded-full text-sm font-medium transition-colors shadow-sm ${
+                        isRecording
+                          ? 'bg-gradient-to-r from-red-500 to-red-600 text-white hover:from-red-600 hover:to-red-700'
+                          : 'bg-gradient-to-r from-purple-600 to-purple-500 text-white hover:from-purple-700 hover:to-purple-600'
+                      }`}
+                    >
+                      {isRecording ? (
+                        <>
+                          <span className="mr-2 h-2 w-2 rounded-full bg-white animate-pulse"></span>
+                          Stop Recording
+                        </>
+                      ) : (
+                        <>
+                          <span className="mr-2">🎤</span>
+                          {recordingSession ? 'Resume Session' : 'Start Recording'}
+                        </>
+                      )}
+                    </button>
+                  </div>
                 </div>
+                {transcriptionLanguage && (
+                  <p className="mb-2 text-xs text-gray-500">Transcript language: {getLanguageName(transcriptionLanguage)}</p>
+                )}
+                {isRecording && pageConfigs[userType].voiceCommands && (
+                  <p className="mb-2 text-xs text-gray-500">
+                    Voice commands: &quot;new section assessment&quot;, &quot;pause recording&quot;, &quot;stop recording&quot;, &quot;switch format to SOAP&quot;
+                  </p>
+                )}
+                {/* Sections started by voice command */}
+                {sectionMarkers.length > 0 && (
+                  <div className="mb-2 flex flex-wrap gap-2">
+                    {sectionMarkers.map((marker, idx) => (
+                      <span
+                        key={idx}
+                        className="px-3 py-1 bg-purple-100 text-purple-800 rounded-full text-xs font-medium"
+                      >
+                        {marker.section} · {Math.floor(marker.time / 60)}:{String(Math.floor(marker.time % 60)).padStart(2, '0')}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {/* Restored session notice - recording continues in a new segment */}
+                {!isRecording && recordingSession && (
+                  <div className="mb-2 px-3 py-2 rounded-md bg-purple-50 border border-purple-200 text-sm text-purple-800">
+                    Paused recording session restored ({recordingSession.segments.length} segment{recordingSession.segments.length === 1 ? '' : 's'}, {Math.round(recordingSession.duration / 60)} min). Resume to keep adding to it, or finish it.
+                  </div>
+                )}
+                {/* Connection recovery notice - audio keeps recording while offline */}
+                {isRecording && (recordingStatus === 'reconnecting' || recordingStatus === 'catching-up') && (
+                  <div className="mb-2 px-3 py-2 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-800 flex items-center">
+                    <span className="mr-2 h-2 w-2 rounded-full bg-amber-500 animate-pulse"></span>
+                    {recordingStatus === 'reconnecting'
+                      ? 'Connection lost. Still recording; reconnecting...'
+                      : 'Reconnected. Catching up on audio recorded while offline...'}
+                  </div>
+                )}
                 <div className="bg-white rounded-lg shadow-md border border-purple-100 overflow-hidden">
                   {!transcription.trim() ? (
                     <div className="p-4">
-                      <p className="text-gray-500 mb-4">Select an example lecture below or start recording to transcribe your own lecture.</p>
+                      <p className="text-gray-500 mb-4">Select an example lecture below, start recording, or upload a recording to transcribe your own lecture.</p>
                       <ExampleLectureButtons 
                         onSelectLecture={(content) => {
                           setTranscription(content);
@@ -446,7 +1132,24 @@ export default function Home() {
                           }));
                         }} 
                       />
+                      <div className="mt-4 pt-4 border-t border-gray-100">
+                        <AudioUploadButton
+                          userType={userType}
+                          purpose={getPurposeFromUserType(userType)}
+                          diarize={pageConfigs[userType].diarize}
+                          language={language}
+                          onTranscribed={handleUploadedTranscription}
+                          onError={(err) => setError(`Failed to transcribe upload: ${err.message}`)}
+                        />
+                      </div>
                     </div>
+                  ) : words.length > 0 && !isRecording ? (
+                    <TranscriptEditor
+                      words={words}
+                      threshold={confidenceThreshold}
+                      onThresholdChange={setConfidenceThreshold}
+                      onCorrectWord={handleCorrectWord}
+                    />
                   ) : (
                     <textarea
                       className="w-full h-48 p-4 text-gray-700 resize-none focus:outline-none"
@@ -466,6 +1169,36 @@ export default function Home() {
                 </div>
               </div>
 
+              {/* Speaker-attributed transcript - Only show when diarization found speakers */}
+              {segments.length > 0 && (
+                <div className="mb-6">
+                  <div className="flex justify-between items-center mb-2">
+                    <h2 className="text-lg font-medium text-purple-800">Speakers</h2>
+                    <span className="text-xs text-gray-500">Click a speaker to rename</span>
+                  </div>
+                  <div className="bg-white rounded-lg shadow-md border border-purple-100 p-4 max-h-80 overflow-y-auto">
+                    <SpeakerTranscript
+                      segments={segments}
+                      speakerNames={speakerNames}
+                      onRenameSpeaker={handleRenameSpeaker}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Audio-synced playback - Only show once the recording has been uploaded */}
+              {recordingUrl && words.length > 0 && (
+                <div className="mb-6">
+                  <div className="flex justify-between items-center mb-2">
+                    <h2 className="text-lg font-medium text-purple-800">Playback</h2>
+                    <span className="text-xs text-gray-500">Click a word to jump to it</span>
+                  </div>
+                  <div className="bg-white rounded-lg shadow-md border border-purple-100 p-4">
+                    <TranscriptPlayback audioUrl={recordingUrl} words={words} />
+                  </div>
+                </div>
+              )}
+
               {/* Format Controls - Only show for tabs that have format controls enabled */}
               {pageConfigs[userType].showFormatControls && (
                 <div className="mb-6">
@@ -475,7 +1208,7 @@ export default function Home() {
                       <select
                         className="w-full md:w-auto px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 bg-white"
                         value={outputFormat}
-                        onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+                        onChange={(e) => setOutputFormat(e.target.value)}
                         disabled={isFormatting}
                       >
                         {pageConfigs[userType].availableFormats.map(format => (
@@ -487,9 +1220,19 @@ export default function Home() {
                              `${format}`}
                           </option>
                         ))}
+                        {formatTemplates.length > 0 && (
+                          <optgroup label="Templates">
+                            {formatTemplates.map(template => (
+                              <option key={template.id} value={template.name}>{template.name}</option>
+                            ))}
+                          </optgroup>
+                        )}
                       </select>
+                      <Link href="/templates" className="block mt-1 text-xs text-purple-600 hover:text-purple-800">
+                        Manage templates
+                      </Link>
                     </div>
-                    <div className="flex-shrink-0 self-end">
+                    <div className="flex-shrink-0 self-end flex gap-2">
                       <button
                         onClick={formatTranscription}
                         disabled={!transcription.trim() || isFormatting}
@@ -507,6 +1250,14 @@ export default function Home() {
                           'Convert'
                         )}
                       </button>
+                      {isFormatting && (
+                        <button
+                          onClick={cancelFormatting}
+                          className="px-4 py-2 border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-purple-500 transition-colors"
+                        >
+                          Stop
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -542,14 +1293,30 @@ export default function Home() {
               <div className="mb-6">
                 <div className="bg-white rounded-lg shadow-md border border-purple-100 overflow-hidden">
                   {pageConfigs[userType].outputType === 'summary' ? (
-                    summaryResponse ? (
-                      <LectureArticleView summaryData={summaryResponse} isLoading={isFormatting} />
+                    summaryResponse || liveSummarySessionId || isFormatting ? (
+                      <LectureArticleView
+                        summaryData={summaryResponse}
+                        isLoading={isFormatting}
+                        streamingSummary={streamingSummary}
+                        onCancel={cancelFormatting}
+                        liveSessionId={liveSummarySessionId}
+                        isLive={isRecording}
+                        sourceLanguage={sourceLanguage}
+                        targetLanguage={targetLanguage || undefined}
+                      />
                     ) : (
                       <div className="p-4 text-gray-700">
-                        {isFormatting ? 'Summarizing...' : 'Summary will appear here after clicking Summarize...'}
+                        Summary will appear here after clicking Summarize...
                       </div>
                     )
-                  ) : outputFormat === 'HTML' ? (
+                  ) : clinicalNote ? (
+                    <div className="p-4">
+                      <ClinicalNoteForm
+                        note={clinicalNote}
+                        onSave={savedTranscriptionId !== null ? saveClinicalNote : undefined}
+                      />
+                    </div>
+                  ) : outputFormat === 'HTML' || formatTemplates.some(template => template.name === outputFormat && template.output_type === 'html') ? (
                     <div className="p-4">
                       <div dangerouslySetInnerHTML={{ __html: formattedOutput }} className="prose max-w-none" />
                     </div>
@@ -582,10 +1349,21 @@ export default function Home() {
               <div className="hidden">
                 <TranscriptionRecorder 
                   ref={recorderRef}
+                  diarize={pageConfigs[userType].diarize}
+                  userType={userType}
+                  language={language}
+                  onLanguageChange={setLanguage}
                   onTranscriptionUpdate={handleTranscriptionUpdate}
+                  onSegmentsUpdate={setSegments}
                   onTranscriptionComplete={saveTranscription}
                   onError={(err) => setError(err.message)}
                   onRecordingStateChange={handleRecordingStateChange}
+                  onStatusChange={setRecordingStatus}
+                  onTranscriptDelta={pageConfigs[userType].liveSummary ? handleTranscriptDelta : undefined}
+                  onSegmentComplete={handleSegmentComplete}
+                  deltaIntervalMs={LIVE_SUMMARY_INTERVAL_MS}
+                  voiceCommands={pageConfigs[userType].voiceCommands ? getVoiceCommands([...pageConfigs[userType].availableFormats, ...formatTemplates.map(template => template.name)]) : undefined}
+                  onVoiceCommand={handleVoiceCommand}
                 />
               </div>
             </div>
@@ -596,7 +1374,12 @@ export default function Home() {
                 <div className="flex justify-between items-center mb-2">
                   <h2 className="text-lg font-medium text-purple-800">AI Assistant</h2>
                 </div>
-                <ChatBot userType={userType} />
+                <ChatBot
+                  userType={userType}
+                  transcript={transcription}
+                  sourceLanguage={sourceLanguage}
+                  targetLanguage={targetLanguage || undefined}
+                />
               </div>
             )}
           </div>
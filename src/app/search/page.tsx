@@ -3,7 +3,8 @@
 import Link from 'next/link';
 import { useState, FormEvent } from 'react';
 
-interface SearchResult {
+interface ArticleSearchResult {
+  type: 'article';
   chunkId: string;
   articleId: string;
   content: string;
@@ -17,8 +18,32 @@ interface SearchResult {
   } | null;
 }
 
+interface TranscriptionSearchResult {
+  type: 'transcription';
+  chunkId: string;
+  transcriptionId: number;
+  content: string;
+  chunkIndex: number;
+  transcription: {
+    userType?: string;
+    purpose?: string;
+    createdAt: string;
+  };
+}
+
+type SearchResult = ArticleSearchResult | TranscriptionSearchResult;
+
+type SearchScope = 'articles' | 'transcriptions' | 'both';
+
+const SCOPE_OPTIONS: { value: SearchScope; label: string }[] = [
+  { value: 'both', label: 'Articles and transcriptions' },
+  { value: 'articles', label: 'Articles only' },
+  { value: 'transcriptions', label: 'Transcriptions only' }
+];
+
 export default function SearchPage() {
   const [query, setQuery] = useState('');
+  const [scope, setScope] = useState<SearchScope>('both');
   const [results, setResults] = useState<SearchResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -40,6 +65,7 @@ export default function SearchPage() {
         body: JSON.stringify({
           query,
           limit: 10,
+          scope,
         }),
       });
       
@@ -83,7 +109,7 @@ export default function SearchPage() {
         <div className="glass-card rounded-xl shadow-lg p-6 mb-8">
           <h1 className="text-4xl font-bold gradient-text mb-4 text-center">Semantic Search</h1>
           <p className="text-gray-700 mb-6 text-center">
-            Search through articles using semantic understanding powered by Azure OpenAI embeddings
+            Search through articles and saved transcriptions using semantic understanding powered by Azure OpenAI embeddings
           </p>
           
           {error && (
@@ -102,6 +128,17 @@ export default function SearchPage() {
                 className="flex-grow px-4 py-3 glass-input rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
                 disabled={isLoading}
               />
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as SearchScope)}
+                title="What to search"
+                className="px-4 py-3 glass-input rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+                disabled={isLoading}
+              >
+                {SCOPE_OPTIONS.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
               <button
                 type="submit"
                 className="purple-button px-6 py-3 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
@@ -126,8 +163,30 @@ export default function SearchPage() {
             <div>
               <h2 className="text-2xl font-semibold gradient-text mb-4">Search Results</h2>
               <div className="space-y-6">
-                {results.map((result) => (
-                  <div key={result.chunkId} className="glass-card p-4 rounded-lg">
+                {results.map((result) => result.type === 'transcription' ? (
+                  <div key={`transcription-${result.chunkId}`} className="glass-card p-4 rounded-lg">
+                    <h3 className="text-lg font-semibold text-purple-800 mb-2">
+                      Transcription from {new Date(result.transcription.createdAt).toLocaleDateString()}
+                    </h3>
+                    {result.transcription.userType && (
+                      <p className="text-sm text-gray-600 mb-2">
+                        {result.transcription.userType}
+                        {result.transcription.purpose && ` • ${result.transcription.purpose.replace(/_/g, ' ')}`}
+                      </p>
+                    )}
+                    <p className="text-gray-700 mb-2">{result.content}</p>
+                    <Link
+                      href={`/transcriptions/${result.transcriptionId}`}
+                      className="text-purple-600 hover:text-purple-800 text-sm inline-flex items-center"
+                    >
+                      Open transcription
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 ml-1" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M10.293 5.293a1 1 0 011.414 0l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414-1.414L12.586 11H5a1 1 0 110-2h7.586l-2.293-2.293a1 1 0 010-1.414z" clipRule="evenodd" />
+                      </svg>
+                    </Link>
+                  </div>
+                ) : (
+                  <div key={`article-${result.chunkId}`} className="glass-card p-4 rounded-lg">
                     <h3 className="text-lg font-semibold text-purple-800 mb-2">
                       {result.article?.title || 'Untitled Article'}
                     </h3>
@@ -167,7 +226,7 @@ export default function SearchPage() {
           
           {!isLoading && !query.trim() && !results.length && (
             <div className="text-center p-8 glass-card rounded-lg">
-              <p className="text-gray-600">Enter a search query to find relevant articles.</p>
+              <p className="text-gray-600">Enter a search query to find relevant articles and transcriptions.</p>
               <p className="text-gray-500 text-sm mt-2">Our semantic search understands the meaning behind your query, not just keywords.</p>
             </div>
           )}
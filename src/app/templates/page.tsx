@@ -0,0 +1,269 @@
+'use client';
+
+import Link from 'next/link';
+import { useState, useEffect, FormEvent } from 'react';
+import type { FormatTemplate, TemplateOutputType } from '@/types/formatTemplate';
+
+interface TemplateForm {
+  name: string;
+  system_prompt: string;
+  // One heading per line
+  sections: string;
+  output_type: TemplateOutputType;
+  shared: boolean;
+}
+
+const OUTPUT_TYPES: { value: TemplateOutputType; label: string }[] = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'text', label: 'Plain text' },
+  { value: 'html', label: 'HTML' }
+];
+
+const EMPTY_FORM: TemplateForm = {
+  name: '',
+  system_prompt: '',
+  sections: '',
+  output_type: 'markdown',
+  shared: false
+};
+
+export default function FormatTemplatesPage() {
+  const [templates, setTemplates] = useState<FormatTemplate[]>([]);
+  const [canManageShared, setCanManageShared] = useState(false);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  // Template being edited; null when creating a new one
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTemplates = async () => {
+    const response = await fetch('/api/format-templates');
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load templates');
+    }
+    setTemplates(data.templates || []);
+    setCanManageShared(!!data.canManageShared);
+  };
+
+  useEffect(() => {
+    loadTemplates()
+      .catch(err => {
+        setError('Failed to load templates. Please try again.');
+        console.error('Error loading format templates:', err);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const canModify = (template: FormatTemplate) => template.user_id !== null || canManageShared;
+
+  const startEditing = (template: FormatTemplate) => {
+    setEditingId(template.id);
+    setForm({
+      name: template.name,
+      system_prompt: template.system_prompt,
+      sections: template.sections.join('\n'),
+      output_type: template.output_type,
+      shared: template.user_id === null
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(editingId ? `/api/format-templates/${editingId}` : '/api/format-templates', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: form.name,
+          system_prompt: form.system_prompt,
+          sections: form.sections.split('\n'),
+          output_type: form.output_type,
+          ...(editingId ? {} : { shared: form.shared })
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Template API error: ${response.status}`);
+      }
+
+      await loadTemplates();
+      resetForm();
+      setError(null);
+    } catch (err) {
+      setError(`Failed to save template: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error('Error saving format template:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deleteTemplate = async (template: FormatTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Outputs already generated with it are kept.`)) return;
+
+    try {
+      const response = await fetch(`/api/format-templates/${template.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Template API error: ${response.status}`);
+      }
+      if (editingId === template.id) resetForm();
+      await loadTemplates();
+      setError(null);
+    } catch (err) {
+      setError(`Failed to delete template: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error('Error deleting format template:', err);
+    }
+  };
+
+  return (
+    <div className="gradient-bg min-h-screen">
+      <div className="container mx-auto px-4 py-8 relative z-10">
+        <div className="mb-6">
+          <Link href="/" className="text-white hover:text-purple-200 flex items-center transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M9.707 14.707a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 1.414L7.414 9H15a1 1 0 110 2H7.414l2.293 2.293a1 1 0 010 1.414z" clipRule="evenodd" />
+            </svg>
+            Back to Home
+          </Link>
+        </div>
+
+        <div className="glass-card rounded-xl shadow-lg p-6 mb-8">
+          <h1 className="text-4xl font-bold gradient-text mb-4 text-center">Format Templates</h1>
+          <p className="text-gray-700 mb-6 text-center">
+            Define your own output formats; they appear in the format dropdown next to the built-in ones
+          </p>
+
+          {error && (
+            <div className="p-3 bg-red-100 border border-red-300 rounded text-red-700 mb-4">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4 mb-8">
+            <h2 className="text-xl font-semibold text-purple-800">
+              {editingId ? 'Edit template' : 'New template'}
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Name, e.g. Referral Letter"
+                required
+                className="px-4 py-2 glass-input rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <select
+                value={form.output_type}
+                onChange={(e) => setForm({ ...form, output_type: e.target.value as TemplateOutputType })}
+                title="Output type"
+                className="px-3 py-2 glass-input rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                {OUTPUT_TYPES.map(({ value, label }) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              value={form.system_prompt}
+              onChange={(e) => setForm({ ...form, system_prompt: e.target.value })}
+              placeholder="System prompt, e.g. You are a medical secretary. Write a referral letter to a specialist from the consultation."
+              required
+              rows={4}
+              className="w-full px-4 py-2 glass-input rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <textarea
+              value={form.sections}
+              onChange={(e) => setForm({ ...form, sections: e.target.value })}
+              placeholder={'Section headings, one per line (optional)\nReason for referral\nHistory\nCurrent medication'}
+              rows={4}
+              className="w-full px-4 py-2 glass-input rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <div className="flex flex-wrap justify-between items-center gap-3">
+              {canManageShared && !editingId ? (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.shared}
+                    onChange={(e) => setForm({ ...form, shared: e.target.checked })}
+                  />
+                  Share with everyone
+                </label>
+              ) : <span />}
+              <div className="flex gap-2">
+                {editingId && (
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="px-4 py-2 rounded-md text-purple-600 hover:bg-purple-50"
+                  >
+                    Cancel
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="purple-button px-6 py-2 rounded-md disabled:opacity-50"
+                >
+                  {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Create Template'}
+                </button>
+              </div>
+            </div>
+          </form>
+
+          {isLoading ? (
+            <div className="text-center p-8 text-gray-600">Loading templates...</div>
+          ) : templates.length > 0 ? (
+            <div className="space-y-4">
+              {templates.map(template => (
+                <div key={template.id} className="glass-card p-4 rounded-lg">
+                  <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-purple-800">{template.name}</span>
+                      <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 text-xs">
+                        {OUTPUT_TYPES.find(type => type.value === template.output_type)?.label}
+                      </span>
+                      {template.user_id === null && (
+                        <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-700 text-xs">Shared</span>
+                      )}
+                      <span className="text-xs text-gray-500">v{template.version}</span>
+                    </div>
+                    {canModify(template) && (
+                      <div className="flex gap-3 text-sm">
+                        <button onClick={() => startEditing(template)} className="text-purple-600 hover:text-purple-800">
+                          Edit
+                        </button>
+                        <button onClick={() => deleteTemplate(template)} className="text-red-600 hover:text-red-800">
+                          Delete
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-700 whitespace-pre-line">{template.system_prompt}</p>
+                  {template.sections.length > 0 && (
+                    <p className="text-sm text-gray-500 mt-2">Sections: {template.sections.join(' · ')}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center p-8 glass-card rounded-lg">
+              <p className="text-gray-600">No templates yet.</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -78,7 +78,12 @@ export default function TranscriptionPage() {
 
       {savedTranscriptions.length > 0 && (
         <div className="bg-white rounded-xl shadow-lg p-6">
-          <h2 className="text-2xl font-bold text-primary-700 mb-4">Saved Transcriptions</h2>
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-bold text-primary-700">Saved Transcriptions</h2>
+            <Link href="/transcriptions" className="text-primary-600 hover:text-primary-800 text-sm">
+              View library
+            </Link>
+          </div>
           <div className="space-y-4">
             {savedTranscriptions.map((text, index) => (
               <div key={index} className="p-4 bg-gray-50 rounded-lg border border-gray-200">
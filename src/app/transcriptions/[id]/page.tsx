@@ -0,0 +1,350 @@
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useState, useEffect, useCallback } from 'react';
+import ArtifactHistory from '@/components/transcription/ArtifactHistory';
+import ClinicalNoteForm from '@/components/transcription/ClinicalNoteForm';
+import ExportMenu from '@/components/transcription/ExportMenu';
+import SpeakerTranscript from '@/components/transcription/SpeakerTranscript';
+import TranscriptPlayback from '@/components/transcription/TranscriptPlayback';
+import type { SummaryArtifactData, TranscriptionArtifact } from '@/types/artifact';
+import type { ClinicalNote } from '@/types/clinicalNote';
+import type { FormatTemplate } from '@/types/formatTemplate';
+import type { AudioMetadata, DiarizationMetadata, TranscriptWord } from '@/types/transcript';
+import { LECTURE_SUMMARY_ARTIFACT } from '@/utils/artifacts';
+import { isClinicalNoteFormat } from '@/utils/clinicalNote';
+import { BUILT_IN_FORMATS } from '@/utils/formatPrompts';
+import { getLanguageName } from '@/utils/language';
+
+interface TranscriptionDetail {
+  id: number;
+  text: string;
+  created_at: string;
+  updated_at: string;
+  user_type?: string;
+  purpose?: string;
+  metadata?: {
+    language?: string;
+    words?: TranscriptWord[];
+    diarization?: DiarizationMetadata;
+    audio?: AudioMetadata;
+  };
+}
+
+export default function TranscriptionDetailPage() {
+  const params = useParams<{ id: string }>();
+  const [transcription, setTranscription] = useState<TranscriptionDetail | null>(null);
+  // Latest version of each artifact type
+  const [artifacts, setArtifacts] = useState<TranscriptionArtifact[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // A built-in format or the name of a format template
+  const [outputFormat, setOutputFormat] = useState<string>('Plain');
+  const [formatTemplates, setFormatTemplates] = useState<FormatTemplate[]>([]);
+  // Artifact type being regenerated
+  const [generating, setGenerating] = useState<string | null>(null);
+  // Artifact type whose version history is open
+  const [historyType, setHistoryType] = useState<string | null>(null);
+
+  const loadArtifacts = useCallback(async () => {
+    const response = await fetch(`/api/transcription/${params.id}/artifacts`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load outputs');
+    }
+    setArtifacts(data.artifacts || []);
+  }, [params.id]);
+
+  useEffect(() => {
+    setIsLoading(true);
+
+    Promise.all([
+      fetch(`/api/transcription/${params.id}`).then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load transcription');
+        }
+        setTranscription(data);
+      }),
+      loadArtifacts()
+    ])
+      .then(() => setError(null))
+      .catch(err => {
+        setError(err.message || 'Failed to load transcription');
+        console.error('Error loading transcription:', err);
+      })
+      .finally(() => setIsLoading(false));
+  }, [params.id, loadArtifacts]);
+
+  useEffect(() => {
+    fetch('/api/format-templates')
+      .then(response => response.ok ? response.json() : { templates: [] })
+      .then(data => setFormatTemplates(data.templates || []))
+      .catch(err => console.error('Error loading format templates:', err));
+  }, []);
+
+  // Generate a new version of an artifact from the saved transcription
+  const regenerate = async (type: string) => {
+    setGenerating(type);
+
+    try {
+      const response = await fetch(`/api/transcription/${params.id}/artifacts/regenerate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `Regenerate API error: ${response.status}`);
+      }
+
+      await loadArtifacts();
+      setError(null);
+    } catch (err) {
+      setError(`Failed to generate ${type}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error('Error regenerating artifact:', err);
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  // Save an edited SOAP note or clinical summary as a new version
+  const saveClinicalNote = async (note: ClinicalNote) => {
+    const response = await fetch(`/api/transcription/${params.id}/artifacts`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ type: note.format, data: note }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error([errorData.error, ...(errorData.details || [])].filter(Boolean).join(': ') || `Save API error: ${response.status}`);
+    }
+
+    await loadArtifacts();
+  };
+
+  // Heading row shared by formatted outputs and the summary
+  const renderArtifactHeader = (artifact: TranscriptionArtifact) => (
+    <div className="flex flex-wrap justify-between items-center gap-2 px-4 py-2 bg-purple-50 text-sm">
+      <span className="font-medium text-purple-800">
+        {artifact.artifact_type} <span className="text-gray-500 font-normal">v{artifact.version}</span>
+      </span>
+      <div className="flex items-center gap-3 text-gray-500">
+        <span>
+          {new Date(artifact.created_at).toLocaleString()}
+          {artifact.model && ` · ${artifact.model}`}
+          {artifact.prompt_version && ` · ${artifact.prompt_version}`}
+        </span>
+        {artifact.version > 1 && (
+          <button
+            onClick={() => setHistoryType(historyType === artifact.artifact_type ? null : artifact.artifact_type)}
+            className="text-purple-600 hover:text-purple-800"
+          >
+            {historyType === artifact.artifact_type ? 'Hide history' : 'History'}
+          </button>
+        )}
+        <ExportMenu
+          transcriptionId={artifact.transcription_id}
+          artifactType={artifact.artifact_type}
+          version={artifact.version}
+        />
+        {artifact.artifact_type !== LECTURE_SUMMARY_ARTIFACT && (
+          <button
+            onClick={() => regenerate(artifact.artifact_type)}
+            disabled={generating !== null}
+            className="text-purple-600 hover:text-purple-800 disabled:opacity-50"
+          >
+            {generating === artifact.artifact_type ? 'Regenerating...' : 'Regenerate'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderHistory = (artifact: TranscriptionArtifact) => historyType === artifact.artifact_type && (
+    <div className="px-4 py-3 border-t border-purple-100 bg-gray-50">
+      <ArtifactHistory
+        transcriptionId={artifact.transcription_id}
+        artifactType={artifact.artifact_type}
+        latestVersion={artifact.version}
+      />
+    </div>
+  );
+
+  const isHtmlOutput = (format: string) =>
+    format === 'HTML' || formatTemplates.some(template => template.name === format && template.output_type === 'html');
+
+  const metadata = transcription?.metadata;
+  const formattedOutputs = artifacts.filter(artifact => artifact.artifact_type !== LECTURE_SUMMARY_ARTIFACT);
+  const summary = artifacts.find(artifact => artifact.artifact_type === LECTURE_SUMMARY_ARTIFACT);
+  const summaryData = summary?.data as SummaryArtifactData | undefined;
+
+  return (
+    <div className="gradient-bg min-h-screen">
+      <div className="container mx-auto px-4 py-8 relative z-10">
+        <div className="mb-6">
+          <Link href="/transcriptions" className="text-white hover:text-purple-200 flex items-center transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M9.707 14.707a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 1.414L7.414 9H15a1 1 0 110 2H7.414l2.293 2.293a1 1 0 010 1.414z" clipRule="evenodd" />
+            </svg>
+            Back to Library
+          </Link>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-100 border border-red-300 rounded text-red-700 mb-4">
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="glass-card rounded-xl shadow-lg p-6 text-center text-gray-600">Loading transcription...</div>
+        ) : transcription && (
+          <div className="space-y-6">
+            <div className="glass-card rounded-xl shadow-lg p-6">
+              <h1 className="text-3xl font-bold gradient-text mb-2">Transcription #{transcription.id}</h1>
+              <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600 mb-6">
+                <span>Created {new Date(transcription.created_at).toLocaleString()}</span>
+                {transcription.updated_at !== transcription.created_at && (
+                  <span>Updated {new Date(transcription.updated_at).toLocaleString()}</span>
+                )}
+                {transcription.user_type && <span>{transcription.user_type}</span>}
+                {transcription.purpose && <span>{transcription.purpose.replace(/_/g, ' ')}</span>}
+                {metadata?.language && <span>{getLanguageName(metadata.language)}</span>}
+              </div>
+
+              {metadata?.audio && metadata.words && metadata.words.length > 0 && (
+                <div className="mb-6">
+                  <TranscriptPlayback audioUrl={`/api/transcription/${transcription.id}/audio`} words={metadata.words} />
+                </div>
+              )}
+
+              <div className="flex flex-wrap justify-between items-center gap-3 mb-3">
+                <h2 className="text-xl font-semibold text-purple-800">Transcript</h2>
+                <ExportMenu
+                  transcriptionId={transcription.id}
+                  hasTimings={!!metadata?.words && metadata.words.length > 0}
+                />
+              </div>
+              {metadata?.diarization?.segments && metadata.diarization.segments.length > 0 ? (
+                <SpeakerTranscript
+                  segments={metadata.diarization.segments}
+                  speakerNames={metadata.diarization.speakerNames}
+                />
+              ) : (
+                <p className="whitespace-pre-line text-gray-800">{transcription.text}</p>
+              )}
+            </div>
+
+            <div className="glass-card rounded-xl shadow-lg p-6">
+              <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                <h2 className="text-xl font-semibold text-purple-800">Formatted Outputs</h2>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={outputFormat}
+                    onChange={(e) => setOutputFormat(e.target.value)}
+                    title="Output format"
+                    className="px-3 py-2 glass-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    {BUILT_IN_FORMATS.map(format => (
+                      <option key={format} value={format}>{format}</option>
+                    ))}
+                    {formatTemplates.length > 0 && (
+                      <optgroup label="Templates">
+                        {formatTemplates.map(template => (
+                          <option key={template.id} value={template.name}>{template.name}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
+                  <button
+                    onClick={() => regenerate(outputFormat)}
+                    disabled={generating !== null}
+                    className="purple-button px-4 py-2 rounded-md text-sm disabled:opacity-50"
+                  >
+                    {generating === outputFormat ? 'Formatting...' : 'Format'}
+                  </button>
+                </div>
+              </div>
+
+              {formattedOutputs.length > 0 ? (
+                <div className="space-y-4">
+                  {formattedOutputs.map(artifact => (
+                    <div key={artifact.artifact_type} className="border border-purple-100 rounded-lg overflow-hidden">
+                      {renderArtifactHeader(artifact)}
+                      {isClinicalNoteFormat(artifact.artifact_type) && artifact.data ? (
+                        <div className="p-4">
+                          <ClinicalNoteForm note={artifact.data as ClinicalNote} onSave={saveClinicalNote} />
+                        </div>
+                      ) : isHtmlOutput(artifact.artifact_type) ? (
+                        <div dangerouslySetInnerHTML={{ __html: artifact.content }} className="p-4 prose max-w-none" />
+                      ) : (
+                        <pre className="p-4 whitespace-pre-wrap font-mono text-sm text-gray-700">{artifact.content}</pre>
+                      )}
+                      {renderHistory(artifact)}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-gray-600">No formatted outputs saved for this transcription.</p>
+              )}
+            </div>
+
+            <div className="glass-card rounded-xl shadow-lg p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold text-purple-800">Summary</h2>
+                <button
+                  onClick={() => regenerate(LECTURE_SUMMARY_ARTIFACT)}
+                  disabled={generating !== null}
+                  className="purple-button px-4 py-2 rounded-md text-sm disabled:opacity-50"
+                >
+                  {generating === LECTURE_SUMMARY_ARTIFACT ? 'Summarizing...' : summary ? 'Summarize Again' : 'Summarize'}
+                </button>
+              </div>
+
+              {summary ? (
+                <div className="border border-purple-100 rounded-lg overflow-hidden">
+                  {renderArtifactHeader(summary)}
+                  <div className="p-4 space-y-4 text-gray-700">
+                    <p className="whitespace-pre-line">{summary.content}</p>
+                    {summaryData?.topics && summaryData.topics.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {summaryData.topics.map(topic => (
+                          <span key={topic} className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-700 text-sm">
+                            {topic}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {summaryData?.keyPoints && (
+                      <div>
+                        <h3 className="text-lg font-semibold text-purple-700 mb-2">Key Points</h3>
+                        <div className="whitespace-pre-line">{summaryData.keyPoints}</div>
+                      </div>
+                    )}
+                    {summaryData?.sampleQuestions && (
+                      <div>
+                        <h3 className="text-lg font-semibold text-purple-700 mb-2">Sample Questions</h3>
+                        <div className="bg-blue-50 p-4 rounded-md whitespace-pre-line">{summaryData.sampleQuestions}</div>
+                      </div>
+                    )}
+                  </div>
+                  {renderHistory(summary)}
+                </div>
+              ) : (
+                <p className="text-gray-600">No summary saved for this transcription.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
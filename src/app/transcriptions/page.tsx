@@ -0,0 +1,312 @@
+'use client';
+
+import Link from 'next/link';
+import { useState, useEffect, FormEvent } from 'react';
+
+interface TranscriptionListItem {
+  id: number;
+  text: string;
+  created_at: string;
+  updated_at: string;
+  user_type?: string;
+  purpose?: string;
+  // Types of artifact generated from the transcription, such as "SOAP"
+  artifact_types: string[];
+}
+
+interface Pagination {
+  total: number;
+  page: number;
+  limit: number;
+  pages: number;
+}
+
+type SortOption = 'newest' | 'oldest' | 'updated' | 'relevance';
+
+const PAGE_SIZE = 10;
+
+const USER_TYPES = ['General Practitioner', 'School Lecture', 'Raghav', 'Other'];
+
+const PURPOSES: { value: string; label: string }[] = [
+  { value: 'medical_consultation', label: 'Medical consultation' },
+  { value: 'education', label: 'Education' },
+  { value: 'personal_notes', label: 'Personal notes' },
+  { value: 'general', label: 'General' }
+];
+
+const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'relevance', label: 'Best match' }
+];
+
+const PREVIEW_LENGTH = 240;
+
+export default function TranscriptionLibraryPage() {
+  const [query, setQuery] = useState('');
+  // The query that was last submitted; typing alone does not search
+  const [searchQuery, setSearchQuery] = useState('');
+  const [userType, setUserType] = useState('');
+  const [purpose, setPurpose] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [sort, setSort] = useState<SortOption>('newest');
+  const [page, setPage] = useState(1);
+  const [transcriptions, setTranscriptions] = useState<TranscriptionListItem[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE), sort });
+    if (searchQuery) params.set('q', searchQuery);
+    if (userType) params.set('userType', userType);
+    if (purpose) params.set('purpose', purpose);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    fetch(`/api/transcription?${params.toString()}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load transcriptions');
+        }
+        if (cancelled) return;
+        setTranscriptions(data.transcriptions || []);
+        setPagination(data.pagination);
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError('Failed to load transcriptions. Please try again.');
+        console.error('Error loading transcriptions:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [searchQuery, userType, purpose, from, to, sort, page]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = query.trim();
+    setSearchQuery(trimmed);
+    setPage(1);
+    // Rank by match when searching, unless another order was picked
+    if (trimmed && sort === 'newest') {
+      setSort('relevance');
+    } else if (!trimmed && sort === 'relevance') {
+      setSort('newest');
+    }
+  };
+
+  // Apply a filter change and go back to the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setQuery('');
+    setSearchQuery('');
+    setUserType('');
+    setPurpose('');
+    setFrom('');
+    setTo('');
+    setSort('newest');
+    setPage(1);
+  };
+
+  const hasFilters = !!(searchQuery || userType || purpose || from || to);
+
+  return (
+    <div className="gradient-bg min-h-screen">
+      <div className="container mx-auto px-4 py-8 relative z-10">
+        <div className="mb-6">
+          <Link href="/" className="text-white hover:text-purple-200 flex items-center transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-1" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M9.707 14.707a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 1.414L7.414 9H15a1 1 0 110 2H7.414l2.293 2.293a1 1 0 010 1.414z" clipRule="evenodd" />
+            </svg>
+            Back to Home
+          </Link>
+        </div>
+
+        <div className="glass-card rounded-xl shadow-lg p-6 mb-8">
+          <h1 className="text-4xl font-bold gradient-text mb-4 text-center">Transcription Library</h1>
+          <p className="text-gray-700 mb-6 text-center">
+            Search saved transcriptions and revisit their formatted outputs and summaries
+          </p>
+
+          <form onSubmit={handleSearch} className="mb-4">
+            <div className="flex flex-col md:flex-row gap-4">
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search transcription text..."
+                className="flex-grow px-4 py-3 glass-input rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              <button
+                type="submit"
+                className="purple-button px-6 py-3 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                disabled={isLoading}
+              >
+                Search
+              </button>
+            </div>
+          </form>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mb-6">
+            <select
+              value={userType}
+              onChange={(e) => updateFilter(setUserType)(e.target.value)}
+              title="User type"
+              className="px-3 py-2 glass-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="">All user types</option>
+              {USER_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+            <select
+              value={purpose}
+              onChange={(e) => updateFilter(setPurpose)(e.target.value)}
+              title="Purpose"
+              className="px-3 py-2 glass-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="">All purposes</option>
+              {PURPOSES.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => updateFilter(setFrom)(e.target.value)}
+              title="Created on or after"
+              className="px-3 py-2 glass-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => updateFilter(setTo)(e.target.value)}
+              title="Created on or before"
+              className="px-3 py-2 glass-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+            <select
+              value={sort}
+              onChange={(e) => {
+                setSort(e.target.value as SortOption);
+                setPage(1);
+              }}
+              title="Sort order"
+              className="px-3 py-2 glass-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              {SORT_OPTIONS.filter(option => option.value !== 'relevance' || searchQuery).map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-between items-center mb-4 text-sm text-gray-600">
+            <span>
+              {pagination ? `${pagination.total} transcription${pagination.total === 1 ? '' : 's'}` : ''}
+            </span>
+            {hasFilters && (
+              <button onClick={clearFilters} className="text-purple-600 hover:text-purple-800">
+                Clear filters
+              </button>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-100 border border-red-300 rounded text-red-700 mb-4">
+              {error}
+            </div>
+          )}
+
+          {isLoading && transcriptions.length === 0 ? (
+            <div className="text-center p-8 text-gray-600">Loading transcriptions...</div>
+          ) : transcriptions.length > 0 ? (
+            <div className={`space-y-4 ${isLoading ? 'opacity-60' : ''}`}>
+              {transcriptions.map(transcription => {
+                return (
+                  <Link
+                    key={transcription.id}
+                    href={`/transcriptions/${transcription.id}`}
+                    className="block glass-card p-4 rounded-lg hover:shadow-md transition-shadow"
+                  >
+                    <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+                      <span className="text-gray-600">
+                        {new Date(transcription.created_at).toLocaleString()}
+                      </span>
+                      {transcription.user_type && (
+                        <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-700">
+                          {transcription.user_type}
+                        </span>
+                      )}
+                      {transcription.purpose && (
+                        <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                          {PURPOSES.find(option => option.value === transcription.purpose)?.label || transcription.purpose}
+                        </span>
+                      )}
+                      {transcription.artifact_types.map(type => (
+                        <span key={type} className="px-2 py-0.5 rounded-full bg-green-100 text-green-700">
+                          {type}
+                        </span>
+                      ))}
+                    </div>
+                    <p className="text-gray-800">
+                      {transcription.text.length > PREVIEW_LENGTH
+                        ? `${transcription.text.slice(0, PREVIEW_LENGTH)}...`
+                        : transcription.text}
+                    </p>
+                  </Link>
+                );
+              })}
+            </div>
+          ) : (
+            !isLoading && (
+              <div className="text-center p-8 glass-card rounded-lg">
+                <p className="text-gray-600">
+                  {hasFilters ? 'No transcriptions match these filters.' : 'No saved transcriptions yet.'}
+                </p>
+              </div>
+            )
+          )}
+
+          {pagination && pagination.pages > 1 && (
+            <div className="flex justify-center items-center gap-4 mt-6">
+              <button
+                onClick={() => setPage(current => current - 1)}
+                disabled={page <= 1 || isLoading}
+                className="px-4 py-2 text-sm rounded-md border border-purple-200 text-purple-700 hover:bg-purple-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">
+                Page {pagination.page} of {pagination.pages}
+              </span>
+              <button
+                onClick={() => setPage(current => current + 1)}
+                disabled={page >= pagination.pages || isLoading}
+                className="px-4 py-2 text-sm rounded-md border border-purple-200 text-purple-700 hover:bg-purple-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
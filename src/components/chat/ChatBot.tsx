@@ -3,6 +3,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import ReferenceCard from './ReferenceCard';
+import { isAbortError, postEventStream } from '@/utils/eventStream';
 
 interface Message {
   id: string;
@@ -21,9 +22,14 @@ interface Message {
 
 interface ChatBotProps {
   userType: string;
+  // Current (corrected) transcription, used as extra context for answers
+  transcript?: string;
+  // Language of the transcript and the language answers should be written in
+  sourceLanguage?: string;
+  targetLanguage?: string;
 }
 
-export default function ChatBot({ userType }: ChatBotProps) {
+export default function ChatBot({ userType, transcript, sourceLanguage, targetLanguage }: ChatBotProps) {
   const [messages, setMessages] = useState<Message[]>([
     {
       id: '1',
@@ -36,6 +42,8 @@ export default function ChatBot({ userType }: ChatBotProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [baseUrl, setBaseUrl] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Cancels the answer being generated
+  const abortRef = useRef<AbortController | null>(null);
   const router = useRouter();
 
   // Set the timestamp for the initial message and get the base URL after component mounts
@@ -49,6 +57,9 @@ export default function ChatBot({ userType }: ChatBotProps) {
     
     // Set the base URL
     setBaseUrl(window.location.origin);
+    
+    // Stop generating once the chat is closed
+    return () => abortRef.current?.abort();
   }, []);
 
   // Auto-scroll to bottom of messages
@@ -69,56 +80,64 @@ export default function ChatBot({ userType }: ChatBotProps) {
       timestamp: new Date().toISOString(),
     };
     
-    setMessages((prev) => [...prev, userMessage]);
+    // The answer fills in as it is streamed
+    const assistantId = `${Date.now()}-answer`;
+    const updateAnswer = (update: (message: Message) => Partial<Message>) => {
+      setMessages((prev) => prev.map(msg => msg.id === assistantId ? { ...msg, ...update(msg) } : msg));
+    };
+    
+    setMessages((prev) => [...prev, userMessage, {
+      id: assistantId,
+      content: '',
+      role: 'assistant',
+      timestamp: new Date().toISOString(),
+    }]);
     setInput('');
     setIsLoading(true);
     
+    const controller = new AbortController();
+    abortRef.current = controller;
+    
     try {
       // Use the baseUrl state instead of checking window
       const apiUrl = `${baseUrl || 'http://localhost:3007'}/api/chat`;
       
       // Call the chat API endpoint
-      const response = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          query: input,
-          userType,
-        }),
+      const data = await postEventStream<{ response: string; sources?: Message['sources']; noArticlesFound?: boolean }>(apiUrl, {
+        query: input,
+        userType,
+        transcript: transcript?.trim() || undefined,
+        sourceLanguage,
+        targetLanguage,
+      }, {
+        onDelta: (text) => updateAnswer(msg => ({ content: msg.content + text })),
+        onReset: () => updateAnswer(() => ({ content: '' })),
+        signal: controller.signal,
       });
       
-      if (!response.ok) {
-        throw new Error('Failed to get response');
-      }
-      
-      const data = await response.json();
-      
-      // Add assistant message with sources
-      const assistantMessage: Message = {
-        id: Date.now().toString(),
+      // Complete the assistant message with sources
+      updateAnswer(() => ({
         content: data.response,
-        role: 'assistant',
         timestamp: new Date().toISOString(),
         sources: data.sources,
         noArticlesFound: data.noArticlesFound
-      };
-      
-      setMessages((prev) => [...prev, assistantMessage]);
+      }));
     } catch (error) {
+      if (isAbortError(error)) {
+        // Keep whatever was generated before the answer was stopped
+        updateAnswer(msg => ({ content: msg.content ? `${msg.content}\n\n(Stopped)` : '(Stopped)' }));
+        return;
+      }
+      
       console.error('Error in chat:', error);
       
-      // Add error message
-      const errorMessage: Message = {
-        id: Date.now().toString(),
+      // Replace the answer with an error message
+      updateAnswer(() => ({
         content: 'Sorry, I encountered an error while processing your request. Please try again.',
-        role: 'assistant',
         timestamp: new Date().toISOString(),
-      };
-      
-      setMessages((prev) => [...prev, errorMessage]);
+      }));
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
@@ -145,7 +164,7 @@ export default function ChatBot({ userType }: ChatBotProps) {
                   : 'bg-gray-100 text-gray-800'
               }`}
             >
-              <p className="whitespace-pre-wrap">{message.content}</p>
+              <p className="whitespace-pre-wrap">{message.content || (isLoading ? 'Thinking...' : '')}</p>
               
               {/* No Articles Found Message */}
               {message.noArticlesFound && (
@@ -197,23 +216,26 @@ export default function ChatBot({ userType }: ChatBotProps) {
             className="flex-1 px-4 py-2 border border-gray-300 rounded-l-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
             disabled={isLoading}
           />
-          <button
-            type="submit"
-            className="px-4 py-2 bg-gradient-to-r from-purple-600 to-purple-500 text-white rounded-r-lg hover:from-purple-700 hover:to-purple-600 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 transition-colors flex items-center"
-            disabled={isLoading || !input.trim()}
-          >
-            {isLoading ? (
-              <>
-                <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
-                Thinking...
-              </>
-            ) : (
-              'Send'
-            )}
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              className="px-4 py-2 bg-gradient-to-r from-purple-600 to-purple-500 text-white rounded-r-lg hover:from-purple-700 hover:to-purple-600 focus:outline-none focus:ring-2 focus:ring-purple-500 transition-colors flex items-center"
+            >
+              <svg className="-ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+                <rect x="5" y="5" width="10" height="10" rx="1" />
+              </svg>
+              Stop
+            </button>
+          ) : (
+            <button
+              type="submit"
+              className="px-4 py-2 bg-gradient-to-r from-purple-600 to-purple-500 text-white rounded-r-lg hover:from-purple-700 hover:to-purple-600 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 transition-colors flex items-center"
+              disabled={!input.trim()}
+            >
+              Send
+            </button>
+          )}
         </div>
       </form>
     </div>
@@ -1,15 +1,31 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { SummaryResponse, VideoResource, ArticleResource } from '@/types/summary';
 import ModernChatBox, { ModernChatBoxHandle } from './ModernChatBox';
+import LiveSummaryPanel from './LiveSummaryPanel';
 
 interface LectureArticleViewProps {
-  summaryData: SummaryResponse;
+  summaryData: SummaryResponse | null;
   isLoading: boolean;
+  // Summary text received so far while loading
+  streamingSummary?: string;
+  // Stops generating the summary
+  onCancel?: () => void;
+  // Shows the rolling summary until the full summary is available
+  liveSessionId?: string | null;
+  isLive?: boolean;
+  sourceLanguage?: string;
+  targetLanguage?: string;
 }
 
 const LectureArticleView: React.FC<LectureArticleViewProps> = ({
   summaryData,
-  isLoading
+  isLoading,
+  streamingSummary,
+  onCancel,
+  liveSessionId,
+  isLive = false,
+  sourceLanguage,
+  targetLanguage
 }) => {
   // Reference to the chat box to programmatically ask questions
   const chatBoxRef = useRef<ModernChatBoxHandle>(null);
@@ -34,12 +50,53 @@ const LectureArticleView: React.FC<LectureArticleViewProps> = ({
     }
   }, [summaryData]);
 
+  const cancelButton = onCancel && (
+    <button
+      onClick={onCancel}
+      className="mt-4 px-4 py-2 border border-purple-300 text-purple-700 rounded-lg hover:bg-purple-50 focus:outline-none focus:ring-2 focus:ring-purple-500 transition-colors"
+    >
+      Stop
+    </button>
+  );
+
+  // Show the summary as it is written; topics and resources follow once it is complete
+  if (isLoading && streamingSummary) {
+    return (
+      <div className="bg-white rounded-lg shadow-md border border-purple-100 overflow-hidden">
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-purple-800 mb-4">Lecture Summary</h2>
+          <div className="prose max-w-none text-gray-700">
+            <p className="whitespace-pre-line">{streamingSummary}</p>
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="mt-4 text-sm text-gray-500 flex items-center">
+              <span className="w-4 h-4 mr-2 border-2 border-purple-500 border-t-transparent rounded-full animate-spin"></span>
+              Finding key topics and resources...
+            </p>
+            {cancelButton}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-8">
         <div className="w-16 h-16 border-4 border-purple-500 border-t-transparent rounded-full animate-spin"></div>
         <p className="mt-4 text-purple-700 font-medium">Generating lecture summary and resources...</p>
         <p className="text-sm text-gray-500 mt-2">This may take a minute or two</p>
+        {cancelButton}
+      </div>
+    );
+  }
+
+  if ((!summaryData || !summaryData.summary) && liveSessionId) {
+    return (
+      <div className="bg-white rounded-lg shadow-md border border-purple-100 overflow-hidden">
+        <div className="p-6">
+          <LiveSummaryPanel sessionId={liveSessionId} isLive={isLive} />
+        </div>
       </div>
     );
   }
@@ -213,7 +270,12 @@ const LectureArticleView: React.FC<LectureArticleViewProps> = ({
               Ask Questions
             </h2>
             <div className="h-[500px]">
-              <ModernChatBox ref={chatBoxRef} summaryData={summaryData} />
+              <ModernChatBox
+                ref={chatBoxRef}
+                summaryData={summaryData}
+                sourceLanguage={sourceLanguage}
+                targetLanguage={targetLanguage}
+              />
             </div>
           </section>
         </div>
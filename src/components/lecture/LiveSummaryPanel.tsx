@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { LiveSummary } from '@/types/summary';
+
+interface LiveSummaryPanelProps {
+  sessionId: string;
+  // Whether the lecture is still being recorded
+  isLive?: boolean;
+}
+
+const LiveSummaryPanel: React.FC<LiveSummaryPanelProps> = ({ sessionId, isLive = true }) => {
+  const [liveSummary, setLiveSummary] = useState<LiveSummary | null>(null);
+
+  // Subscribe to the session's update stream
+  useEffect(() => {
+    setLiveSummary(null);
+    const source = new EventSource(`/api/transcription/summarize/live/${sessionId}`);
+
+    const handleUpdate = (event: MessageEvent) => {
+      try {
+        setLiveSummary(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Error parsing live summary update:', error);
+      }
+    };
+
+    source.addEventListener('update', handleUpdate as EventListener);
+    source.addEventListener('end', () => source.close());
+
+    return () => source.close();
+  }, [sessionId]);
+
+  const hasContent = !!liveSummary && (
+    !!liveSummary.summary || liveSummary.keyPoints.length > 0 || liveSummary.topics.length > 0
+  );
+
+  return (
+    <section className="mb-8" id="live-summary">
+      <h2 className="text-2xl font-bold text-purple-800 mb-4 flex items-center">
+        {isLive && <span className="mr-3 h-3 w-3 rounded-full bg-red-500 animate-pulse"></span>}
+        Live Summary
+      </h2>
+
+      {!hasContent ? (
+        <p className="text-gray-500">
+          {isLive
+            ? 'Key points will appear here as the lecture progresses...'
+            : 'Not enough of the lecture was recorded to summarize yet.'}
+        </p>
+      ) : (
+        <>
+          {liveSummary.summary && (
+            <div className="prose max-w-none text-gray-700 mb-6">
+              <p className="whitespace-pre-line">{liveSummary.summary}</p>
+            </div>
+          )}
+
+          {liveSummary.keyPoints.length > 0 && (
+            <div className="mb-6">
+              <h3 className="text-xl font-semibold text-purple-700 mb-3">Key Points So Far</h3>
+              <ul className="list-disc pl-5 space-y-1 text-gray-700">
+                {liveSummary.keyPoints.map((point, idx) => (
+                  <li key={idx}>{point}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {liveSummary.topics.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {liveSummary.topics.map((topic, idx) => (
+                <span
+                  key={idx}
+                  className="px-4 py-2 bg-purple-100 text-purple-800 rounded-full text-sm font-medium"
+                >
+                  {topic}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <p className="text-xs text-gray-400 mt-4">
+            Updated {new Date(liveSummary.updatedAt).toLocaleTimeString()}
+          </p>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default LiveSummaryPanel;
@@ -1,8 +1,12 @@
 import React, { useState, useRef, useEffect, forwardRef, useImperativeHandle } from 'react';
 import { SummaryResponse } from '@/types/summary';
+import { isAbortError, postEventStream } from '@/utils/eventStream';
 
 interface ModernChatBoxProps {
   summaryData: SummaryResponse;
+  // Language of the lecture and the language answers should be written in
+  sourceLanguage?: string;
+  targetLanguage?: string;
 }
 
 export interface ModernChatBoxHandle {
@@ -14,7 +18,7 @@ type ChatMessage = {
   content: string;
 };
 
-const ModernChatBox = forwardRef<ModernChatBoxHandle, ModernChatBoxProps>(({ summaryData }, ref) => {
+const ModernChatBox = forwardRef<ModernChatBoxHandle, ModernChatBoxProps>(({ summaryData, sourceLanguage, targetLanguage }, ref) => {
   const [messages, setMessages] = useState<ChatMessage[]>([
     {
       role: 'assistant',
@@ -26,6 +30,11 @@ const ModernChatBox = forwardRef<ModernChatBoxHandle, ModernChatBoxProps>(({ sum
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  // Cancels the answer being generated
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop generating once the chat is closed
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Auto-scroll to bottom of messages
   useEffect(() => {
@@ -40,6 +49,52 @@ const ModernChatBox = forwardRef<ModernChatBoxHandle, ModernChatBoxProps>(({ sum
     }
   }, [input]);
 
+  // Send the conversation and stream the answer into a new assistant message
+  const sendMessages = async (newMessages: ChatMessage[]) => {
+    const updateAnswer = (update: (content: string) => string) => {
+      setMessages(current => [
+        ...current.slice(0, -1),
+        { role: 'assistant' as const, content: update(current[current.length - 1].content) }
+      ]);
+    };
+
+    setMessages([...newMessages, { role: 'assistant', content: '' }]);
+    setIsLoading(true);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    
+    try {
+      // Call the API to get a response
+      const data = await postEventStream<{ response: string }>('/api/chat', {
+        messages: newMessages,
+        context: summaryData,
+        sourceLanguage,
+        targetLanguage
+      }, {
+        onDelta: (text) => updateAnswer(content => content + text),
+        onReset: () => updateAnswer(() => ''),
+        signal: controller.signal
+      });
+      
+      // Replace the streamed text with the complete answer
+      updateAnswer(() => data.response);
+    } catch (error) {
+      if (isAbortError(error)) {
+        // Keep whatever was generated before the answer was stopped
+        updateAnswer(content => content ? `${content}\n\n(Stopped)` : '(Stopped)');
+        return;
+      }
+
+      console.error('Error in chat:', error);
+      // Add error message to chat
+      updateAnswer(() => 'Sorry, I encountered an error while processing your question. Please try again.');
+    } finally {
+      abortRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -48,103 +103,25 @@ const ModernChatBox = forwardRef<ModernChatBoxHandle, ModernChatBoxProps>(({ sum
     const userMessage = input.trim();
     setInput('');
     
-    // Add user message to chat
-    const newMessages: ChatMessage[] = [
-      ...messages,
-      { role: 'user', content: userMessage }
-    ];
-    setMessages(newMessages);
-    
     // Reset textarea height
     if (inputRef.current) {
       inputRef.current.style.height = 'auto';
     }
     
-    setIsLoading(true);
-    
-    try {
-      // Call the API to get a response
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: newMessages,
-          context: summaryData
-        }),
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to get response');
-      }
-      
-      const data = await response.json();
-      
-      // Add assistant response to chat
-      setMessages([
-        ...newMessages,
-        { role: 'assistant' as const, content: data.response }
-      ]);
-    } catch (error) {
-      console.error('Error in chat:', error);
-      // Add error message to chat
-      setMessages([
-        ...newMessages,
-        { role: 'assistant' as const, content: 'Sorry, I encountered an error while processing your question. Please try again.' }
-      ]);
-    } finally {
-      setIsLoading(false);
-    }
+    await sendMessages([
+      ...messages,
+      { role: 'user', content: userMessage }
+    ]);
   };
 
   // Function to ask a question programmatically
   const askQuestion = async (question: string) => {
     if (!question.trim() || isLoading) return;
     
-    // Add user message to chat
-    const newMessages: ChatMessage[] = [
+    await sendMessages([
       ...messages,
       { role: 'user', content: question }
-    ];
-    setMessages(newMessages);
-    
-    setIsLoading(true);
-    
-    try {
-      // Call the API to get a response
-      const response = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: newMessages,
-          context: summaryData
-        }),
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to get response');
-      }
-      
-      const data = await response.json();
-      
-      // Add assistant response to chat
-      setMessages([
-        ...newMessages,
-        { role: 'assistant' as const, content: data.response }
-      ]);
-    } catch (error) {
-      console.error('Error in chat:', error);
-      // Add error message to chat
-      setMessages([
-        ...newMessages,
-        { role: 'assistant' as const, content: 'Sorry, I encountered an error while processing your question. Please try again.' }
-      ]);
-    } finally {
-      setIsLoading(false);
-    }
+    ]);
   };
 
   // Expose the askQuestion method
@@ -171,7 +148,7 @@ const ModernChatBox = forwardRef<ModernChatBoxHandle, ModernChatBoxProps>(({ sum
       
       {/* Chat messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message, index) => (
+        {messages.filter(message => message.content).map((message, index) => (
           <div
             key={index}
             className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -194,8 +171,8 @@ const ModernChatBox = forwardRef<ModernChatBoxHandle, ModernChatBoxProps>(({ sum
           </div>
         ))}
         
-        {/* Loading indicator */}
-        {isLoading && (
+        {/* Loading indicator, until the answer starts to arrive */}
+        {isLoading && !messages[messages.length - 1].content && (
           <div className="flex justify-start">
             <div className="bg-gray-100 text-gray-800 rounded-2xl px-4 py-2">
               <div className="flex space-x-1 items-center h-6">
@@ -230,15 +207,28 @@ const ModernChatBox = forwardRef<ModernChatBoxHandle, ModernChatBoxProps>(({ sum
               }}
             />
           </div>
-          <button
-            type="submit"
-            disabled={!input.trim() || isLoading}
-            className="ml-2 p-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 transition-colors"
-          >
-            <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
-              <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" />
-            </svg>
-          </button>
+          {isLoading ? (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              title="Stop generating"
+              className="ml-2 p-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 transition-colors"
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+                <rect x="5" y="5" width="10" height="10" rx="1" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="ml-2 p-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 transition-colors"
+            >
+              <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+                <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" />
+              </svg>
+            </button>
+          )}
         </form>
         <div className="mt-2 text-xs text-gray-500 text-center">
           Press Enter to send, Shift+Enter for a new line
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import type { DiffPart, TranscriptionArtifact } from '@/types/artifact';
+
+interface ArtifactHistoryProps {
+  transcriptionId: number;
+  artifactType: string;
+  // Latest version, so the history reloads after regenerating
+  latestVersion: number;
+}
+
+const DIFF_STYLES: Record<DiffPart['type'], string> = {
+  equal: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through'
+};
+
+const DIFF_PREFIXES: Record<DiffPart['type'], string> = {
+  equal: '  ',
+  added: '+ ',
+  removed: '- '
+};
+
+/**
+ * Versions of one artifact, with a line diff between any two of them
+ */
+const ArtifactHistory: React.FC<ArtifactHistoryProps> = ({ transcriptionId, artifactType, latestVersion }) => {
+  const [versions, setVersions] = useState<TranscriptionArtifact[]>([]);
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+  const [changes, setChanges] = useState<DiffPart[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/transcription/${transcriptionId}/artifacts?type=${encodeURIComponent(artifactType)}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load versions');
+        }
+        const loaded: TranscriptionArtifact[] = data.artifacts || [];
+        setVersions(loaded);
+        setTo(loaded[0]?.version ?? null);
+        setFrom(loaded[1]?.version ?? null);
+      })
+      .catch(err => {
+        setError('Failed to load versions.');
+        console.error('Error loading artifact versions:', err);
+      });
+  }, [transcriptionId, artifactType, latestVersion]);
+
+  useEffect(() => {
+    if (from === null || to === null || from === to) {
+      setChanges(null);
+      return;
+    }
+
+    const params = new URLSearchParams({ type: artifactType, from: String(from), to: String(to) });
+    fetch(`/api/transcription/${transcriptionId}/artifacts/diff?${params.toString()}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to compare versions');
+        }
+        setChanges(data.changes);
+        setError(null);
+      })
+      .catch(err => {
+        setError('Failed to compare versions.');
+        console.error('Error comparing artifact versions:', err);
+      });
+  }, [transcriptionId, artifactType, from, to]);
+
+  if (versions.length < 2) {
+    return <p className="text-sm text-gray-500">Only one version has been generated.</p>;
+  }
+
+  const versionSelect = (value: number | null, onChange: (version: number) => void, title: string) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      title={title}
+      className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+    >
+      {versions.map(version => (
+        <option key={version.id} value={version.version}>
+          v{version.version} · {new Date(version.created_at).toLocaleString()}
+          {version.model ? ` · ${version.model}` : ''}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <span>Compare</span>
+        {versionSelect(from, setFrom, 'Earlier version')}
+        <span>with</span>
+        {versionSelect(to, setTo, 'Later version')}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {changes && (
+        <pre className="p-3 bg-white border border-gray-200 rounded-md text-sm font-mono whitespace-pre-wrap overflow-x-auto">
+          {changes.flatMap((part, partIndex) =>
+            part.lines.map((line, lineIndex) => (
+              <div key={`${partIndex}-${lineIndex}`} className={DIFF_STYLES[part.type]}>
+                {DIFF_PREFIXES[part.type]}{line}
+              </div>
+            ))
+          )}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default ArtifactHistory;
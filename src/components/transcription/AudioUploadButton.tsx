@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TranscriptionMetadata } from '@/types/transcript';
+
+interface AudioUploadButtonProps {
+  userType?: string;
+  purpose?: string;
+  diarize?: boolean;
+  // Spoken language code, or "auto" to detect it
+  language?: string;
+  // Called with the saved transcription once the job completes
+  onTranscribed: (transcription: { id: number; text: string; metadata?: TranscriptionMetadata }) => void;
+  onError?: (error: Error) => void;
+}
+
+const ACCEPTED_FILES = '.wav,.mp3,.m4a,.webm,audio/wav,audio/mpeg,audio/mp4,audio/webm';
+const POLL_INTERVAL_MS = 2000;
+
+type UploadState = 'idle' | 'uploading' | 'pending' | 'processing';
+
+const STATE_LABELS: Record<UploadState, string> = {
+  idle: 'Upload a recording',
+  uploading: 'Uploading...',
+  pending: 'Queued for transcription...',
+  processing: 'Transcribing...'
+};
+
+const AudioUploadButton: React.FC<AudioUploadButtonProps> = ({
+  userType,
+  purpose,
+  diarize = false,
+  language,
+  onTranscribed,
+  onError
+}) => {
+  const [state, setState] = useState<UploadState>('idle');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Stop polling when unmounted
+  useEffect(() => {
+    return () => {
+      if (pollRef.current) clearTimeout(pollRef.current);
+    };
+  }, []);
+
+  const fail = (error: Error) => {
+    setState('idle');
+    setFileName(null);
+    if (onError) onError(error);
+  };
+
+  const pollJob = async (jobId: number) => {
+    try {
+      const response = await fetch(`/api/transcription/upload/${jobId}`, { cache: 'no-store' });
+      const job = await response.json();
+
+      if (!response.ok) {
+        throw new Error(job.error || 'Failed to check transcription status');
+      }
+
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Transcription failed');
+      }
+
+      if (job.status === 'completed' && job.transcriptionId) {
+        const transcriptionResponse = await fetch(`/api/transcription/${job.transcriptionId}`);
+
+        if (!transcriptionResponse.ok) {
+          throw new Error('Failed to load the transcription');
+        }
+
+        onTranscribed(await transcriptionResponse.json());
+        setState('idle');
+        setFileName(null);
+        return;
+      }
+
+      setState(job.status);
+      pollRef.current = setTimeout(() => pollJob(jobId), POLL_INTERVAL_MS);
+    } catch (error) {
+      fail(error as Error);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setState('uploading');
+    setFileName(file.name);
+
+    try {
+      const formData = new FormData();
+      formData.append('audio', file);
+      if (userType) formData.append('userType', userType);
+      if (purpose) formData.append('purpose', purpose);
+      formData.append('diarize', String(diarize));
+      if (language) formData.append('language', language);
+
+      const response = await fetch('/api/transcription/upload', {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to upload audio');
+      }
+
+      setState(data.status);
+      pollJob(data.jobId);
+    } catch (error) {
+      fail(error as Error);
+    }
+  };
+
+  const busy = state !== 'idle';
+
+  return (
+    <div className="flex items-center space-x-3">
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_FILES}
+        onChange={handleFileChange}
+        className="hidden"
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={busy}
+        className={`px-3 py-2 text-sm rounded-md border ${
+          busy
+            ? 'border-gray-200 text-gray-400 cursor-not-allowed'
+            : 'border-purple-200 text-purple-700 hover:bg-purple-50'
+        }`}
+      >
+        {busy && <span className="inline-block mr-2 h-2 w-2 rounded-full bg-purple-400 animate-pulse"></span>}
+        {STATE_LABELS[state]}
+      </button>
+      {fileName && <span className="text-xs text-gray-500 truncate">{fileName}</span>}
+      {!busy && <span className="text-xs text-gray-400">WAV, MP3, M4A or WebM</span>}
+    </div>
+  );
+};
+
+export default AudioUploadButton;
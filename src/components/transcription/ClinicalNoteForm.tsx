@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import type { ClinicalNote, ClinicalProblem, Medication, ProblemStatus } from '@/types/clinicalNote';
+import { PROBLEM_STATUSES, VITAL_FIELDS } from '@/utils/clinicalNote';
+
+interface ClinicalNoteFormProps {
+  note: ClinicalNote;
+  // Saves the edited note; the form is read-only without it
+  onSave?: (note: ClinicalNote) => Promise<void>;
+}
+
+const MEDICATION_COLUMNS: { key: keyof Medication; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'dose', label: 'Dose' },
+  { key: 'route', label: 'Route' },
+  { key: 'frequency', label: 'Frequency' },
+  { key: 'instructions', label: 'Instructions' }
+];
+
+const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:bg-gray-50';
+
+/**
+ * Editable form for a structured SOAP note or clinical summary
+ */
+const ClinicalNoteForm: React.FC<ClinicalNoteFormProps> = ({ note, onSave }) => {
+  const [draft, setDraft] = useState<ClinicalNote>(note);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const readOnly = !onSave || isSaving;
+
+  useEffect(() => {
+    setDraft(note);
+    setIsDirty(false);
+  }, [note]);
+
+  const update = (changes: Partial<ClinicalNote>) => {
+    setDraft(current => ({ ...current, ...changes }));
+    setIsDirty(true);
+  };
+
+  const updateProblem = (index: number, changes: Partial<ClinicalProblem>) => {
+    update({ problems: draft.problems.map((problem, i) => i === index ? { ...problem, ...changes } : problem) });
+  };
+
+  const updateMedication = (index: number, changes: Partial<Medication>) => {
+    update({ medications: draft.medications.map((medication, i) => i === index ? { ...medication, ...changes } : medication) });
+  };
+
+  const handleSave = async () => {
+    if (!onSave) return;
+    setIsSaving(true);
+
+    try {
+      // Rows left without a name are dropped rather than rejected
+      await onSave({
+        ...draft,
+        problems: draft.problems.filter(problem => problem.name.trim()),
+        medications: draft.medications.filter(medication => medication.name.trim())
+      });
+      setIsDirty(false);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save note');
+      console.error('Error saving clinical note:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeButton = (onClick: () => void) => !readOnly && (
+    <button onClick={onClick} title="Remove" className="px-2 text-gray-400 hover:text-red-600">
+      ×
+    </button>
+  );
+
+  return (
+    <div className="space-y-5 text-sm">
+      {draft.sections.map((section, index) => (
+        <div key={section.heading}>
+          <label className="block font-semibold text-purple-700 mb-1">{section.heading}</label>
+          <textarea
+            value={section.content}
+            onChange={(e) => update({
+              sections: draft.sections.map((s, i) => i === index ? { ...s, content: e.target.value } : s)
+            })}
+            disabled={readOnly}
+            rows={3}
+            className={inputClass}
+          />
+        </div>
+      ))}
+
+      <div>
+        <h4 className="font-semibold text-purple-700 mb-2">Problems</h4>
+        <div className="space-y-2">
+          {draft.problems.map((problem, index) => (
+            <div key={index} className="flex gap-2">
+              <input
+                value={problem.name}
+                onChange={(e) => updateProblem(index, { name: e.target.value })}
+                disabled={readOnly}
+                placeholder="Problem"
+                className={`${inputClass} flex-[2]`}
+              />
+              <select
+                value={problem.status}
+                onChange={(e) => updateProblem(index, { status: e.target.value as ProblemStatus })}
+                disabled={readOnly}
+                title="Status"
+                className={`${inputClass} flex-1`}
+              >
+                {PROBLEM_STATUSES.map(status => (
+                  <option key={status} value={status}>{status}</option>
+                ))}
+              </select>
+              <input
+                value={problem.notes || ''}
+                onChange={(e) => updateProblem(index, { notes: e.target.value })}
+                disabled={readOnly}
+                placeholder="Notes"
+                className={`${inputClass} flex-[2]`}
+              />
+              {removeButton(() => update({ problems: draft.problems.filter((_, i) => i !== index) }))}
+            </div>
+          ))}
+        </div>
+        {!readOnly && (
+          <button
+            onClick={() => update({ problems: [...draft.problems, { name: '', status: 'active' }] })}
+            className="mt-2 text-purple-600 hover:text-purple-800"
+          >
+            + Add problem
+          </button>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-purple-700 mb-2">Medications</h4>
+        <div className="space-y-2">
+          {draft.medications.map((medication, index) => (
+            <div key={index} className="flex gap-2">
+              {MEDICATION_COLUMNS.map(({ key, label }) => (
+                <input
+                  key={key}
+                  value={medication[key] || ''}
+                  onChange={(e) => updateMedication(index, { [key]: e.target.value })}
+                  disabled={readOnly}
+                  placeholder={label}
+                  className={`${inputClass} ${key === 'instructions' ? 'flex-[2]' : 'flex-1'}`}
+                />
+              ))}
+              {removeButton(() => update({ medications: draft.medications.filter((_, i) => i !== index) }))}
+            </div>
+          ))}
+        </div>
+        {!readOnly && (
+          <button
+            onClick={() => update({ medications: [...draft.medications, { name: '' }] })}
+            className="mt-2 text-purple-600 hover:text-purple-800"
+          >
+            + Add medication
+          </button>
+        )}
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-purple-700 mb-2">Vitals</h4>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {VITAL_FIELDS.map(({ key, label }) => (
+            <label key={key} className="block text-gray-600">
+              {label}
+              <input
+                value={draft.vitals[key] || ''}
+                onChange={(e) => update({ vitals: { ...draft.vitals, [key]: e.target.value } })}
+                disabled={readOnly}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="font-semibold text-purple-700 mb-2">Follow-up</h4>
+        <div className="flex gap-2">
+          <input
+            value={draft.followUp?.timeframe || ''}
+            onChange={(e) => update({ followUp: { ...draft.followUp, timeframe: e.target.value } })}
+            disabled={readOnly}
+            placeholder="When, e.g. in 2 weeks"
+            className={`${inputClass} flex-1`}
+          />
+          <input
+            value={draft.followUp?.instructions || ''}
+            onChange={(e) => update({ followUp: { ...draft.followUp, instructions: e.target.value } })}
+            disabled={readOnly}
+            placeholder="Instructions"
+            className={`${inputClass} flex-[2]`}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-red-600">{error}</p>}
+
+      {onSave && (
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => {
+              setDraft(note);
+              setIsDirty(false);
+            }}
+            disabled={!isDirty || isSaving}
+            className="px-3 py-1 rounded-md text-purple-600 hover:bg-purple-50 disabled:opacity-50"
+          >
+            Discard changes
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="purple-button px-4 py-1 rounded-md disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save as new version'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClinicalNoteForm;
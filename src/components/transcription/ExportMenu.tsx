@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+
+interface ExportMenuProps {
+  transcriptionId: number;
+  // Artifact type to export; the transcript when omitted
+  artifactType?: string;
+  version?: number;
+  // Whether word timings exist, so subtitles can be offered
+  hasTimings?: boolean;
+}
+
+const DOCUMENT_FORMATS = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'docx', label: 'Word' },
+  { value: 'md', label: 'Markdown' },
+  { value: 'txt', label: 'Text' }
+];
+
+const SUBTITLE_FORMATS = [
+  { value: 'srt', label: 'SRT subtitles' },
+  { value: 'vtt', label: 'WebVTT subtitles' }
+];
+
+/**
+ * Format picker and download link for exporting a transcript or artifact
+ */
+const ExportMenu: React.FC<ExportMenuProps> = ({ transcriptionId, artifactType, version, hasTimings = false }) => {
+  const [format, setFormat] = useState('pdf');
+  const formats = hasTimings && !artifactType ? [...DOCUMENT_FORMATS, ...SUBTITLE_FORMATS] : DOCUMENT_FORMATS;
+
+  const params = new URLSearchParams({ format });
+  if (artifactType) params.set('artifact', artifactType);
+  if (version !== undefined) params.set('version', String(version));
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value)}
+        title="Export format"
+        className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+      >
+        {formats.map(({ value, label }) => (
+          <option key={value} value={value}>{label}</option>
+        ))}
+      </select>
+      <a
+        href={`/api/transcription/${transcriptionId}/export?${params.toString()}`}
+        download
+        className="text-purple-600 hover:text-purple-800"
+      >
+        Export
+      </a>
+    </div>
+  );
+};
+
+export default ExportMenu;
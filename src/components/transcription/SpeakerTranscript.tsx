@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import type { TranscriptSegment } from '@/types/transcript';
+import { getSpeakerLabel } from '@/utils/diarization';
+
+interface SpeakerTranscriptProps {
+  segments: TranscriptSegment[];
+  speakerNames?: Record<string, string>;
+  // When provided, speaker labels can be clicked to rename them
+  onRenameSpeaker?: (speaker: number, name: string) => void;
+}
+
+// Distinct label colours for up to six speakers
+const SPEAKER_COLORS = [
+  'text-purple-700 bg-purple-50',
+  'text-blue-700 bg-blue-50',
+  'text-green-700 bg-green-50',
+  'text-amber-700 bg-amber-50',
+  'text-pink-700 bg-pink-50',
+  'text-teal-700 bg-teal-50'
+];
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
+
+const SpeakerTranscript: React.FC<SpeakerTranscriptProps> = ({
+  segments,
+  speakerNames = {},
+  onRenameSpeaker
+}) => {
+  const [editingSpeaker, setEditingSpeaker] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startEditing = (speaker: number) => {
+    if (!onRenameSpeaker) return;
+    setEditingSpeaker(speaker);
+    setDraftName(getSpeakerLabel(speaker, speakerNames));
+  };
+
+  const commitRename = () => {
+    if (editingSpeaker !== null && onRenameSpeaker && draftName.trim()) {
+      onRenameSpeaker(editingSpeaker, draftName.trim());
+    }
+    setEditingSpeaker(null);
+  };
+
+  if (segments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3">
+      {segments.map((segment, idx) => (
+        <div key={idx} className="flex items-start space-x-3">
+          <div className="flex-shrink-0 w-32">
+            {editingSpeaker === segment.speaker ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditingSpeaker(null);
+                }}
+                className="w-full px-2 py-1 text-xs border border-purple-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            ) : (
+              <button
+                type="button"
+                onClick={() => startEditing(segment.speaker)}
+                disabled={!onRenameSpeaker}
+                title={onRenameSpeaker ? 'Click to rename speaker' : undefined}
+                className={`px-2 py-1 text-xs font-medium rounded truncate max-w-full ${
+                  SPEAKER_COLORS[segment.speaker % SPEAKER_COLORS.length]
+                } ${onRenameSpeaker ? 'hover:underline cursor-pointer' : 'cursor-default'}`}
+              >
+                {getSpeakerLabel(segment.speaker, speakerNames)}
+              </button>
+            )}
+            <div className="text-xs text-gray-400 mt-1">{formatTime(segment.start)}</div>
+          </div>
+          <p className="flex-1 text-gray-800 text-sm">{segment.text}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SpeakerTranscript;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import type { TranscriptWord } from '@/types/transcript';
+import { isLowConfidence } from '@/utils/corrections';
+
+interface TranscriptEditorProps {
+  words: TranscriptWord[];
+  threshold: number;
+  onThresholdChange?: (threshold: number) => void;
+  // Called with an empty string when a word is removed
+  onCorrectWord: (index: number, text: string) => void;
+  readOnly?: boolean;
+}
+
+const TranscriptEditor: React.FC<TranscriptEditorProps> = ({
+  words,
+  threshold,
+  onThresholdChange,
+  onCorrectWord,
+  readOnly = false
+}) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const flaggedCount = words.filter(word => isLowConfidence(word, threshold)).length;
+
+  const startEditing = (index: number) => {
+    if (readOnly) return;
+    setEditingIndex(index);
+    setDraft(words[index].text);
+  };
+
+  const commitEdit = () => {
+    if (editingIndex !== null && draft.trim() !== words[editingIndex].text) {
+      onCorrectWord(editingIndex, draft.trim());
+    }
+    setEditingIndex(null);
+  };
+
+  // Jump to the next flagged word after the one being edited
+  const editNextFlagged = () => {
+    const start = editingIndex === null ? 0 : editingIndex + 1;
+    const next = words.findIndex((word, idx) => idx >= start && isLowConfidence(word, threshold));
+    if (next !== -1) startEditing(next);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-2 px-4 py-2 border-b border-purple-100 text-xs text-gray-600">
+        <span>
+          {flaggedCount > 0
+            ? `${flaggedCount} word${flaggedCount === 1 ? '' : 's'} below ${Math.round(threshold * 100)}% confidence`
+            : 'No low-confidence words'}
+        </span>
+        <div className="flex items-center space-x-3">
+          {onThresholdChange && (
+            <label className="flex items-center space-x-2">
+              <span>Threshold</span>
+              <input
+                type="range"
+                min={0.5}
+                max={1}
+                step={0.05}
+                value={threshold}
+                onChange={(e) => onThresholdChange(parseFloat(e.target.value))}
+              />
+            </label>
+          )}
+          {flaggedCount > 0 && !readOnly && (
+            <button
+              type="button"
+              onClick={() => {
+                commitEdit();
+                editNextFlagged();
+              }}
+              className="text-purple-700 hover:underline"
+            >
+              Review next
+            </button>
+          )}
+        </div>
+      </div>
+      <p className="p-4 h-48 overflow-y-auto text-gray-700 leading-relaxed">
+        {words.map((word, idx) => {
+          if (!word.text && editingIndex !== idx) return null;
+
+          if (editingIndex === idx) {
+            return (
+              <React.Fragment key={idx}>
+                <input
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onBlur={commitEdit}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEdit();
+                    if (e.key === 'Escape') setEditingIndex(null);
+                    if (e.key === 'Tab') {
+                      e.preventDefault();
+                      commitEdit();
+                      editNextFlagged();
+                    }
+                  }}
+                  style={{ width: `${Math.max(draft.length, 3) + 2}ch` }}
+                  className="px-1 border border-purple-300 rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />{' '}
+              </React.Fragment>
+            );
+          }
+
+          const flagged = isLowConfidence(word, threshold);
+
+          return (
+            <React.Fragment key={idx}>
+              <span
+                onClick={() => startEditing(idx)}
+                title={word.corrected ? 'Corrected' : `Confidence ${Math.round(word.confidence * 100)}%`}
+                className={`rounded px-0.5 ${readOnly ? '' : 'cursor-text'} ${
+                  flagged ? 'bg-amber-100 underline decoration-amber-500 decoration-wavy' :
+                  word.corrected ? 'bg-green-50 text-green-800' :
+                  readOnly ? '' : 'hover:bg-purple-50'
+                }`}
+              >
+                {word.text}
+              </span>{' '}
+            </React.Fragment>
+          );
+        })}
+      </p>
+    </div>
+  );
+};
+
+export default TranscriptEditor;
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TranscriptWord } from '@/types/transcript';
+
+interface TranscriptPlaybackProps {
+  audioUrl: string;
+  words: TranscriptWord[];
+}
+
+/**
+ * Find the word being spoken at a point in the recording
+ */
+const findActiveWord = (words: TranscriptWord[], time: number) => {
+  let low = 0;
+  let high = words.length - 1;
+
+  // Words are in spoken order, so a binary search on start time is enough
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (words[mid].start <= time) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return high >= 0 && time < words[high].end ? high : -1;
+};
+
+const TranscriptPlayback: React.FC<TranscriptPlaybackProps> = ({ audioUrl, words }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const activeWordRef = useRef<HTMLSpanElement>(null);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  // timeupdate only fires a few times a second, so poll while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame: number;
+    const update = () => {
+      if (audioRef.current) {
+        setActiveIndex(findActiveWord(words, audioRef.current.currentTime));
+      }
+      frame = requestAnimationFrame(update);
+    };
+
+    frame = requestAnimationFrame(update);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, words]);
+
+  // Keep the highlighted word in view
+  useEffect(() => {
+    activeWordRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const seekTo = (index: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    audio.currentTime = words[index].start;
+    setActiveIndex(index);
+    audio.play().catch(err => console.error('Error starting playback:', err));
+  };
+
+  return (
+    <div className="space-y-3">
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        controls
+        preload="metadata"
+        className="w-full"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+        onSeeked={() => {
+          if (audioRef.current) {
+            setActiveIndex(findActiveWord(words, audioRef.current.currentTime));
+          }
+        }}
+      />
+      <p className="text-gray-800 leading-relaxed max-h-80 overflow-y-auto">
+        {words.map((word, idx) => (
+          <React.Fragment key={idx}>
+            <span
+              ref={idx === activeIndex ? activeWordRef : undefined}
+              onClick={() => seekTo(idx)}
+              className={`cursor-pointer rounded px-0.5 ${
+                idx === activeIndex ? 'bg-purple-200 text-purple-900' : 'hover:bg-purple-50'
+              }`}
+            >
+              {word.text}
+            </span>{' '}
+          </React.Fragment>
+        ))}
+      </p>
+    </div>
+  );
+};
+
+export default TranscriptPlayback;
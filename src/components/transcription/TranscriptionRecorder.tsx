@@ -1,40 +1,137 @@
 import React, { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
 import { deepgramService } from '@/services/deepgramService';
+import type { SpeechToTextProvider } from '@/services/speech';
+import type { RecordedSegment } from '@/types/recordingSession';
+import type { SectionMarker, TranscriptSegment, TranscriptWord } from '@/types/transcript';
+import type { ActiveVocabulary, Substitution } from '@/types/vocabulary';
+import type { VoiceCommand, VoiceCommandDefinition } from '@/types/voiceCommands';
+import { appendSegments, buildSegments, hasSpeakerInfo, toTranscriptWords } from '@/utils/diarization';
+import { applySubstitutions, applyWordSubstitutions, toKeytermOptions, toKeywordOptions } from '@/utils/vocabulary';
+import {
+  AUTO_DETECT_LANGUAGE,
+  AUTO_DETECT_MODEL,
+  DEFAULT_LANGUAGE,
+  SUPPORTED_LANGUAGES,
+  dominantLanguage,
+  getAutoDetectDescription
+} from '@/utils/language';
+import { extractVoiceCommands } from '@/utils/voiceCommands';
+import SpeakerTranscript from './SpeakerTranscript';
+
+export type RecordingStatus = 'idle' | 'connecting' | 'connected' | 'recording' | 'paused' | 'reconnecting' | 'catching-up' | 'error' | 'disconnected';
 
 interface TranscriptionRecorderProps {
+  // Overrides the configured speech-to-text provider (e.g. a LocalProvider for offline runs)
+  provider?: SpeechToTextProvider;
+  // Ask the provider to label who is speaking
+  diarize?: boolean;
+  // Selects the custom vocabulary applied to recordings
+  userType?: string;
+  // Spoken language code, or "auto" to detect it. Uncontrolled when omitted.
+  language?: string;
+  onLanguageChange?: (language: string) => void;
   onTranscriptionUpdate?: (text: string, isFinal: boolean) => void;
-  onTranscriptionComplete?: (text: string) => void;
+  onSegmentsUpdate?: (segments: TranscriptSegment[]) => void;
+  onTranscriptionComplete?: (text: string, recording: CompletedRecording) => void;
   onError?: (error: Error) => void;
   onRecordingStateChange?: (isRecording: boolean) => void;
+  onStatusChange?: (status: RecordingStatus) => void;
+  // Called every deltaIntervalMs (and on stop) with final text recorded since the last call
+  onTranscriptDelta?: (delta: string) => void;
+  deltaIntervalMs?: number;
+  // Called when a stretch of recording ends, on pause and on stop
+  onSegmentComplete?: (segment: RecordedSegment) => void;
+  // Spoken commands to strip from the transcript and report through onVoiceCommand
+  voiceCommands?: VoiceCommandDefinition[];
+  // Called for each command in a final result. Section commands carry their
+  // offset in the whole transcript.
+  onVoiceCommand?: (command: VoiceCommand) => void;
+}
+
+// Transcript recorded earlier in a session, continued by the next recording
+export interface RestoredTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+  sections?: SectionMarker[];
+}
+
+// Everything captured during a recording besides the final text
+export interface CompletedRecording {
+  segments: TranscriptSegment[];
+  words: TranscriptWord[];
+  // Microphone audio, when the provider did not supply its own
+  audio: Blob | null;
+  // Selected or detected language, null when detection found nothing
+  language: string | null;
+  // Sections started by voice command
+  sections: SectionMarker[];
 }
 
 export interface TranscriptionRecorderHandle {
-  startRecording: () => Promise<void>;
-  stopRecording: () => void;
+  startRecording: (resumeFrom?: RestoredTranscript) => Promise<void>;
+  stopRecording: () => Promise<void>;
+  pauseRecording: () => void;
+  resumeRecording: () => void;
   clearTranscription: () => void;
 }
 
-type RecordingStatus = 'idle' | 'connecting' | 'connected' | 'recording' | 'error' | 'disconnected';
-
 const TranscriptionRecorder = forwardRef<TranscriptionRecorderHandle, TranscriptionRecorderProps>(({
+  provider,
+  diarize = false,
+  userType,
+  language,
+  onLanguageChange,
   onTranscriptionUpdate,
+  onSegmentsUpdate,
   onTranscriptionComplete,
   onError,
-  onRecordingStateChange
+  onRecordingStateChange,
+  onStatusChange,
+  onTranscriptDelta,
+  deltaIntervalMs,
+  onSegmentComplete,
+  voiceCommands,
+  onVoiceCommand
 }, ref) => {
   const [isInitialized, setIsInitialized] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
   const [status, setStatus] = useState<RecordingStatus>('idle');
   const [transcription, setTranscription] = useState('');
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [selectedLanguage, setSelectedLanguage] = useState(language ?? DEFAULT_LANGUAGE);
+  const activeLanguage = language ?? selectedLanguage;
   
   const finalTranscriptRef = useRef('');
   const interimTranscriptRef = useRef('');
+  const segmentsRef = useRef<TranscriptSegment[]>([]);
+  const wordsRef = useRef<TranscriptWord[]>([]);
+  const substitutionsRef = useRef<Substitution[]>([]);
+  const wordLanguagesRef = useRef<(string | undefined)[]>([]);
+  // Length of the final transcript already reported through onTranscriptDelta
+  const deltaOffsetRef = useRef(0);
+  const onTranscriptDeltaRef = useRef(onTranscriptDelta);
+  onTranscriptDeltaRef.current = onTranscriptDelta;
+  // Where the current segment starts in the transcript, word list and audio
+  const segmentStartRef = useRef({ startedAt: 0, textOffset: 0, wordIndex: 0, audioOffset: 0, sectionIndex: 0 });
+  const segmentSpeakersRef = useRef<TranscriptSegment[]>([]);
+  // Seconds of audio captured in finished segments since recording started
+  const recordedSecondsRef = useRef(0);
+  const sectionMarkersRef = useRef<SectionMarker[]>([]);
+  const voiceCommandsRef = useRef(voiceCommands);
+  voiceCommandsRef.current = voiceCommands;
+  const onVoiceCommandRef = useRef(onVoiceCommand);
+  onVoiceCommandRef.current = onVoiceCommand;
   
-  // Initialize the DeepGram service
+  // Initialize the transcription service
   useEffect(() => {
     const initialize = async () => {
       try {
+        if (provider) {
+          deepgramService.setProvider(provider);
+        }
+        
         const success = await deepgramService.initialize();
         setIsInitialized(success);
         
@@ -56,6 +153,9 @@ const TranscriptionRecorder = forwardRef<TranscriptionRecorderHandle, Transcript
       if (newStatus === 'error') {
         setIsRecording(false);
       }
+      if (onStatusChange) {
+        onStatusChange(newStatus as RecordingStatus);
+      }
     });
     
     deepgramService.onError((error) => {
@@ -64,10 +164,51 @@ const TranscriptionRecorder = forwardRef<TranscriptionRecorderHandle, Transcript
       if (onError) onError(error);
     });
     
-    deepgramService.onTranscription((result) => {
+    deepgramService.onTranscription((rawResult) => {
+      // Rewrite known mis-recognitions from the substitution dictionary
+      const substituted = substitutionsRef.current.length > 0
+        ? {
+            ...rawResult,
+            transcript: applySubstitutions(rawResult.transcript, substitutionsRef.current),
+            words: applyWordSubstitutions(rawResult.words, substitutionsRef.current)
+          }
+        : rawResult;
+      // Interim results are only stripped; commands run once the result is final
+      const { result, commands } = voiceCommandsRef.current?.length
+        ? extractVoiceCommands(substituted, voiceCommandsRef.current)
+        : { result: substituted, commands: [] };
+      const textOffset = finalTranscriptRef.current.trim().length;
+      const located = commands.map(command => ({
+        ...command,
+        textOffset: textOffset + (textOffset > 0 ? 1 : 0) + command.textOffset
+      }));
+      
       if (result.isFinal) {
-        finalTranscriptRef.current += ' ' + result.transcript;
+        if (result.transcript) {
+          finalTranscriptRef.current += ' ' + result.transcript;
+        }
         interimTranscriptRef.current = '';
+        wordsRef.current = [...wordsRef.current, ...toTranscriptWords(result.words)];
+        wordLanguagesRef.current.push(...result.words.map(word => word.language));
+        
+        if (hasSpeakerInfo(result.words)) {
+          segmentsRef.current = appendSegments(segmentsRef.current, buildSegments(result.words));
+          segmentSpeakersRef.current = appendSegments(segmentSpeakersRef.current, buildSegments(result.words));
+          setSegments(segmentsRef.current);
+          if (onSegmentsUpdate) {
+            onSegmentsUpdate(segmentsRef.current);
+          }
+        }
+        
+        located
+          .filter(command => command.action === 'section' && command.value)
+          .forEach(command => {
+            sectionMarkersRef.current.push({
+              section: command.value as string,
+              offset: command.textOffset,
+              time: command.time ?? recordedSecondsRef.current + (Date.now() - segmentStartRef.current.startedAt) / 1000
+            });
+          });
       } else {
         interimTranscriptRef.current = result.transcript;
       }
@@ -78,11 +219,106 @@ const TranscriptionRecorder = forwardRef<TranscriptionRecorderHandle, Transcript
       if (onTranscriptionUpdate) {
         onTranscriptionUpdate(fullTranscript.trim(), result.isFinal);
       }
+      
+      // Dispatch last so a stop command sees the text spoken before it
+      if (result.isFinal && onVoiceCommandRef.current) {
+        located.forEach(command => onVoiceCommandRef.current?.(command));
+      }
     });
-  }, [onTranscriptionUpdate, onError]);
+  }, [provider, onTranscriptionUpdate, onSegmentsUpdate, onStatusChange, onError]);
+  
+  // Report final text recorded since the previous delta
+  const flushDelta = () => {
+    const delta = finalTranscriptRef.current.slice(deltaOffsetRef.current).trim();
+    deltaOffsetRef.current = finalTranscriptRef.current.length;
+    
+    if (delta && onTranscriptDeltaRef.current) {
+      onTranscriptDeltaRef.current(delta);
+    }
+  };
+  
+  // Send deltas on a timer while recording. The handler is read through a ref
+  // so a new callback on each render does not restart the timer.
+  const wantsDeltas = !!onTranscriptDelta;
+  useEffect(() => {
+    if (!isRecording || !deltaIntervalMs || !wantsDeltas) return;
+    
+    const timer = setInterval(flushDelta, deltaIntervalMs);
+    return () => clearInterval(timer);
+  }, [isRecording, deltaIntervalMs, wantsDeltas]);
   
-  // Start recording
-  const startRecording = async () => {
+  // Mark the start of a new segment at the current end of the transcript
+  const beginSegment = () => {
+    segmentStartRef.current = {
+      startedAt: Date.now(),
+      textOffset: finalTranscriptRef.current.length,
+      wordIndex: wordsRef.current.length,
+      audioOffset: recordedSecondsRef.current,
+      sectionIndex: sectionMarkersRef.current.length
+    };
+    segmentSpeakersRef.current = [];
+  };
+  
+  // Report the segment that just ended, with timings relative to its start
+  const finishSegment = (endedAt = Date.now()) => {
+    const start = segmentStartRef.current;
+    const duration = (endedAt - start.startedAt) / 1000;
+    recordedSecondsRef.current += duration;
+    
+    if (!onSegmentComplete) return;
+    
+    const words = wordsRef.current.slice(start.wordIndex);
+    const text = finalTranscriptRef.current.slice(start.textOffset).trim();
+    // Section offsets are kept against the whole transcript
+    const textStart = finalTranscriptRef.current.trim().length - text.length;
+    onSegmentComplete({
+      text,
+      words: words.map(word => ({
+        ...word,
+        start: Math.max(0, word.start - start.audioOffset),
+        end: Math.max(0, word.end - start.audioOffset)
+      })),
+      speakerSegments: segmentSpeakersRef.current.map(segment => ({
+        ...segment,
+        start: Math.max(0, segment.start - start.audioOffset),
+        end: Math.max(0, segment.end - start.audioOffset)
+      })),
+      sections: sectionMarkersRef.current.slice(start.sectionIndex).map(marker => ({
+        ...marker,
+        offset: Math.max(0, marker.offset - textStart),
+        time: Math.max(0, marker.time - start.audioOffset)
+      })),
+      startedAt: new Date(start.startedAt).toISOString(),
+      endedAt: new Date(endedAt).toISOString(),
+      duration,
+      language: activeLanguage === AUTO_DETECT_LANGUAGE
+        ? dominantLanguage(wordLanguagesRef.current.slice(start.wordIndex))
+        : activeLanguage
+    });
+  };
+  
+  // Fetch the vocabulary for this user type; recording goes ahead without it on failure
+  const loadVocabulary = async (): Promise<ActiveVocabulary> => {
+    try {
+      const query = userType ? `?userType=${encodeURIComponent(userType)}` : '';
+      const response = await fetch(`/api/vocabulary/active${query}`, { cache: 'no-store' });
+      
+      if (!response.ok) {
+        throw new Error(`Vocabulary request failed: ${response.status}`);
+      }
+      
+      const vocabulary = await response.json();
+      substitutionsRef.current = vocabulary.substitutions || [];
+      return { keywords: vocabulary.keywords || [], substitutions: substitutionsRef.current };
+    } catch (error) {
+      console.error('Error loading custom vocabulary:', error);
+      substitutionsRef.current = [];
+      return { keywords: [], substitutions: [] };
+    }
+  };
+  
+  // Start recording, optionally continuing a transcript from an earlier session
+  const startRecording = async (resumeFrom?: RestoredTranscript) => {
     if (!isInitialized) {
       setErrorMessage('Transcription service not initialized');
       return;
@@ -90,11 +326,32 @@ const TranscriptionRecorder = forwardRef<TranscriptionRecorderHandle, Transcript
     
     try {
       setErrorMessage(null);
-      finalTranscriptRef.current = '';
+      finalTranscriptRef.current = resumeFrom?.text || '';
       interimTranscriptRef.current = '';
-      setTranscription('');
+      segmentsRef.current = resumeFrom?.segments || [];
+      wordsRef.current = [];
+      wordLanguagesRef.current = [];
+      sectionMarkersRef.current = [...(resumeFrom?.sections || [])];
+      recordedSecondsRef.current = 0;
+      // Restored text was already reported
+      deltaOffsetRef.current = finalTranscriptRef.current.length;
+      setTranscription(finalTranscriptRef.current);
+      setSegments(segmentsRef.current);
+      setIsPaused(false);
       
+      // Multilingual recognition reports the language of each word
+      const autoDetect = activeLanguage === AUTO_DETECT_LANGUAGE;
+      const vocabulary = await loadVocabulary();
+      deepgramService.setOptions({
+        diarize,
+        language: autoDetect ? 'multi' : activeLanguage,
+        model: autoDetect ? AUTO_DETECT_MODEL : undefined,
+        // nova-3 takes key terms in place of keyword boosts
+        keywords: autoDetect ? undefined : toKeywordOptions(vocabulary),
+        keyterm: autoDetect ? toKeytermOptions(vocabulary) : undefined
+      });
       await deepgramService.startRecording();
+      beginSegment();
       setIsRecording(true);
       if (onRecordingStateChange) {
         onRecordingStateChange(true);
@@ -105,32 +362,77 @@ const TranscriptionRecorder = forwardRef<TranscriptionRecorderHandle, Transcript
     }
   };
   
-  // Stop recording
-  const stopRecording = () => {
+  // Stop recording; the transcript is reported once audio buffered while
+  // offline has been transcribed
+  const stopRecording = async () => {
     if (isRecording) {
-      deepgramService.stopRecording();
+      const stoppedAt = Date.now();
       setIsRecording(false);
+      await deepgramService.stopRecording();
+      if (!isPaused) {
+        finishSegment(stoppedAt);
+      }
+      setIsPaused(false);
+      flushDelta();
       if (onRecordingStateChange) {
         onRecordingStateChange(false);
       }
       
       if (onTranscriptionComplete) {
-        onTranscriptionComplete(finalTranscriptRef.current.trim());
+        const text = finalTranscriptRef.current.trim();
+        const recording = {
+          segments: segmentsRef.current,
+          words: wordsRef.current,
+          language: activeLanguage === AUTO_DETECT_LANGUAGE
+            ? dominantLanguage(wordLanguagesRef.current)
+            : activeLanguage,
+          sections: [...sectionMarkersRef.current]
+        };
+        
+        deepgramService.getRecordedAudio().then((audio) => {
+          onTranscriptionComplete(text, { ...recording, audio });
+        });
       }
     }
   };
   
+  // Pause without ending the recording; the segment so far is reported
+  const pauseRecording = () => {
+    if (!isRecording || isPaused) return;
+    
+    deepgramService.pauseRecording();
+    setIsPaused(true);
+    finishSegment();
+    flushDelta();
+  };
+  
+  // Start a new segment after a pause
+  const resumeRecording = () => {
+    if (!isRecording || !isPaused) return;
+    
+    deepgramService.resumeRecording();
+    setIsPaused(false);
+    beginSegment();
+  };
+  
   // Clear the transcription
   const clearTranscription = () => {
     finalTranscriptRef.current = '';
     interimTranscriptRef.current = '';
+    segmentsRef.current = [];
+    wordsRef.current = [];
+    sectionMarkersRef.current = [];
+    deltaOffsetRef.current = 0;
     setTranscription('');
+    setSegments([]);
   };
   
   // Expose methods to parent component
   useImperativeHandle(ref, () => ({
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     clearTranscription
   }));
   
@@ -145,6 +447,9 @@ const TranscriptionRecorder = forwardRef<TranscriptionRecorderHandle, Transcript
               status === 'connecting' ? 'bg-yellow-400' :
               status === 'connected' ? 'bg-blue-400' :
               status === 'recording' ? 'bg-green-400 animate-pulse' :
+              status === 'paused' ? 'bg-yellow-400' :
+              status === 'reconnecting' ? 'bg-orange-400 animate-pulse' :
+              status === 'catching-up' ? 'bg-blue-400 animate-pulse' :
               status === 'disconnected' ? 'bg-gray-400' :
               'bg-red-500'
             }`}
@@ -154,15 +459,37 @@ const TranscriptionRecorder = forwardRef<TranscriptionRecorderHandle, Transcript
              status === 'connecting' ? 'Connecting...' :
              status === 'connected' ? 'Connected' :
              status === 'recording' ? 'Recording' :
+             status === 'paused' ? 'Paused' :
+             status === 'reconnecting' ? 'Connection lost, reconnecting... (audio is saved locally)' :
+             status === 'catching-up' ? 'Catching up...' :
              status === 'disconnected' ? 'Disconnected' :
              'Error'}
           </span>
         </div>
         
+        {/* Language selection */}
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>Language</span>
+          <select
+            value={activeLanguage}
+            onChange={(e) => {
+              setSelectedLanguage(e.target.value);
+              if (onLanguageChange) onLanguageChange(e.target.value);
+            }}
+            disabled={isRecording}
+            className="px-2 py-1 border border-gray-300 rounded-md bg-white"
+          >
+            <option value={AUTO_DETECT_LANGUAGE} title={getAutoDetectDescription()}>Auto-detect</option>
+            {SUPPORTED_LANGUAGES.map(({ code, name }) => (
+              <option key={code} value={code}>{name}</option>
+            ))}
+          </select>
+        </label>
+        
         {/* Action buttons */}
         <div className="flex space-x-2">
           <button
-            onClick={startRecording}
+            onClick={() => startRecording()}
             disabled={isRecording || !isInitialized}
             className={`px-4 py-2 rounded-md text-white ${
               isRecording || !isInitialized ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-500 hover:bg-green-600'
@@ -181,6 +508,15 @@ const TranscriptionRecorder = forwardRef<TranscriptionRecorderHandle, Transcript
           >
             Stop
           </button>
+          <button
+            onClick={isPaused ? resumeRecording : pauseRecording}
+            disabled={!isRecording}
+            className={`px-4 py-2 rounded-md text-white ${
+              !isRecording ? 'bg-gray-400 cursor-not-allowed' : 'bg-yellow-500 hover:bg-yellow-600'
+            }`}
+          >
+            {isPaused ? 'Resume' : 'Pause'}
+          </button>
           <button
             onClick={clearTranscription}
             className="px-4 py-2 rounded-md text-white bg-gray-500 hover:bg-gray-600"
@@ -198,7 +534,9 @@ const TranscriptionRecorder = forwardRef<TranscriptionRecorderHandle, Transcript
         
         {/* Transcription display */}
         <div className="bg-white p-4 rounded-lg border border-gray-200 min-h-[200px] mb-4 overflow-y-auto">
-          {transcription ? (
+          {segments.length > 0 ? (
+            <SpeakerTranscript segments={segments} />
+          ) : transcription ? (
             <p className="text-gray-800">{transcription}</p>
           ) : (
             <p className="text-gray-500 italic">Transcription will appear here...</p>
@@ -0,0 +1,152 @@
+import type { PromptDefinition } from '@/types/prompt';
+
+// Every version of every prompt. Add a new version rather than editing one
+// that has been used, so outputs stay traceable to the prompt that produced them.
+export const prompts: PromptDefinition[] = [
+  // Formatting transcriptions
+  {
+    name: 'format.plain',
+    version: 1,
+    system: 'You are a documentation assistant. Improve the formatting and clarity of the following transcription while preserving all information.',
+    user: 'Please improve the formatting and clarity of this transcription. The context is a {{userType}} consultation:\n\n{{text}}'
+  },
+  {
+    name: 'format.soap',
+    version: 1,
+    system: 'You are a medical documentation assistant. Create a SOAP note from the following transcription. ' +
+      'Respond with only a JSON object matching this JSON schema: {{schema}}. ' +
+      'Use the sections {{sections}}, in that order. ' +
+      'List every problem, medication, vital sign and follow-up arrangement that is mentioned, and leave out anything that is not rather than guessing. ' +
+      'Use appropriate medical terminology.',
+    user: 'Please create a SOAP note from this medical transcription. The context is a {{userType}} consultation:\n\n{{text}}'
+  },
+  {
+    name: 'format.clinical-summary',
+    version: 1,
+    system: 'You are a medical documentation assistant. Create a clinical summary from the following transcription. ' +
+      'Respond with only a JSON object matching this JSON schema: {{schema}}. ' +
+      'Use the sections {{sections}}, in that order. ' +
+      'List every problem, medication, vital sign and follow-up arrangement that is mentioned, and leave out anything that is not rather than guessing. ' +
+      'Use appropriate medical terminology.',
+    user: 'Please create a clinical summary from this medical transcription. The context is a {{userType}} consultation:\n\n{{text}}'
+  },
+  {
+    name: 'format.bullet-points',
+    version: 1,
+    system: 'You are a documentation assistant. Convert the following transcription into a well-organized bullet point list, grouping related information together.',
+    user: 'Please convert this transcription into bullet points. The context is a {{userType}} consultation:\n\n{{text}}'
+  },
+  {
+    name: 'format.html',
+    version: 1,
+    system: 'You are a documentation assistant. Convert the following transcription into well-formatted HTML with appropriate headings, paragraphs, and lists. Use semantic HTML5 elements where appropriate.',
+    user: 'Please convert this transcription into HTML format. The context is a {{userType}} consultation:\n\n{{text}}'
+  },
+  {
+    name: 'format.markdown',
+    version: 1,
+    system: 'You are a documentation assistant. Convert the following transcription into well-formatted Markdown with appropriate headings, paragraphs, and lists.',
+    user: 'Please convert this transcription into Markdown format. The context is a {{userType}} consultation:\n\n{{text}}'
+  },
+  {
+    // Wraps the system prompt of a user-defined format template
+    name: 'format.template',
+    version: 1,
+    system: '{{templatePrompt}}{{sectionInstruction}} {{outputInstruction}}',
+    user: 'Please format this transcription as a {{templateName}}. The context is a {{userType}} consultation:\n\n{{text}}'
+  },
+  {
+    // Combines the formatted parts of a transcription too long to format at once
+    name: 'format.merge',
+    version: 1,
+    system: '{{formatPrompt}} The transcription was too long to format at once, so it was formatted in consecutive parts. ' +
+      'Combine the parts into one {{output}}, keeping every detail in its original order, merging repeated headings and removing duplicated content.',
+    user: 'Please combine these parts of a {{userType}} consultation into one {{output}}:\n\n{{parts}}'
+  },
+
+  // Lecture summaries
+  {
+    name: 'summary',
+    version: 1,
+    system: 'You are an expert educational assistant that helps summarize lecture content. Be concise and focus on key points.',
+    user: 'Summarize this lecture transcript in 2-3 paragraphs, highlighting the main points: {{text}}'
+  },
+  {
+    name: 'summary.part',
+    version: 1,
+    system: 'You are an expert educational assistant that helps summarize lecture content. Be concise and focus on key points.',
+    user: 'Summarize part {{part}} of {{parts}} of this lecture transcript, highlighting the main points: {{text}}'
+  },
+  {
+    name: 'summary.merge',
+    version: 1,
+    system: 'You are an expert educational assistant that helps summarize lecture content. Be concise and focus on key points.',
+    user: 'Combine these summaries of consecutive parts of one lecture into a single summary{{length}}, highlighting the main points:\n\n{{summaries}}'
+  },
+  {
+    name: 'summary.topics',
+    version: 1,
+    system: 'Extract 3-5 key topics from the lecture as a JSON array of strings. Format your response as: ["topic1", "topic2", "topic3"]',
+    user: 'Extract key topics from this lecture summary: {{summary}}'
+  },
+  {
+    name: 'summary.key-points',
+    version: 1,
+    system: 'Extract 3-5 key points from the lecture summary as bullet points. Format your response as a simple list with each point on a new line, starting with a dash.',
+    user: 'Extract key points from this lecture summary: {{summary}}'
+  },
+  {
+    // Folds the newest part of a lecture that is still being recorded into its running summary
+    name: 'summary.live',
+    version: 1,
+    system: 'You maintain a running summary of a {{lecture}} that is still in progress. ' +
+      'Merge the newest part of the transcript into the existing summary, topics and key points. ' +
+      'Keep earlier material unless the new transcript corrects it. ' +
+      'Respond only with JSON of the form {"summary": "1-3 paragraphs", "topics": ["at most {{maxTopics}} short topics"], "keyPoints": ["at most {{maxKeyPoints}} one-sentence key points"]}.',
+    user: 'Summary so far:\n{{summary}}\n\nTopics so far: {{topics}}\n\nKey points so far:\n{{keyPoints}}\n\nNewest transcript:\n{{text}}'
+  },
+  {
+    name: 'summary.questions',
+    version: 1,
+    system: 'Generate 5 sample questions about the lecture content that would help a student understand the material better. Format your response as a simple list with each question on a new line, starting with a number.',
+    user: 'Generate sample questions for this lecture summary: {{summary}}'
+  },
+
+  // Chat
+  {
+    name: 'chat.gp',
+    version: 1,
+    system: 'You are a helpful medical assistant. Answer the user\'s question based on the provided medical literature.\n' +
+      'If the information is not in the provided context, say that you don\'t have enough information and provide a general response based on your knowledge.\n' +
+      'Always cite your sources when you use information from the provided context.',
+    user: 'Context information is below.\n\n{{context}}\n\nGiven the context information and not prior knowledge, answer the query: {{query}}'
+  },
+  {
+    name: 'chat.school',
+    version: 1,
+    system: 'You are a helpful teaching assistant. Answer the student\'s question based on the provided educational material.\n' +
+      'If the information is not in the provided context, say that you don\'t have enough information and provide a general response based on your knowledge.\n' +
+      'Always cite your sources when you use information from the provided context.',
+    user: 'Context information is below.\n\n{{context}}\n\nGiven the context information and not prior knowledge, answer the query: {{query}}'
+  },
+  {
+    name: 'chat.general',
+    version: 1,
+    system: 'You are a helpful assistant. Answer the user\'s question based on the provided information.\n' +
+      'If the information is not in the provided context, say that you don\'t have enough information and provide a general response based on your knowledge.\n' +
+      'Always cite your sources when you use information from the provided context.',
+    user: 'Context information is below.\n\n{{context}}\n\nGiven the context information and not prior knowledge, answer the query: {{query}}'
+  },
+  {
+    // The conversation so far follows as the user and assistant messages
+    name: 'chat.lecture',
+    version: 1,
+    system: 'You are a helpful educational assistant answering questions about a lecture.\n' +
+      'Use the following lecture context to inform your answers.\n' +
+      'Be concise, accurate, and helpful. If you don\'t know the answer based on the context,\n' +
+      'say so and suggest resources the user might want to check.\n\n' +
+      'LECTURE SUMMARY:\n{{summary}}\n\n' +
+      'KEY TOPICS:\n{{topics}}\n\n' +
+      'RESOURCES:\n{{resources}}'
+  }
+];
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BROWSER_ID_COOKIE,
+  BROWSER_ID_MAX_AGE,
+  createBrowserId,
+  NEW_BROWSER_ID_HEADER,
+  readBrowserId
+} from '@/utils/browserId';
+
+/**
+ * Give each browser calling the API a random id in a cookie. The id is also
+ * added to the request being handled, so the first call is identified too,
+ * and that request is marked as carrying a new id.
+ */
+export function middleware(request: NextRequest) {
+  const browserId = readBrowserId(request) ? null : createBrowserId();
+
+  if (browserId) {
+    request.cookies.set(BROWSER_ID_COOKIE, browserId);
+  }
+
+  // Only this middleware may say a browser id is new
+  const headers = new Headers(request.headers);
+  headers.delete(NEW_BROWSER_ID_HEADER);
+
+  if (!browserId) {
+    return NextResponse.next({ request: { headers } });
+  }
+
+  headers.set(NEW_BROWSER_ID_HEADER, '1');
+
+  const response = NextResponse.next({ request: { headers } });
+  response.cookies.set(BROWSER_ID_COOKIE, browserId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: request.nextUrl.protocol === 'https:',
+    maxAge: BROWSER_ID_MAX_AGE,
+    path: '/'
+  });
+
+  return response;
+}
+
+export const config = {
+  matcher: '/api/:path*'
+};
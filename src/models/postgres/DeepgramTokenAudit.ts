@@ -0,0 +1,38 @@
+import { executeQuery } from '@/lib/postgres';
+
+export interface PgDeepgramTokenAudit {
+  id: number;
+  user_id: string;
+  ip_address?: string;
+  user_agent?: string;
+  expires_at: Date;
+  created_at: Date;
+}
+
+export class DeepgramTokenAuditPg {
+  // Record an issued token
+  static async create(entry: Omit<PgDeepgramTokenAudit, 'id' | 'created_at'>): Promise<PgDeepgramTokenAudit> {
+    const result = await executeQuery<PgDeepgramTokenAudit>(
+      `INSERT INTO deepgram_token_audit 
+       (user_id, ip_address, user_agent, expires_at) 
+       VALUES ($1, $2, $3, $4) 
+       RETURNING *`,
+      [
+        entry.user_id,
+        entry.ip_address || null,
+        entry.user_agent || null,
+        entry.expires_at
+      ]
+    );
+    
+    return result[0];
+  }
+  
+  // Find tokens issued to a user, most recent first
+  static async findByUserId(userId: string, limit: number = 50): Promise<PgDeepgramTokenAudit[]> {
+    return executeQuery<PgDeepgramTokenAudit>(
+      'SELECT * FROM deepgram_token_audit WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2',
+      [userId, limit]
+    );
+  }
+}
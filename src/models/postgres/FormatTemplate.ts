@@ -0,0 +1,87 @@
+import { executeQuery } from '@/lib/postgres';
+import type { TemplateOutputType } from '@/types/formatTemplate';
+
+export interface PgFormatTemplate {
+  id: number;
+  user_id: string | null;
+  name: string;
+  system_prompt: string;
+  sections: string[];
+  output_type: TemplateOutputType;
+  version: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class FormatTemplatePg {
+  // Get template by ID
+  static async findById(id: number): Promise<PgFormatTemplate | null> {
+    const templates = await executeQuery<PgFormatTemplate>(
+      'SELECT * FROM format_templates WHERE id = $1',
+      [id]
+    );
+    
+    return templates.length > 0 ? templates[0] : null;
+  }
+  
+  // Find the shared templates and the user's own, by name
+  static async findAvailable(userId: string): Promise<PgFormatTemplate[]> {
+    return executeQuery<PgFormatTemplate>(
+      `SELECT * FROM format_templates 
+       WHERE user_id IS NULL OR user_id = $1 
+       ORDER BY LOWER(name), user_id NULLS LAST`,
+      [userId]
+    );
+  }
+  
+  // Find a template by name, preferring the user's own over a shared one
+  static async findByName(name: string, userId: string): Promise<PgFormatTemplate | null> {
+    const templates = await executeQuery<PgFormatTemplate>(
+      `SELECT * FROM format_templates 
+       WHERE LOWER(name) = LOWER($1) AND (user_id IS NULL OR user_id = $2) 
+       ORDER BY user_id NULLS LAST 
+       LIMIT 1`,
+      [name, userId]
+    );
+    
+    return templates.length > 0 ? templates[0] : null;
+  }
+  
+  // Create a template
+  static async create(template: Pick<PgFormatTemplate, 'user_id' | 'name' | 'system_prompt' | 'sections' | 'output_type'>): Promise<PgFormatTemplate> {
+    const result = await executeQuery<PgFormatTemplate>(
+      `INSERT INTO format_templates 
+       (user_id, name, system_prompt, sections, output_type) 
+       VALUES ($1, $2, $3, $4, $5) 
+       RETURNING *`,
+      [template.user_id, template.name, template.system_prompt, template.sections, template.output_type]
+    );
+    
+    return result[0];
+  }
+  
+  // Update a template and move it to its next version
+  static async update(id: number, updates: Partial<Pick<PgFormatTemplate, 'name' | 'system_prompt' | 'sections' | 'output_type'>>): Promise<PgFormatTemplate | null> {
+    const result = await executeQuery<PgFormatTemplate>(
+      `UPDATE format_templates 
+       SET name = COALESCE($1, name), system_prompt = COALESCE($2, system_prompt), 
+           sections = COALESCE($3, sections), output_type = COALESCE($4, output_type), 
+           version = version + 1, updated_at = NOW() 
+       WHERE id = $5 
+       RETURNING *`,
+      [updates.name ?? null, updates.system_prompt ?? null, updates.sections ?? null, updates.output_type ?? null, id]
+    );
+    
+    return result.length > 0 ? result[0] : null;
+  }
+  
+  // Delete a template
+  static async delete(id: number): Promise<boolean> {
+    const result = await executeQuery<{ id: number }>(
+      'DELETE FROM format_templates WHERE id = $1 RETURNING id',
+      [id]
+    );
+    
+    return result.length > 0;
+  }
+}
@@ -0,0 +1,81 @@
+import { executeQuery } from '@/lib/postgres';
+
+export interface PgLiveSummarySession {
+  id: string;
+  owner_id: string;
+  summary: string;
+  topics: string[];
+  key_points: string[];
+  updates: number;
+  model?: string | null;
+  prompt_version?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type LiveSummaryContent = Pick<PgLiveSummarySession, 'summary' | 'topics' | 'key_points' | 'model' | 'prompt_version'>;
+
+export class LiveSummarySessionPg {
+  // Get session by ID
+  static async findById(id: string): Promise<PgLiveSummarySession | null> {
+    const sessions = await executeQuery<PgLiveSummarySession>(
+      'SELECT * FROM live_summary_sessions WHERE id = $1',
+      [id]
+    );
+
+    return sessions.length > 0 ? sessions[0] : null;
+  }
+
+  // Start an empty session
+  static async create(id: string, ownerId: string): Promise<PgLiveSummarySession> {
+    const result = await executeQuery<PgLiveSummarySession>(
+      `INSERT INTO live_summary_sessions (id, owner_id)
+       VALUES ($1, $2)
+       RETURNING *`,
+      [id, ownerId]
+    );
+
+    return result[0];
+  }
+
+  // Save the summary that follows update number `updates`; returns null when
+  // the session was updated meanwhile or no longer exists
+  static async saveUpdate(id: string, updates: number, content: LiveSummaryContent): Promise<PgLiveSummarySession | null> {
+    const result = await executeQuery<PgLiveSummarySession>(
+      `UPDATE live_summary_sessions
+       SET summary = $3, topics = $4, key_points = $5, model = $6, prompt_version = $7,
+           updates = updates + 1, updated_at = NOW()
+       WHERE id = $1 AND updates = $2
+       RETURNING *`,
+      [
+        id,
+        updates,
+        content.summary,
+        JSON.stringify(content.topics),
+        JSON.stringify(content.key_points),
+        content.model || null,
+        content.prompt_version || null
+      ]
+    );
+
+    return result.length > 0 ? result[0] : null;
+  }
+
+  // Delete a session; returns whether it existed
+  static async delete(id: string): Promise<boolean> {
+    const result = await executeQuery<{ id: string }>(
+      'DELETE FROM live_summary_sessions WHERE id = $1 RETURNING id',
+      [id]
+    );
+
+    return result.length > 0;
+  }
+
+  // Delete sessions with no update for idleSeconds
+  static async deleteIdle(idleSeconds: number): Promise<void> {
+    await executeQuery(
+      `DELETE FROM live_summary_sessions WHERE updated_at < NOW() - $1::float8 * INTERVAL '1 second'`,
+      [idleSeconds]
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { executeQuery } from '@/lib/postgres';
+import type { LlmCacheFilter, LlmCacheStats } from '@/types/llmCache';
+
+export interface PgLlmCacheEntry {
+  key: string;
+  namespace: string;
+  prompt_version: string;
+  model: string;
+  value: unknown;
+  size: number;
+  hits: number;
+  created_at: Date;
+  last_used_at: Date;
+  expires_at: Date;
+}
+
+export class LlmCacheEntryPg {
+  // Get an unexpired entry, counting the lookup as a use of it
+  static async findAndTouch(key: string): Promise<PgLlmCacheEntry | null> {
+    const entries = await executeQuery<PgLlmCacheEntry>(
+      `UPDATE llm_cache
+       SET hits = hits + 1, last_used_at = NOW()
+       WHERE key = $1 AND expires_at > NOW()
+       RETURNING *`,
+      [key]
+    );
+
+    return entries.length > 0 ? entries[0] : null;
+  }
+
+  // Store an entry, replacing any under the same key
+  static async upsert(
+    entry: Pick<PgLlmCacheEntry, 'key' | 'namespace' | 'prompt_version' | 'model' | 'value' | 'size'>,
+    ttlMs: number
+  ): Promise<void> {
+    await executeQuery(
+      `INSERT INTO llm_cache
+       (key, namespace, prompt_version, model, value, size, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW() + $7::float8 * INTERVAL '1 millisecond')
+       ON CONFLICT (key) DO UPDATE
+       SET value = EXCLUDED.value, size = EXCLUDED.size, hits = 0,
+           created_at = NOW(), last_used_at = NOW(), expires_at = EXCLUDED.expires_at`,
+      [entry.key, entry.namespace, entry.prompt_version, entry.model, JSON.stringify(entry.value), entry.size, ttlMs]
+    );
+  }
+
+  // Delete expired entries, and the least recently used of a namespace beyond maxEntries
+  static async prune(namespace: string, maxEntries: number): Promise<number> {
+    const expired = await executeQuery<{ key: string }>(
+      'DELETE FROM llm_cache WHERE expires_at <= NOW() RETURNING key'
+    );
+    const evicted = await executeQuery<{ key: string }>(
+      `DELETE FROM llm_cache
+       WHERE key IN (
+         SELECT key FROM llm_cache
+         WHERE namespace = $1
+         ORDER BY last_used_at DESC
+         OFFSET $2
+       )
+       RETURNING key`,
+      [namespace, maxEntries]
+    );
+
+    return expired.length + evicted.length;
+  }
+
+  // Delete the entries matching a filter; an empty filter deletes everything
+  static async deleteMatching(filter: LlmCacheFilter): Promise<number> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+
+    if (filter.namespace) {
+      params.push(filter.namespace);
+      conditions.push(`namespace = $${params.length}`);
+    }
+    if (filter.promptVersion) {
+      params.push(filter.promptVersion);
+      conditions.push(`prompt_version = $${params.length}`);
+    }
+    if (filter.model) {
+      params.push(filter.model);
+      conditions.push(`model = $${params.length}`);
+    }
+
+    const result = await executeQuery<{ key: string }>(
+      `DELETE FROM llm_cache ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''} RETURNING key`,
+      params
+    );
+
+    return result.length;
+  }
+
+  // Count a lookup in a namespace as a hit or a miss
+  static async recordLookup(namespace: string, hit: boolean): Promise<void> {
+    await executeQuery(
+      `INSERT INTO llm_cache_stats (namespace, hits, misses)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (namespace) DO UPDATE
+       SET hits = llm_cache_stats.hits + EXCLUDED.hits,
+           misses = llm_cache_stats.misses + EXCLUDED.misses,
+           updated_at = NOW()`,
+      [namespace, hit ? 1 : 0, hit ? 0 : 1]
+    );
+  }
+
+  // Get the entries, bytes and lookup counts of every namespace
+  static async getStats(): Promise<Omit<LlmCacheStats, 'hitRate'>[]> {
+    const rows = await executeQuery<{ namespace: string; entries: string; bytes: string; hits: string; misses: string }>(
+      `SELECT COALESCE(e.namespace, s.namespace) AS namespace,
+              COALESCE(e.entries, 0) AS entries, COALESCE(e.bytes, 0) AS bytes,
+              COALESCE(s.hits, 0) AS hits, COALESCE(s.misses, 0) AS misses
+       FROM (
+         SELECT namespace, COUNT(*) AS entries, SUM(size) AS bytes
+         FROM llm_cache
+         WHERE expires_at > NOW()
+         GROUP BY namespace
+       ) e
+       FULL OUTER JOIN llm_cache_stats s ON s.namespace = e.namespace
+       ORDER BY 1`
+    );
+
+    // COUNT, SUM and BIGINT come back as strings
+    return rows.map(row => ({
+      namespace: row.namespace,
+      entries: Number(row.entries),
+      bytes: Number(row.bytes),
+      hits: Number(row.hits),
+      misses: Number(row.misses)
+    }));
+  }
+}
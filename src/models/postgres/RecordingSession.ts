@@ -0,0 +1,93 @@
+import { executeQuery } from '@/lib/postgres';
+import type {
+  RecordingSegment,
+  RecordingSessionOptions,
+  RecordingSessionStatus
+} from '@/types/recordingSession';
+
+export interface PgRecordingSession {
+  id: number;
+  status: RecordingSessionStatus;
+  user_id?: string;
+  user_type?: string;
+  purpose?: string;
+  options?: RecordingSessionOptions;
+  transcription_id?: number;
+  segments: RecordingSegment[];
+  duration: number;
+  created_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+}
+
+export class RecordingSessionPg {
+  // Get session by ID
+  static async findById(id: number): Promise<PgRecordingSession | null> {
+    const sessions = await executeQuery<PgRecordingSession>(
+      'SELECT * FROM recording_sessions WHERE id = $1',
+      [id]
+    );
+
+    return sessions.length > 0 ? sessions[0] : null;
+  }
+
+  // Find a user's unfinished sessions, most recently active first
+  static async findActiveByUserId(userId: string): Promise<PgRecordingSession[]> {
+    return executeQuery<PgRecordingSession>(
+      `SELECT * FROM recording_sessions
+       WHERE user_id = $1 AND status <> 'completed'
+       ORDER BY updated_at DESC`,
+      [userId]
+    );
+  }
+
+  // Start a session
+  static async create(session: Pick<PgRecordingSession, 'user_id' | 'user_type' | 'purpose' | 'options'>): Promise<PgRecordingSession> {
+    const result = await executeQuery<PgRecordingSession>(
+      `INSERT INTO recording_sessions
+       (user_id, user_type, purpose, options)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [
+        session.user_id || null,
+        session.user_type || null,
+        session.purpose || null,
+        session.options ? JSON.stringify(session.options) : null
+      ]
+    );
+
+    return result[0];
+  }
+
+  // Record a finished segment and the transcription it was appended to
+  static async addSegment(
+    id: number,
+    segment: RecordingSegment,
+    transcriptionId: number | null
+  ): Promise<PgRecordingSession | null> {
+    const result = await executeQuery<PgRecordingSession>(
+      `UPDATE recording_sessions
+       SET segments = segments || $1::jsonb, duration = duration + $2,
+           transcription_id = COALESCE($3, transcription_id), updated_at = NOW()
+       WHERE id = $4
+       RETURNING *`,
+      [JSON.stringify([segment]), segment.duration, transcriptionId, id]
+    );
+
+    return result.length > 0 ? result[0] : null;
+  }
+
+  // Move a session to a new status
+  static async updateStatus(id: number, status: RecordingSessionStatus): Promise<PgRecordingSession | null> {
+    const result = await executeQuery<PgRecordingSession>(
+      `UPDATE recording_sessions
+       SET status = $1, updated_at = NOW(),
+           completed_at = ${status === 'completed' ? 'NOW()' : 'NULL'}
+       WHERE id = $2
+       RETURNING *`,
+      [status, id]
+    );
+
+    return result.length > 0 ? result[0] : null;
+  }
+}
@@ -0,0 +1,41 @@
+import { executeQuery } from '@/lib/postgres';
+import type { RedactionEntityType } from '@/types/redaction';
+
+export interface PgRedactionToken {
+  id: number;
+  token: string;
+  entity_type: RedactionEntityType;
+  encrypted_value: string;
+  created_at: Date;
+}
+
+export class RedactionTokenPg {
+  // Find the stored values for a set of tokens
+  static async findByTokens(tokens: string[]): Promise<PgRedactionToken[]> {
+    if (tokens.length === 0) return [];
+
+    return executeQuery<PgRedactionToken>(
+      'SELECT * FROM redaction_tokens WHERE token = ANY($1)',
+      [tokens]
+    );
+  }
+
+  // Store tokens, keeping the existing row for tokens already stored
+  static async saveMany(tokens: Pick<PgRedactionToken, 'token' | 'entity_type' | 'encrypted_value'>[]): Promise<void> {
+    if (tokens.length === 0) return;
+
+    const values: string[] = [];
+    const params: string[] = [];
+    tokens.forEach((token, index) => {
+      values.push(`($${index * 3 + 1}, $${index * 3 + 2}, $${index * 3 + 3})`);
+      params.push(token.token, token.entity_type, token.encrypted_value);
+    });
+
+    await executeQuery(
+      `INSERT INTO redaction_tokens (token, entity_type, encrypted_value)
+       VALUES ${values.join(', ')}
+       ON CONFLICT (token) DO NOTHING`,
+      params
+    );
+  }
+}
@@ -11,6 +11,33 @@ export interface PgTranscription {
   metadata?: Record<string, any>;
 }
 
+// Library listing row; metadata, which holds the words and segments, is left out
+export interface PgTranscriptionSearchResult extends Omit<PgTranscription, 'metadata'> {
+  artifact_types: string[];
+}
+
+export type TranscriptionSort = 'newest' | 'oldest' | 'updated' | 'relevance';
+
+export interface TranscriptionSearchFilters {
+  // Full-text query over the transcription text
+  query?: string;
+  userType?: string;
+  purpose?: string;
+  // Inclusive range of creation dates (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+  sort?: TranscriptionSort;
+  limit: number;
+  offset: number;
+}
+
+const SEARCH_ORDER: Record<TranscriptionSort, string> = {
+  newest: 'created_at DESC',
+  oldest: 'created_at ASC',
+  updated: 'updated_at DESC',
+  relevance: 'created_at DESC'
+};
+
 export class TranscriptionPg {
   // Get transcription by ID
   static async findById(id: number): Promise<PgTranscription | null> {
@@ -62,6 +89,65 @@ export class TranscriptionPg {
     );
   }
   
+  // Search with filters, returning one page of matches, with the types of
+  // artifact generated from each, and the total number of matches
+  static async search(filters: TranscriptionSearchFilters): Promise<{ transcriptions: PgTranscriptionSearchResult[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    let queryParam = 0;
+    
+    if (filters.query) {
+      params.push(filters.query);
+      queryParam = params.length;
+      conditions.push(`to_tsvector('english', text) @@ websearch_to_tsquery('english', $${queryParam})`);
+    }
+    
+    if (filters.userType) {
+      params.push(filters.userType);
+      conditions.push(`user_type = $${params.length}`);
+    }
+    
+    if (filters.purpose) {
+      params.push(filters.purpose);
+      conditions.push(`purpose = $${params.length}`);
+    }
+    
+    if (filters.from) {
+      params.push(filters.from);
+      conditions.push(`created_at >= $${params.length}::date`);
+    }
+    
+    if (filters.to) {
+      params.push(filters.to);
+      conditions.push(`created_at < $${params.length}::date + INTERVAL '1 day'`);
+    }
+    
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const sort = filters.sort || 'newest';
+    const order = sort === 'relevance' && queryParam
+      ? `ts_rank(to_tsvector('english', text), websearch_to_tsquery('english', $${queryParam})) DESC, created_at DESC`
+      : SEARCH_ORDER[sort];
+    
+    const transcriptions = await executeQuery<PgTranscriptionSearchResult>(
+      `SELECT id, text, created_at, updated_at, user_id, user_type, purpose,
+         ARRAY(
+           SELECT DISTINCT artifact_type FROM transcription_artifacts
+           WHERE transcription_id = transcriptions.id
+           ORDER BY artifact_type
+         ) AS artifact_types
+       FROM transcriptions ${where}
+       ORDER BY ${order}
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, filters.limit, filters.offset]
+    );
+    const countResult = await executeQuery<{ count: string }>(
+      `SELECT COUNT(*) as count FROM transcriptions ${where}`,
+      params
+    );
+    
+    return { transcriptions, total: parseInt(countResult[0].count) };
+  }
+  
   // Create a new transcription
   static async create(transcription: Omit<PgTranscription, 'id' | 'created_at' | 'updated_at'>): Promise<PgTranscription> {
     const result = await executeQuery<PgTranscription>(
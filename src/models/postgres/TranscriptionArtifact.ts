@@ -0,0 +1,93 @@
+import { executeQuery, transaction } from '@/lib/postgres';
+import type { ArtifactData } from '@/types/artifact';
+
+export interface PgTranscriptionArtifact {
+  id: number;
+  transcription_id: number;
+  artifact_type: string;
+  version: number;
+  content: string;
+  data?: ArtifactData | null;
+  model?: string | null;
+  prompt_version?: string | null;
+  created_by?: string | null;
+  created_at: Date;
+}
+
+export class TranscriptionArtifactPg {
+  // Get an artifact version by ID
+  static async findById(id: number): Promise<PgTranscriptionArtifact | null> {
+    const artifacts = await executeQuery<PgTranscriptionArtifact>(
+      'SELECT * FROM transcription_artifacts WHERE id = $1',
+      [id]
+    );
+
+    return artifacts.length > 0 ? artifacts[0] : null;
+  }
+
+  // Get the latest version of each artifact type for a transcription
+  static async findLatestByTranscriptionId(transcriptionId: number): Promise<PgTranscriptionArtifact[]> {
+    return executeQuery<PgTranscriptionArtifact>(
+      `SELECT DISTINCT ON (artifact_type) * FROM transcription_artifacts
+       WHERE transcription_id = $1
+       ORDER BY artifact_type, version DESC`,
+      [transcriptionId]
+    );
+  }
+
+  // Get every version of one artifact type, newest first
+  static async findVersions(transcriptionId: number, artifactType: string): Promise<PgTranscriptionArtifact[]> {
+    return executeQuery<PgTranscriptionArtifact>(
+      `SELECT * FROM transcription_artifacts
+       WHERE transcription_id = $1 AND artifact_type = $2
+       ORDER BY version DESC`,
+      [transcriptionId, artifactType]
+    );
+  }
+
+  // Get one version of an artifact type
+  static async findVersion(transcriptionId: number, artifactType: string, version: number): Promise<PgTranscriptionArtifact | null> {
+    const artifacts = await executeQuery<PgTranscriptionArtifact>(
+      `SELECT * FROM transcription_artifacts
+       WHERE transcription_id = $1 AND artifact_type = $2 AND version = $3`,
+      [transcriptionId, artifactType, version]
+    );
+
+    return artifacts.length > 0 ? artifacts[0] : null;
+  }
+
+  // Save a new version, numbered after the latest version of the same type.
+  // The transcription row is locked so concurrent saves number their versions in turn.
+  static async create(
+    artifact: Omit<PgTranscriptionArtifact, 'id' | 'version' | 'created_at'>
+  ): Promise<PgTranscriptionArtifact> {
+    return transaction(async (client) => {
+      await client.query(
+        'SELECT id FROM transcriptions WHERE id = $1 FOR UPDATE',
+        [artifact.transcription_id]
+      );
+
+      const result = await client.query<PgTranscriptionArtifact>(
+        `INSERT INTO transcription_artifacts
+         (transcription_id, artifact_type, version, content, data, model, prompt_version, created_by)
+         VALUES (
+           $1, $2,
+           COALESCE((SELECT MAX(version) FROM transcription_artifacts WHERE transcription_id = $1 AND artifact_type = $2), 0) + 1,
+           $3, $4, $5, $6, $7
+         )
+         RETURNING *`,
+        [
+          artifact.transcription_id,
+          artifact.artifact_type,
+          artifact.content,
+          artifact.data ? JSON.stringify(artifact.data) : null,
+          artifact.model || null,
+          artifact.prompt_version || null,
+          artifact.created_by || null
+        ]
+      );
+
+      return result.rows[0];
+    });
+  }
+}
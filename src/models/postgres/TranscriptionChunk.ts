@@ -0,0 +1,94 @@
+import { executeQuery, transaction } from '@/lib/postgres';
+
+export interface PgTranscriptionChunk {
+  id: number;
+  transcription_id: number;
+  content: string;
+  chunk_index: number;
+  embedding: number[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface TranscriptionChunkSearchResult {
+  chunk_id: number;
+  transcription_id: number;
+  content: string;
+  chunk_index: number;
+  distance: number;
+  user_type?: string;
+  purpose?: string;
+  created_at: Date;
+}
+
+export class TranscriptionChunkPg {
+  // Get chunks by transcription ID
+  static async findByTranscriptionId(transcriptionId: number): Promise<PgTranscriptionChunk[]> {
+    return executeQuery<PgTranscriptionChunk>(
+      'SELECT * FROM transcription_chunks WHERE transcription_id = $1 ORDER BY chunk_index',
+      [transcriptionId]
+    );
+  }
+
+  // Replace all chunks of a transcription
+  static async replaceForTranscription(
+    transcriptionId: number,
+    chunks: Pick<PgTranscriptionChunk, 'content' | 'embedding'>[]
+  ): Promise<void> {
+    await transaction(async (client) => {
+      await client.query(
+        'DELETE FROM transcription_chunks WHERE transcription_id = $1',
+        [transcriptionId]
+      );
+
+      for (let i = 0; i < chunks.length; i++) {
+        await client.query(
+          `INSERT INTO transcription_chunks
+           (transcription_id, content, chunk_index, embedding)
+           VALUES ($1, $2, $3, $4::vector)`,
+          [transcriptionId, chunks[i].content, i, JSON.stringify(chunks[i].embedding)]
+        );
+      }
+    });
+  }
+
+  // Perform vector search, optionally within one user type
+  static async vectorSearch(
+    embedding: number[],
+    limit: number = 5,
+    userType?: string
+  ): Promise<TranscriptionChunkSearchResult[]> {
+    return executeQuery<TranscriptionChunkSearchResult>(
+      `SELECT
+        tc.id as chunk_id,
+        tc.transcription_id,
+        tc.content,
+        tc.chunk_index,
+        tc.embedding <=> $1::vector AS distance,
+        t.user_type,
+        t.purpose,
+        t.created_at
+      FROM
+        transcription_chunks tc
+      JOIN
+        transcriptions t ON tc.transcription_id = t.id
+      WHERE
+        tc.embedding IS NOT NULL
+        AND ($3::text IS NULL OR t.user_type = $3)
+      ORDER BY
+        tc.embedding <=> $1::vector
+      LIMIT $2`,
+      [JSON.stringify(embedding), limit, userType ?? null]
+    );
+  }
+
+  // Count chunks
+  static async count(): Promise<number> {
+    const result = await executeQuery<{ count: string }>(
+      'SELECT COUNT(*) as count FROM transcription_chunks',
+      []
+    );
+
+    return parseInt(result[0].count);
+  }
+}
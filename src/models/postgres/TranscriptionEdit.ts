@@ -0,0 +1,41 @@
+import { executeQuery } from '@/lib/postgres';
+import type { WordCorrection } from '@/types/transcript';
+
+export interface PgTranscriptionEdit {
+  id: number;
+  transcription_id: number;
+  previous_text: string;
+  new_text: string;
+  corrections?: WordCorrection[];
+  edited_by?: string;
+  created_at: Date;
+}
+
+export class TranscriptionEditPg {
+  // Record an edit to a transcription
+  static async create(edit: Omit<PgTranscriptionEdit, 'id' | 'created_at'>): Promise<PgTranscriptionEdit> {
+    const result = await executeQuery<PgTranscriptionEdit>(
+      `INSERT INTO transcription_edits 
+       (transcription_id, previous_text, new_text, corrections, edited_by) 
+       VALUES ($1, $2, $3, $4, $5) 
+       RETURNING *`,
+      [
+        edit.transcription_id,
+        edit.previous_text,
+        edit.new_text,
+        edit.corrections ? JSON.stringify(edit.corrections) : null,
+        edit.edited_by || null
+      ]
+    );
+    
+    return result[0];
+  }
+  
+  // Find edits to a transcription, most recent first
+  static async findByTranscriptionId(transcriptionId: number, limit: number = 100): Promise<PgTranscriptionEdit[]> {
+    return executeQuery<PgTranscriptionEdit>(
+      'SELECT * FROM transcription_edits WHERE transcription_id = $1 ORDER BY created_at DESC LIMIT $2',
+      [transcriptionId, limit]
+    );
+  }
+}
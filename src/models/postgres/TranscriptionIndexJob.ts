@@ -0,0 +1,90 @@
+import { executeQuery } from '@/lib/postgres';
+
+export interface PgTranscriptionIndexJob {
+  transcription_id: number;
+  generation: number;
+  attempts: number;
+  error?: string;
+  locked_until?: Date;
+  queued_at: Date;
+  updated_at: Date;
+}
+
+export class TranscriptionIndexJobPg {
+  // Queue a transcription, starting its attempts over if it is already waiting
+  static async enqueue(transcriptionId: number): Promise<void> {
+    await executeQuery(
+      `INSERT INTO transcription_index_queue (transcription_id)
+       VALUES ($1)
+       ON CONFLICT (transcription_id)
+       DO UPDATE SET generation = transcription_index_queue.generation + 1, attempts = 0, error = NULL,
+                     queued_at = NOW(), updated_at = NOW()`,
+      [transcriptionId]
+    );
+  }
+
+  // Queue every transcription, or only those without chunks; returns how many were queued
+  static async enqueueAll(missingOnly: boolean): Promise<number> {
+    const result = await executeQuery<{ transcription_id: number }>(
+      `INSERT INTO transcription_index_queue (transcription_id)
+       SELECT t.id FROM transcriptions t
+       ${missingOnly ? 'WHERE NOT EXISTS (SELECT 1 FROM transcription_chunks c WHERE c.transcription_id = t.id)' : ''}
+       ON CONFLICT (transcription_id)
+       DO UPDATE SET generation = transcription_index_queue.generation + 1, attempts = 0, error = NULL,
+                     queued_at = NOW(), updated_at = NOW()
+       RETURNING transcription_id`
+    );
+
+    return result.length;
+  }
+
+  // Take the oldest waiting transcription that is not held by another worker
+  // and has attempts left, holding it for lockSeconds
+  static async claimNext(maxAttempts: number, lockSeconds: number): Promise<PgTranscriptionIndexJob | null> {
+    const result = await executeQuery<PgTranscriptionIndexJob>(
+      `UPDATE transcription_index_queue
+       SET attempts = attempts + 1, locked_until = NOW() + $2::float8 * INTERVAL '1 second', updated_at = NOW()
+       WHERE transcription_id = (
+         SELECT transcription_id FROM transcription_index_queue
+         WHERE attempts < $1 AND (locked_until IS NULL OR locked_until < NOW())
+         ORDER BY queued_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [maxAttempts, lockSeconds]
+    );
+
+    return result.length > 0 ? result[0] : null;
+  }
+
+  // Remove a finished job, unless the transcription was queued again while it ran
+  static async complete(job: PgTranscriptionIndexJob): Promise<void> {
+    await executeQuery(
+      'DELETE FROM transcription_index_queue WHERE transcription_id = $1 AND generation = $2',
+      [job.transcription_id, job.generation]
+    );
+  }
+
+  // Hold a failed job back for retryDelaySeconds before it is retried, recording why it failed
+  static async fail(job: PgTranscriptionIndexJob, error: string, retryDelaySeconds: number): Promise<void> {
+    await executeQuery(
+      `UPDATE transcription_index_queue
+       SET error = $3, locked_until = NOW() + $4::float8 * INTERVAL '1 second', updated_at = NOW()
+       WHERE transcription_id = $1 AND generation = $2`,
+      [job.transcription_id, job.generation, error, retryDelaySeconds]
+    );
+  }
+
+  // Count waiting jobs and those that have used up their attempts
+  static async counts(maxAttempts: number): Promise<{ waiting: number; failed: number }> {
+    const result = await executeQuery<{ waiting: string; failed: string }>(
+      `SELECT COUNT(*) FILTER (WHERE attempts < $1) AS waiting,
+              COUNT(*) FILTER (WHERE attempts >= $1) AS failed
+       FROM transcription_index_queue`,
+      [maxAttempts]
+    );
+
+    return { waiting: parseInt(result[0].waiting), failed: parseInt(result[0].failed) };
+  }
+}
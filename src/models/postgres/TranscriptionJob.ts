@@ -0,0 +1,124 @@
+import { executeQuery } from '@/lib/postgres';
+
+export type TranscriptionJobStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+export interface TranscriptionJobOptions {
+  userType?: string;
+  purpose?: string;
+  language?: string;
+  diarize?: boolean;
+}
+
+export interface PgTranscriptionJob {
+  id: number;
+  status: TranscriptionJobStatus;
+  provider: string;
+  file_name?: string;
+  content_type: string;
+  size: number;
+  audio_key: string;
+  options?: TranscriptionJobOptions;
+  transcription_id?: number;
+  error?: string;
+  user_id?: string;
+  attempts: number;
+  locked_until?: Date;
+  created_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+}
+
+export class TranscriptionJobPg {
+  // Get job by ID
+  static async findById(id: number): Promise<PgTranscriptionJob | null> {
+    const jobs = await executeQuery<PgTranscriptionJob>(
+      'SELECT * FROM transcription_jobs WHERE id = $1',
+      [id]
+    );
+    
+    return jobs.length > 0 ? jobs[0] : null;
+  }
+  
+  // Find jobs submitted by a user, most recent first
+  static async findByUserId(userId: string, limit: number = 20): Promise<PgTranscriptionJob[]> {
+    return executeQuery<PgTranscriptionJob>(
+      'SELECT * FROM transcription_jobs WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2',
+      [userId, limit]
+    );
+  }
+  
+  // Create a pending job
+  static async create(job: Pick<PgTranscriptionJob, 'provider' | 'file_name' | 'content_type' | 'size' | 'audio_key' | 'options' | 'user_id'>): Promise<PgTranscriptionJob> {
+    const result = await executeQuery<PgTranscriptionJob>(
+      `INSERT INTO transcription_jobs 
+       (provider, file_name, content_type, size, audio_key, options, user_id) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7) 
+       RETURNING *`,
+      [
+        job.provider,
+        job.file_name || null,
+        job.content_type,
+        job.size,
+        job.audio_key,
+        job.options ? JSON.stringify(job.options) : null,
+        job.user_id || null
+      ]
+    );
+    
+    return result[0];
+  }
+  
+  // Take the oldest job that is pending, or processing in a worker whose hold
+  // has run out, and has attempts left, holding it for lockSeconds
+  static async claimNext(maxAttempts: number, lockSeconds: number): Promise<PgTranscriptionJob | null> {
+    const result = await executeQuery<PgTranscriptionJob>(
+      `UPDATE transcription_jobs
+       SET status = 'processing', attempts = attempts + 1,
+           locked_until = NOW() + $2::float8 * INTERVAL '1 second', updated_at = NOW()
+       WHERE id = (
+         SELECT id FROM transcription_jobs
+         WHERE attempts < $1
+           AND (status = 'pending' OR (status = 'processing' AND locked_until < NOW()))
+         ORDER BY created_at
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [maxAttempts, lockSeconds]
+    );
+    
+    return result.length > 0 ? result[0] : null;
+  }
+  
+  // Fail jobs whose every attempt stopped part-way; returns how many there were
+  static async failAbandoned(maxAttempts: number, error: string): Promise<number> {
+    const result = await executeQuery<{ id: number }>(
+      `UPDATE transcription_jobs
+       SET status = 'failed', error = $2, updated_at = NOW(), completed_at = NOW()
+       WHERE status = 'processing' AND locked_until < NOW() AND attempts >= $1
+       RETURNING id`,
+      [maxAttempts, error]
+    );
+    
+    return result.length;
+  }
+  
+  // Move a job to a new status
+  static async updateStatus(
+    id: number,
+    status: TranscriptionJobStatus,
+    details: { transcription_id?: number; error?: string } = {}
+  ): Promise<PgTranscriptionJob | null> {
+    const finished = status === 'completed' || status === 'failed';
+    const result = await executeQuery<PgTranscriptionJob>(
+      `UPDATE transcription_jobs 
+       SET status = $1, transcription_id = COALESCE($2, transcription_id), error = $3, 
+           updated_at = NOW(), completed_at = ${finished ? 'NOW()' : 'NULL'} 
+       WHERE id = $4 
+       RETURNING *`,
+      [status, details.transcription_id || null, details.error || null, id]
+    );
+    
+    return result.length > 0 ? result[0] : null;
+  }
+}
@@ -0,0 +1,96 @@
+import { executeQuery } from '@/lib/postgres';
+import type { VocabularyKind, VocabularyScope } from '@/types/vocabulary';
+
+export interface PgVocabularyTerm {
+  id: number;
+  scope: VocabularyScope;
+  scope_value: string;
+  kind: VocabularyKind;
+  term: string;
+  replacement?: string;
+  boost?: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class VocabularyTermPg {
+  // Get term by ID
+  static async findById(id: number): Promise<PgVocabularyTerm | null> {
+    const terms = await executeQuery<PgVocabularyTerm>(
+      'SELECT * FROM vocabulary_terms WHERE id = $1',
+      [id]
+    );
+    
+    return terms.length > 0 ? terms[0] : null;
+  }
+  
+  // Find terms in a single scope, optionally of one kind
+  static async findByScope(scope: VocabularyScope, scopeValue: string, kind?: VocabularyKind): Promise<PgVocabularyTerm[]> {
+    if (kind) {
+      return executeQuery<PgVocabularyTerm>(
+        'SELECT * FROM vocabulary_terms WHERE scope = $1 AND scope_value = $2 AND kind = $3 ORDER BY term',
+        [scope, scopeValue, kind]
+      );
+    }
+    
+    return executeQuery<PgVocabularyTerm>(
+      'SELECT * FROM vocabulary_terms WHERE scope = $1 AND scope_value = $2 ORDER BY kind, term',
+      [scope, scopeValue]
+    );
+  }
+  
+  // Find every term that applies to a user type and user, user type entries first
+  static async findForContext(userType: string | null, userId: string | null): Promise<PgVocabularyTerm[]> {
+    return executeQuery<PgVocabularyTerm>(
+      `SELECT * FROM vocabulary_terms 
+       WHERE (scope = 'user_type' AND scope_value = $1) 
+          OR (scope = 'user' AND scope_value = $2) 
+       ORDER BY CASE scope WHEN 'user_type' THEN 0 ELSE 1 END, id`,
+      [userType, userId]
+    );
+  }
+  
+  // Create a term
+  static async create(term: Omit<PgVocabularyTerm, 'id' | 'created_at' | 'updated_at'>): Promise<PgVocabularyTerm> {
+    const result = await executeQuery<PgVocabularyTerm>(
+      `INSERT INTO vocabulary_terms 
+       (scope, scope_value, kind, term, replacement, boost) 
+       VALUES ($1, $2, $3, $4, $5, $6) 
+       RETURNING *`,
+      [
+        term.scope,
+        term.scope_value,
+        term.kind,
+        term.term,
+        term.replacement ?? null,
+        term.boost ?? null
+      ]
+    );
+    
+    return result[0];
+  }
+  
+  // Update a term's text, replacement or boost
+  static async update(id: number, updates: Partial<Pick<PgVocabularyTerm, 'term' | 'replacement' | 'boost'>>): Promise<PgVocabularyTerm | null> {
+    const result = await executeQuery<PgVocabularyTerm>(
+      `UPDATE vocabulary_terms 
+       SET term = COALESCE($1, term), replacement = COALESCE($2, replacement), 
+           boost = COALESCE($3, boost), updated_at = NOW() 
+       WHERE id = $4 
+       RETURNING *`,
+      [updates.term ?? null, updates.replacement ?? null, updates.boost ?? null, id]
+    );
+    
+    return result.length > 0 ? result[0] : null;
+  }
+  
+  // Delete a term
+  static async delete(id: number): Promise<boolean> {
+    const result = await executeQuery<{ id: number }>(
+      'DELETE FROM vocabulary_terms WHERE id = $1 RETURNING id',
+      [id]
+    );
+    
+    return result.length > 0;
+  }
+}
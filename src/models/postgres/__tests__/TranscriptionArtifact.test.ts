@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { transaction } from '@/lib/postgres';
+import { PgTranscriptionArtifact, TranscriptionArtifactPg } from '@/models/postgres/TranscriptionArtifact';
+
+jest.mock('@/lib/postgres', () => ({ executeQuery: jest.fn(), transaction: jest.fn() }));
+
+// Stand-in for Postgres: rows of transcription_artifacts, and row locks on
+// transcriptions that are held until the transaction ends
+let rows: PgTranscriptionArtifact[];
+let locks: Map<number, Promise<void>>;
+
+function fakeTransaction<T>(callback: (client: unknown) => Promise<T>): Promise<T> {
+  let release: () => void = () => {};
+
+  const client = {
+    async query(sql: string, params: [number, string, string]) {
+      if (sql.includes('FOR UPDATE')) {
+        while (locks.has(params[0])) {
+          await locks.get(params[0]);
+        }
+        locks.set(params[0], new Promise<void>(resolve => {
+          release = () => {
+            locks.delete(params[0]);
+            resolve();
+          };
+        }));
+        return { rows: [{ id: params[0] }] };
+      }
+
+      // The latest version is read, then the row is written after a pause,
+      // leaving room for another save in between
+      const versions = rows
+        .filter(row => row.transcription_id === params[0] && row.artifact_type === params[1])
+        .map(row => row.version);
+      await new Promise(resolve => setTimeout(resolve, 5));
+
+      const row = {
+        id: rows.length + 1,
+        transcription_id: params[0],
+        artifact_type: params[1],
+        version: Math.max(0, ...versions) + 1,
+        content: params[2],
+        created_at: new Date()
+      };
+      if (rows.some(other => other.transcription_id === row.transcription_id && other.artifact_type === row.artifact_type && other.version === row.version)) {
+        throw new Error('duplicate key value violates unique constraint');
+      }
+      rows.push(row);
+      return { rows: [row] };
+    }
+  };
+
+  return callback(client).finally(() => release());
+}
+
+beforeEach(() => {
+  rows = [];
+  locks = new Map();
+  (transaction as jest.Mock).mockImplementation(fakeTransaction);
+});
+
+describe('TranscriptionArtifactPg.create', () => {
+  it('numbers versions per transcription and artifact type', async () => {
+    await TranscriptionArtifactPg.create({ transcription_id: 1, artifact_type: 'SOAP', content: 'First' });
+    const second = await TranscriptionArtifactPg.create({ transcription_id: 1, artifact_type: 'SOAP', content: 'Second' });
+    const other = await TranscriptionArtifactPg.create({ transcription_id: 1, artifact_type: 'Referral', content: 'Other' });
+
+    expect(second.version).toBe(2);
+    expect(other.version).toBe(1);
+  });
+
+  it('gives concurrent saves consecutive versions', async () => {
+    const saved = await Promise.all(
+      ['A', 'B', 'C'].map(content => TranscriptionArtifactPg.create({ transcription_id: 1, artifact_type: 'SOAP', content }))
+    );
+
+    expect(saved.map(artifact => artifact.version).sort()).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Golden set for the LLM evaluation
+ *
+ * Transcripts with the terms a good output should keep. Add a case rather
+ * than editing one, so scores stay comparable with stored baselines.
+ */
+
+import { exampleLectures } from '@/data/exampleLectures';
+
+export interface GoldenCase {
+  id: string;
+  title: string;
+  userType: 'gp' | 'school';
+  text: string;
+  // Output formats the transcript is run through
+  formats: string[];
+  // Whether the transcript is also run through the lecture summary
+  summarize: boolean;
+  // Terms a faithful output mentions, matched case-insensitively
+  keyTerms: string[];
+}
+
+// Key terms for each example lecture, by lecture id
+const LECTURE_KEY_TERMS: Record<string, string[]> = {
+  'pythagorean-theorem': ['Pythagorean', 'hypotenuse', 'right triangle', 'legs', 'Pythagoras', 'construction'],
+  'quadratic-equations': ['quadratic', 'factoring', 'quadratic formula', 'discriminant', 'completing the square', 'roots'],
+  'cellular-respiration': ['glycolysis', 'Krebs cycle', 'electron transport chain', 'ATP', 'oxygen', 'fermentation']
+};
+
+const lectureCases: GoldenCase[] = exampleLectures.map(lecture => ({
+  id: lecture.id,
+  title: lecture.title,
+  userType: 'school',
+  text: lecture.content,
+  formats: ['Markdown', 'Bullet Points'],
+  summarize: true,
+  keyTerms: LECTURE_KEY_TERMS[lecture.id] || []
+}));
+
+const consultationCases: GoldenCase[] = [
+  {
+    id: 'hypertension-review',
+    title: 'Hypertension review',
+    userType: 'gp',
+    text: `Good morning, what brings you in today? I've been getting headaches most mornings for about two weeks, and my home blood pressure readings have been high.
+
+Are you still taking the amlodipine? Yes, 5 mg once a day, but I missed a few doses last month. Any chest pain or shortness of breath? No, nothing like that.
+
+Let me check your blood pressure. It's 152/94 mmHg today, heart rate 78 bpm. Your weight is 86 kg.
+
+So your blood pressure is still above target, and the headaches are likely related. I'd like to increase the amlodipine to 10 mg once daily and add ramipril 2.5 mg once daily. We'll need a blood test for kidney function and potassium in two weeks because of the ramipril.
+
+Please keep a blood pressure diary and come back for a review in four weeks. If the headaches get worse or you have any vision changes, come back sooner.`,
+    formats: ['SOAP', 'Clinical Summary'],
+    summarize: false,
+    keyTerms: ['headache', 'blood pressure', 'amlodipine', 'ramipril', '152/94', 'kidney function', 'four weeks']
+  },
+  {
+    id: 'chest-infection',
+    title: 'Chest infection',
+    userType: 'gp',
+    text: `Hello, how can I help? I've had a cough with green sputum for five days, and since yesterday I've had a fever and I feel short of breath climbing the stairs.
+
+Do you have asthma or any other lung problems? I have asthma, I use my salbutamol inhaler when I need it, maybe twice a day this week.
+
+Let me examine you. Your temperature is 38.4°C, respiratory rate 22 breaths per minute, oxygen saturation 95% on room air, and heart rate 96 bpm. I can hear crackles at the right lung base.
+
+This looks like a lower respiratory tract infection, probably community-acquired pneumonia, and it's made your asthma worse. I'll start amoxicillin 500 mg three times daily for five days. Keep using the salbutamol inhaler, up to four times a day.
+
+Drink plenty of fluids and rest. If you aren't improving in 48 hours, or you become more breathless, please call us or go to the emergency department. I'd like to see you again in one week.`,
+    formats: ['SOAP', 'Clinical Summary'],
+    summarize: false,
+    keyTerms: ['cough', 'fever', 'asthma', 'salbutamol', 'amoxicillin', 'pneumonia', '38.4', 'one week']
+  }
+];
+
+export const goldenSet: GoldenCase[] = [...lectureCases, ...consultationCases];
@@ -0,0 +1,406 @@
+/**
+ * LLM Evaluation Script
+ *
+ * Runs the golden set of transcripts through the format and summarize
+ * pipelines with the chosen LLM providers, scores the outputs and writes a
+ * report comparing the scores with the stored baseline for those providers.
+ * Exits with an error when any output scores worse than its baseline.
+ *
+ * Usage:
+ *   npm run eval:llm -- [--provider openai] [--cases id,id] [--baseline file] [--out file] [--update-baseline]
+ *
+ * Prompt versions are chosen as in the app, so pin the ones to compare with PROMPT_EXPERIMENTS.
+ */
+
+import './registerAliases';
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { formatTranscription } from '@/services/formatting';
+import { getLlm } from '@/services/llm';
+import {
+  extractKeyPoints,
+  extractTopics,
+  generateSampleQuestions,
+  getSummaryPromptVersion,
+  selectSummaryPrompts,
+  summarizeTranscript
+} from '@/services/summarization';
+import { CLINICAL_NOTE_SECTIONS, isClinicalNoteFormat } from '@/utils/clinicalNote';
+import { FORMAT_MERGE_PROMPT_NAME, getFormatPromptName } from '@/utils/formatPrompts';
+import { getPromptId, selectPrompt } from '@/utils/prompts';
+import { GoldenCase, goldenSet } from './eval/goldenSet';
+
+// Load environment variables
+dotenv.config({ path: '.env.local' });
+
+// Configuration
+const BASELINE_DIR = path.join(__dirname, 'eval', 'baselines');
+const REPORT_DIR = path.join(__dirname, 'eval', 'reports');
+const SUMMARY_PIPELINE = 'Summary';
+// Largest drop in a score that is not counted as a regression
+const SCORE_TOLERANCE = 0.05;
+// Largest relative change in output length that is not counted as a regression
+const LENGTH_TOLERANCE = 0.5;
+
+interface EvalOptions {
+  provider: string;
+  caseIds: string[] | null;
+  baselineFile: string;
+  reportFile: string;
+  updateBaseline: boolean;
+}
+
+interface EvalMetrics {
+  // Share of the expected sections present and non-empty; null for outputs without sections
+  sectionCoverage: number | null;
+  // Share of the case's key terms the output mentions
+  keyTermRecall: number;
+  // Whether the model answered with the JSON it was asked for; null when none was asked for
+  jsonValid: boolean | null;
+  words: number;
+  // Output words per transcript word
+  lengthRatio: number;
+}
+
+interface EvalResult {
+  caseId: string;
+  // Output format name, or "Summary"
+  pipeline: string;
+  model: string;
+  promptVersion: string;
+  metrics: EvalMetrics;
+  error?: string;
+}
+
+// The scores of one run, as stored for a baseline
+interface EvalRun {
+  provider: string;
+  createdAt: string;
+  results: EvalResult[];
+}
+
+/**
+ * Read the command line options
+ */
+function parseOptions(args: string[]): EvalOptions {
+  const value = (name: string): string | undefined => {
+    const index = args.indexOf(`--${name}`);
+    if (index !== -1) {
+      return args[index + 1];
+    }
+    const inline = args.find(arg => arg.startsWith(`--${name}=`));
+    return inline ? inline.slice(name.length + 3) : undefined;
+  };
+
+  const provider = value('provider') || process.env.LLM_PROVIDERS || 'openai,azure';
+  const providerSlug = provider.replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+  const cases = value('cases');
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+  return {
+    provider,
+    caseIds: cases ? cases.split(',').map(id => id.trim()).filter(Boolean) : null,
+    baselineFile: path.resolve(value('baseline') || path.join(BASELINE_DIR, `${providerSlug}.json`)),
+    reportFile: path.resolve(value('out') || path.join(REPORT_DIR, `${providerSlug}-${timestamp}.md`)),
+    updateBaseline: args.includes('--update-baseline')
+  };
+}
+
+/**
+ * Count the words in a text
+ */
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Get the share of key terms mentioned in a text, ignoring case
+ */
+function scoreKeyTermRecall(text: string, keyTerms: string[]): number {
+  if (keyTerms.length === 0) {
+    return 1;
+  }
+  const lowerText = text.toLowerCase();
+  return keyTerms.filter(term => lowerText.includes(term.toLowerCase())).length / keyTerms.length;
+}
+
+/**
+ * Score an output of a golden case
+ */
+function scoreOutput(
+  goldenCase: GoldenCase,
+  text: string,
+  mainText: string,
+  sectionCoverage: number | null,
+  jsonValid: boolean | null
+): EvalMetrics {
+  const words = countWords(mainText);
+  return {
+    sectionCoverage,
+    keyTermRecall: scoreKeyTermRecall(text, goldenCase.keyTerms),
+    jsonValid,
+    words,
+    lengthRatio: words / Math.max(countWords(goldenCase.text), 1)
+  };
+}
+
+/**
+ * Run a golden case through one output format
+ */
+async function evaluateFormat(goldenCase: GoldenCase, format: string): Promise<EvalResult> {
+  const prompt = selectPrompt(getFormatPromptName(format, null));
+  const mergePrompt = selectPrompt(FORMAT_MERGE_PROMPT_NAME);
+  const { result, model } = await formatTranscription(goldenCase.text, format, goldenCase.userType, { prompt, mergePrompt });
+
+  let sectionCoverage: number | null = null;
+  let jsonValid: boolean | null = null;
+
+  if (isClinicalNoteFormat(format)) {
+    const required = CLINICAL_NOTE_SECTIONS[format];
+    const sections = result.structured?.sections || [];
+    sectionCoverage = required.filter(heading =>
+      sections.some(section => section.heading === heading && section.content.trim().length > 0)
+    ).length / required.length;
+    // The basic rules build the note themselves, so only a model's note counts as valid JSON
+    jsonValid = model !== 'basic-rules' && !!result.structured;
+  }
+
+  return {
+    caseId: goldenCase.id,
+    pipeline: format,
+    model,
+    promptVersion: getPromptId(prompt),
+    metrics: scoreOutput(goldenCase, result.formattedText, result.formattedText, sectionCoverage, jsonValid)
+  };
+}
+
+/**
+ * Run a golden case through the lecture summary, with its topics, key points and questions
+ */
+async function evaluateSummary(goldenCase: GoldenCase): Promise<EvalResult> {
+  const prompts = selectSummaryPrompts();
+  const { content: summary, model } = await summarizeTranscript(goldenCase.text, prompts, '');
+  const { topics, validJson } = await extractTopics(summary, prompts, '');
+  const keyPoints = await extractKeyPoints(summary, prompts, '');
+  const questions = await generateSampleQuestions(summary, prompts, '');
+
+  const parts = [summary, topics.join('\n'), keyPoints, questions];
+  const sectionCoverage = parts.filter(part => part.trim().length > 0).length / parts.length;
+
+  return {
+    caseId: goldenCase.id,
+    pipeline: SUMMARY_PIPELINE,
+    model,
+    promptVersion: getSummaryPromptVersion(prompts),
+    metrics: scoreOutput(goldenCase, parts.join('\n\n'), summary, sectionCoverage, validJson)
+  };
+}
+
+/**
+ * Run a pipeline, scoring a failure as an empty output
+ */
+async function runPipeline(goldenCase: GoldenCase, pipeline: string, run: () => Promise<EvalResult>): Promise<EvalResult> {
+  console.log(`Evaluating ${goldenCase.id}: ${pipeline}`);
+  try {
+    return await run();
+  } catch (error) {
+    console.error(`Error evaluating ${goldenCase.id}: ${pipeline}:`, error);
+    return {
+      caseId: goldenCase.id,
+      pipeline,
+      model: 'none',
+      promptVersion: 'none',
+      metrics: { sectionCoverage: 0, keyTermRecall: 0, jsonValid: false, words: 0, lengthRatio: 0 },
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
+
+/**
+ * Describe how a result scores worse than its baseline
+ * @returns The regressions, empty if there are none
+ */
+function findRegressions(result: EvalResult, baseline: EvalResult): string[] {
+  const regressions: string[] = [];
+  const current = result.metrics;
+  const previous = baseline.metrics;
+
+  if (result.error) {
+    regressions.push('failed');
+  }
+  if (current.sectionCoverage !== null && previous.sectionCoverage !== null &&
+      previous.sectionCoverage - current.sectionCoverage > SCORE_TOLERANCE) {
+    regressions.push('section coverage');
+  }
+  if (previous.keyTermRecall - current.keyTermRecall > SCORE_TOLERANCE) {
+    regressions.push('key-term recall');
+  }
+  if (previous.jsonValid === true && current.jsonValid === false) {
+    regressions.push('JSON validity');
+  }
+  if (previous.words > 0 && Math.abs(current.words - previous.words) / previous.words > LENGTH_TOLERANCE) {
+    regressions.push('length');
+  }
+
+  return regressions;
+}
+
+/**
+ * Format a score with its change from the baseline
+ */
+function formatScore(value: number | null, baselineValue: number | null | undefined, digits = 2): string {
+  if (value === null) {
+    return '-';
+  }
+  if (baselineValue === null || baselineValue === undefined) {
+    return value.toFixed(digits);
+  }
+  const delta = value - baselineValue;
+  return Math.abs(delta) < Math.pow(10, -digits)
+    ? value.toFixed(digits)
+    : `${value.toFixed(digits)} (${delta > 0 ? '+' : ''}${delta.toFixed(digits)})`;
+}
+
+/**
+ * Format a JSON validity flag with the baseline's when it differs
+ */
+function formatJsonValid(value: boolean | null, baselineValue: boolean | null | undefined): string {
+  const label = (flag: boolean | null | undefined) => flag === null || flag === undefined ? '-' : flag ? 'yes' : 'no';
+  return baselineValue === undefined || baselineValue === value ? label(value) : `${label(value)} (was ${label(baselineValue)})`;
+}
+
+/**
+ * Read the stored baseline, if there is one
+ */
+function loadBaseline(file: string): EvalRun | null {
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+/**
+ * Build the Markdown report comparing a run with its baseline
+ * @returns The report and the number of regressed outputs
+ */
+function buildReport(run: EvalRun, baseline: EvalRun | null, baselineFile: string): { report: string; regressions: number } {
+  const lines = [
+    '# LLM Evaluation Report',
+    '',
+    `- Provider: ${run.provider}`,
+    `- Run: ${run.createdAt}`,
+    baseline
+      ? `- Baseline: ${path.relative(process.cwd(), baselineFile)} (${baseline.createdAt})`
+      : `- Baseline: none found at ${path.relative(process.cwd(), baselineFile)}; run with --update-baseline to store one`,
+    '',
+    '| Case | Pipeline | Model | Prompt | Section coverage | Key-term recall | JSON valid | Words | Length ratio | Status |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |'
+  ];
+  let regressions = 0;
+
+  run.results.forEach(result => {
+    const previous = baseline?.results.find(candidate =>
+      candidate.caseId === result.caseId && candidate.pipeline === result.pipeline
+    );
+    const found = previous ? findRegressions(result, previous) : [];
+    let status = previous ? 'ok' : 'new';
+
+    if (found.length > 0) {
+      regressions++;
+      status = `**regressed: ${found.join(', ')}**`;
+    } else if (result.error) {
+      status = 'failed';
+    }
+    if (previous && previous.promptVersion !== result.promptVersion) {
+      status += ` (prompt was ${previous.promptVersion})`;
+    }
+
+    const metrics = result.metrics;
+    lines.push(`| ${[
+      result.caseId,
+      result.pipeline,
+      result.model,
+      result.promptVersion,
+      formatScore(metrics.sectionCoverage, previous?.metrics.sectionCoverage),
+      formatScore(metrics.keyTermRecall, previous?.metrics.keyTermRecall),
+      formatJsonValid(metrics.jsonValid, previous?.metrics.jsonValid),
+      formatScore(metrics.words, previous?.metrics.words, 0),
+      formatScore(metrics.lengthRatio, previous?.metrics.lengthRatio),
+      status
+    ].join(' | ')} |`);
+  });
+
+  const errors = run.results.filter(result => result.error);
+  if (errors.length > 0) {
+    lines.push('', '## Errors', '');
+    errors.forEach(result => lines.push(`- ${result.caseId} (${result.pipeline}): ${result.error}`));
+  }
+
+  lines.push('', `${regressions} of ${run.results.length} outputs regressed.`, '');
+  return { report: lines.join('\n'), regressions };
+}
+
+// Main function
+async function main(): Promise<boolean> {
+  const options = parseOptions(process.argv.slice(2));
+
+  // The shared client reads the providers when it is first used
+  process.env.LLM_PROVIDERS = options.provider;
+  if (getLlm().providerNames.length === 0) {
+    throw new Error(`None of the LLM providers "${options.provider}" is configured`);
+  }
+
+  const cases = options.caseIds
+    ? goldenSet.filter(goldenCase => options.caseIds?.includes(goldenCase.id))
+    : goldenSet;
+  if (cases.length === 0) {
+    throw new Error(`No golden cases match "${options.caseIds?.join(',')}"`);
+  }
+
+  const run: EvalRun = { provider: options.provider, createdAt: new Date().toISOString(), results: [] };
+
+  // One output at a time, to stay within provider rate limits
+  for (const goldenCase of cases) {
+    for (const format of goldenCase.formats) {
+      run.results.push(await runPipeline(goldenCase, format, () => evaluateFormat(goldenCase, format)));
+    }
+    if (goldenCase.summarize) {
+      run.results.push(await runPipeline(goldenCase, SUMMARY_PIPELINE, () => evaluateSummary(goldenCase)));
+    }
+  }
+
+  const baseline = loadBaseline(options.baselineFile);
+  const { report, regressions } = buildReport(run, baseline, options.baselineFile);
+
+  fs.mkdirSync(path.dirname(options.reportFile), { recursive: true });
+  fs.writeFileSync(options.reportFile, report);
+  console.log(report);
+  console.log(`Report written to ${options.reportFile}`);
+
+  if (options.updateBaseline) {
+    // Keep the baseline's scores for cases left out of this run
+    const kept = baseline?.results.filter(previous =>
+      !run.results.some(result => result.caseId === previous.caseId && result.pipeline === previous.pipeline)
+    ) || [];
+    fs.mkdirSync(path.dirname(options.baselineFile), { recursive: true });
+    fs.writeFileSync(options.baselineFile, JSON.stringify({ ...run, results: [...kept, ...run.results] }, null, 2) + '\n');
+    console.log(`Baseline written to ${options.baselineFile}`);
+    return true;
+  }
+
+  return regressions === 0;
+}
+
+// Run the main function if this script is executed directly
+if (require.main === module) {
+  main()
+    .then((passed) => {
+      console.log(passed ? 'Evaluation completed' : 'Evaluation found regressions');
+      process.exit(passed ? 0 : 1);
+    })
+    .catch((error) => {
+      console.error('Evaluation failed:', error);
+      process.exit(1);
+    });
+}
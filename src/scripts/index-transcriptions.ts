@@ -0,0 +1,50 @@
+/**
+ * Transcription Indexing Script
+ *
+ * Queues saved transcriptions for semantic search indexing and works through
+ * the queue, including transcriptions queued by the app that were not indexed
+ * yet or whose indexing failed. By default only transcriptions without chunks
+ * are queued, which backfills those saved before indexing existed or whose
+ * attempts ran out.
+ *
+ * Usage:
+ *   npm run index:transcriptions -- [--all]
+ *
+ * --all reindexes every transcription, e.g. after changing the embedding model.
+ */
+
+import './registerAliases';
+import dotenv from 'dotenv';
+import { TranscriptionIndexJobPg } from '@/models/postgres/TranscriptionIndexJob';
+import { MAX_INDEX_ATTEMPTS, processTranscriptionIndexQueue } from '@/services/transcriptionIndex';
+
+// Load environment variables
+dotenv.config({ path: '.env.local' });
+
+// Main function
+async function main(): Promise<boolean> {
+  const all = process.argv.includes('--all');
+
+  const queued = await TranscriptionIndexJobPg.enqueueAll(!all);
+  console.log(`Queued ${queued} ${all ? '' : 'unindexed '}transcriptions`);
+
+  const { indexed, failed } = await processTranscriptionIndexQueue();
+  const counts = await TranscriptionIndexJobPg.counts(MAX_INDEX_ATTEMPTS);
+  console.log(`Indexed ${indexed} transcriptions; ${failed} attempts failed`);
+  console.log(`${counts.waiting} transcriptions are waiting to be retried and ${counts.failed} have no attempts left`);
+
+  return counts.waiting === 0 && counts.failed === 0;
+}
+
+// Run the main function if this script is executed directly
+if (require.main === module) {
+  main()
+    .then((complete) => {
+      console.log(complete ? 'Indexing completed' : 'Indexing left transcriptions unindexed');
+      process.exit(complete ? 0 : 1);
+    })
+    .catch((error) => {
+      console.error('Indexing failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,22 @@
+/**
+ * Path alias registration for scripts
+ *
+ * Scripts that reuse the app's modules import this first, so the "@/" imports
+ * in those modules resolve to src/ as they do in the Next.js build.
+ */
+
+import Module from 'module';
+import path from 'path';
+
+const SRC_DIR = path.join(__dirname, '..');
+
+// Node's resolver is internal, so it is not part of the module typings
+const moduleWithResolver = Module as unknown as {
+  _resolveFilename: (request: string, ...rest: unknown[]) => string;
+};
+const resolveFilename = moduleWithResolver._resolveFilename;
+
+moduleWithResolver._resolveFilename = function (request: string, ...rest: unknown[]): string {
+  const aliased = request.startsWith('@/') ? path.join(SRC_DIR, request.slice(2)) : request;
+  return resolveFilename.call(this, aliased, ...rest);
+};
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import { TranscriptionPg } from '@/models/postgres/Transcription';
+import { PgTranscriptionArtifact, TranscriptionArtifactPg } from '@/models/postgres/TranscriptionArtifact';
+import { saveArtifact } from '@/services/artifacts';
+import { redactText, shouldRedact } from '@/services/redaction';
+
+jest.mock('@/models/postgres/Transcription', () => ({ TranscriptionPg: { findById: jest.fn() } }));
+jest.mock('@/models/postgres/TranscriptionArtifact', () => ({
+  TranscriptionArtifactPg: { findVersions: jest.fn(), create: jest.fn() }
+}));
+jest.mock('@/services/redaction', () => ({
+  shouldRedact: jest.fn(),
+  redactText: jest.fn(),
+  redactValue: jest.fn(),
+  reidentifyText: jest.fn(),
+  reidentifyValue: jest.fn()
+}));
+
+const create = TranscriptionArtifactPg.create as jest.Mock;
+
+function version(overrides: Partial<PgTranscriptionArtifact>): PgTranscriptionArtifact {
+  return {
+    id: 10,
+    transcription_id: 1,
+    artifact_type: 'SOAP',
+    version: 1,
+    content: 'S: Cough',
+    model: 'gpt-4',
+    prompt_version: 'format.soap@1',
+    created_at: new Date(),
+    ...overrides
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (TranscriptionPg.findById as jest.Mock).mockResolvedValue({ id: 1, text: 'Transcript', user_type: 'Other' });
+  (TranscriptionArtifactPg.findVersions as jest.Mock).mockResolvedValue([]);
+  (shouldRedact as jest.Mock).mockReturnValue(false);
+  create.mockImplementation(async artifact => version({ ...artifact, id: 11, version: 2 }));
+});
+
+describe('saveArtifact', () => {
+  const artifact = {
+    transcriptionId: 1,
+    type: 'SOAP',
+    content: 'S: Cough',
+    model: 'gpt-4',
+    promptVersion: 'format.soap@1',
+    createdBy: 'user-1'
+  };
+
+  it('returns null when the transcription does not exist', async () => {
+    (TranscriptionPg.findById as jest.Mock).mockResolvedValue(null);
+
+    expect(await saveArtifact(artifact)).toBeNull();
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('returns the latest version instead of saving the same output again', async () => {
+    const latest = version({});
+    (TranscriptionArtifactPg.findVersions as jest.Mock).mockResolvedValue([latest]);
+
+    expect(await saveArtifact(artifact)).toBe(latest);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('saves a new version when the output, model or prompt changed', async () => {
+    (TranscriptionArtifactPg.findVersions as jest.Mock).mockResolvedValue([version({})]);
+
+    await saveArtifact({ ...artifact, content: 'S: Cough and fever' });
+    await saveArtifact({ ...artifact, model: 'gpt-4o' });
+    await saveArtifact({ ...artifact, promptVersion: 'format.soap@2' });
+
+    expect(create).toHaveBeenCalledTimes(3);
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      transcription_id: 1,
+      artifact_type: 'SOAP',
+      content: 'S: Cough and fever',
+      created_by: 'user-1'
+    }));
+  });
+
+  it('stores artifacts of redacted transcriptions redacted', async () => {
+    (shouldRedact as jest.Mock).mockReturnValue(true);
+    (redactText as jest.Mock).mockResolvedValue('S: [NAME_0123456789] has a cough');
+
+    await saveArtifact({ ...artifact, content: 'S: Jane Doe has a cough' });
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ content: 'S: [NAME_0123456789] has a cough' }));
+  });
+});
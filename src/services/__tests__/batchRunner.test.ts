@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import { createTranscription } from '@/lib/db';
+import { PgTranscriptionJob, TranscriptionJobPg } from '@/models/postgres/TranscriptionJob';
+import { getStorage } from '@/services/storage';
+import { processTranscriptionJobQueue } from '@/services/batch/runner';
+
+jest.mock('@/lib/db', () => ({ createTranscription: jest.fn() }));
+jest.mock('@/models/postgres/TranscriptionJob', () => ({
+  TranscriptionJobPg: { claimNext: jest.fn(), failAbandoned: jest.fn(), updateStatus: jest.fn(async () => null) }
+}));
+jest.mock('@/models/postgres/VocabularyTerm', () => ({
+  VocabularyTermPg: { findForContext: jest.fn(async () => []) }
+}));
+jest.mock('next-auth/jwt', () => ({ getToken: jest.fn() }));
+jest.mock('@/services/storage', () => ({ getStorage: jest.fn() }));
+jest.mock('@/services/transcriptionIndex', () => ({
+  enqueueTranscriptionIndexing: jest.fn(),
+  processTranscriptionIndexQueue: jest.fn(async () => ({ indexed: 1, failed: 0 }))
+}));
+
+const claimNext = TranscriptionJobPg.claimNext as jest.Mock;
+
+function job(id: number, audioKey = `uploads/${id}.wav`): PgTranscriptionJob {
+  return {
+    id,
+    status: 'processing',
+    provider: 'local',
+    content_type: 'audio/wav',
+    size: 4,
+    audio_key: audioKey,
+    options: { userType: 'Lecture' },
+    attempts: 1,
+    created_at: new Date(),
+    updated_at: new Date()
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  (TranscriptionJobPg.failAbandoned as jest.Mock).mockResolvedValue(0);
+  (getStorage as jest.Mock).mockReturnValue({
+    read: async (key: string) => (key.includes('missing') ? null : { data: Buffer.from('RIFF'), contentType: 'audio/wav' })
+  });
+  (createTranscription as jest.Mock).mockImplementation(async () => ({ id: 10 }));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('processTranscriptionJobQueue', () => {
+  it('transcribes each claimed job and records its transcription', async () => {
+    const jobs = [job(1), job(2)];
+    claimNext.mockImplementation(async () => jobs.shift() || null);
+
+    const result = await processTranscriptionJobQueue();
+
+    expect(result).toEqual({ completed: 2, failed: 0 });
+    expect(TranscriptionJobPg.updateStatus).toHaveBeenCalledWith(1, 'completed', { transcription_id: 10 });
+    expect(TranscriptionJobPg.updateStatus).toHaveBeenCalledWith(2, 'completed', { transcription_id: 10 });
+  });
+
+  it('records a failed job and carries on with the next', async () => {
+    const jobs = [job(1, 'uploads/missing.wav'), job(2)];
+    claimNext.mockImplementation(async () => jobs.shift() || null);
+
+    const result = await processTranscriptionJobQueue();
+
+    expect(result).toEqual({ completed: 1, failed: 1 });
+    expect(TranscriptionJobPg.updateStatus).toHaveBeenCalledWith(1, 'failed', {
+      error: 'Uploaded audio is missing from storage'
+    });
+  });
+
+  it('gives up on jobs abandoned part-way too often before claiming others', async () => {
+    claimNext.mockResolvedValue(null);
+    (TranscriptionJobPg.failAbandoned as jest.Mock).mockResolvedValue(2);
+
+    const result = await processTranscriptionJobQueue();
+
+    expect(result).toEqual({ completed: 0, failed: 2 });
+    expect(TranscriptionJobPg.failAbandoned).toHaveBeenCalledWith(3, 'Transcription stopped before it finished');
+  });
+});
@@ -0,0 +1,132 @@
+import { TranscriptionService } from '../deepgramService';
+import type { SpeechProviderHandlers, SpeechToTextProvider } from '../speech';
+
+// Provider whose connections open on the next tick while it is reachable
+class FakeProvider implements SpeechToTextProvider {
+  readonly name = 'fake';
+  readonly capturesAudio = false;
+  reachable = true;
+  sent: string[] = [];
+  handlers: SpeechProviderHandlers | null = null;
+
+  async initialize(): Promise<void> {}
+
+  async connect(_options: unknown, handlers: SpeechProviderHandlers): Promise<void> {
+    this.handlers = handlers;
+    setTimeout(() => (this.reachable ? handlers.onOpen() : handlers.onClose()), 0);
+  }
+
+  sendAudio(chunk: ArrayBuffer): void {
+    this.sent.push(Array.from(new Uint8Array(chunk), code => String.fromCharCode(code)).join(''));
+  }
+
+  // Drop the connection, as when the network goes away
+  drop(): void {
+    this.handlers?.onClose();
+  }
+
+  close = jest.fn(() => {
+    setTimeout(() => this.handlers?.onClose(), 0);
+  });
+}
+
+// Media recorder that hands over chunks when told to, and its last one on stop
+class FakeMediaRecorder {
+  static current: FakeMediaRecorder;
+  state = 'inactive';
+  mimeType = 'audio/webm';
+  ondataavailable: ((event: { data: unknown }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor() {
+    FakeMediaRecorder.current = this;
+  }
+
+  start(): void {
+    this.state = 'recording';
+  }
+
+  stop(): void {
+    this.state = 'inactive';
+    this.emit('last');
+    setTimeout(() => this.onstop?.(), 0);
+  }
+
+  emit(text: string): void {
+    const data = Uint8Array.from(text, char => char.charCodeAt(0)).buffer;
+    this.ondataavailable?.({ data: { size: data.byteLength, arrayBuffer: async () => data } });
+  }
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+beforeAll(() => {
+  Object.defineProperty(global, 'MediaRecorder', { value: FakeMediaRecorder, configurable: true });
+  Object.defineProperty(global.navigator, 'mediaDevices', {
+    value: { getUserMedia: async () => ({ getTracks: () => [] }) },
+    configurable: true
+  });
+});
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+async function startRecording(provider: FakeProvider): Promise<TranscriptionService> {
+  const service = new TranscriptionService(provider);
+  await service.initialize();
+  await service.startRecording();
+  await tick();
+  return service;
+}
+
+describe('TranscriptionService.stopRecording', () => {
+  it('sends audio buffered while offline before closing the connection', async () => {
+    const provider = new FakeProvider();
+    const service = await startRecording(provider);
+
+    FakeMediaRecorder.current.emit('first');
+    await tick();
+    provider.drop();
+    FakeMediaRecorder.current.emit('offline');
+    await tick();
+
+    await service.stopRecording();
+
+    // The header chunk is sent again to the new connection
+    expect(provider.sent).toEqual(['first', 'first', 'offline', 'last']);
+    expect(provider.close).toHaveBeenCalled();
+  });
+
+  it('reports buffered audio it could not send', async () => {
+    jest.useFakeTimers();
+    try {
+      const provider = new FakeProvider();
+      const onError = jest.fn();
+      const service = new TranscriptionService(provider);
+      service.onError(onError);
+      await service.initialize();
+      await service.startRecording();
+      await jest.advanceTimersByTimeAsync(0);
+
+      provider.reachable = false;
+      provider.drop();
+      FakeMediaRecorder.current.emit('offline');
+      const stopped = service.stopRecording();
+      await jest.advanceTimersByTimeAsync(20000);
+      await stopped;
+
+      expect(provider.sent).toEqual([]);
+      expect(onError).toHaveBeenCalledWith(
+        new Error('Audio recorded while offline could not be transcribed. It is kept in the saved recording.')
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
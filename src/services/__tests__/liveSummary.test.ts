@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import { LiveSummarySessionPg, PgLiveSummarySession } from '@/models/postgres/LiveSummarySession';
+import { getLlm } from '@/services/llm';
+import {
+  appendTranscriptDelta,
+  LiveSummaryEvent,
+  subscribeToLiveSummary,
+  toViewerLiveSummary
+} from '@/services/liveSummary';
+import { reidentifyValue } from '@/services/redaction';
+
+jest.mock('@/models/postgres/LiveSummarySession', () => ({
+  LiveSummarySessionPg: { findById: jest.fn(), saveUpdate: jest.fn() }
+}));
+jest.mock('@/services/llm', () => ({ getLlm: jest.fn() }));
+jest.mock('@/services/redaction', () => ({ reidentifyValue: jest.fn() }));
+
+const SESSION_ID = '6f1c2a4e-3b5d-4c7e-8f90-a1b2c3d4e5f6';
+const json = jest.fn();
+const findById = LiveSummarySessionPg.findById as jest.Mock;
+const saveUpdate = LiveSummarySessionPg.saveUpdate as jest.Mock;
+
+function session(overrides: Partial<PgLiveSummarySession> = {}): PgLiveSummarySession {
+  return {
+    id: SESSION_ID,
+    owner_id: 'user-1',
+    summary: '',
+    topics: [],
+    key_points: [],
+    updates: 0,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides
+  };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  (getLlm as jest.Mock).mockReturnValue({ json });
+  findById.mockResolvedValue(session());
+  saveUpdate.mockImplementation(async (id, updates, content) => session({ ...content, updates: updates + 1 }));
+  json.mockImplementation(async (messages, validate) => ({
+    result: validate({ summary: 'Cells divide by mitosis.', topics: ['Mitosis'], keyPoints: ['Cells divide.'] }),
+    model: 'gpt-3.5-turbo-0125',
+    provider: 'openai'
+  }));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('appendTranscriptDelta', () => {
+  it('summarizes with the registry prompt and records its version and the model', async () => {
+    const summary = await appendTranscriptDelta(SESSION_ID, 'Today we cover mitosis.', { userType: 'School Lecture' });
+
+    const [messages] = json.mock.calls[0];
+    expect(messages[0].content).toContain('running summary of a School Lecture lecture');
+    expect(messages[1].content).toContain('Newest transcript:\nToday we cover mitosis.');
+    expect(saveUpdate).toHaveBeenCalledWith(SESSION_ID, 0, {
+      summary: 'Cells divide by mitosis.',
+      topics: ['Mitosis'],
+      key_points: ['Cells divide.'],
+      model: 'gpt-3.5-turbo-0125',
+      prompt_version: 'summary.live@1'
+    });
+    expect(summary).toMatchObject({ updates: 1, model: 'gpt-3.5-turbo-0125', promptVersion: 'summary.live@1' });
+  });
+
+  it('starts over from the stored summary when another server updated it first', async () => {
+    findById
+      .mockResolvedValueOnce(session())
+      .mockResolvedValueOnce(session({ summary: 'Cells divide.', updates: 1 }));
+    saveUpdate.mockResolvedValueOnce(null);
+
+    const summary = await appendTranscriptDelta(SESSION_ID, 'Mitosis has four phases.');
+
+    expect(json).toHaveBeenCalledTimes(2);
+    expect(json.mock.calls[1][0][1].content).toContain('Summary so far:\nCells divide.');
+    expect(saveUpdate).toHaveBeenLastCalledWith(SESSION_ID, 1, expect.anything());
+    expect(summary.updates).toBe(2);
+  });
+
+  it('keeps the opening sentence as a key point when the model fails', async () => {
+    json.mockRejectedValue(new Error('Service unavailable'));
+
+    const summary = await appendTranscriptDelta(SESSION_ID, 'Mitosis has four phases. The first is prophase.');
+
+    expect(summary.keyPoints).toEqual(['Mitosis has four phases.']);
+  });
+
+  it('rejects deltas for unknown sessions', async () => {
+    findById.mockResolvedValue(null);
+
+    await expect(appendTranscriptDelta(SESSION_ID, 'Hello.')).rejects.toThrow(`Live summary session ${SESSION_ID} not found`);
+  });
+});
+
+describe('subscribeToLiveSummary', () => {
+  it('tells subscribers of each update made on this server', async () => {
+    const events: LiveSummaryEvent[] = [];
+    const unsubscribe = subscribeToLiveSummary(
+      { sessionId: SESSION_ID, summary: '', topics: [], keyPoints: [], updates: 0, updatedAt: '' },
+      event => events.push(event)
+    );
+
+    await appendTranscriptDelta(SESSION_ID, 'Today we cover mitosis.');
+    unsubscribe();
+    await appendTranscriptDelta(SESSION_ID, 'Mitosis has four phases.');
+
+    expect(events.map(event => [event.type, event.summary.updates])).toEqual([['update', 1]]);
+  });
+});
+
+describe('toViewerLiveSummary', () => {
+  const stored = {
+    sessionId: SESSION_ID,
+    summary: '[NAME_0123456789] explained mitosis.',
+    topics: ['Mitosis'],
+    keyPoints: [],
+    updates: 1,
+    updatedAt: ''
+  };
+
+  it('restores redacted details for authorized viewers only', async () => {
+    (reidentifyValue as jest.Mock).mockImplementation(async value => ({ ...value, summary: 'Dr Smith explained mitosis.' }));
+
+    expect((await toViewerLiveSummary(stored, true)).summary).toBe('Dr Smith explained mitosis.');
+    expect(await toViewerLiveSummary(stored, false)).toBe(stored);
+  });
+});
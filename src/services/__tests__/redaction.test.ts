@@ -0,0 +1,150 @@
+/**
+ * @jest-environment node
+ */
+import type { PgRedactionToken } from '@/models/postgres/RedactionToken';
+
+// Stored tokens, standing in for the redaction_tokens table
+const storedTokens = new Map<string, PgRedactionToken>();
+
+jest.mock('@/models/postgres/RedactionToken', () => ({
+  RedactionTokenPg: {
+    findByTokens: async (tokens: string[]) =>
+      tokens.map(token => storedTokens.get(token)).filter(Boolean),
+    saveMany: async (tokens: Pick<PgRedactionToken, 'token' | 'entity_type' | 'encrypted_value'>[]) => {
+      tokens.forEach(token => {
+        if (!storedTokens.has(token.token)) {
+          storedTokens.set(token.token, { id: storedTokens.size + 1, created_at: new Date(), ...token });
+        }
+      });
+    }
+  }
+}));
+
+jest.mock('@/models/postgres/Transcription', () => ({
+  TranscriptionPg: {
+    findById: async (id: number) => (id === 404 ? null : { id, user_type: id === 1 ? 'General Practitioner' : 'Lecture' })
+  }
+}));
+
+jest.mock('next-auth/jwt', () => ({ getToken: jest.fn() }));
+
+process.env.REDACTION_ENCRYPTION_KEY = 'test-key';
+
+import {
+  canReidentify,
+  createStreamReidentifier,
+  redactText,
+  redactTranscriptContent,
+  reidentifyText,
+  reidentifyValue,
+  shouldRedactRequest
+} from '@/services/redaction';
+import type { RequestUser } from '@/utils/requestUser';
+
+const TEXT = 'Mrs Jane Doe, phone 07700 900123, email jane.doe@example.com, lives at 12 Oak Street.';
+
+describe('redactText', () => {
+  it('replaces personal details with tokens and stores them encrypted', async () => {
+    const redacted = await redactText(TEXT);
+
+    expect(redacted).not.toMatch(/Jane|Doe|07700|example\.com|Oak Street/);
+    expect(redacted).toMatch(/^Mrs \[NAME_[0-9A-F]{10}\], phone \[PHONE_[0-9A-F]{10}\], email \[EMAIL_[0-9A-F]{10}\]/);
+    expect(redacted).toMatch(/lives at \[ADDRESS_[0-9A-F]{10}\]/);
+    Array.from(storedTokens.values()).forEach(token => {
+      expect(token.encrypted_value).not.toContain('Jane');
+    });
+  });
+
+  it('gives the same detail the same token every time', async () => {
+    const first = await redactText('Dr Alice Smith will see you.');
+    const second = await redactText('Ask for Dr Alice Smith.');
+
+    expect(first.match(/\[NAME_\w+\]/)![0]).toBe(second.match(/\[NAME_\w+\]/)![0]);
+  });
+
+  it('leaves text without personal details as it is', async () => {
+    expect(await redactText('The patient reports a mild headache.')).toBe('The patient reports a mild headache.');
+  });
+});
+
+describe('reidentification', () => {
+  it('restores the details behind the tokens', async () => {
+    expect(await reidentifyText(await redactText(TEXT))).toBe(TEXT);
+  });
+
+  it('restores every string within a value', async () => {
+    const redacted = await redactText('Mr Tom Jones');
+    const value = await reidentifyValue({ sections: [{ heading: 'Subjective', content: `${redacted} has a cough` }] });
+
+    expect(value.sections[0].content).toBe('Mr Tom Jones has a cough');
+  });
+
+  it('holds back a token split across streamed pieces', async () => {
+    const redacted = await redactText('Hello Mr Tom Jones, welcome.');
+    const pieces: string[] = [];
+    const reidentifier = createStreamReidentifier(text => pieces.push(text));
+
+    for (let i = 0; i < redacted.length; i += 7) {
+      reidentifier.push(redacted.slice(i, i + 7));
+    }
+    await reidentifier.flush();
+
+    expect(pieces.join('')).toBe('Hello Mr Tom Jones, welcome.');
+    expect(pieces.some(piece => piece.includes('[NAME'))).toBe(false);
+  });
+
+  it('redacts the recognised words along with the text', async () => {
+    const words = 'My name is Sam Taylor'.split(' ').map((text, index) => ({ text, start: index, end: index + 1, confidence: 1 }));
+    const content = await redactTranscriptContent({ text: 'My name is Sam Taylor', words });
+
+    expect(content.text).not.toContain('Sam');
+    expect(content.words!.map(word => word.text).join(' ')).not.toContain('Taylor');
+  });
+});
+
+describe('canReidentify', () => {
+  const user = (userId: string, authenticated: boolean): RequestUser => ({
+    userId,
+    authenticated,
+    browserId: null,
+    rateLimitKey: userId,
+    ipAddress: null,
+    userAgent: null
+  });
+
+  beforeEach(() => {
+    process.env.REDACTION_AUTHORIZED_USERS = 'clinician-1, ip:10.0.0.1';
+  });
+
+  it('allows signed-in users on the list', () => {
+    expect(canReidentify(user('clinician-1', true))).toBe(true);
+    expect(canReidentify(user('clinician-2', true))).toBe(false);
+  });
+
+  it('never allows callers without a session, whatever their id', () => {
+    expect(canReidentify(user('clinician-1', false))).toBe(false);
+    expect(canReidentify(user('ip:10.0.0.1', false))).toBe(false);
+  });
+});
+
+describe('shouldRedactRequest', () => {
+  afterEach(() => {
+    delete process.env.REDACTION_USER_TYPES;
+  });
+
+  it('follows the user type saved with the transcription', async () => {
+    process.env.REDACTION_USER_TYPES = 'General Practitioner';
+
+    expect(await shouldRedactRequest(1)).toBe(true);
+    expect(await shouldRedactRequest(2)).toBe(false);
+    expect(await shouldRedactRequest(404)).toBeNull();
+  });
+
+  it('redacts text without a transcription whenever redaction is enabled', async () => {
+    process.env.REDACTION_USER_TYPES = 'General Practitioner';
+    expect(await shouldRedactRequest(undefined)).toBe(true);
+
+    process.env.REDACTION_USER_TYPES = '';
+    expect(await shouldRedactRequest(undefined)).toBe(false);
+  });
+});
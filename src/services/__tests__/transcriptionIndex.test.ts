@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+import { TranscriptionPg } from '@/models/postgres/Transcription';
+import { TranscriptionChunkPg } from '@/models/postgres/TranscriptionChunk';
+import { PgTranscriptionIndexJob, TranscriptionIndexJobPg } from '@/models/postgres/TranscriptionIndexJob';
+import { generateEmbedding } from '@/services/embedding';
+import { processTranscriptionIndexQueue } from '@/services/transcriptionIndex';
+
+jest.mock('@/models/postgres/Transcription', () => ({ TranscriptionPg: { findById: jest.fn() } }));
+jest.mock('@/models/postgres/TranscriptionChunk', () => ({
+  TranscriptionChunkPg: { replaceForTranscription: jest.fn() }
+}));
+jest.mock('@/models/postgres/TranscriptionIndexJob', () => ({
+  TranscriptionIndexJobPg: { claimNext: jest.fn(), complete: jest.fn(), fail: jest.fn() }
+}));
+jest.mock('@/services/embedding', () => ({ generateEmbedding: jest.fn() }));
+
+const claimNext = TranscriptionIndexJobPg.claimNext as jest.Mock;
+
+function job(transcriptionId: number): PgTranscriptionIndexJob {
+  return { transcription_id: transcriptionId, generation: 1, attempts: 1, queued_at: new Date(), updated_at: new Date() };
+}
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  (TranscriptionPg.findById as jest.Mock).mockImplementation(async (id: number) => ({ id, text: `Transcription ${id}.` }));
+  (generateEmbedding as jest.Mock).mockResolvedValue([0.1, 0.2]);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('processTranscriptionIndexQueue', () => {
+  it('indexes each queued transcription and removes its job', async () => {
+    const jobs = [job(1), job(2)];
+    claimNext.mockImplementation(async () => jobs.shift() || null);
+
+    const result = await processTranscriptionIndexQueue();
+
+    expect(result).toEqual({ indexed: 2, failed: 0 });
+    expect(TranscriptionChunkPg.replaceForTranscription).toHaveBeenCalledWith(1, [
+      { content: 'Transcription 1.', embedding: [0.1, 0.2] }
+    ]);
+    expect(TranscriptionIndexJobPg.complete).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps a failed job for a later retry and keeps the previous chunks', async () => {
+    const jobs = [job(1)];
+    claimNext.mockImplementation(async () => jobs.shift() || null);
+    (generateEmbedding as jest.Mock).mockResolvedValue([0, 0]);
+
+    const result = await processTranscriptionIndexQueue();
+
+    expect(result).toEqual({ indexed: 0, failed: 1 });
+    expect(TranscriptionChunkPg.replaceForTranscription).not.toHaveBeenCalled();
+    expect(TranscriptionIndexJobPg.complete).not.toHaveBeenCalled();
+    expect(TranscriptionIndexJobPg.fail).toHaveBeenCalledWith(
+      expect.objectContaining({ transcription_id: 1 }),
+      'The embedding provider returned no embedding',
+      expect.any(Number)
+    );
+  });
+
+  it('joins a run in progress and checks the queue again before finishing', async () => {
+    const jobs = [job(1)];
+    let release: () => void = () => {};
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    (TranscriptionPg.findById as jest.Mock).mockImplementationOnce(async (id: number) => {
+      await blocked;
+      return { id, text: 'First.' };
+    });
+    claimNext.mockImplementation(async () => jobs.shift() || null);
+
+    const first = processTranscriptionIndexQueue();
+    await new Promise(resolve => setImmediate(resolve));
+    // Queued while the first transcription is being indexed
+    jobs.push(job(2));
+    const second = processTranscriptionIndexQueue();
+    release();
+
+    expect(second).toBe(first);
+    expect(await first).toEqual({ indexed: 2, failed: 0 });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Saving and reading versioned artifacts generated from transcriptions.
+ * Artifacts of redacted transcriptions are stored redacted like the
+ * transcription itself.
+ */
+import { TranscriptionPg } from "@/models/postgres/Transcription";
+import { PgTranscriptionArtifact, TranscriptionArtifactPg } from "@/models/postgres/TranscriptionArtifact";
+import { redactText, redactValue, reidentifyText, reidentifyValue, shouldRedact } from "@/services/redaction";
+import type { ArtifactData } from "@/types/artifact";
+import { getArtifactText } from "@/utils/artifacts";
+
+export interface NewArtifact {
+  transcriptionId: number;
+  type: string;
+  content: string;
+  data?: ArtifactData | null;
+  model?: string | null;
+  promptVersion?: string | null;
+  createdBy?: string | null;
+}
+
+/**
+ * Save an artifact as the next version of its type. When it matches the
+ * latest version nothing is added and that version is returned.
+ * @param artifact The generated output
+ * @returns The saved version, or null when the transcription does not exist
+ */
+export async function saveArtifact(artifact: NewArtifact): Promise<PgTranscriptionArtifact | null> {
+  const transcription = await TranscriptionPg.findById(artifact.transcriptionId);
+
+  if (!transcription) {
+    return null;
+  }
+
+  let { content, data } = artifact;
+  if (shouldRedact(transcription.user_type)) {
+    content = await redactText(content);
+    data = data && (await redactValue(data));
+  }
+
+  const [latest] = await TranscriptionArtifactPg.findVersions(artifact.transcriptionId, artifact.type);
+  if (
+    latest &&
+    getArtifactText(latest) === getArtifactText({ artifact_type: artifact.type, content, data }) &&
+    (latest.model ?? null) === (artifact.model ?? null) &&
+    (latest.prompt_version ?? null) === (artifact.promptVersion ?? null)
+  ) {
+    return latest;
+  }
+
+  return TranscriptionArtifactPg.create({
+    transcription_id: artifact.transcriptionId,
+    artifact_type: artifact.type,
+    content,
+    data,
+    model: artifact.model,
+    prompt_version: artifact.promptVersion,
+    created_by: artifact.createdBy,
+  });
+}
+
+/**
+ * Restore redacted details in artifacts for authorized viewers
+ * @param artifacts Saved artifact versions
+ * @param reidentify Whether the viewer may see redacted details
+ * @returns The artifacts to return to the viewer
+ */
+export async function toViewerArtifacts(
+  artifacts: PgTranscriptionArtifact[],
+  reidentify: boolean
+): Promise<PgTranscriptionArtifact[]> {
+  if (!reidentify) {
+    return artifacts;
+  }
+
+  return Promise.all(
+    artifacts.map(async (artifact) => ({
+      ...artifact,
+      content: await reidentifyText(artifact.content),
+      data: artifact.data && (await reidentifyValue(artifact.data)),
+    }))
+  );
+}
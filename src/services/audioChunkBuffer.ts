@@ -0,0 +1,121 @@
+/**
+ * Ordered buffer for audio captured while the speech provider is unreachable.
+ * Chunks are kept in IndexedDB so a long outage does not grow the page's
+ * memory, with an in-memory fallback where IndexedDB is unavailable.
+ */
+
+export interface BufferedChunk {
+  data: ArrayBuffer;
+  // Milliseconds since the recording started
+  offsetMs: number;
+}
+
+const DB_NAME = "im-listening-audio";
+const STORE_NAME = "chunks";
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export class AudioChunkBuffer {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private memory: BufferedChunk[] = [];
+
+  /**
+   * Add a chunk to the end of the buffer
+   */
+  async append(chunk: BufferedChunk): Promise<void> {
+    const db = await this.open();
+
+    if (!db) {
+      this.memory.push(chunk);
+      return;
+    }
+
+    const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+    await promisify(store.add(chunk));
+  }
+
+  /**
+   * Remove and return the oldest chunk, or null when the buffer is empty
+   */
+  async shift(): Promise<BufferedChunk | null> {
+    const db = await this.open();
+
+    if (!db) {
+      return this.memory.shift() || null;
+    }
+
+    const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+    const cursor = await promisify(store.openCursor());
+
+    if (!cursor) {
+      return null;
+    }
+
+    const chunk = cursor.value as BufferedChunk;
+    await promisify(cursor.delete());
+    return chunk;
+  }
+
+  /**
+   * Count the buffered chunks
+   */
+  async size(): Promise<number> {
+    const db = await this.open();
+
+    if (!db) {
+      return this.memory.length;
+    }
+
+    const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+    return promisify(store.count());
+  }
+
+  /**
+   * Discard every buffered chunk
+   */
+  async clear(): Promise<void> {
+    this.memory = [];
+    const db = await this.open();
+
+    if (db) {
+      const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+      await promisify(store.clear());
+    }
+  }
+
+  /**
+   * Open the database once, falling back to memory if that fails
+   */
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise((resolve) => {
+        if (typeof indexedDB === "undefined") {
+          resolve(null);
+          return;
+        }
+
+        const request = indexedDB.open(DB_NAME, 1);
+
+        request.onupgradeneeded = () => {
+          // Auto-incrementing keys keep chunks in capture order
+          request.result.createObjectStore(STORE_NAME, { autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn("IndexedDB unavailable, buffering audio in memory:", request.error);
+          resolve(null);
+        };
+      });
+    }
+
+    return this.db;
+  }
+}
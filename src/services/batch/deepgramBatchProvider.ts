@@ -0,0 +1,57 @@
+/**
+ * DeepGram pre-recorded transcription provider (server-side only)
+ */
+import { createClient } from "@deepgram/sdk";
+import {
+  BatchTranscriptionOptions,
+  BatchTranscriptionProvider,
+  BatchTranscriptionResult,
+} from "./types";
+import { AUTO_DETECT_LANGUAGE } from "@/utils/language";
+
+export class DeepgramBatchProvider implements BatchTranscriptionProvider {
+  readonly name = "deepgram";
+
+  /**
+   * Send the file to DeepGram and wait for the transcript
+   */
+  async transcribe(
+    audio: Buffer,
+    options: BatchTranscriptionOptions
+  ): Promise<BatchTranscriptionResult> {
+    const apiKey = process.env.DEEPGRAM_API_KEY;
+
+    if (!apiKey) {
+      throw new Error("DeepGram API key not configured");
+    }
+
+    const detectLanguage = !options.language || options.language === AUTO_DETECT_LANGUAGE;
+    const deepgram = createClient(apiKey);
+    const { result, error } = await deepgram.listen.prerecorded.transcribeFile(audio, {
+      model: "nova-2",
+      punctuate: true,
+      smart_format: true,
+      diarize: options.diarize,
+      ...(detectLanguage
+        ? { detect_language: true }
+        : { language: options.language }),
+      keywords: options.keywords,
+      mimetype: options.contentType,
+    });
+
+    if (error || !result) {
+      throw new Error(`DeepGram transcription failed: ${error?.message || "no result"}`);
+    }
+
+    const channel = result.results.channels[0];
+    const alternative = channel?.alternatives[0];
+
+    return {
+      transcript: alternative?.transcript || "",
+      confidence: alternative?.confidence || 0,
+      words: alternative?.words || [],
+      duration: result.metadata.duration,
+      detectedLanguage: channel?.detected_language,
+    };
+  }
+}
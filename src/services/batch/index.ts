@@ -0,0 +1,27 @@
+/**
+ * Batch transcription provider selection (server-side only)
+ */
+import { DeepgramBatchProvider } from "./deepgramBatchProvider";
+import { LocalBatchProvider } from "./localBatchProvider";
+import { BatchTranscriptionProvider } from "./types";
+
+export * from "./types";
+export { DeepgramBatchProvider } from "./deepgramBatchProvider";
+export { LocalBatchProvider } from "./localBatchProvider";
+
+/**
+ * Create the provider named by BATCH_TRANSCRIPTION_PROVIDER (defaults to DeepGram)
+ */
+export function createBatchProvider(
+  name: string = process.env.BATCH_TRANSCRIPTION_PROVIDER || "deepgram"
+): BatchTranscriptionProvider {
+  switch (name) {
+    case "local":
+      return new LocalBatchProvider(process.env.LOCAL_BATCH_TRANSCRIPT || undefined);
+    case "deepgram":
+      return new DeepgramBatchProvider();
+    default:
+      console.warn(`Unknown batch transcription provider "${name}", using DeepGram`);
+      return new DeepgramBatchProvider();
+  }
+}
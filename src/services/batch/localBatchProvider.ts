@@ -0,0 +1,56 @@
+/**
+ * Offline batch provider that returns a fixed transcript instead of
+ * recognising speech. Used for tests and development without DeepGram.
+ */
+import { scriptFromText } from "../speech/localProvider";
+import {
+  BatchTranscriptionOptions,
+  BatchTranscriptionProvider,
+  BatchTranscriptionResult,
+} from "./types";
+import { AUTO_DETECT_LANGUAGE } from "@/utils/language";
+
+const DEFAULT_TRANSCRIPT =
+  "This is a locally generated transcript. Configure a batch transcription provider to recognise uploaded audio.";
+
+export class LocalBatchProvider implements BatchTranscriptionProvider {
+  readonly name = "local";
+
+  private transcript: string;
+
+  constructor(transcript: string = DEFAULT_TRANSCRIPT) {
+    this.transcript = transcript;
+  }
+
+  /**
+   * Return the configured transcript with evenly timed words
+   */
+  async transcribe(
+    audio: Buffer,
+    options: BatchTranscriptionOptions
+  ): Promise<BatchTranscriptionResult> {
+    const words = scriptFromText(this.transcript).flatMap((segment) => {
+      const tokens = segment.transcript.split(/\s+/);
+      const step = (segment.end - segment.start) / tokens.length;
+
+      return tokens.map((word, index) => ({
+        word,
+        start: segment.start + index * step,
+        end: segment.start + (index + 1) * step,
+        confidence: 1,
+        ...(options.diarize && { speaker: 0 }),
+      }));
+    });
+
+    return {
+      transcript: this.transcript,
+      confidence: 1,
+      words,
+      duration: words.length > 0 ? words[words.length - 1].end : 0,
+      detectedLanguage:
+        options.language && options.language !== AUTO_DETECT_LANGUAGE
+          ? options.language
+          : undefined,
+    };
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Runs batch transcription jobs in the background. Jobs are kept in Postgres
+ * and claimed one at a time, so a job left pending or processing by a process
+ * that stopped part-way is picked up again; it is given up after
+ * MAX_JOB_ATTEMPTS starts. The queue is worked through after the response
+ * that created a job, and when an unfinished job is looked up.
+ */
+import { createTranscription } from "@/lib/db";
+import { PgTranscriptionJob, TranscriptionJobPg } from "@/models/postgres/TranscriptionJob";
+import { VocabularyTermPg } from "@/models/postgres/VocabularyTerm";
+import { redactTranscription, shouldRedact } from "@/services/redaction";
+import { getStorage } from "@/services/storage";
+import { enqueueTranscriptionIndexing, processTranscriptionIndexQueue } from "@/services/transcriptionIndex";
+import type { AudioMetadata } from "@/types/transcript";
+import { buildSegments, hasSpeakerInfo, toTranscriptWords } from "@/utils/diarization";
+import { AUTO_DETECT_LANGUAGE } from "@/utils/language";
+import {
+  applySubstitutions,
+  applyWordSubstitutions,
+  resolveVocabulary,
+  toKeywordOptions,
+} from "@/utils/vocabulary";
+import { createBatchProvider } from "./index";
+
+export const MAX_JOB_ATTEMPTS = 3;
+// Long enough to transcribe a long lecture; a worker that stops part-way releases the job after this
+const LOCK_SECONDS = 60 * 30;
+
+export interface JobQueueResult {
+  completed: number;
+  failed: number;
+}
+
+let running: Promise<JobQueueResult> | null = null;
+let requested = false;
+
+/**
+ * Run pending jobs, and jobs abandoned part-way, one at a time until none is
+ * left. Only one run works through the queue in each process; calls during a
+ * run join it, and it checks the queue again before finishing.
+ * @returns How many jobs completed and how many failed
+ */
+export function processTranscriptionJobQueue(): Promise<JobQueueResult> {
+  requested = true;
+
+  if (!running) {
+    running = drainQueue().finally(() => {
+      running = null;
+    });
+  }
+
+  return running;
+}
+
+async function drainQueue(): Promise<JobQueueResult> {
+  const result: JobQueueResult = { completed: 0, failed: 0 };
+
+  while (requested) {
+    requested = false;
+    result.failed += await TranscriptionJobPg.failAbandoned(
+      MAX_JOB_ATTEMPTS,
+      "Transcription stopped before it finished"
+    );
+
+    for (
+      let job = await TranscriptionJobPg.claimNext(MAX_JOB_ATTEMPTS, LOCK_SECONDS);
+      job;
+      job = await TranscriptionJobPg.claimNext(MAX_JOB_ATTEMPTS, LOCK_SECONDS)
+    ) {
+      if (await runTranscriptionJob(job)) {
+        result.completed++;
+      } else {
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Transcribe a claimed job's audio and save the result as a transcription.
+ * Failures are recorded on the job rather than thrown.
+ * @returns Whether the job completed
+ */
+export async function runTranscriptionJob(job: PgTranscriptionJob): Promise<boolean> {
+  const jobId = job.id;
+
+  try {
+    const stored = await getStorage().read(job.audio_key);
+
+    if (!stored) {
+      throw new Error("Uploaded audio is missing from storage");
+    }
+
+    const options = job.options || {};
+    const vocabulary = resolveVocabulary(
+      await VocabularyTermPg.findForContext(options.userType || null, job.user_id || null)
+    );
+    const provider = createBatchProvider(job.provider);
+    const rawResult = await provider.transcribe(stored.data, {
+      contentType: job.content_type,
+      language: options.language,
+      diarize: options.diarize,
+      keywords: toKeywordOptions(vocabulary),
+    });
+    const result = {
+      ...rawResult,
+      transcript: applySubstitutions(rawResult.transcript, vocabulary.substitutions),
+      words: applyWordSubstitutions(rawResult.words, vocabulary.substitutions),
+    };
+
+    if (!result.transcript.trim()) {
+      throw new Error("No speech was recognised in the uploaded audio");
+    }
+
+    // Prefer what the provider heard over what was selected
+    const language = result.detectedLanguage ||
+      (options.language !== AUTO_DETECT_LANGUAGE ? options.language : undefined);
+
+    const audio: AudioMetadata = {
+      key: job.audio_key,
+      contentType: job.content_type,
+      size: job.size,
+      uploadedAt: new Date(job.created_at).toISOString(),
+    };
+
+    const userType = options.userType || "Other";
+    const content = {
+      text: result.transcript,
+      metadata: {
+        source: "upload",
+        provider: provider.name,
+        fileName: job.file_name,
+        jobId,
+        userType: options.userType,
+        purpose: options.purpose,
+        duration: result.duration,
+        ...(language && { language }),
+        words: toTranscriptWords(result.words),
+        ...(hasSpeakerInfo(result.words) && {
+          diarization: { segments: buildSegments(result.words), speakerNames: {} },
+        }),
+        audio,
+      },
+    };
+
+    const transcription = await createTranscription({
+      ...(shouldRedact(userType) ? await redactTranscription(content) : content),
+      user_id: job.user_id,
+      user_type: userType,
+      purpose: options.purpose || "general",
+    });
+
+    if (!transcription) {
+      throw new Error("Failed to save transcription");
+    }
+
+    await TranscriptionJobPg.updateStatus(jobId, "completed", {
+      transcription_id: transcription.id,
+    });
+    await enqueueTranscriptionIndexing(transcription.id);
+    processTranscriptionIndexQueue().catch((error) => {
+      console.error(`Failed to index the transcription of job ${jobId}:`, error);
+    });
+    return true;
+  } catch (error) {
+    console.error(`Transcription job ${jobId} failed:`, error);
+    await TranscriptionJobPg.updateStatus(jobId, "failed", {
+      error: (error as Error).message,
+    }).catch((updateError) => {
+      console.error(`Failed to record failure of job ${jobId}:`, updateError);
+    });
+    return false;
+  }
+}
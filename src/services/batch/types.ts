@@ -0,0 +1,31 @@
+/**
+ * Shared types for batch (pre-recorded) transcription providers
+ */
+import type { TranscriptionWord } from "../speech/types";
+
+export interface BatchTranscriptionOptions {
+  // Language code, or "auto" (or omitted) to detect the language
+  language?: string;
+  diarize?: boolean;
+  // Terms to favour during recognition, in "term:boost" form
+  keywords?: string[];
+  // MIME type of the uploaded audio
+  contentType: string;
+}
+
+export interface BatchTranscriptionResult {
+  transcript: string;
+  confidence: number;
+  words: TranscriptionWord[];
+  // Length of the audio in seconds, when known
+  duration?: number;
+  detectedLanguage?: string;
+}
+
+/**
+ * A speech-to-text engine that transcribes a complete audio file in one request
+ */
+export interface BatchTranscriptionProvider {
+  readonly name: string;
+  transcribe(audio: Buffer, options: BatchTranscriptionOptions): Promise<BatchTranscriptionResult>;
+}
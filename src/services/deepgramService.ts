@@ -1,27 +1,70 @@
 /**
- * Service for handling DeepGram live transcription using the official SDK
+ * Service for handling live transcription through a pluggable speech-to-text
+ * provider (DeepGram by default)
  */
-import { createClient, LiveTranscriptionEvents } from "@deepgram/sdk";
-
-interface TranscriptionResult {
-  transcript: string;
-  isFinal: boolean;
-  confidence: number;
-  words: Array<{
-    word: string;
-    start: number;
-    end: number;
-    confidence: number;
-  }>;
+import {
+  createSpeechProvider,
+  SpeechToTextProvider,
+  TranscriptionOptions,
+  TranscriptionResult,
+  TranscriptionStatus,
+} from "./speech";
+import { AudioChunkBuffer } from "./audioChunkBuffer";
+
+export type { TranscriptionResult, TranscriptionStatus } from "./speech";
+
+const MAX_RECONNECT_ATTEMPTS = 8;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// Longest a stop waits for audio buffered while offline to reach the provider
+const FLUSH_TIMEOUT_MS = 15000;
+// Longest a stop waits for the provider's last results
+const CLOSE_TIMEOUT_MS = 5000;
+
+/**
+ * Move word timings from connection time to recording time
+ */
+function shiftResult(result: TranscriptionResult, offset: number): TranscriptionResult {
+  if (offset === 0) return result;
+
+  return {
+    ...result,
+    words: result.words.map((word) => ({
+      ...word,
+      start: word.start + offset,
+      end: word.end + offset,
+    })),
+  };
 }
 
-class DeepgramService {
-  private deepgram: ReturnType<typeof createClient> | null = null;
-  private connection: any = null;
+export class TranscriptionService {
+  private provider: SpeechToTextProvider;
+  private initialized = false;
   private mediaRecorder: MediaRecorder | null = null;
   private stream: MediaStream | null = null;
-  private apiKey: string | null = null;
-  private options: any = {
+  private audioChunks: Blob[] = [];
+  private audioType = "";
+  private recorderStopped: Promise<void> = Promise.resolve();
+  // Reconnect state
+  private audioBuffer = new AudioChunkBuffer();
+  private chunkQueue: Promise<void> = Promise.resolve();
+  private headerChunk: ArrayBuffer | null = null;
+  private recordingStartedAt = 0;
+  // Pause state; paused time is excluded from recording offsets
+  private paused = false;
+  private pausedAt = 0;
+  private pausedMs = 0;
+  private active = false;
+  private live = false;
+  private connected = false;
+  // Stopping: capture has ended but buffered audio is still being sent
+  private stopping = false;
+  private onCaughtUp: (() => void) | null = null;
+  private onClosed: (() => void) | null = null;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private onlineListener: (() => void) | null = null;
+  private options: TranscriptionOptions = {
     language: "en-US",
     punctuate: true,
     smart_format: true,
@@ -31,41 +74,42 @@ class DeepgramService {
     | null = null;
   private onErrorCallback: ((error: Error) => void) | null = null;
   private onStatusChangeCallback:
-    | ((
-        status:
-          | "connecting"
-          | "connected"
-          | "disconnected"
-          | "recording"
-          | "error"
-      ) => void)
+    | ((status: TranscriptionStatus) => void)
     | null = null;
 
+  constructor(provider: SpeechToTextProvider) {
+    this.provider = provider;
+  }
+
   /**
-   * Initialize the DeepGram service with configuration
+   * Replace the speech-to-text provider. Any active recording is stopped
+   * and the service must be initialized again.
    */
-  async initialize(): Promise<boolean> {
-    try {
-      // In a production app, we would fetch a token from the server
-      // For now, we'll use the API key directly in the client for demo purposes
-      this.apiKey = process.env.NEXT_PUBLIC_DEEPGRAM_API_KEY || "";
+  setProvider(provider: SpeechToTextProvider): void {
+    if (provider === this.provider) return;
 
-      if (!this.apiKey) {
-        // Try to fetch from our API
-        const response = await fetch("/api/transcription/socket");
-        const data = await response.json();
-
-        if (!data.configured) {
-          throw new Error("DeepGram is not properly configured");
-        }
-      }
+    this.endRecording();
+    this.provider = provider;
+    this.initialized = false;
+  }
 
-      // Initialize the DeepGram client
-      this.deepgram = createClient(this.apiKey);
+  /**
+   * Get the current speech-to-text provider
+   */
+  getProvider(): SpeechToTextProvider {
+    return this.provider;
+  }
 
+  /**
+   * Initialize the provider
+   */
+  async initialize(): Promise<boolean> {
+    try {
+      await this.provider.initialize();
+      this.initialized = true;
       return true;
     } catch (error) {
-      console.error("Failed to initialize DeepGram service:", error);
+      console.error(`Failed to initialize ${this.provider.name} provider:`, error);
       this.handleError(error as Error);
       return false;
     }
@@ -74,7 +118,7 @@ class DeepgramService {
   /**
    * Set options for transcription
    */
-  setOptions(options: any): void {
+  setOptions(options: TranscriptionOptions): void {
     this.options = { ...this.options, ...options };
   }
 
@@ -95,16 +139,7 @@ class DeepgramService {
   /**
    * Set callback for status changes
    */
-  onStatusChange(
-    callback: (
-      status:
-        | "connecting"
-        | "connected"
-        | "disconnected"
-        | "recording"
-        | "error"
-    ) => void
-  ): void {
+  onStatusChange(callback: (status: TranscriptionStatus) => void): void {
     this.onStatusChangeCallback = callback;
   }
 
@@ -112,100 +147,413 @@ class DeepgramService {
    * Start recording and transcribing
    */
   async startRecording(): Promise<void> {
-    if (!this.deepgram) {
-      throw new Error("DeepGram service not initialized");
+    if (!this.initialized) {
+      throw new Error("Transcription service not initialized");
     }
 
+    // Discard audio kept from the previous recording
+    this.audioChunks = [];
+    this.recorderStopped = Promise.resolve();
+    this.headerChunk = null;
+    this.reconnectAttempt = 0;
+    this.paused = false;
+    this.pausedMs = 0;
+    await this.audioBuffer.clear();
+
     try {
-      // Request microphone access
-      this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // Request microphone access unless the provider brings its own audio
+      if (!this.provider.capturesAudio) {
+        this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      }
+      this.active = true;
       this.updateStatus("connecting");
 
-      // Create a live transcription connection
-      const connection = this.deepgram.listen.live(this.options);
-      this.connection = connection;
+      await this.connectProvider();
+    } catch (error) {
+      console.error("Error starting recording:", error);
+      this.active = false;
+      this.handleError(error as Error);
+    }
+  }
 
-      // Set up event handlers
-      connection.on(LiveTranscriptionEvents.Open, () => {
-        this.updateStatus("connected");
-        this.startMediaRecorder();
-      });
+  /**
+   * Stop recording and transcribing. Audio captured while the provider was
+   * unreachable is sent to it first, and its last results are waited for, so
+   * the transcript is complete once this resolves.
+   */
+  async stopRecording(): Promise<void> {
+    if (this.stopping) return;
+
+    if (this.active && this.mediaRecorder) {
+      this.stopping = true;
+      this.paused = false;
+      this.stopMediaRecorder();
+
+      try {
+        await this.flushBuffer();
+      } catch (error) {
+        console.error("Error sending buffered audio:", error);
+        this.handleError(
+          new Error("Audio recorded while offline could not be transcribed. It is kept in the saved recording.")
+        );
+      } finally {
+        this.stopping = false;
+      }
+    }
 
-      connection.on(LiveTranscriptionEvents.Close, () => {
-        this.updateStatus("disconnected");
-        this.stopMediaRecorder();
-      });
+    const closed = this.waitForClose();
+    this.endRecording();
+    await closed;
+  }
 
-      connection.on(LiveTranscriptionEvents.Error, (error) => {
-        console.error("DeepGram error:", error);
-        this.handleError(new Error("DeepGram connection error"));
+  /**
+   * End the recording straight away, discarding audio that never reached the provider
+   */
+  private endRecording(): void {
+    this.active = false;
+    this.live = false;
+    this.paused = false;
+    this.cancelReconnect();
+    this.stopMediaRecorder();
+    this.provider.close();
+    this.updateStatus("disconnected");
+
+    // It is still part of the saved recording
+    this.audioBuffer.clear().catch((error) => {
+      console.error("Error clearing audio buffer:", error);
+    });
+  }
+
+  /**
+   * Send the audio buffered while the provider was unreachable, reconnecting
+   * straight away when it is not connected
+   * @throws When the audio could not be sent within FLUSH_TIMEOUT_MS
+   */
+  private async flushBuffer(): Promise<void> {
+    // The recorder hands over its last chunk as it stops; a replay in progress finishes first
+    await this.recorderStopped;
+    await this.chunkQueue;
+
+    if (this.live || (await this.audioBuffer.size()) === 0) return;
+
+    this.updateStatus("catching-up");
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        this.onCaughtUp = resolve;
+        timer = setTimeout(
+          () => reject(new Error(`Not reconnected within ${FLUSH_TIMEOUT_MS} ms`)),
+          FLUSH_TIMEOUT_MS
+        );
+
+        // Don't wait out the backoff of a pending reconnect
+        this.onlineListener?.();
       });
+    } finally {
+      clearTimeout(timer);
+      this.onCaughtUp = null;
+    }
+  }
+
+  /**
+   * Resolve once the open connection closes, or after CLOSE_TIMEOUT_MS
+   */
+  private waitForClose(): Promise<void> {
+    if (!this.connected) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.onClosed = null;
+        resolve();
+      };
+      const timer = setTimeout(done, CLOSE_TIMEOUT_MS);
+      this.onClosed = done;
+    });
+  }
+
+  /**
+   * Pause capture without closing the connection. The media recorder is
+   * paused too, so the saved audio has no gap where the pause was.
+   */
+  pauseRecording(): void {
+    if (!this.active || this.paused) return;
+
+    this.paused = true;
+    this.pausedAt = Date.now();
+
+    if (this.mediaRecorder && this.mediaRecorder.state === "recording") {
+      this.mediaRecorder.pause();
+    }
+    if (this.provider.pause) {
+      this.provider.pause();
+    }
+    this.updateStatus("paused");
+  }
+
+  /**
+   * Resume capture after pauseRecording
+   */
+  resumeRecording(): void {
+    if (!this.active || !this.paused) return;
+
+    this.paused = false;
+    this.pausedMs += Date.now() - this.pausedAt;
+
+    if (this.provider.resume) {
+      this.provider.resume();
+    }
+    if (this.mediaRecorder && this.mediaRecorder.state === "paused") {
+      this.mediaRecorder.resume();
+    }
+    this.updateStatus(this.live ? "recording" : "reconnecting");
+  }
+
+  /**
+   * Whether capture is currently paused
+   */
+  get isPaused(): boolean {
+    return this.paused;
+  }
 
-      connection.on(LiveTranscriptionEvents.Transcript, (data) => {
-        try {
-          const channel = data.channel;
-          const alternatives = channel.alternatives;
-
-          if (alternatives && alternatives.length > 0) {
-            const transcript = alternatives[0].transcript;
-
-            if (transcript) {
-              const result: TranscriptionResult = {
-                transcript,
-                isFinal: data.is_final,
-                confidence: alternatives[0].confidence || 0,
-                words: alternatives[0].words || [],
-              };
-
-              if (this.onTranscriptionCallback) {
-                this.onTranscriptionCallback(result);
-              }
-            }
+  /**
+   * Milliseconds of recording so far, excluding paused time
+   */
+  private elapsedMs(): number {
+    const pausedNow = this.paused ? Date.now() - this.pausedAt : 0;
+    return Date.now() - this.recordingStartedAt - this.pausedMs - pausedNow;
+  }
+
+  /**
+   * Open a provider connection. While recording from the microphone, an
+   * unexpected close schedules a reconnect and audio is buffered meanwhile.
+   */
+  private async connectProvider(): Promise<void> {
+    // Seconds between the start of the recording and this connection's first audio
+    let timeOffset = 0;
+
+    await this.provider.connect(this.options, {
+      onOpen: () => {
+        this.connected = true;
+        this.updateStatus("connected");
+
+        // A connection opened during a pause must stay idle
+        if (this.paused && this.provider.pause) {
+          this.provider.pause();
+        }
+
+        if (!this.mediaRecorder && !this.stopping) {
+          this.startMediaRecorder();
+          this.live = true;
+          return;
+        }
+
+        // Reconnected: send what was captured while offline before going live
+        this.reconnectAttempt = 0;
+        this.updateStatus("catching-up");
+        this.enqueue(async () => {
+          timeOffset = await this.replayBuffer();
+          this.live = true;
+          if (this.active && !this.stopping) {
+            this.updateStatus(this.paused ? "paused" : "recording");
           }
-        } catch (error) {
-          console.error("Error parsing DeepGram transcript:", error);
+          this.onCaughtUp?.();
+        });
+      },
+      onClose: () => {
+        this.connected = false;
+        this.live = false;
+        this.onClosed?.();
+
+        if (this.canReconnect()) {
+          this.scheduleReconnect();
+          return;
+        }
+
+        this.updateStatus("disconnected");
+        this.stopMediaRecorder();
+      },
+      onError: (error) => {
+        // A close follows, which triggers the reconnect
+        if (this.canReconnect()) {
+          console.warn(`${this.provider.name} connection error, will reconnect:`, error);
+          return;
+        }
+        this.handleError(error);
+      },
+      onTranscript: (result) => {
+        if (this.onTranscriptionCallback) {
+          this.onTranscriptionCallback(shiftResult(result, timeOffset));
         }
+      },
+    });
+  }
+
+  /**
+   * Whether a lost connection should be reopened: while recording from the
+   * microphone, or while stopping with buffered audio still to send
+   */
+  private canReconnect(): boolean {
+    return this.active && (!!this.mediaRecorder || this.stopping);
+  }
+
+  /**
+   * Try to reconnect after a growing delay, giving up after MAX_RECONNECT_ATTEMPTS
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return;
+
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.active = false;
+      this.stopMediaRecorder();
+      this.handleError(
+        new Error("Lost connection to the transcription service. The recording has been stopped.")
+      );
+      return;
+    }
+
+    // Exponential backoff with jitter so many clients do not retry in lockstep
+    const delay =
+      Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt, RECONNECT_MAX_DELAY_MS) *
+      (0.75 + Math.random() * 0.5);
+    this.reconnectAttempt++;
+    this.updateStatus("reconnecting");
+
+    const attempt = () => {
+      this.cancelReconnect();
+      if (!this.active) return;
+
+      this.connectProvider().catch((error) => {
+        console.error("Reconnect attempt failed:", error);
+        this.scheduleReconnect();
       });
-    } catch (error) {
-      console.error("Error starting recording:", error);
-      this.handleError(error as Error);
+    };
+
+    this.reconnectTimer = setTimeout(attempt, delay);
+
+    // Don't wait out the backoff once the browser is back online
+    this.onlineListener = attempt;
+    window.addEventListener("online", attempt);
+  }
+
+  /**
+   * Cancel a pending reconnect attempt
+   */
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.onlineListener) {
+      window.removeEventListener("online", this.onlineListener);
+      this.onlineListener = null;
     }
   }
 
   /**
-   * Stop recording and transcribing
+   * Send buffered audio to a freshly opened connection
+   * @returns Seconds into the recording at which the replayed audio starts
    */
-  stopRecording(): void {
-    this.stopMediaRecorder();
+  private async replayBuffer(): Promise<number> {
+    let offsetMs = this.elapsedMs();
 
-    if (this.connection) {
-      this.connection.finish();
-      this.connection = null;
+    // The new connection needs the container header from the first chunk
+    if (this.headerChunk) {
+      this.provider.sendAudio(this.headerChunk);
     }
 
-    this.updateStatus("disconnected");
+    let chunk = await this.audioBuffer.shift();
+    if (chunk) {
+      offsetMs = chunk.offsetMs;
+    }
+
+    while (chunk && this.active) {
+      this.deliver(chunk.data);
+      chunk = await this.audioBuffer.shift();
+    }
+
+    return offsetMs / 1000;
+  }
+
+  /**
+   * Send a chunk live, or buffer it while the provider is unreachable
+   */
+  private async handleChunk(data: ArrayBuffer, offsetMs: number): Promise<void> {
+    if (this.live) {
+      this.deliver(data);
+      return;
+    }
+
+    if (this.active) {
+      await this.audioBuffer.append({ data, offsetMs });
+    }
+  }
+
+  /**
+   * Send a chunk to the provider, remembering the first one as the header
+   */
+  private deliver(data: ArrayBuffer): void {
+    if (!this.headerChunk) {
+      this.headerChunk = data;
+    }
+    this.provider.sendAudio(data);
+  }
+
+  /**
+   * Run audio work in capture order
+   */
+  private enqueue(task: () => Promise<void>): void {
+    this.chunkQueue = this.chunkQueue.then(task).catch((error) => {
+      console.error("Error handling audio chunk:", error);
+    });
+  }
+
+  /**
+   * Get the audio captured from the microphone during the last recording.
+   * Waits for the media recorder to flush its final chunk.
+   */
+  async getRecordedAudio(): Promise<Blob | null> {
+    await this.recorderStopped;
+
+    if (this.audioChunks.length === 0) {
+      return null;
+    }
+
+    return new Blob(this.audioChunks, { type: this.audioType || "audio/webm" });
   }
 
   /**
    * Start the media recorder
    */
   private startMediaRecorder(): void {
-    if (!this.stream || !this.connection) return;
+    if (this.provider.capturesAudio) {
+      this.updateStatus("recording");
+      return;
+    }
+
+    if (!this.stream) return;
 
     // Create a MediaRecorder to capture audio
-    this.mediaRecorder = new MediaRecorder(this.stream);
+    const mediaRecorder = new MediaRecorder(this.stream);
+    this.mediaRecorder = mediaRecorder;
+    this.audioChunks = [];
+    this.audioType = mediaRecorder.mimeType;
+    this.recorderStopped = new Promise((resolve) => {
+      mediaRecorder.onstop = () => resolve();
+    });
 
     this.mediaRecorder.ondataavailable = (event) => {
-      if (event.data.size > 0 && this.connection) {
-        // Convert the audio data to the format DeepGram expects
-        event.data.arrayBuffer().then((buffer) => {
-          if (this.connection) {
-            this.connection.send(buffer);
-          }
-        });
+      if (event.data.size > 0) {
+        // Keep a copy so the recording can be stored with the transcript
+        this.audioChunks.push(event.data);
+        const offsetMs = this.elapsedMs();
+        const data = event.data.arrayBuffer();
+        this.enqueue(async () => this.handleChunk(await data, offsetMs));
       }
     };
 
+    this.recordingStartedAt = Date.now();
     this.mediaRecorder.start(100); // Collect data every 100ms
     this.updateStatus("recording");
   }
@@ -216,8 +564,8 @@ class DeepgramService {
   private stopMediaRecorder(): void {
     if (this.mediaRecorder && this.mediaRecorder.state !== "inactive") {
       this.mediaRecorder.stop();
-      this.mediaRecorder = null;
     }
+    this.mediaRecorder = null;
 
     if (this.stream) {
       this.stream.getTracks().forEach((track) => track.stop());
@@ -239,14 +587,12 @@ class DeepgramService {
   /**
    * Update status and trigger callback
    */
-  private updateStatus(
-    status: "connecting" | "connected" | "disconnected" | "recording" | "error"
-  ): void {
+  private updateStatus(status: TranscriptionStatus): void {
     if (this.onStatusChangeCallback) {
       this.onStatusChangeCallback(status);
     }
   }
 }
 
-// Export a singleton instance
-export const deepgramService = new DeepgramService();
+// Export a singleton instance using the configured provider
+export const deepgramService = new TranscriptionService(createSpeechProvider());
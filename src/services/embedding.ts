@@ -1,9 +1,4 @@
-import { OpenAI } from 'openai';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+import { getLlm, LOCAL_EMBEDDING_DIMENSIONS } from '@/services/llm';
 
 /**
  * Generate embeddings for a given text
@@ -12,16 +7,11 @@ const openai = new OpenAI({
  */
 export async function generateEmbedding(text: string): Promise<number[]> {
   try {
-    // Use OpenAI to generate embeddings
-    const response = await openai.embeddings.create({
-      model: "text-embedding-ada-002",
-      input: text
-    });
-    
-    return response.data[0].embedding;
+    const [embedding] = await getLlm().embed([text]);
+    return embedding;
   } catch (error) {
     console.error('Error generating embeddings:', error);
     // Return a zero vector as fallback in case of error
-    return Array(1536).fill(0);
+    return Array(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
   }
 }
@@ -0,0 +1,61 @@
+/**
+ * @jest-environment node
+ */
+import { inflateRawSync } from 'zlib';
+import { renderDocx } from '../docx';
+
+/**
+ * Read the entries of a ZIP archive from its central directory
+ */
+function readZip(zip: Buffer): Map<string, string> {
+  const end = zip.length - 22;
+  const entries = new Map<string, string>();
+  let position = zip.readUInt32LE(end + 16);
+
+  for (let index = 0; index < zip.readUInt16LE(end + 10); index++) {
+    const compressedSize = zip.readUInt32LE(position + 20);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const localOffset = zip.readUInt32LE(position + 42);
+    const name = zip.subarray(position + 46, position + 46 + nameLength).toString('utf8');
+    const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+
+    entries.set(name, inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize)).toString('utf8'));
+    position += 46 + nameLength;
+  }
+
+  return entries;
+}
+
+describe('renderDocx', () => {
+  const entries = readZip(renderDocx({
+    title: 'Review <draft> & notes',
+    details: ['Dr. Müller – 東京'],
+    blocks: [
+      { type: 'heading', text: 'Plan', level: 2 },
+      { type: 'bullet', text: 'Amoxicillin 500 mg\tthree times daily' },
+      { type: 'paragraph', text: 'Said "no" to A&E\u0007' }
+    ]
+  }));
+  const document = entries.get('word/document.xml') || '';
+
+  it('contains the parts Word needs to open the file', () => {
+    expect(Array.from(entries.keys())).toEqual(['[Content_Types].xml', '_rels/.rels', 'word/document.xml']);
+    expect(entries.get('[Content_Types].xml')).toContain('PartName="/word/document.xml"');
+    expect(entries.get('_rels/.rels')).toContain('Target="word/document.xml"');
+    expect(document).toMatch(/^<\?xml version="1.0" encoding="UTF-8" standalone="yes"\?>\n<w:document /);
+  });
+
+  it('escapes markup characters and drops control characters', () => {
+    expect(document).toContain('Review &lt;draft&gt; &amp; notes');
+    expect(document).toContain('Said &quot;no&quot; to A&amp;E</w:t>');
+    expect(document).not.toContain('\u0007');
+  });
+
+  it('keeps text outside Latin-1 as UTF-8', () => {
+    expect(document).toContain('Dr. Müller – 東京');
+  });
+
+  it('writes tabs as tab elements', () => {
+    expect(document).toContain('Amoxicillin 500 mg</w:t><w:tab/><w:t xml:space="preserve">three times daily');
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * @jest-environment node
+ */
+import type { ExportDocument } from '@/types/export';
+import { renderPdf } from '../pdf';
+
+const DOCUMENT: ExportDocument = {
+  title: 'Review (draft) \\ notes',
+  details: ['Dr. Müller – 東京'],
+  blocks: [
+    { type: 'heading', text: 'Plan', level: 2 },
+    { type: 'bullet', text: 'Amoxicillin 500 mg three times daily' },
+    ...Array.from({ length: 120 }, (_, index) => ({ type: 'paragraph' as const, text: `Paragraph ${index + 1}.` }))
+  ]
+};
+
+describe('renderPdf', () => {
+  const pdf = renderPdf(DOCUMENT).toString('latin1');
+
+  it('points each cross-reference entry at its object', () => {
+    const startxref = parseInt(pdf.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+    expect(pdf.startsWith('xref\n', startxref)).toBe(true);
+
+    const [, first, count] = pdf.slice(startxref).match(/^xref\n(\d+) (\d+)\n/)!.map(Number);
+    const entries = pdf.slice(startxref).split('\n').slice(2, 2 + count);
+    expect(first).toBe(0);
+    expect(entries[0]).toBe('0000000000 65535 f ');
+    expect(pdf).toContain(`trailer\n<< /Size ${count} /Root 1 0 R >>`);
+
+    entries.slice(1).forEach((entry, index) => {
+      expect(entry).toMatch(/^\d{10} 00000 n $/);
+      expect(pdf.startsWith(`${index + 1} 0 obj\n`, parseInt(entry.slice(0, 10)))).toBe(true);
+    });
+  });
+
+  it('gives every content stream its length in bytes', () => {
+    const streams = Array.from(pdf.matchAll(/<< \/Length (\d+) >>\nstream\n/g));
+    expect(streams.length).toBeGreaterThan(1);
+
+    streams.forEach(match => {
+      const start = match.index! + match[0].length;
+      expect(pdf.slice(start + parseInt(match[1]), start + parseInt(match[1]) + 10)).toBe('\nendstream');
+    });
+  });
+
+  it('lists every page in the page tree', () => {
+    const pages = pdf.match(/\/Type \/Page /g) || [];
+    const count = parseInt(pdf.match(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/)![1]);
+
+    expect(count).toBe(pages.length);
+    expect(count).toBeGreaterThan(1);
+  });
+
+  it('escapes string delimiters and encodes text as WinAnsi', () => {
+    expect(pdf).toContain('(Review \\(draft\\) \\\\ notes) Tj');
+    // ü is Latin-1, the dash has a WinAnsi code and the CJK characters cannot be shown
+    expect(pdf).toContain('(Dr. M\xfcller \x96 ??) Tj');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @jest-environment node
+ */
+import { inflateRawSync } from 'zlib';
+import { createZip } from '../zip';
+
+/**
+ * Bitwise CRC-32, independent of the table the writer uses
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+describe('createZip', () => {
+  const entries = [
+    { name: 'first.txt', data: 'Hello, world' },
+    { name: 'dir/second.bin', data: Buffer.from([0, 1, 2, 255, 254]) },
+    { name: 'ünïcode.txt', data: 'Zürich – 東京' }
+  ];
+  const zip = createZip(entries);
+
+  it('matches the standard CRC-32 check value', () => {
+    const archive = createZip([{ name: 'check.txt', data: '123456789' }]);
+
+    expect(archive.readUInt32LE(14)).toBe(0xcbf43926);
+  });
+
+  it('describes every entry in a central directory that matches the local headers', () => {
+    const end = zip.length - 22;
+    expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+    expect(zip.readUInt16LE(end + 10)).toBe(entries.length);
+
+    const directorySize = zip.readUInt32LE(end + 12);
+    const directoryOffset = zip.readUInt32LE(end + 16);
+    expect(directoryOffset + directorySize).toBe(end);
+
+    let position = directoryOffset;
+    entries.forEach(entry => {
+      const data = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data, 'utf8');
+      expect(zip.readUInt32LE(position)).toBe(0x02014b50);
+
+      const crc = zip.readUInt32LE(position + 16);
+      const compressedSize = zip.readUInt32LE(position + 20);
+      const size = zip.readUInt32LE(position + 24);
+      const nameLength = zip.readUInt16LE(position + 28);
+      const localOffset = zip.readUInt32LE(position + 42);
+      const name = zip.subarray(position + 46, position + 46 + nameLength).toString('utf8');
+
+      expect(name).toBe(entry.name);
+      expect(crc).toBe(crc32(data));
+      expect(size).toBe(data.length);
+
+      // The local header repeats the sizes and CRC, followed by the data
+      expect(zip.readUInt32LE(localOffset)).toBe(0x04034b50);
+      expect(zip.readUInt32LE(localOffset + 14)).toBe(crc);
+      expect(zip.readUInt32LE(localOffset + 18)).toBe(compressedSize);
+      expect(zip.readUInt32LE(localOffset + 22)).toBe(size);
+
+      const dataStart = localOffset + 30 + zip.readUInt16LE(localOffset + 26) + zip.readUInt16LE(localOffset + 28);
+      expect(inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize))).toEqual(data);
+
+      position += 46 + nameLength;
+    });
+
+    expect(position).toBe(end);
+  });
+});
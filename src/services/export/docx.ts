@@ -0,0 +1,87 @@
+/**
+ * Word (.docx) rendering of export documents
+ */
+import type { ExportBlock, ExportDocument } from "@/types/export";
+import { createZip } from "./zip";
+
+// Font sizes in half-points
+const HEADING_SIZES = [36, 28, 24, 22, 22, 22];
+const TITLE_SIZE = 40;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+</Types>`;
+
+const ROOT_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+function escapeXml(text: string): string {
+  // Control characters other than tab and line breaks are not allowed in XML
+  return Array.from(text)
+    .filter((char) => char >= " " || char === "\t" || char === "\n" || char === "\r")
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function paragraph(text: string, options: { bold?: boolean; italic?: boolean; size?: number; bullet?: boolean } = {}): string {
+  const paragraphProperties = [
+    options.bullet ? '<w:ind w:left="360" w:hanging="360"/>' : "",
+    `<w:spacing w:after="${options.size ? 120 : 160}"/>`,
+  ].join("");
+  const runProperties = [
+    options.bold ? "<w:b/>" : "",
+    options.italic ? "<w:i/>" : "",
+    options.size ? `<w:sz w:val="${options.size}"/>` : "",
+  ].join("");
+  const content = (options.bullet ? "•\t" : "") + text;
+
+  const runs = content.split("\n").map((line, index) =>
+    (index > 0 ? "<w:br/>" : "") +
+    line.split("\t").map((part, partIndex) =>
+      (partIndex > 0 ? "<w:tab/>" : "") + `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`
+    ).join("")
+  ).join("");
+
+  return `<w:p><w:pPr>${paragraphProperties}</w:pPr><w:r><w:rPr>${runProperties}</w:rPr>${runs}</w:r></w:p>`;
+}
+
+function renderBlock(block: ExportBlock): string {
+  switch (block.type) {
+    case "heading":
+      return paragraph(block.text, { bold: true, size: HEADING_SIZES[Math.min(5, (block.level || 1) - 1)] });
+    case "bullet":
+      return paragraph(block.text, { bullet: true });
+    default:
+      return paragraph(block.text);
+  }
+}
+
+/**
+ * Render a document as a Word file
+ * @param document The document to render
+ * @returns The .docx file bytes
+ */
+export function renderDocx(document: ExportDocument): Buffer {
+  const body = [
+    paragraph(document.title, { bold: true, size: TITLE_SIZE }),
+    ...document.details.map((detail) => paragraph(detail, { italic: true })),
+    ...document.blocks.map(renderBlock),
+  ].join("");
+
+  const xml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return createZip([
+    { name: "[Content_Types].xml", data: CONTENT_TYPES },
+    { name: "_rels/.rels", data: ROOT_RELATIONSHIPS },
+    { name: "word/document.xml", data: xml },
+  ]);
+}
@@ -0,0 +1,144 @@
+/**
+ * Export of transcriptions and their artifacts to downloadable files
+ */
+import type { PgTranscription } from "@/models/postgres/Transcription";
+import type { PgTranscriptionArtifact } from "@/models/postgres/TranscriptionArtifact";
+import type { SummaryArtifactData } from "@/types/artifact";
+import type { ExportDocument, ExportFormat } from "@/types/export";
+import type { DiarizationMetadata, SectionMarker, TranscriptWord } from "@/types/transcript";
+import { LECTURE_SUMMARY_ARTIFACT } from "@/utils/artifacts";
+import {
+  htmlToMarkdown,
+  parseMarkdownBlocks,
+  renderMarkdown,
+  renderPlainText,
+  summaryBlocks,
+  transcriptBlocks,
+} from "@/utils/exportDocument";
+import { getLanguageName } from "@/utils/language";
+import { buildSubtitleCues, formatSrt, formatVtt } from "@/utils/subtitles";
+import { renderDocx } from "./docx";
+import { renderPdf } from "./pdf";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["pdf", "docx", "md", "txt", "srt", "vtt"];
+
+// Formats that need word timings
+export const SUBTITLE_FORMATS: ExportFormat[] = ["srt", "vtt"];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  md: "text/markdown; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+};
+
+export interface ExportFile {
+  body: Buffer | string;
+  contentType: string;
+}
+
+/**
+ * Check whether a value names a supported export format
+ */
+export function isExportFormat(value: string | null): value is ExportFormat {
+  return EXPORT_FORMATS.includes(value as ExportFormat);
+}
+
+/**
+ * Details shown under the title of every export of a transcription
+ */
+function transcriptionDetails(transcription: PgTranscription): string[] {
+  const language = transcription.metadata?.language;
+  return [
+    `Recorded ${new Date(transcription.created_at).toLocaleString("en-GB")}`,
+    [transcription.user_type, transcription.purpose?.replace(/_/g, " "), language && getLanguageName(language)]
+      .filter(Boolean)
+      .join(" · "),
+  ].filter(Boolean);
+}
+
+/**
+ * Build the document for a transcript
+ * @param transcription The transcription, re-identified if the viewer may see it
+ */
+export function buildTranscriptDocument(transcription: PgTranscription): ExportDocument {
+  const diarization: DiarizationMetadata | undefined = transcription.metadata?.diarization;
+  const sections: SectionMarker[] | undefined = transcription.metadata?.sections;
+
+  return {
+    title: `Transcription #${transcription.id}`,
+    details: transcriptionDetails(transcription),
+    blocks: transcriptBlocks(transcription.text, diarization?.segments, diarization?.speakerNames, sections),
+  };
+}
+
+/**
+ * Build the document for a formatted output or lecture summary
+ * @param transcription The transcription the artifact was generated from
+ * @param artifact The artifact version, re-identified if the viewer may see it
+ */
+export function buildArtifactDocument(
+  transcription: PgTranscription,
+  artifact: PgTranscriptionArtifact
+): ExportDocument {
+  let blocks;
+  if (artifact.artifact_type === LECTURE_SUMMARY_ARTIFACT) {
+    blocks = summaryBlocks(artifact.content, artifact.data as SummaryArtifactData | null | undefined);
+  } else if (artifact.artifact_type === "HTML") {
+    blocks = parseMarkdownBlocks(htmlToMarkdown(artifact.content));
+  } else {
+    blocks = parseMarkdownBlocks(artifact.content);
+  }
+
+  return {
+    title: `${artifact.artifact_type} - Transcription #${transcription.id}`,
+    details: [
+      ...transcriptionDetails(transcription),
+      `Version ${artifact.version}, generated ${new Date(artifact.created_at).toLocaleString("en-GB")}` +
+        (artifact.model ? ` by ${artifact.model}` : ""),
+    ],
+    blocks,
+  };
+}
+
+/**
+ * Render a document to a file
+ * @param document The document to render
+ * @param format A document format; subtitle formats use renderSubtitles
+ */
+export function renderExport(document: ExportDocument, format: Exclude<ExportFormat, "srt" | "vtt">): ExportFile {
+  switch (format) {
+    case "pdf":
+      return { body: renderPdf(document), contentType: CONTENT_TYPES.pdf };
+    case "docx":
+      return { body: renderDocx(document), contentType: CONTENT_TYPES.docx };
+    case "md":
+      return { body: renderMarkdown(document), contentType: CONTENT_TYPES.md };
+    case "txt":
+      return { body: renderPlainText(document), contentType: CONTENT_TYPES.txt };
+  }
+}
+
+/**
+ * Render a transcription's word timings as subtitles
+ * @param transcription The transcription, re-identified if the viewer may see it
+ * @param format "srt" or "vtt"
+ * @returns The file, or null when the transcription has no word timings
+ */
+export function renderSubtitles(transcription: PgTranscription, format: "srt" | "vtt"): ExportFile | null {
+  const words: TranscriptWord[] | undefined = transcription.metadata?.words;
+
+  if (!words || words.length === 0) {
+    return null;
+  }
+
+  const diarization: DiarizationMetadata | undefined = transcription.metadata?.diarization;
+  const cues = buildSubtitleCues(words, diarization?.segments?.length ? diarization.speakerNames || {} : undefined);
+
+  return {
+    body: format === "srt" ? formatSrt(cues) : formatVtt(cues),
+    contentType: CONTENT_TYPES[format],
+  };
+}
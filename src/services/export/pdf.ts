@@ -0,0 +1,231 @@
+/**
+ * PDF rendering of export documents using the standard Helvetica fonts,
+ * so no font files need to be embedded
+ */
+import type { ExportDocument } from "@/types/export";
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const BULLET_INDENT = 14;
+const LINE_SPACING = 1.4;
+const BODY_SIZE = 11;
+const TITLE_SIZE = 20;
+const HEADING_SIZES = [16, 14, 12, 12, 12, 12];
+
+type FontName = "F1" | "F2" | "F3";
+
+const FONTS: Record<FontName, string> = {
+  F1: "Helvetica",
+  F2: "Helvetica-Bold",
+  F3: "Helvetica-Oblique",
+};
+
+// Glyph widths (1/1000 em) of the printable ASCII characters, from space to "~"
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding can still show
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "‰": 0x89,
+  "‹": 0x8b, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96,
+  "—": 0x97, "™": 0x99, "›": 0x9b,
+};
+
+interface Line {
+  text: string;
+  font: FontName;
+  size: number;
+  x: number;
+  // Extra space above the line, in points
+  spaceBefore: number;
+}
+
+/**
+ * Map text to WinAnsi character codes, replacing what the fonts cannot show
+ */
+function toWinAnsi(text: string): string {
+  return Array.from(text.replace(/\s+/g, " "))
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) return char;
+      return WIN_ANSI[char] !== undefined ? String.fromCharCode(WIN_ANSI[char]) : "?";
+    })
+    .join("");
+}
+
+function textWidth(text: string, font: FontName, size: number): number {
+  const widths = font === "F2" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    total += code >= 0x20 && code < 0x7f ? widths[code - 0x20] : 556;
+  }
+  return (total * size) / 1000;
+}
+
+/**
+ * Break text into lines that fit the given width, splitting words that are
+ * longer than a whole line
+ */
+function wrapText(text: string, font: FontName, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of toWinAnsi(text).split(" ").filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (textWidth(candidate, font, size) <= width) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) lines.push(current);
+    current = "";
+    for (const char of word) {
+      if (current && textWidth(current + char, font, size) > width) {
+        lines.push(current);
+        current = "";
+      }
+      current += char;
+    }
+  }
+
+  if (current) lines.push(current);
+  return lines;
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Lay out the document as a flat list of lines
+ */
+function layoutLines(document: ExportDocument): Line[] {
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  const lines: Line[] = [];
+
+  const addText = (text: string, font: FontName, size: number, spaceBefore: number, indent = 0) => {
+    wrapText(text, font, size, contentWidth - indent).forEach((line, index) => {
+      lines.push({ text: line, font, size, x: MARGIN + indent, spaceBefore: index === 0 ? spaceBefore : 0 });
+    });
+  };
+
+  addText(document.title, "F2", TITLE_SIZE, 0);
+  document.details.forEach((detail, index) => addText(detail, "F3", BODY_SIZE - 1, index === 0 ? 4 : 0));
+
+  document.blocks.forEach((block) => {
+    switch (block.type) {
+      case "heading": {
+        const size = HEADING_SIZES[Math.min(5, (block.level || 1) - 1)];
+        addText(block.text, "F2", size, size);
+        break;
+      }
+      case "bullet": {
+        const first = lines.length;
+        addText(block.text, "F1", BODY_SIZE, 2, BULLET_INDENT);
+        if (lines.length > first) {
+          lines.splice(first, 0, { ...lines[first], text: toWinAnsi("•"), x: MARGIN });
+          // The bullet shares the baseline of the first line
+          lines[first + 1] = { ...lines[first + 1], spaceBefore: -1 };
+        }
+        break;
+      }
+      default:
+        addText(block.text, "F1", BODY_SIZE, BODY_SIZE * 0.6);
+    }
+  });
+
+  return lines;
+}
+
+/**
+ * Split lines into pages and write each page's content stream
+ */
+function paginate(lines: Line[]): string[] {
+  const pages: string[] = [];
+  let commands: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+  let lastHeight = 0;
+
+  lines.forEach((line) => {
+    const height = line.size * LINE_SPACING;
+
+    if (line.spaceBefore < 0) {
+      // Same baseline as the previous line
+      y += lastHeight;
+    } else if (y - line.spaceBefore - height < MARGIN && commands.length > 0) {
+      pages.push(commands.join("\n"));
+      commands = [];
+      y = PAGE_HEIGHT - MARGIN;
+    } else if (commands.length > 0) {
+      y -= line.spaceBefore;
+    }
+
+    y -= height;
+    lastHeight = height;
+    commands.push(`BT /${line.font} ${line.size} Tf ${line.x} ${y.toFixed(2)} Td (${escapePdfString(line.text)}) Tj ET`);
+  });
+
+  pages.push(commands.join("\n"));
+  return pages;
+}
+
+/**
+ * Render a document as a PDF file
+ * @param document The document to render
+ * @returns The PDF file bytes
+ */
+export function renderPdf(document: ExportDocument): Buffer {
+  const pages = paginate(layoutLines(document));
+  const fontNames = Object.keys(FONTS) as FontName[];
+  // Objects 1 and 2 are the catalog and page tree, then the fonts, then a
+  // page and its content stream for each page
+  const firstPage = 3 + fontNames.length;
+  const pageIds = pages.map((_, index) => firstPage + index * 2);
+
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    ...fontNames.map((name) => `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS[name]} /Encoding /WinAnsiEncoding >>`),
+  ];
+
+  const fontResources = fontNames.map((name, index) => `/${name} ${3 + index} 0 R`).join(" ");
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Text is already WinAnsi, one byte per character, so offsets are string lengths
+  let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+}
@@ -0,0 +1,460 @@
+/**
+ * Formatting transcriptions: with the configured LLM providers, in segments
+ * for long transcripts, falling back to basic rules when no model succeeds
+ */
+import { getLlm, LlmMessage, LlmResult, mapReduce } from '@/services/llm';
+import type { ClinicalNote, ClinicalNoteFormat } from '@/types/clinicalNote';
+import type { PromptDefinition, RenderedPrompt } from '@/types/prompt';
+import { isClinicalNoteFormat, renderClinicalNote, validateClinicalNote } from '@/utils/clinicalNote';
+import { FORMAT_MERGE_PROMPT_NAME, getFormatMergePrompts, getFormatPromptName, getFormatPrompts, PromptTemplate, renderTemplateSkeleton } from '@/utils/formatPrompts';
+import { selectPrompt } from '@/utils/prompts';
+import { countTokens, getReplyTokens } from '@/utils/tokens';
+
+// Largest transcript segment formatted in one request, small enough for the reply to fit in FORMAT_MAX_TOKENS
+const FORMAT_SEGMENT_TOKENS = 1000;
+const FORMAT_MAX_TOKENS = 1500;
+// Merge instructions and part labels, on top of the format's own prompt
+const MERGE_PROMPT_TOKENS = 200;
+
+// Formatted text, with the structured note for SOAP and Clinical Summary
+export interface FormatResult {
+  formattedText: string;
+  structured?: ClinicalNote;
+}
+
+export interface FormatOptions {
+  // Prompt versions to use; those chosen for the request by default
+  prompt?: PromptDefinition;
+  mergePrompt?: PromptDefinition;
+  // Added to the system prompt, e.g. language and redaction instructions
+  languageInstruction?: string;
+  // The user-defined template for the format, if it is not built in
+  template?: PromptTemplate | null;
+  signal?: AbortSignal;
+  // Called with the text as it is generated
+  onDelta?: (text: string) => void;
+  // Called before a retry or fallback, which starts the text over
+  onReset?: () => Promise<void>;
+}
+
+/**
+ * Format a transcription with the configured LLM providers, or with basic
+ * rules if none succeeds. Gives up rather than falling back once aborted.
+ * @param text The transcription text
+ * @param format Output format name
+ * @param userType The user type the transcription was recorded for
+ * @returns The result and the model that produced it ("basic-rules" for the fallback)
+ */
+export async function formatTranscription(
+  text: string,
+  format: string,
+  userType: string,
+  options: FormatOptions = {}
+): Promise<{ result: FormatResult; model: string }> {
+  const { template = null, signal, onReset } = options;
+  const prompt = options.prompt || selectPrompt(getFormatPromptName(format, template));
+  const mergePrompt = options.mergePrompt || selectPrompt(FORMAT_MERGE_PROMPT_NAME);
+  
+  try {
+    console.log('Attempting to format with the configured LLM providers...');
+    const completion = await formatWithLlm(
+      text, format, userType, prompt, mergePrompt, options.languageInstruction, template, signal, options.onDelta, onReset
+    );
+    console.log(`Formatting with ${completion.provider} successful`);
+    return { result: completion.result, model: completion.model };
+  } catch (error) {
+    console.error('Error with LLM formatting:', error);
+    signal?.throwIfAborted();
+    await onReset?.();
+    console.log('Falling back to basic formatting rules...');
+    return { result: await formatWithBasicRules(text, format, userType, template), model: 'basic-rules' };
+  }
+}
+
+/**
+ * Pick the model requested for formatting a text, using a faster model for shorter texts
+ * @param text The text to format
+ * @returns The model name, which is also part of the format cache key
+ */
+export function selectFormatModel(text: string): string {
+  return text.length < 1000 ? 'gpt-3.5-turbo' : process.env.OPENAI_MODEL || 'gpt-4';
+}
+
+/**
+ * Format text with the configured LLM providers, falling back between them
+ * and retrying transient errors. A reply that fails validation moves on to
+ * the next provider. Long texts are formatted in segments that are then merged.
+ */
+async function formatWithLlm(
+  text: string,
+  format: string,
+  userType: string,
+  prompt: PromptDefinition,
+  mergePrompt: PromptDefinition,
+  languageInstruction: string = '',
+  template: PromptTemplate | null = null,
+  signal?: AbortSignal,
+  onDelta?: (text: string) => void,
+  onReset?: () => Promise<void>
+): Promise<LlmResult<FormatResult>> {
+  const model = selectFormatModel(text);
+  console.log(`Using model: ${model} based on text length: ${text.length}`);
+  
+  // Only the request whose reply is the final output is streamed. Clinical
+  // notes are requested in JSON mode and arrive whole once validated.
+  const request = (prompts: RenderedPrompt, maxTokens: number, final: boolean) => {
+    const messages: LlmMessage[] = [
+      { role: 'system', content: `${prompts.systemPrompt} Be concise.${languageInstruction}` },
+      { role: 'user', content: prompts.userPrompt }
+    ];
+    const settings = {
+      model,
+      temperature: 0.3, // Lower temperature for more deterministic responses
+      maxTokens,
+      ...(final && { onReset }),
+      signal
+    };
+    
+    return isClinicalNoteFormat(format)
+      ? getLlm().json(messages, (value) => toClinicalNoteResult(value, format), settings)
+      : getLlm().complete(messages, {
+        ...settings,
+        parse: (reply): FormatResult => ({ formattedText: reply }),
+        ...(final && { onDelta })
+      });
+  };
+  
+  const { systemPrompt, userPrompt } = getFormatPrompts('', format, userType, template, prompt);
+  const promptTokens = countTokens(systemPrompt + userPrompt + languageInstruction, model);
+  // A merged note may be as long as the model can write; longer ones are merged in rounds
+  const mergeMaxTokens = getReplyTokens(model);
+  const startTime = Date.now();
+  
+  const completion = await mapReduce<LlmResult<FormatResult>>(text, {
+    model,
+    mapReservedTokens: promptTokens + FORMAT_MAX_TOKENS,
+    reduceReservedTokens: promptTokens + MERGE_PROMPT_TOKENS + mergeMaxTokens,
+    maxSegmentTokens: FORMAT_SEGMENT_TOKENS,
+    map: (segment, part, parts) => {
+      if (parts > 1) console.log(`Formatting part ${part} of ${parts}`);
+      return request(getFormatPrompts(segment, format, userType, template, prompt), FORMAT_MAX_TOKENS, parts === 1);
+    },
+    reduce: (results, final) => request(
+      getFormatMergePrompts(results.map(result => result.content), format, userType, template, prompt, mergePrompt),
+      mergeMaxTokens,
+      final
+    ),
+    size: (result) => countTokens(result.content, model),
+    signal
+  });
+  
+  console.log(`LLM response time: ${(Date.now() - startTime) / 1000} seconds`);
+  return completion;
+}
+
+/**
+ * Turn a model's JSON reply into a structured note with its rendered text.
+ * An invalid note throws so the next provider in the chain is tried.
+ */
+function toClinicalNoteResult(value: unknown, format: ClinicalNoteFormat): FormatResult {
+  const { note, errors } = validateClinicalNote(value, format);
+  
+  if (!note) {
+    throw new Error(`Model returned an invalid clinical note: ${errors.join('; ')}`);
+  }
+  
+  return { formattedText: renderClinicalNote(note), structured: note };
+}
+
+/**
+ * Format text using basic rules when no model is available
+ */
+export async function formatWithBasicRules(
+  text: string,
+  format: string,
+  userType: string,
+  template: PromptTemplate | null = null
+): Promise<FormatResult> {
+  if (template) {
+    return { formattedText: renderTemplateSkeleton(text, template) };
+  }
+  
+  switch (format) {
+    case 'SOAP':
+    case 'Clinical Summary': {
+      const note = format === 'SOAP' ? buildSOAPNote(text) : buildClinicalSummary(text);
+      return { formattedText: renderClinicalNote(note), structured: note };
+    }
+    case 'Bullet Points':
+      return { formattedText: formatAsBulletPoints(text) };
+    case 'HTML':
+      return { formattedText: formatAsHTML(text, userType) };
+    case 'Markdown':
+      return { formattedText: formatAsMarkdown(text, userType) };
+    case 'Plain':
+    default:
+      return { formattedText: text };
+  }
+}
+
+/**
+ * Build a SOAP (Subjective, Objective, Assessment, Plan) note
+ */
+function buildSOAPNote(text: string): ClinicalNote {
+  return {
+    format: 'SOAP',
+    sections: [
+      { heading: 'Subjective', content: extractSubjective(text) },
+      { heading: 'Objective', content: extractObjective(text) },
+      { heading: 'Assessment', content: extractAssessment(text) },
+      { heading: 'Plan', content: extractPlan(text) }
+    ],
+    ...extractClinicalDetails(text)
+  };
+}
+
+/**
+ * Build a clinical summary
+ */
+function buildClinicalSummary(text: string): ClinicalNote {
+  return {
+    format: 'Clinical Summary',
+    sections: [
+      { heading: 'Overview', content: extractSummary(text) },
+      { heading: 'Key Findings', content: extractKeyPoints(text) },
+      { heading: 'Plan', content: extractPlan(text) }
+    ],
+    ...extractClinicalDetails(text)
+  };
+}
+
+/**
+ * Format text in SOAP (Subjective, Objective, Assessment, Plan) format
+ */
+function formatAsSOAP(text: string): string {
+  return renderClinicalNote(buildSOAPNote(text));
+}
+
+/**
+ * Format text as bullet points
+ */
+function formatAsBulletPoints(text: string): string {
+  const lines = text.split(/[.!?]\s+/);
+  const bullets = lines
+    .filter(line => line.trim().length > 0)
+    .map(line => `• ${line.trim()}${line.trim().endsWith('.') ? '' : '.'}`)
+    .join('\n');
+  
+  return bullets;
+}
+
+/**
+ * Format text as HTML with appropriate styling
+ */
+function formatAsHTML(text: string, userType: string): string {
+  let html = '<div class="transcription">';
+  
+  if (userType === 'General Practitioner') {
+    const subjective = extractSubjective(text);
+    const objective = extractObjective(text);
+    const assessment = extractAssessment(text);
+    const plan = extractPlan(text);
+    
+    html += `
+      <h2>SOAP Note</h2>
+      
+      <h3>Subjective</h3>
+      <p>${subjective.replace(/\n/g, '<br>')}</p>
+      
+      <h3>Objective</h3>
+      <p>${objective.replace(/\n/g, '<br>')}</p>
+      
+      <h3>Assessment</h3>
+      <p>${assessment.replace(/\n/g, '<br>')}</p>
+      
+      <h3>Plan</h3>
+      <p>${plan.replace(/\n/g, '<br>')}</p>
+    `;
+  } else {
+    // Basic HTML formatting for other user types
+    const paragraphs = text.split('\n\n');
+    
+    for (const paragraph of paragraphs) {
+      if (paragraph.trim()) {
+        html += `<p>${paragraph.replace(/\n/g, '<br>')}</p>`;
+      }
+    }
+  }
+  
+  html += '</div>';
+  return html;
+}
+
+/**
+ * Format text as Markdown
+ */
+function formatAsMarkdown(text: string, userType: string): string {
+  if (userType === 'General Practitioner') {
+    return formatAsSOAP(text);
+  } else {
+    // Basic Markdown formatting
+    const paragraphs = text.split('\n\n');
+    let markdown = '';
+    
+    for (const paragraph of paragraphs) {
+      if (paragraph.trim()) {
+        markdown += `${paragraph.trim()}\n\n`;
+      }
+    }
+    
+    return markdown;
+  }
+}
+
+// Helper functions to extract different sections from the text
+// These are simple implementations and could be enhanced with NLP in a production environment
+
+function extractSubjective(text: string): string {
+  // Look for patient complaints, history, symptoms
+  const subjPatterns = [
+    /(?:patient|client) (?:reports|states|complains|presents with) (.*?)(?=\.|$)/i,
+    /(?:history|complaint|reason for visit|chief complaint):? (.*?)(?=\.|$)/i,
+    /(?:symptoms|subjective findings):? (.*?)(?=\.|$)/i
+  ];
+  
+  return extractWithPatterns(text, subjPatterns, 'No subjective information found.');
+}
+
+function extractObjective(text: string): string {
+  // Look for vital signs, examination findings, test results
+  const objPatterns = [
+    /(?:vitals|vital signs|examination|exam|physical exam):? (.*?)(?=\.|$)/i,
+    /(?:observed|noted|findings|results):? (.*?)(?=\.|$)/i,
+    /(?:temperature|pulse|blood pressure|bp|heart rate|respiratory rate):? (.*?)(?=\.|$)/i
+  ];
+  
+  return extractWithPatterns(text, objPatterns, 'No objective findings recorded.');
+}
+
+function extractAssessment(text: string): string {
+  // Look for diagnoses, impressions, assessments
+  const assessPatterns = [
+    /(?:assessment|diagnosis|impression|evaluation):? (.*?)(?=\.|$)/i,
+    /(?:diagnosed with|condition|disorder):? (.*?)(?=\.|$)/i,
+    /(?:assessment and plan|a\/p):? (.*?)(?=\.|$)/i
+  ];
+  
+  return extractWithPatterns(text, assessPatterns, 'No assessment provided.');
+}
+
+function extractPlan(text: string): string {
+  // Look for treatment plans, medications, follow-ups
+  const planPatterns = [
+    /(?:plan|treatment|therapy|management):? (.*?)(?=\.|$)/i,
+    /(?:prescribed|recommended|advised):? (.*?)(?=\.|$)/i,
+    /(?:follow-up|follow up|return|next visit):? (.*?)(?=\.|$)/i
+  ];
+  
+  return extractWithPatterns(text, planPatterns, 'No plan documented.');
+}
+
+function extractSummary(text: string): string {
+  // Extract first few sentences as summary
+  const sentences = text.split(/[.!?]\s+/);
+  const summary = sentences.slice(0, 3).join('. ');
+  return summary || 'No summary available.';
+}
+
+function extractKeyPoints(text: string): string {
+  // Extract key points based on common patterns
+  const keyPointPatterns = [
+    /(?:key|important|significant|notable) (?:points|findings|observations):? (.*?)(?=\.|$)/i,
+    /(?:primary|main|chief) (?:concern|complaint|issue|problem):? (.*?)(?=\.|$)/i,
+    /(?:diagnosis|assessment):? (.*?)(?=\.|$)/i
+  ];
+  
+  const keyPoints = extractWithPatterns(text, keyPointPatterns, '');
+  
+  if (keyPoints.trim()) {
+    return keyPoints;
+  }
+  
+  // If no key points found with patterns, extract sentences with important medical terms
+  const medicalTerms = ['diagnosis', 'condition', 'treatment', 'symptom', 'pain', 'medication'];
+  const sentences = text.split(/[.!?]\s+/);
+  
+  const relevantSentences = sentences.filter(sentence => 
+    medicalTerms.some(term => sentence.toLowerCase().includes(term))
+  );
+  
+  if (relevantSentences.length > 0) {
+    return relevantSentences.map(s => `• ${s.trim()}`).join('\n');
+  }
+  
+  return 'No key points identified.';
+}
+
+const VITAL_PATTERNS: [keyof ClinicalNote['vitals'], RegExp][] = [
+  ['bloodPressure', /(?:blood pressure|\bbp)(?: is| was| of)?:?\s*(\d{2,3}\s*(?:\/|over)\s*\d{2,3}(?:\s*mmhg)?)/i],
+  ['heartRate', /(?:heart rate|pulse|\bhr)(?: is| was| of)?:?\s*(\d{2,3}(?:\s*(?:bpm|beats per minute))?)/i],
+  ['temperature', /(?:temperature|\btemp)(?: is| was| of)?:?\s*(\d{2,3}(?:\.\d)?(?:\s*(?:°?\s*[cf]\b|degrees(?: celsius| fahrenheit)?))?)/i],
+  ['respiratoryRate', /(?:respiratory rate|\brr)(?: is| was| of)?:?\s*(\d{1,2}(?:\s*(?:breaths per minute|\/min))?)/i],
+  ['oxygenSaturation', /(?:oxygen saturation|o2 sat(?:uration)?s?|\bsats|spo2)(?: is| was| of)?:?\s*(\d{2,3}\s*(?:%|percent)?)/i],
+  ['weight', /\bweigh(?:t|s)(?: is| was| of)?:?\s*(\d{2,3}(?:\.\d)?\s*(?:kg|kilograms|lbs?|pounds))/i]
+];
+
+// Words that can follow "prescribed" or "started on" without being a medication
+const NOT_MEDICATIONS = new Set(['a', 'an', 'the', 'some', 'with', 'on', 'to', 'her', 'him', 'them', 'you']);
+
+/**
+ * Find problems, medications, vital signs and follow-up in the text
+ */
+function extractClinicalDetails(text: string): Pick<ClinicalNote, 'problems' | 'medications' | 'vitals' | 'followUp'> {
+  const vitals: ClinicalNote['vitals'] = {};
+  VITAL_PATTERNS.forEach(([key, pattern]) => {
+    const match = text.match(pattern);
+    if (match) vitals[key] = match[1].trim();
+  });
+  
+  const medications: ClinicalNote['medications'] = [];
+  const medicationPattern = /(?:prescribed|started on|start|continue(?: on)?|increase|reduce)\s+([a-z][a-z-]+)(?:\s+(\d+(?:\.\d+)?\s*(?:mg|mcg|micrograms|g|ml|units)))?(?:\s+((?:once|twice|three times|four times)(?: a| per)? day|daily|every \d+ hours|as needed|at night|in the morning))?/gi;
+  for (const match of Array.from(text.matchAll(medicationPattern))) {
+    const name = match[1].toLowerCase();
+    if (NOT_MEDICATIONS.has(name) || medications.some(medication => medication.name.toLowerCase() === name)) continue;
+    medications.push({
+      name: match[1],
+      ...(match[2] && { dose: match[2] }),
+      ...(match[3] && { frequency: match[3] })
+    });
+  }
+  
+  const problems: ClinicalNote['problems'] = [];
+  const problemPattern = /(?:(diagnosed with|diagnosis(?: is| of)?:?|impression(?: is)?:?)|(likely|suspected|possible|query)|(history of|known))\s+([^.,;]+)/gi;
+  for (const match of Array.from(text.matchAll(problemPattern))) {
+    const name = match[4].trim();
+    if (!name || problems.some(problem => problem.name.toLowerCase() === name.toLowerCase())) continue;
+    problems.push({ name, status: match[2] ? 'suspected' : match[3] ? 'chronic' : 'active' });
+  }
+  
+  const followUpMatch = text.match(/(?:follow[- ]up|return|review|come back)\s+((?:in|within|after)\s+[^.,;]+|next\s+[^.,;]+)/i);
+  
+  return {
+    problems,
+    medications,
+    vitals,
+    followUp: followUpMatch ? { timeframe: followUpMatch[1].trim() } : null
+  };
+}
+
+function extractWithPatterns(text: string, patterns: RegExp[], defaultText: string): string {
+  let extracted = '';
+  
+  for (const pattern of patterns) {
+    const matches = text.match(pattern);
+    if (matches && matches[1]) {
+      extracted += `${matches[1].trim()}. `;
+    }
+  }
+  
+  return extracted || defaultText;
+}
@@ -0,0 +1,324 @@
+/**
+ * Rolling lecture summaries built from transcript deltas while a recording
+ * is still in progress. Sessions are kept in Postgres, so they survive a
+ * restart and any server can update or stream them. Subscribers on the
+ * server that made an update hear of it straight away, others within
+ * POLL_INTERVAL.
+ */
+import { randomUUID } from "crypto";
+import { LiveSummarySessionPg, PgLiveSummarySession } from "@/models/postgres/LiveSummarySession";
+import { getLlm } from "@/services/llm";
+import { reidentifyValue } from "@/services/redaction";
+import type { LiveSummary } from "@/types/summary";
+import { getPromptId, renderPrompt, selectPrompt } from "@/utils/prompts";
+
+export type LiveSummaryEventType = "update" | "end";
+
+export interface LiveSummaryEvent {
+  type: LiveSummaryEventType;
+  summary: LiveSummary;
+}
+
+export interface LiveSummaryUpdateOptions {
+  userType?: string;
+  // Appended to the system prompt to control the response language
+  languageInstruction?: string;
+}
+
+type LiveSummaryListener = (event: LiveSummaryEvent) => void;
+
+// Told of each update made on this server, or null when the session ends
+type SessionListener = (summary: LiveSummary | null) => void;
+
+type LiveSummaryContent = Pick<LiveSummary, "summary" | "topics" | "keyPoints" | "model" | "promptVersion">;
+
+const LIVE_SUMMARY_MODEL = "gpt-3.5-turbo";
+// Sessions with no update for this long are discarded
+const SESSION_TTL_SECONDS = 60 * 60 * 3; // 3 hours
+// How often subscribers check for updates made on other servers
+const POLL_INTERVAL = 1000 * 5;
+// Times an update is tried when another server updates the session first
+const MAX_UPDATE_ATTEMPTS = 3;
+const MAX_TOPICS = 8;
+const MAX_KEY_POINTS = 12;
+// Longest delta sent to the model in one update
+const MAX_DELTA_LENGTH = 12000;
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Subscribers on this server, by session
+const listeners = new Map<string, Set<SessionListener>>();
+// Deltas sent to this server are folded in one at a time, in the order they arrived
+const queues = new Map<string, Promise<unknown>>();
+
+/**
+ * Convert a stored session to the summary returned to clients
+ */
+function toLiveSummary(session: PgLiveSummarySession): LiveSummary {
+  return {
+    sessionId: session.id,
+    summary: session.summary,
+    topics: session.topics,
+    keyPoints: session.key_points,
+    updates: session.updates,
+    updatedAt: new Date(session.updated_at).toISOString(),
+    ...(session.model && { model: session.model }),
+    ...(session.prompt_version && { promptVersion: session.prompt_version }),
+  };
+}
+
+/**
+ * Notify the subscribers of a session on this server
+ */
+function publish(sessionId: string, summary: LiveSummary | null): void {
+  listeners.get(sessionId)?.forEach((listener) => {
+    try {
+      listener(summary);
+    } catch (error) {
+      console.error("Error notifying live summary subscriber:", error);
+    }
+  });
+}
+
+/**
+ * Start a new live summary session
+ * @param ownerId The user allowed to add deltas to the session
+ * @returns The empty summary, including the new session id
+ */
+export async function createLiveSummarySession(ownerId: string): Promise<LiveSummary> {
+  await LiveSummarySessionPg.deleteIdle(SESSION_TTL_SECONDS);
+
+  return toLiveSummary(await LiveSummarySessionPg.create(randomUUID(), ownerId));
+}
+
+/**
+ * Look up a session
+ * @returns The owner and current summary, or null if the session is unknown
+ */
+export async function findLiveSummarySession(
+  sessionId: string
+): Promise<{ ownerId: string; summary: LiveSummary } | null> {
+  if (!SESSION_ID_PATTERN.test(sessionId)) {
+    return null;
+  }
+
+  const session = await LiveSummarySessionPg.findById(sessionId);
+  return session ? { ownerId: session.owner_id, summary: toLiveSummary(session) } : null;
+}
+
+/**
+ * Fold a new piece of transcript into the running summary and publish the result
+ * @param sessionId The live summary session
+ * @param delta Transcript text recorded since the previous delta
+ * @returns The updated summary
+ */
+export function appendTranscriptDelta(
+  sessionId: string,
+  delta: string,
+  options: LiveSummaryUpdateOptions = {}
+): Promise<LiveSummary> {
+  const update = (queues.get(sessionId) || Promise.resolve()).then(() =>
+    foldDelta(sessionId, delta, options)
+  );
+
+  // Keep the queue alive if this update fails, and forget it once it is idle
+  const queue = update.catch(() => undefined);
+  queues.set(sessionId, queue);
+  queue.then(() => {
+    if (queues.get(sessionId) === queue) {
+      queues.delete(sessionId);
+    }
+  });
+
+  return update;
+}
+
+/**
+ * Summarize a delta on top of the stored summary and save the result,
+ * starting over when another server saved an update in the meantime
+ */
+async function foldDelta(
+  sessionId: string,
+  delta: string,
+  options: LiveSummaryUpdateOptions
+): Promise<LiveSummary> {
+  for (let attempt = 1; ; attempt++) {
+    const session = await LiveSummarySessionPg.findById(sessionId);
+
+    if (!session) {
+      throw new Error(`Live summary session ${sessionId} not found`);
+    }
+
+    const next = await summarizeDelta(toLiveSummary(session), delta, options);
+    const saved = await LiveSummarySessionPg.saveUpdate(sessionId, session.updates, {
+      summary: next.summary,
+      topics: next.topics,
+      key_points: next.keyPoints,
+      model: next.model,
+      prompt_version: next.promptVersion,
+    });
+
+    if (saved) {
+      const summary = toLiveSummary(saved);
+      publish(sessionId, summary);
+      return summary;
+    }
+
+    if (attempt >= MAX_UPDATE_ATTEMPTS) {
+      throw new Error(`Live summary session ${sessionId} kept changing while it was being updated`);
+    }
+  }
+}
+
+/**
+ * Receive every update to a session until it ends
+ * @param current The summary the subscriber already has
+ * @returns A function that removes the listener
+ */
+export function subscribeToLiveSummary(
+  current: LiveSummary,
+  listener: LiveSummaryListener
+): () => void {
+  const { sessionId } = current;
+  let latest = current;
+
+  const notify: SessionListener = (summary) => {
+    if (!summary) {
+      listener({ type: "end", summary: latest });
+      return;
+    }
+
+    if (summary.updates > latest.updates) {
+      latest = summary;
+      listener({ type: "update", summary });
+    }
+  };
+
+  const sessionListeners = listeners.get(sessionId) || new Set<SessionListener>();
+  sessionListeners.add(notify);
+  listeners.set(sessionId, sessionListeners);
+
+  // Pick up updates made, and sessions ended, on other servers
+  const poll = setInterval(() => {
+    LiveSummarySessionPg.findById(sessionId)
+      .then((session) => notify(session && toLiveSummary(session)))
+      .catch((error) => {
+        console.error("Error checking live summary session:", error);
+      });
+  }, POLL_INTERVAL);
+
+  return () => {
+    clearInterval(poll);
+    sessionListeners.delete(notify);
+    if (sessionListeners.size === 0 && listeners.get(sessionId) === sessionListeners) {
+      listeners.delete(sessionId);
+    }
+  };
+}
+
+/**
+ * End a session, notifying subscribers and discarding its state
+ * @returns Whether the session existed
+ */
+export async function endLiveSummarySession(sessionId: string): Promise<boolean> {
+  const deleted = await LiveSummarySessionPg.delete(sessionId);
+
+  if (deleted) {
+    publish(sessionId, null);
+  }
+
+  return deleted;
+}
+
+/**
+ * Restore redacted details in a summary for authorized viewers
+ * @param summary The stored summary, built from redacted text
+ * @param reidentify Whether the viewer may see redacted details
+ * @returns The summary to return to the viewer
+ */
+export async function toViewerLiveSummary(summary: LiveSummary, reidentify: boolean): Promise<LiveSummary> {
+  if (!reidentify) {
+    return summary;
+  }
+
+  const visible = await reidentifyValue({
+    summary: summary.summary,
+    topics: summary.topics,
+    keyPoints: summary.keyPoints,
+  });
+
+  return { ...summary, ...visible };
+}
+
+/**
+ * Check a model reply, keeping the previous topics and key points when it has none
+ * @throws When the reply has no summary
+ */
+function toSummaryContent(
+  value: unknown,
+  previous: LiveSummary
+): Pick<LiveSummary, "summary" | "topics" | "keyPoints"> {
+  const reply = (value && typeof value === "object" ? value : {}) as Record<string, unknown>;
+
+  if (typeof reply.summary !== "string" || !reply.summary.trim()) {
+    throw new Error("Live summary response did not include a summary");
+  }
+
+  const strings = (items: unknown, fallback: string[]) =>
+    Array.isArray(items) ? items.filter((item): item is string => typeof item === "string") : fallback;
+
+  return {
+    summary: reply.summary.trim(),
+    topics: strings(reply.topics, previous.topics).slice(0, MAX_TOPICS),
+    keyPoints: strings(reply.keyPoints, previous.keyPoints).slice(0, MAX_KEY_POINTS),
+  };
+}
+
+/**
+ * Ask the model to merge a delta into the previous summary, falling back to
+ * adding the delta's opening sentence as a key point if that fails
+ */
+async function summarizeDelta(
+  previous: LiveSummary,
+  delta: string,
+  options: LiveSummaryUpdateOptions
+): Promise<LiveSummaryContent> {
+  const trimmedDelta =
+    delta.length > MAX_DELTA_LENGTH ? delta.substring(delta.length - MAX_DELTA_LENGTH) : delta;
+  const prompt = selectPrompt("summary.live");
+  const { systemPrompt, userPrompt } = renderPrompt(prompt, {
+    lecture: options.userType ? `${options.userType} lecture` : "lecture",
+    maxTopics: MAX_TOPICS,
+    maxKeyPoints: MAX_KEY_POINTS,
+    summary: previous.summary || "(none yet)",
+    topics: previous.topics.join(", ") || "(none yet)",
+    keyPoints: previous.keyPoints.map((point) => `- ${point}`).join("\n") || "(none yet)",
+    text: trimmedDelta,
+  });
+
+  try {
+    const { result, model } = await getLlm().json(
+      [
+        { role: "system", content: systemPrompt + (options.languageInstruction || "") },
+        { role: "user", content: userPrompt },
+      ],
+      (value) => toSummaryContent(value, previous),
+      { model: LIVE_SUMMARY_MODEL, temperature: 0.3, maxTokens: 800 }
+    );
+
+    return { ...result, model, promptVersion: getPromptId(prompt) };
+  } catch (error) {
+    console.error("Error updating live summary, keeping basic notes:", error);
+
+    const firstSentence = trimmedDelta.trim().match(/^[^.!?]+[.!?]?/)?.[0].trim();
+
+    return {
+      summary: previous.summary,
+      topics: previous.topics,
+      keyPoints: firstSentence
+        ? [...previous.keyPoints, firstSentence].slice(-MAX_KEY_POINTS)
+        : previous.keyPoints,
+      model: previous.model,
+      promptVersion: previous.promptVersion,
+    };
+  }
+}
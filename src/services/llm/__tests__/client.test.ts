@@ -0,0 +1,157 @@
+/**
+ * @jest-environment node
+ */
+import { LlmClient } from '../client';
+import { ChatCompletion, ChatCompletionOptions, LlmProvider, LlmProviderError } from '../types';
+
+type Reply = string | Error | ((options: ChatCompletionOptions) => Promise<string>);
+
+/**
+ * A provider that gives the replies in order, throwing the errors among them
+ */
+function provider(name: string, replies: Reply[]): LlmProvider & { calls: number } {
+  return {
+    name,
+    calls: 0,
+    isConfigured: () => true,
+    async chat(_messages, options): Promise<ChatCompletion> {
+      const reply = replies[Math.min(this.calls++, replies.length - 1)];
+      if (reply instanceof Error) throw reply;
+      const content = typeof reply === 'function' ? await reply(options) : reply;
+      return { content, model: `${name}-model`, provider: name };
+    },
+    embed: async () => []
+  };
+}
+
+function client(providers: LlmProvider[], timeoutMs = 1000): LlmClient {
+  return new LlmClient({ providers, maxRetries: 2, timeoutMs, retryDelayMs: 0 });
+}
+
+const retryable = (name: string) => new LlmProviderError('rate limited', name, true, 429);
+const fatal = (name: string) => new LlmProviderError('bad request', name, false, 400);
+const messages = [{ role: 'user' as const, content: 'Hello' }];
+
+beforeEach(() => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('LlmClient.complete', () => {
+  it('retries a retryable error on the same provider', async () => {
+    const first = provider('first', [retryable('first'), 'answer']);
+    const second = provider('second', ['fallback']);
+
+    const result = await client([first, second]).chat(messages);
+
+    expect(result).toMatchObject({ content: 'answer', provider: 'first', model: 'first-model' });
+    expect(first.calls).toBe(2);
+    expect(second.calls).toBe(0);
+  });
+
+  it('falls back to the next provider after a non-retryable error', async () => {
+    const first = provider('first', [fatal('first')]);
+    const second = provider('second', ['fallback']);
+
+    const result = await client([first, second]).chat(messages);
+
+    expect(result.provider).toBe('second');
+    expect(first.calls).toBe(1);
+  });
+
+  it('falls back once a provider runs out of retries', async () => {
+    const first = provider('first', [retryable('first')]);
+    const second = provider('second', ['fallback']);
+
+    const result = await client([first, second]).chat(messages);
+
+    expect(result.provider).toBe('second');
+    expect(first.calls).toBe(3);
+  });
+
+  it('reports every failure when all providers fail', async () => {
+    const llm = client([provider('first', [fatal('first')]), provider('second', [fatal('second')])]);
+
+    await expect(llm.chat(messages)).rejects.toThrow(/All LLM providers failed.*first: bad request.*second: bad request/);
+  });
+
+  it('starts over after streamed text when a retry follows', async () => {
+    const first = provider('first', [
+      async (options) => {
+        options.onDelta?.('partial');
+        throw retryable('first');
+      },
+      async (options) => {
+        options.onDelta?.('answer');
+        return 'answer';
+      }
+    ]);
+    const events: string[] = [];
+
+    await client([first]).chat(messages, {
+      onDelta: (text) => events.push(text),
+      onReset: () => { events.push('reset'); }
+    });
+
+    expect(events).toEqual(['partial', 'reset', 'answer']);
+  });
+
+  it('times out an attempt that does not respond', async () => {
+    const slow = provider('slow', [
+      (options) => new Promise((_resolve, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      })
+    ]);
+    const fast = provider('fast', ['answer']);
+
+    const result = await client([slow, fast], 20).chat(messages);
+
+    expect(result.provider).toBe('fast');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('No response for 20 ms'));
+  });
+
+  it('lets a stream run past the timeout while pieces keep arriving', async () => {
+    const streaming = provider('streaming', [
+      async (options) => {
+        for (let piece = 0; piece < 4; piece++) {
+          await new Promise(resolve => setTimeout(resolve, 30));
+          options.onDelta?.('.');
+        }
+        return '....';
+      }
+    ]);
+
+    const result = await client([streaming], 80).chat(messages, { onDelta: () => {} });
+
+    expect(result.content).toBe('....');
+    expect(streaming.calls).toBe(1);
+  });
+});
+
+describe('LlmClient.json', () => {
+  it('asks for JSON mode and returns the validated value', async () => {
+    const chat = jest.fn(async () => ({ content: '```json\n{"ok": true}\n```', model: 'm', provider: 'p' }));
+    const llm = client([{ ...provider('p', []), chat }]);
+
+    const result = await llm.json(messages, (value) => value as { ok: boolean });
+
+    expect(result.result).toEqual({ ok: true });
+    expect(chat).toHaveBeenCalledWith(messages, expect.objectContaining({ json: true }));
+  });
+
+  it('moves on to the next provider when the reply fails validation', async () => {
+    const first = provider('first', ['not json']);
+    const second = provider('second', ['{"ok": true}']);
+
+    const result = await client([first, second]).json(messages, (value) => {
+      if (!(value as { ok?: boolean })?.ok) throw new Error('invalid');
+      return value;
+    });
+
+    expect(result.provider).toBe('second');
+    expect(first.calls).toBe(1);
+  });
+});
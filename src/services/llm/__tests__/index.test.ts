@@ -0,0 +1,51 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLlmProvider } from '..';
+
+const RESPONSES = [{ match: 'soap', response: '{"subjective":"Cough"}' }];
+const messages = [{ role: 'user' as const, content: 'Write a SOAP note' }];
+
+async function reply(): Promise<string> {
+  const provider = createLlmProvider('local');
+  return (await provider!.chat(messages, { json: true })).content;
+}
+
+describe('local provider responses', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-responses-'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.LOCAL_LLM_RESPONSES;
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('reads an inline JSON array', async () => {
+    process.env.LOCAL_LLM_RESPONSES = JSON.stringify(RESPONSES);
+
+    expect(await reply()).toBe('{"subjective":"Cough"}');
+  });
+
+  it('reads a JSON file', async () => {
+    const file = path.join(dir, 'responses.json');
+    fs.writeFileSync(file, JSON.stringify(RESPONSES));
+    process.env.LOCAL_LLM_RESPONSES = file;
+
+    expect(await reply()).toBe('{"subjective":"Cough"}');
+  });
+
+  it('has no canned responses when the value cannot be read', async () => {
+    process.env.LOCAL_LLM_RESPONSES = '[{"match":';
+
+    await expect(reply()).rejects.toThrow('No local JSON response matches the request');
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * @jest-environment node
+ */
+import { countTokens, getContextTokens } from '@/utils/tokens';
+import { mapReduce, splitForModel } from '../mapReduce';
+
+// The local model has a 4096-token context
+const MODEL = 'local';
+
+function sentences(count: number): string {
+  return Array.from({ length: count }, (_, index) => `Sentence number ${index + 1} describes the patient.`).join(' ');
+}
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('splitForModel', () => {
+  it('keeps a text that fits whole', () => {
+    expect(splitForModel('A short text.', MODEL, 100)).toEqual(['A short text.']);
+  });
+
+  it('splits a long text into segments that each fit the budget', () => {
+    const text = sentences(400);
+    const segments = splitForModel(text, MODEL, 0, 500);
+
+    expect(segments.length).toBeGreaterThan(1);
+    segments.forEach((segment) => expect(countTokens(segment, MODEL)).toBeLessThanOrEqual(500));
+    expect(segments.join(' ').replace(/\s+/g, ' ')).toBe(text);
+  });
+
+  it('splits again where the text takes more tokens per character', () => {
+    const text = `${sentences(60)} ${'καλημέρα σας, πώς είστε σήμερα; '.repeat(60)}`;
+    const segments = splitForModel(text, MODEL, 0, 300);
+
+    segments.forEach((segment) => expect(countTokens(segment, MODEL)).toBeLessThanOrEqual(300));
+  });
+
+  it('fails when the prompt leaves no room for the text', () => {
+    expect(() => splitForModel('Text', MODEL, getContextTokens(MODEL))).toThrow(/leaves no room/);
+  });
+});
+
+describe('mapReduce', () => {
+  it('only maps a text that fits in one request', async () => {
+    const reduce = jest.fn();
+
+    const result = await mapReduce('A short text.', {
+      model: MODEL,
+      mapReservedTokens: 100,
+      reduceReservedTokens: 100,
+      map: async (segment, part, parts) => `${part}/${parts}: ${segment}`,
+      reduce,
+      size: (result) => countTokens(result, MODEL)
+    });
+
+    expect(result).toBe('1/1: A short text.');
+    expect(reduce).not.toHaveBeenCalled();
+  });
+
+  it('maps each segment in order and merges the results once', async () => {
+    const parts: number[] = [];
+    const reduce = jest.fn(async (results: string[]) => results.join('+'));
+
+    const result = await mapReduce(sentences(200), {
+      model: MODEL,
+      mapReservedTokens: 0,
+      reduceReservedTokens: 100,
+      maxSegmentTokens: 500,
+      map: async (_segment, part) => {
+        parts.push(part);
+        return `s${part}`;
+      },
+      reduce,
+      size: () => 1
+    });
+
+    expect(parts).toEqual(parts.map((_, index) => index + 1));
+    expect(result).toBe(parts.map(part => `s${part}`).join('+'));
+    expect(reduce).toHaveBeenCalledTimes(1);
+    expect(reduce).toHaveBeenCalledWith(expect.any(Array), true);
+  });
+
+  it('merges in rounds when the results do not fit in one request', async () => {
+    const calls: Array<{ count: number; final: boolean }> = [];
+
+    const result = await mapReduce(sentences(200), {
+      model: MODEL,
+      mapReservedTokens: 0,
+      // Leaves room for 1000 tokens of results, so two results per merge
+      reduceReservedTokens: getContextTokens(MODEL) - 1000,
+      maxSegmentTokens: 500,
+      map: async () => 1,
+      reduce: async (results, final) => {
+        calls.push({ count: results.length, final });
+        return results.reduce((sum, value) => sum + value, 0);
+      },
+      size: () => 400
+    });
+
+    expect(result).toBeGreaterThan(2);
+    expect(calls.filter(call => call.final)).toHaveLength(1);
+    expect(calls[calls.length - 1].final).toBe(true);
+    calls.forEach(call => expect(call.count).toBeLessThanOrEqual(2));
+  });
+
+  it('fails instead of merging results that cannot fit together', async () => {
+    const reduce = jest.fn();
+
+    await expect(mapReduce(sentences(200), {
+      model: MODEL,
+      mapReservedTokens: 0,
+      reduceReservedTokens: getContextTokens(MODEL) - 1000,
+      maxSegmentTokens: 500,
+      map: async () => 'result',
+      reduce,
+      size: () => 600
+    })).rejects.toThrow(/Cannot merge \d+ results with local/);
+    expect(reduce).not.toHaveBeenCalled();
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    const map = jest.fn(async () => {
+      controller.abort();
+      return 'result';
+    });
+
+    await expect(mapReduce(sentences(200), {
+      model: MODEL,
+      mapReservedTokens: 0,
+      reduceReservedTokens: 100,
+      maxSegmentTokens: 500,
+      map,
+      reduce: async () => 'merged',
+      size: () => 1,
+      signal: controller.signal
+    })).rejects.toThrow();
+    expect(map).toHaveBeenCalledTimes(1);
+  });
+});
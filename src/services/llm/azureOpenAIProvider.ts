@@ -0,0 +1,106 @@
+/**
+ * Azure OpenAI chat completion and embedding provider (server-side only)
+ */
+import { readChatCompletionStream } from "@/utils/eventStream";
+import {
+  ChatCompletion,
+  ChatCompletionOptions,
+  EmbeddingOptions,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderError,
+} from "./types";
+
+// Supports JSON mode (response_format), which clinical notes are requested in
+const DEFAULT_API_VERSION = "2024-06-01";
+
+export class AzureOpenAIProvider implements LlmProvider {
+  readonly name = "azure";
+
+  constructor(
+    private apiKey: string | undefined = process.env.AZURE_OPENAI_API_KEY,
+    private endpoint: string | undefined = process.env.AZURE_OPENAI_ENDPOINT,
+    private deploymentName: string | undefined = process.env.AZURE_OPENAI_DEPLOYMENT_NAME,
+    private embeddingDeploymentName: string | undefined =
+      process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT_NAME || process.env.AZURE_OPENAI_DEPLOYMENT_NAME,
+    private apiVersion: string = process.env.AZURE_OPENAI_API_VERSION || DEFAULT_API_VERSION
+  ) {}
+
+  isConfigured(): boolean {
+    return !!(this.apiKey && this.endpoint && this.deploymentName);
+  }
+
+  /**
+   * POST to one of the deployment's endpoints, describing failures by status
+   */
+  private async request(deployment: string | undefined, path: string, body: object, signal?: AbortSignal): Promise<Response> {
+    if (!this.apiKey || !this.endpoint || !deployment) {
+      throw new LlmProviderError("Azure OpenAI configuration is missing", this.name, false);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.endpoint}/openai/deployments/${deployment}/${path}?api-version=${this.apiVersion}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "api-key": this.apiKey,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new LlmProviderError(
+        `Azure OpenAI connection error: ${error instanceof Error ? error.message : "Unknown error"}`,
+        this.name,
+        true
+      );
+    }
+
+    if (!response.ok) {
+      const status = response.status;
+      throw new LlmProviderError(
+        `Azure OpenAI API error: ${status} ${response.statusText}`,
+        this.name,
+        status === 408 || status === 429 || status >= 500,
+        status
+      );
+    }
+
+    return response;
+  }
+
+  async chat(messages: LlmMessage[], options: ChatCompletionOptions): Promise<ChatCompletion> {
+    const response = await this.request(this.deploymentName, "chat/completions", {
+      messages,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens ?? 500,
+      ...(options.json && { response_format: { type: "json_object" } }),
+      stream: !!options.onDelta,
+    }, options.signal);
+
+    const content = options.onDelta
+      ? await readChatCompletionStream(response, options.onDelta)
+      : (await response.json()).choices?.[0]?.message?.content || "";
+
+    if (!content) {
+      throw new LlmProviderError("Empty content returned from Azure OpenAI", this.name, true);
+    }
+
+    return { content, model: `azure:${this.deploymentName}`, provider: this.name };
+  }
+
+  async embed(texts: string[], options: EmbeddingOptions = {}): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    const response = await this.request(this.embeddingDeploymentName, "embeddings", { input: texts }, options.signal);
+    const data = await response.json();
+
+    return (data.data as { embedding: number[]; index: number }[])
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
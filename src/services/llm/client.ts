@@ -0,0 +1,191 @@
+/**
+ * Runs completions and embeddings against an ordered list of providers,
+ * retrying each provider on transient errors before falling back to the next
+ */
+import { parseJsonReply } from "@/utils/clinicalNote";
+import {
+  ChatCompletion,
+  CompletionRequestOptions,
+  EmbeddingOptions,
+  LlmClientConfig,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderError,
+} from "./types";
+
+export type LlmResult<T> = ChatCompletion & { result: T };
+
+/**
+ * Wait before a retry, stopping early if the request is aborted
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+export class LlmClient {
+  constructor(private config: LlmClientConfig) {}
+
+  // Names of the providers tried, in order
+  get providerNames(): string[] {
+    return this.config.providers.map((provider) => provider.name);
+  }
+
+  /**
+   * Generate a chat completion with the first provider that succeeds
+   * @param messages The conversation to complete
+   * @param options Model settings, streaming callbacks and an abort signal
+   * @returns The completion and the model that produced it
+   */
+  async chat(messages: LlmMessage[], options: CompletionRequestOptions<string> = {}): Promise<ChatCompletion> {
+    return this.complete(messages, options);
+  }
+
+  /**
+   * Generate a JSON object, moving on to the next provider when the reply
+   * is not JSON or fails validation
+   * @param messages The conversation to complete
+   * @param validate Checks the parsed value, throwing when it is unusable
+   * @param options Model settings and an abort signal
+   * @returns The validated value with the completion it came from
+   */
+  async json<T>(
+    messages: LlmMessage[],
+    validate: (value: unknown) => T,
+    options: Omit<CompletionRequestOptions<T>, "parse" | "json"> = {}
+  ): Promise<LlmResult<T>> {
+    return this.complete(messages, {
+      ...options,
+      json: true,
+      parse: (content) => validate(parseJsonReply(content)),
+    });
+  }
+
+  /**
+   * Generate a completion and turn it into a result with options.parse.
+   * Retryable errors are tried again on the same provider with a growing
+   * delay; other errors, and replies that fail to parse, move on to the next.
+   * @returns The parsed result with the completion it came from
+   */
+  async complete<T = string>(messages: LlmMessage[], options: CompletionRequestOptions<T> = {}): Promise<LlmResult<T>> {
+    const { parse, onReset, onDelta, signal, ...settings } = options;
+    const { providers, maxRetries, retryDelayMs } = this.config;
+    const failures: string[] = [];
+    let streamed = false;
+
+    if (providers.length === 0) {
+      throw new Error("No LLM provider is configured");
+    }
+
+    for (const provider of providers) {
+      for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        signal?.throwIfAborted();
+
+        // The next attempt starts its text over
+        if (streamed) {
+          await onReset?.();
+          streamed = false;
+        }
+
+        try {
+          const completion = await this.withTimeout(provider, signal, (attemptSignal, keepAlive) =>
+            provider.chat(messages, {
+              ...settings,
+              signal: attemptSignal,
+              onDelta: onDelta && ((text) => {
+                keepAlive();
+                streamed = true;
+                onDelta(text);
+              }),
+            })
+          );
+          const result = parse ? parse(completion.content) : (completion.content as unknown as T);
+          return { ...completion, result };
+        } catch (error) {
+          if (signal?.aborted) throw error;
+
+          const message = error instanceof Error ? error.message : "Unknown error";
+          const retryable = error instanceof LlmProviderError && error.retryable;
+          console.error(`LLM: ${provider.name} attempt ${attempt + 1} failed: ${message}`);
+          failures.push(`${provider.name}: ${message}`);
+
+          if (!retryable || attempt === maxRetries) break;
+          await delay(retryDelayMs * 2 ** attempt, signal);
+        }
+      }
+    }
+
+    throw new Error(`All LLM providers failed (${failures.join("; ")})`);
+  }
+
+  /**
+   * Generate embeddings with the first provider. There is no fallback to
+   * other providers: vectors from different models cannot be compared.
+   * @param texts Texts to embed
+   * @returns One vector per text
+   */
+  async embed(texts: string[], options: EmbeddingOptions = {}): Promise<number[][]> {
+    const provider = this.config.providers[0];
+    const { maxRetries, retryDelayMs } = this.config;
+
+    if (!provider) {
+      throw new Error("No LLM provider is configured");
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.withTimeout(provider, options.signal, (signal) => provider.embed(texts, { signal }));
+      } catch (error) {
+        const retryable = error instanceof LlmProviderError && error.retryable;
+        if (options.signal?.aborted || !retryable || attempt >= maxRetries) throw error;
+
+        console.error(`LLM: ${provider.name} embedding attempt ${attempt + 1} failed:`, error);
+        await delay(retryDelayMs * 2 ** attempt, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Run one attempt, aborting it when the caller aborts or the provider goes
+   * quiet for too long. A streamed attempt calls keepAlive with each piece of
+   * text, so the timeout covers the wait for the first piece and the gaps
+   * between pieces rather than the whole completion.
+   */
+  private async withTimeout<T>(
+    provider: LlmProvider,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal, keepAlive: () => void) => Promise<T>
+  ): Promise<T> {
+    const { timeoutMs } = this.config;
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const keepAlive = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    };
+    keepAlive();
+    signal?.addEventListener("abort", abort);
+
+    try {
+      return await run(controller.signal, keepAlive);
+    } catch (error) {
+      if (timedOut) {
+        throw new LlmProviderError(`No response for ${timeoutMs} ms`, provider.name, true);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", abort);
+    }
+  }
+}
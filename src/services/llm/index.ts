@@ -0,0 +1,98 @@
+/**
+ * LLM provider selection
+ */
+import fs from "fs";
+import { isBuildTime } from "@/utils/buildTimeUtils";
+import { AzureOpenAIProvider } from "./azureOpenAIProvider";
+import { LlmClient } from "./client";
+import { LocalLlmProvider, LocalLlmResponse } from "./localProvider";
+import { OpenAIProvider } from "./openaiProvider";
+import { LlmProvider } from "./types";
+
+export * from "./types";
+export { LlmClient } from "./client";
+export type { LlmResult } from "./client";
+export { mapReduce, splitForModel } from "./mapReduce";
+export type { MapReduceOptions } from "./mapReduce";
+export { OpenAIProvider } from "./openaiProvider";
+export { AzureOpenAIProvider } from "./azureOpenAIProvider";
+export { LocalLlmProvider, LOCAL_EMBEDDING_DIMENSIONS } from "./localProvider";
+export type { LocalLlmResponse } from "./localProvider";
+
+let llm: LlmClient | null = null;
+
+/**
+ * Read the local provider's canned responses from LOCAL_LLM_RESPONSES: an
+ * inline JSON array when the value starts with "[", otherwise the path of a
+ * JSON file holding one
+ */
+function loadLocalResponses(): LocalLlmResponse[] {
+  const value = process.env.LOCAL_LLM_RESPONSES?.trim();
+  if (!value) {
+    return [];
+  }
+
+  const inline = value.startsWith("[");
+
+  try {
+    const responses = JSON.parse(inline ? value : fs.readFileSync(value, "utf8"));
+    return Array.isArray(responses) ? responses : [];
+  } catch (error) {
+    console.warn(
+      inline ? "Failed to parse LOCAL_LLM_RESPONSES:" : `Failed to read local LLM responses from ${value}:`,
+      error
+    );
+    return [];
+  }
+}
+
+/**
+ * Create the provider with the given name
+ * @param name "openai", "azure" or "local"
+ * @returns The provider, or null if the name is unknown
+ */
+export function createLlmProvider(name: string): LlmProvider | null {
+  switch (name) {
+    case "openai":
+      return new OpenAIProvider();
+    case "azure":
+      return new AzureOpenAIProvider();
+    case "local":
+      return new LocalLlmProvider(loadLocalResponses());
+    default:
+      console.warn(`Unknown LLM provider "${name}", skipping it`);
+      return null;
+  }
+}
+
+/**
+ * Create a client for the configured providers named by LLM_PROVIDERS, in
+ * order (defaults to OpenAI then Azure OpenAI). Builds use the local provider.
+ */
+export function createLlmClient(
+  names: string = process.env.LLM_PROVIDERS || "openai,azure"
+): LlmClient {
+  const providers = isBuildTime()
+    ? [new LocalLlmProvider()]
+    : names
+        .split(",")
+        .map((name) => createLlmProvider(name.trim().toLowerCase()))
+        .filter((provider): provider is LlmProvider => !!provider && provider.isConfigured());
+
+  return new LlmClient({
+    providers,
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || "2", 10),
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || "60000", 10),
+    retryDelayMs: parseInt(process.env.LLM_RETRY_DELAY_MS || "500", 10),
+  });
+}
+
+/**
+ * Get the shared LLM client, creating it on first use
+ */
+export function getLlm(): LlmClient {
+  if (!llm) {
+    llm = createLlmClient();
+  }
+  return llm;
+}
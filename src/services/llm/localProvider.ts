@@ -0,0 +1,100 @@
+/**
+ * Offline provider that answers deterministically instead of calling a model.
+ * Used for tests and development without network access.
+ */
+import {
+  ChatCompletion,
+  ChatCompletionOptions,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderError,
+} from "./types";
+
+// A canned reply for conversations whose last user message contains `match`
+export interface LocalLlmResponse {
+  match: string;
+  response: string;
+}
+
+// Same size as OpenAI's ada embeddings, so local vectors fit the same columns
+export const LOCAL_EMBEDDING_DIMENSIONS = 1536;
+
+const REPLY_SENTENCES = 3;
+
+/**
+ * FNV-1a hash of a string
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+export class LocalLlmProvider implements LlmProvider {
+  readonly name = "local";
+
+  constructor(private responses: LocalLlmResponse[] = []) {}
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Reply with the first matching canned response, or else the opening
+   * sentences of the text in the last user message. JSON is only returned
+   * from canned responses; without one the request fails so callers fall back.
+   */
+  async chat(messages: LlmMessage[], options: ChatCompletionOptions): Promise<ChatCompletion> {
+    const lastUserMessage = [...messages].reverse().find((message) => message.role === "user")?.content || "";
+    const canned = this.responses.find((response) =>
+      lastUserMessage.toLowerCase().includes(response.match.toLowerCase())
+    );
+
+    if (!canned && options.json) {
+      throw new LlmProviderError("No local JSON response matches the request", this.name, false);
+    }
+
+    const content = canned ? canned.response : this.extractReply(lastUserMessage, options.maxTokens ?? 500);
+
+    if (options.onDelta) {
+      (content.match(/\S+\s*/g) || [content]).forEach((piece) => options.onDelta?.(piece));
+    }
+
+    return { content, model: "local", provider: this.name };
+  }
+
+  /**
+   * Hashed bag-of-words vectors: texts sharing words point the same way
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector = new Array<number>(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+      text.toLowerCase().split(/[\s.,;:!?()"'[\]{}-]+/).filter(Boolean).forEach((word) => {
+        vector[hashString(word) % LOCAL_EMBEDDING_DIMENSIONS] += 1;
+      });
+
+      const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+      return length > 0 ? vector.map((value) => value / length) : vector;
+    });
+  }
+
+  /**
+   * Take the opening sentences of the text a prompt was given, which
+   * follows the instruction after a blank line or a colon
+   */
+  private extractReply(prompt: string, maxTokens: number): string {
+    const breakIndex = prompt.indexOf("\n\n");
+    const colonIndex = prompt.indexOf(": ");
+    const text = (
+      breakIndex !== -1 ? prompt.slice(breakIndex + 2) : colonIndex !== -1 ? prompt.slice(colonIndex + 2) : prompt
+    ).trim();
+    const sentences = text.match(/[^.!?]+[.!?]*/g) || [];
+    const reply = sentences.slice(0, REPLY_SENTENCES).join("").trim();
+
+    // Roughly four characters per token
+    return (reply || "No content provided.").slice(0, maxTokens * 4);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Map-reduce over texts too long for one request: each segment is processed
+ * on its own, then the results are merged, in rounds if they are too long to
+ * merge at once
+ */
+import { generateChunks } from "@/utils/text";
+import { countTokens, getContextTokens, tokensToChars } from "@/utils/tokens";
+
+// generateChunks may run this far past the chunk size to end on a sentence
+const BREAK_MARGIN_CHARS = 50;
+
+export interface MapReduceOptions<T> {
+  // Model the requests go to, which sets how much text fits in each
+  model: string;
+  // Tokens a map request needs besides the segment: instructions and reply
+  mapReservedTokens: number;
+  // Tokens a reduce request needs besides the results it merges
+  reduceReservedTokens: number;
+  // Largest segment to send, when replies should stay short enough to be complete
+  maxSegmentTokens?: number;
+  // Process one segment; part counts from 1 and parts is 1 when the text fits whole
+  map: (segment: string, part: number, parts: number) => Promise<T>;
+  // Merge the results for consecutive segments; final is set for the last merge
+  reduce: (results: T[], final: boolean) => Promise<T>;
+  // Tokens a result takes up in a reduce request
+  size: (result: T) => number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Split a text into segments that each fit in one request
+ * @param text The text to split
+ * @param model Model the segments are sent to
+ * @param reservedTokens Tokens each request needs besides the segment
+ * @param maxSegmentTokens Largest segment to return
+ * @returns The segments in order, or the whole text if it fits
+ */
+export function splitForModel(
+  text: string,
+  model: string,
+  reservedTokens: number,
+  maxSegmentTokens: number = Infinity
+): string[] {
+  const budget = Math.min(getContextTokens(model) - reservedTokens, maxSegmentTokens);
+
+  if (budget <= 0) {
+    throw new Error(`The prompt for ${model} leaves no room for the text`);
+  }
+
+  if (countTokens(text, model) <= budget) {
+    return [text];
+  }
+
+  // Characters per token vary through a text, so a chunk still over budget is split again
+  const chunkSize = Math.max(tokensToChars(text, budget, model) - BREAK_MARGIN_CHARS, BREAK_MARGIN_CHARS);
+  const chunks = generateChunks(text, chunkSize, 0).filter(Boolean);
+
+  return chunks.length > 1
+    ? chunks.flatMap((chunk) => splitForModel(chunk, model, reservedTokens, maxSegmentTokens))
+    : chunks;
+}
+
+/**
+ * Gather consecutive results into groups that each fit in one request
+ */
+function groupBySize<T>(results: T[], size: (result: T) => number, budget: number): T[][] {
+  const groups: T[][] = [];
+  let group: T[] = [];
+  let groupSize = 0;
+
+  results.forEach((result) => {
+    const resultSize = size(result);
+    if (group.length > 0 && groupSize + resultSize > budget) {
+      groups.push(group);
+      group = [];
+      groupSize = 0;
+    }
+    group.push(result);
+    groupSize += resultSize;
+  });
+
+  if (group.length > 0) {
+    groups.push(group);
+  }
+
+  return groups;
+}
+
+/**
+ * Process a text of any length. A text that fits in one request is only
+ * mapped; otherwise its segments are mapped one after another and merged,
+ * in rounds until the results fit in one final merge.
+ * @returns The result for the whole text
+ * @throws When no two results fit in one merge request, so they cannot be merged
+ */
+export async function mapReduce<T>(text: string, options: MapReduceOptions<T>): Promise<T> {
+  const { model, map, reduce, size, signal } = options;
+  const segments = splitForModel(text, model, options.mapReservedTokens, options.maxSegmentTokens);
+  let results: T[] = [];
+
+  for (let i = 0; i < segments.length; i++) {
+    signal?.throwIfAborted();
+    results.push(await map(segments[i], i + 1, segments.length));
+  }
+
+  if (results.length === 1) {
+    return results[0];
+  }
+
+  const budget = getContextTokens(model) - options.reduceReservedTokens;
+  console.log(`LLM: Mapped ${segments.length} segments, merging the results`);
+
+  for (;;) {
+    signal?.throwIfAborted();
+    const groups = groupBySize(results, size, budget);
+
+    // Merge everything left once it fits
+    if (groups.length === 1) {
+      return reduce(results, true);
+    }
+
+    // Another round would not shrink anything
+    if (groups.every((group) => group.length === 1)) {
+      throw new Error(
+        `Cannot merge ${results.length} results with ${model}: no two of them fit in the ${budget} tokens a merge request has for them`
+      );
+    }
+
+    const merged: T[] = [];
+    for (let i = 0; i < groups.length; i++) {
+      merged.push(groups[i].length === 1 ? groups[i][0] : await reduce(groups[i], false));
+    }
+    results = merged;
+  }
+}
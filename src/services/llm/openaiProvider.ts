@@ -0,0 +1,124 @@
+/**
+ * OpenAI chat completion and embedding provider (server-side only)
+ */
+import OpenAI from "openai";
+import {
+  ChatCompletion,
+  ChatCompletionOptions,
+  EmbeddingOptions,
+  LlmMessage,
+  LlmProvider,
+  LlmProviderError,
+} from "./types";
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-ada-002";
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name = "openai";
+
+  private client: OpenAI | null = null;
+
+  constructor(
+    private apiKey: string | undefined = process.env.OPENAI_API_KEY,
+    private defaultModel: string = process.env.OPENAI_MODEL || "gpt-4",
+    private embeddingModel: string = process.env.OPENAI_EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  /**
+   * Create the client on first use, so an unconfigured provider costs nothing
+   */
+  private getClient(): OpenAI {
+    if (!this.apiKey) {
+      throw new LlmProviderError("OpenAI API key not configured", this.name, false);
+    }
+
+    if (!this.client) {
+      // Retries and timeouts are handled by the LLM client across providers
+      this.client = new OpenAI({ apiKey: this.apiKey, maxRetries: 0 });
+    }
+
+    return this.client;
+  }
+
+  async chat(messages: LlmMessage[], options: ChatCompletionOptions): Promise<ChatCompletion> {
+    const client = this.getClient();
+    const model = options.model || this.defaultModel;
+    const params = {
+      model,
+      messages,
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens ?? 500,
+      ...(options.json && { response_format: { type: "json_object" as const } }),
+    };
+
+    try {
+      let content: string;
+
+      if (options.onDelta) {
+        const stream = await client.chat.completions.create({ ...params, stream: true }, { signal: options.signal });
+        const iterator = stream[Symbol.asyncIterator]();
+        content = "";
+
+        for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+          const delta = result.value.choices[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            options.onDelta(delta);
+          }
+        }
+      } else {
+        const response = await client.chat.completions.create(params, { signal: options.signal });
+        content = response.choices[0]?.message?.content || "";
+      }
+
+      if (!content) {
+        throw new LlmProviderError("Empty content returned from OpenAI", this.name, true);
+      }
+
+      return { content, model, provider: this.name };
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  async embed(texts: string[], options: EmbeddingOptions = {}): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    try {
+      const response = await this.getClient().embeddings.create(
+        { model: this.embeddingModel, input: texts },
+        { signal: options.signal }
+      );
+      return response.data.map((item) => item.embedding);
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+  }
+
+  /**
+   * Describe an SDK error, marking rate limits, server errors and dropped connections as retryable
+   */
+  private toProviderError(error: unknown): unknown {
+    if (error instanceof LlmProviderError || error instanceof OpenAI.APIUserAbortError) {
+      return error;
+    }
+
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new LlmProviderError(`OpenAI connection error: ${error.message}`, this.name, true);
+    }
+
+    if (error instanceof OpenAI.APIError) {
+      const status = error.status;
+      const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+      return new LlmProviderError(`OpenAI API error: ${status} ${error.message}`, this.name, retryable, status);
+    }
+
+    return error;
+  }
+}
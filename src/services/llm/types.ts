@@ -0,0 +1,76 @@
+/**
+ * Shared types for LLM providers
+ */
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ChatCompletionOptions {
+  // Model to use; providers with a fixed deployment ignore it
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the model to answer with a JSON object
+  json?: boolean;
+  // Called with each piece of text as it is generated; streams the completion
+  onDelta?: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletion {
+  content: string;
+  // Model that produced the content, as recorded with saved outputs
+  model: string;
+  provider: string;
+}
+
+export interface EmbeddingOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * A service that generates chat completions and embeddings
+ */
+export interface LlmProvider {
+  readonly name: string;
+  // Whether the provider has the settings it needs to be used
+  isConfigured(): boolean;
+  chat(messages: LlmMessage[], options: ChatCompletionOptions): Promise<ChatCompletion>;
+  embed(texts: string[], options?: EmbeddingOptions): Promise<number[][]>;
+}
+
+/**
+ * A failed provider request. Retryable errors (rate limits, timeouts, server
+ * errors) are tried again on the same provider before falling back.
+ */
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    readonly retryable: boolean,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "LlmProviderError";
+  }
+}
+
+export interface LlmClientConfig {
+  // Providers to try, in order
+  providers: LlmProvider[];
+  // Extra attempts on the same provider after a retryable error
+  maxRetries: number;
+  // Time allowed for an attempt to respond, or for a streamed attempt to send its next piece
+  timeoutMs: number;
+  // Delay before the first retry; doubled for each one after
+  retryDelayMs: number;
+}
+
+export interface CompletionRequestOptions<T> extends ChatCompletionOptions {
+  // Turns the reply into a result; throwing moves on to the next provider
+  parse?: (content: string) => T;
+  // Called before a retry or fallback starts over after text was streamed
+  onReset?: () => Promise<void> | void;
+}
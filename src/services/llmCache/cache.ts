@@ -0,0 +1,124 @@
+/**
+ * Cache for LLM results, keyed by a hash of everything a result depends on.
+ * A failing store never fails the request: lookups miss and writes are skipped.
+ */
+import { createHash } from "crypto";
+import { LlmCacheFilter, LlmCacheStats, LlmCacheStore } from "./types";
+
+// What a cached result depends on
+export interface LlmCacheKey {
+  // What the result is, e.g. "format" or "chat"
+  namespace: string;
+  // Recorded with the entry, so entries can be invalidated when a prompt changes
+  promptVersion: string;
+  // Model requested for the result
+  model: string;
+  // Everything else, such as the input text, user type and instructions
+  input: Record<string, unknown>;
+}
+
+export interface LlmCacheConfig {
+  ttlMs: number;
+  // Entries kept per namespace; the least recently used go first
+  maxEntries: number;
+  // Larger results are not cached
+  maxEntryBytes: number;
+}
+
+export interface CachedResult<T> {
+  value: T;
+  createdAt: Date;
+}
+
+/**
+ * Hash a cache key; the input's fields are hashed in name order
+ * @returns The SHA-256 hash in hex
+ */
+export function hashLlmCacheKey(key: LlmCacheKey): string {
+  const input = Object.keys(key.input)
+    .sort()
+    .map((name) => [name, key.input[name] ?? null]);
+
+  return createHash("sha256")
+    .update(JSON.stringify([key.namespace, key.promptVersion, key.model, input]))
+    .digest("hex");
+}
+
+export class LlmCache {
+  constructor(private store: LlmCacheStore, private config: LlmCacheConfig) {}
+
+  get storeName(): string {
+    return this.store.name;
+  }
+
+  /**
+   * Look up a result, counting the lookup as a hit or miss
+   * @returns The result, or null if none is cached or the store fails
+   */
+  async get<T>(key: LlmCacheKey): Promise<CachedResult<T> | null> {
+    let entry = null;
+    try {
+      entry = await this.store.get(hashLlmCacheKey(key));
+    } catch (error) {
+      console.error(`LLM cache: Lookup in ${this.store.name} failed:`, error);
+    }
+
+    this.store.recordLookup(key.namespace, !!entry).catch((error) => {
+      console.error(`LLM cache: Recording a lookup in ${this.store.name} failed:`, error);
+    });
+
+    return entry && { value: entry.value as T, createdAt: entry.createdAt };
+  }
+
+  /**
+   * Cache a result, then prune its namespace without waiting for it
+   * @param ttlMs How long to keep the result; the configured TTL by default
+   */
+  async set<T>(key: LlmCacheKey, value: T, ttlMs: number = this.config.ttlMs): Promise<void> {
+    const size = Buffer.byteLength(JSON.stringify(value));
+    if (size > this.config.maxEntryBytes) {
+      console.log(`LLM cache: Not caching a ${key.namespace} result of ${size} bytes`);
+      return;
+    }
+
+    try {
+      await this.store.set(
+        {
+          key: hashLlmCacheKey(key),
+          namespace: key.namespace,
+          promptVersion: key.promptVersion,
+          model: key.model,
+          value,
+          size,
+        },
+        ttlMs
+      );
+    } catch (error) {
+      console.error(`LLM cache: Writing to ${this.store.name} failed:`, error);
+      return;
+    }
+
+    this.store.prune(key.namespace, this.config.maxEntries).catch((error) => {
+      console.error(`LLM cache: Pruning ${this.store.name} failed:`, error);
+    });
+  }
+
+  /**
+   * Remove the cached results matching a filter, all of them for an empty filter
+   * @returns How many were removed
+   */
+  invalidate(filter: LlmCacheFilter): Promise<number> {
+    return this.store.invalidate(filter);
+  }
+
+  /**
+   * Get the entries, size and hit rate of each namespace
+   */
+  async stats(): Promise<LlmCacheStats[]> {
+    const stats = await this.store.stats();
+    return stats.map((namespace) => ({
+      ...namespace,
+      hitRate: namespace.hits + namespace.misses > 0 ? namespace.hits / (namespace.hits + namespace.misses) : null,
+    }));
+  }
+}
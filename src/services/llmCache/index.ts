@@ -0,0 +1,54 @@
+/**
+ * LLM cache store selection
+ */
+import { LlmCache } from "./cache";
+import { MemoryLlmCacheStore } from "./memoryStore";
+import { PostgresLlmCacheStore } from "./postgresStore";
+import { LlmCacheStore } from "./types";
+
+export * from "./types";
+export { LlmCache, hashLlmCacheKey } from "./cache";
+export type { CachedResult, LlmCacheConfig, LlmCacheKey } from "./cache";
+export { MemoryLlmCacheStore } from "./memoryStore";
+export { PostgresLlmCacheStore } from "./postgresStore";
+
+let cache: LlmCache | null = null;
+
+/**
+ * Create the store named by LLM_CACHE_STORE (defaults to Postgres)
+ */
+export function createLlmCacheStore(
+  name: string = process.env.LLM_CACHE_STORE || "postgres"
+): LlmCacheStore {
+  switch (name) {
+    case "postgres":
+      return new PostgresLlmCacheStore();
+    case "memory":
+      return new MemoryLlmCacheStore();
+    default:
+      console.warn(`Unknown LLM cache store "${name}", using Postgres`);
+      return new PostgresLlmCacheStore();
+  }
+}
+
+/**
+ * Create a cache on the configured store, with the TTL and size limits from
+ * LLM_CACHE_TTL_SECONDS, LLM_CACHE_MAX_ENTRIES and LLM_CACHE_MAX_ENTRY_BYTES
+ */
+export function createLlmCache(store: LlmCacheStore = createLlmCacheStore()): LlmCache {
+  return new LlmCache(store, {
+    ttlMs: parseInt(process.env.LLM_CACHE_TTL_SECONDS || "1800", 10) * 1000,
+    maxEntries: parseInt(process.env.LLM_CACHE_MAX_ENTRIES || "10000", 10),
+    maxEntryBytes: parseInt(process.env.LLM_CACHE_MAX_ENTRY_BYTES || "1000000", 10),
+  });
+}
+
+/**
+ * Get the shared LLM cache, creating it on first use
+ */
+export function getLlmCache(): LlmCache {
+  if (!cache) {
+    cache = createLlmCache();
+  }
+  return cache;
+}
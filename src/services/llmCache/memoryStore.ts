@@ -0,0 +1,90 @@
+/**
+ * Cache store in process memory, for development without a database.
+ * Entries are lost on restart and not shared between instances.
+ */
+import { LlmCacheEntry, LlmCacheFilter, LlmCacheStore, LlmCacheStoreStats } from "./types";
+
+interface MemoryEntry extends LlmCacheEntry {
+  expiresAt: number;
+}
+
+export class MemoryLlmCacheStore implements LlmCacheStore {
+  readonly name = "memory";
+
+  // Kept in order of use, least recently used first
+  private entries = new Map<string, MemoryEntry>();
+  private lookups = new Map<string, { hits: number; misses: number }>();
+
+  async get(key: string): Promise<LlmCacheEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(entry: Omit<LlmCacheEntry, "createdAt">, ttlMs: number): Promise<void> {
+    const now = Date.now();
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, { ...entry, createdAt: new Date(now), expiresAt: now + ttlMs });
+  }
+
+  async prune(namespace: string, maxEntries: number): Promise<number> {
+    const now = Date.now();
+    const kept = Array.from(this.entries.values()).filter((entry) => entry.namespace === namespace && entry.expiresAt > now);
+    const removed = Array.from(this.entries.values()).filter((entry) => entry.expiresAt <= now);
+
+    // The first entries of the namespace are the least recently used
+    removed.push(...kept.slice(0, Math.max(kept.length - maxEntries, 0)));
+    removed.forEach((entry) => this.entries.delete(entry.key));
+    return removed.length;
+  }
+
+  async invalidate(filter: LlmCacheFilter): Promise<number> {
+    const removed = Array.from(this.entries.values()).filter(
+      (entry) =>
+        (!filter.namespace || entry.namespace === filter.namespace) &&
+        (!filter.promptVersion || entry.promptVersion === filter.promptVersion) &&
+        (!filter.model || entry.model === filter.model)
+    );
+
+    removed.forEach((entry) => this.entries.delete(entry.key));
+    return removed.length;
+  }
+
+  async recordLookup(namespace: string, hit: boolean): Promise<void> {
+    const counts = this.lookups.get(namespace) || { hits: 0, misses: 0 };
+    if (hit) {
+      counts.hits++;
+    } else {
+      counts.misses++;
+    }
+    this.lookups.set(namespace, counts);
+  }
+
+  async stats(): Promise<LlmCacheStoreStats[]> {
+    const now = Date.now();
+    const namespaces = new Set(Array.from(this.lookups.keys()));
+    this.entries.forEach((entry) => namespaces.add(entry.namespace));
+
+    return Array.from(namespaces)
+      .sort()
+      .map((namespace) => {
+        const entries = Array.from(this.entries.values()).filter(
+          (entry) => entry.namespace === namespace && entry.expiresAt > now
+        );
+        const counts = this.lookups.get(namespace) || { hits: 0, misses: 0 };
+
+        return {
+          namespace,
+          entries: entries.length,
+          bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+          hits: counts.hits,
+          misses: counts.misses,
+        };
+      });
+  }
+}
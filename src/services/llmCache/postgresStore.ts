@@ -0,0 +1,56 @@
+/**
+ * Cache store in Postgres, shared by every app instance and kept across restarts
+ */
+import { LlmCacheEntryPg } from "@/models/postgres/LlmCacheEntry";
+import { LlmCacheEntry, LlmCacheFilter, LlmCacheStore, LlmCacheStoreStats } from "./types";
+
+export class PostgresLlmCacheStore implements LlmCacheStore {
+  readonly name = "postgres";
+
+  async get(key: string): Promise<LlmCacheEntry | null> {
+    const entry = await LlmCacheEntryPg.findAndTouch(key);
+    if (!entry) {
+      return null;
+    }
+
+    return {
+      key: entry.key,
+      namespace: entry.namespace,
+      promptVersion: entry.prompt_version,
+      model: entry.model,
+      value: entry.value,
+      size: entry.size,
+      createdAt: entry.created_at,
+    };
+  }
+
+  async set(entry: Omit<LlmCacheEntry, "createdAt">, ttlMs: number): Promise<void> {
+    await LlmCacheEntryPg.upsert(
+      {
+        key: entry.key,
+        namespace: entry.namespace,
+        prompt_version: entry.promptVersion,
+        model: entry.model,
+        value: entry.value,
+        size: entry.size,
+      },
+      ttlMs
+    );
+  }
+
+  prune(namespace: string, maxEntries: number): Promise<number> {
+    return LlmCacheEntryPg.prune(namespace, maxEntries);
+  }
+
+  invalidate(filter: LlmCacheFilter): Promise<number> {
+    return LlmCacheEntryPg.deleteMatching(filter);
+  }
+
+  recordLookup(namespace: string, hit: boolean): Promise<void> {
+    return LlmCacheEntryPg.recordLookup(namespace, hit);
+  }
+
+  stats(): Promise<LlmCacheStoreStats[]> {
+    return LlmCacheEntryPg.getStats();
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Shared types for stores of cached LLM results
+ */
+import type { LlmCacheFilter, LlmCacheStats } from "@/types/llmCache";
+
+export type { LlmCacheFilter, LlmCacheStats } from "@/types/llmCache";
+
+export interface LlmCacheEntry {
+  // Hash of everything the value depends on
+  key: string;
+  namespace: string;
+  promptVersion: string;
+  model: string;
+  value: unknown;
+  // Bytes of the serialized value
+  size: number;
+  createdAt: Date;
+}
+
+// Lookup counts and sizes of a namespace, as kept by a store
+export type LlmCacheStoreStats = Omit<LlmCacheStats, "hitRate">;
+
+/**
+ * A place to keep LLM results until they expire
+ */
+export interface LlmCacheStore {
+  readonly name: string;
+  // Resolves to null when nothing unexpired is stored under the key; a found entry counts as used
+  get(key: string): Promise<LlmCacheEntry | null>;
+  set(entry: Omit<LlmCacheEntry, "createdAt">, ttlMs: number): Promise<void>;
+  // Remove expired entries, and the least recently used of the namespace beyond maxEntries
+  prune(namespace: string, maxEntries: number): Promise<number>;
+  // Remove the entries matching the filter, all of them for an empty filter
+  invalidate(filter: LlmCacheFilter): Promise<number>;
+  recordLookup(namespace: string, hit: boolean): Promise<void>;
+  stats(): Promise<LlmCacheStoreStats[]>;
+}
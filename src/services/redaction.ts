@@ -0,0 +1,393 @@
+/**
+ * Redaction of personal information in transcripts. Detected details are
+ * replaced with tokens whose original values are stored encrypted in
+ * Postgres, so text can be stored and sent to a model without them and
+ * re-identified later for authorized viewers.
+ */
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from "crypto";
+import { RedactionTokenPg } from "@/models/postgres/RedactionToken";
+import { TranscriptionPg } from "@/models/postgres/Transcription";
+import type { RedactionEntity } from "@/types/redaction";
+import type { TranscriptionMetadata, TranscriptSegment, TranscriptWord } from "@/types/transcript";
+import {
+  detectPersonalInformation,
+  findRedactionTokens,
+  formatRedactionToken,
+  redactWords,
+  replaceEntities,
+  replaceRedactionTokens,
+  splitPartialRedactionToken,
+} from "@/utils/redaction";
+import { isListedUser, RequestUser } from "@/utils/requestUser";
+
+// Text with the words and speaker segments recognised in it
+export interface TranscriptContent {
+  text: string;
+  words?: TranscriptWord[];
+  segments?: TranscriptSegment[];
+}
+
+const DEFAULT_REDACTED_USER_TYPES = "General Practitioner";
+const CIPHER = "aes-256-gcm";
+
+let keys: { encryption: Buffer; token: Buffer; persistent: boolean } | null = null;
+
+/**
+ * Derive the encryption and token keys from REDACTION_ENCRYPTION_KEY. Without
+ * it, tokens use a key that lasts for this process and are not stored, so
+ * text is still redacted but cannot be re-identified.
+ */
+function getKeys(): { encryption: Buffer; token: Buffer; persistent: boolean } {
+  if (!keys) {
+    const configured = process.env.REDACTION_ENCRYPTION_KEY;
+
+    if (!configured) {
+      console.warn("REDACTION_ENCRYPTION_KEY is not set; redacted details cannot be re-identified");
+    }
+
+    const secret = configured || randomBytes(32).toString("hex");
+    keys = {
+      encryption: createHash("sha256").update(`encryption:${secret}`).digest(),
+      token: createHash("sha256").update(`token:${secret}`).digest(),
+      persistent: !!configured,
+    };
+  }
+
+  return keys;
+}
+
+/**
+ * Read the user types listed in REDACTION_USER_TYPES
+ */
+function getRedactedUserTypes(): string[] {
+  return (process.env.REDACTION_USER_TYPES ?? DEFAULT_REDACTED_USER_TYPES)
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check whether transcripts of a user type are redacted
+ * @param userType The transcript's user type
+ * @returns true for user types listed in REDACTION_USER_TYPES ("*" for all)
+ */
+export function shouldRedact(userType?: string | null): boolean {
+  const configured = getRedactedUserTypes();
+  return configured.includes("*") || (!!userType && configured.includes(userType));
+}
+
+/**
+ * Check whether transcripts of any user type are redacted
+ * @returns true unless REDACTION_USER_TYPES is empty
+ */
+export function isRedactionEnabled(): boolean {
+  return getRedactedUserTypes().length > 0;
+}
+
+/**
+ * Check whether text sent to an API route is redacted. The user type saved with
+ * the text's transcription decides, since a request's own user type is chosen by
+ * the caller; text that belongs to no transcription is redacted whenever
+ * redaction is enabled.
+ * @param transcriptionId The transcription the text comes from, if any
+ * @returns Whether to redact, or null when the transcription does not exist
+ */
+export async function shouldRedactRequest(transcriptionId?: unknown): Promise<boolean | null> {
+  if (typeof transcriptionId !== "number") {
+    return isRedactionEnabled();
+  }
+
+  const transcription = await TranscriptionPg.findById(transcriptionId);
+  return transcription ? shouldRedact(transcription.user_type) : null;
+}
+
+/**
+ * Check whether a user may see the details behind redaction tokens
+ * @param user The caller, as identified by getRequestUser
+ * @returns true for signed-in users listed in REDACTION_AUTHORIZED_USERS
+ */
+export function canReidentify(user: RequestUser): boolean {
+  return isListedUser(user, process.env.REDACTION_AUTHORIZED_USERS);
+}
+
+/**
+ * Encrypt a value as "iv.tag.ciphertext" in base64
+ */
+function encryptValue(value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, getKeys().encryption, iv);
+  const encrypted = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+}
+
+/**
+ * Decrypt a value produced by encryptValue
+ */
+function decryptValue(encrypted: string): string {
+  const [iv, tag, data] = encrypted.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv(CIPHER, getKeys().encryption, iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+}
+
+/**
+ * Assign tokens to entities and store the values of new ones
+ * @returns The token for each entity
+ */
+async function tokenize(entities: RedactionEntity[]): Promise<string[]> {
+  const { token: tokenKey, persistent } = getKeys();
+  const tokens = entities.map((entity) =>
+    formatRedactionToken(
+      entity.type,
+      createHmac("sha256", tokenKey)
+        .update(`${entity.type}:${entity.value.toLowerCase().replace(/\s+/g, " ")}`)
+        .digest("hex")
+    )
+  );
+
+  if (persistent) {
+    const unique = new Map<string, RedactionEntity>();
+    tokens.forEach((token, index) => unique.set(token, entities[index]));
+
+    await RedactionTokenPg.saveMany(
+      Array.from(unique.entries()).map(([token, entity]) => ({
+        token,
+        entity_type: entity.type,
+        encrypted_value: encryptValue(entity.value),
+      }))
+    );
+  }
+
+  return tokens;
+}
+
+/**
+ * Replace personal information in a text with tokens
+ * @param text The text to redact
+ * @returns The text with each detail replaced by its token
+ */
+export async function redactText(text: string): Promise<string> {
+  const entities = detectPersonalInformation(text);
+
+  if (entities.length === 0) {
+    return text;
+  }
+
+  return replaceEntities(text, entities, await tokenize(entities));
+}
+
+/**
+ * Apply a function to every string within a value
+ */
+async function mapStrings<T>(value: T, map: (text: string) => Promise<string> | string): Promise<T> {
+  if (typeof value === "string") {
+    return (await map(value)) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return (await Promise.all(value.map((item) => mapStrings(item, map)))) as T;
+  }
+
+  if (value && typeof value === "object") {
+    const entries = await Promise.all(
+      Object.entries(value).map(async ([key, item]) => [key, await mapStrings(item, map)] as const)
+    );
+    return Object.fromEntries(entries) as T;
+  }
+
+  return value;
+}
+
+/**
+ * Redact every string within a value, such as an artifact generated from a transcription
+ * @param value The value to redact
+ * @returns A copy with each string redacted
+ */
+export async function redactValue<T>(value: T): Promise<T> {
+  return mapStrings(value, redactText);
+}
+
+/**
+ * Redact a transcript along with its words and speaker segments
+ * @param content The transcript
+ * @returns The redacted transcript
+ */
+export async function redactTranscriptContent<T extends TranscriptContent>(content: T): Promise<T> {
+  const text = await redactText(content.text);
+  let words = content.words;
+  let segments = content.segments;
+
+  if (words && words.length > 0) {
+    const entities = detectPersonalInformation(words.map((word) => word.text).filter(Boolean).join(" "));
+    words = redactWords(words, entities, await tokenize(entities));
+  }
+
+  if (segments && segments.length > 0) {
+    segments = await Promise.all(
+      segments.map(async (segment) => ({ ...segment, text: await redactText(segment.text) }))
+    );
+  }
+
+  return { ...content, text, words, segments };
+}
+
+/**
+ * Redact a transcription before it is saved, including the words and
+ * speaker segments kept in its metadata
+ * @param transcription The text and metadata to save
+ * @returns The redacted text and metadata
+ */
+export async function redactTranscription<T extends { text: string; metadata?: TranscriptionMetadata }>(
+  transcription: T
+): Promise<T> {
+  const metadata = transcription.metadata;
+  const redacted = await redactTranscriptContent({
+    text: transcription.text,
+    words: metadata?.words,
+    segments: metadata?.diarization?.segments,
+  });
+
+  return {
+    ...transcription,
+    text: redacted.text,
+    metadata: metadata && {
+      ...metadata,
+      ...(redacted.words && { words: redacted.words }),
+      ...(redacted.segments && {
+        diarization: { ...metadata.diarization, segments: redacted.segments },
+      }),
+    },
+  };
+}
+
+/**
+ * Look up and decrypt the values behind tokens
+ * @returns Values keyed by token; unknown or undecryptable tokens are left out
+ */
+async function loadValues(tokens: string[]): Promise<Record<string, string>> {
+  const values: Record<string, string> = {};
+
+  if (tokens.length === 0 || !getKeys().persistent) {
+    return values;
+  }
+
+  const rows = await RedactionTokenPg.findByTokens(tokens);
+  rows.forEach((row) => {
+    try {
+      values[row.token] = decryptValue(row.encrypted_value);
+    } catch (error) {
+      console.error(`Error decrypting redaction token ${row.token}:`, error);
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Restore the details behind the tokens in a text
+ * @param text Text that may contain tokens
+ * @returns The text with known tokens replaced by their values
+ */
+export async function reidentifyText(text: string): Promise<string> {
+  const values = await loadValues(findRedactionTokens(text));
+  return replaceRedactionTokens(text, values);
+}
+
+/**
+ * Re-identify text that arrives in pieces, such as a streamed completion.
+ * A token split across pieces is held back until it is complete, and
+ * pieces are passed on in the order they were pushed.
+ * @param onText Called with each re-identified piece
+ * @returns push for each piece, and flush once the text is complete
+ */
+export function createStreamReidentifier(onText: (text: string) => void): {
+  push: (text: string) => void;
+  flush: () => Promise<void>;
+} {
+  let pending = "";
+  let queue = Promise.resolve();
+
+  const emit = (text: string) => {
+    queue = queue
+      .then(async () => {
+        if (text) onText(await reidentifyText(text));
+      })
+      .catch((error) => console.error("Error re-identifying streamed text:", error));
+  };
+
+  return {
+    push: (text) => {
+      const [ready, partial] = splitPartialRedactionToken(pending + text);
+      pending = partial;
+      emit(ready);
+    },
+    flush: () => {
+      emit(pending);
+      pending = "";
+      return queue;
+    },
+  };
+}
+
+/**
+ * Restore the details behind the tokens in every string within a value
+ * @param value A value that may contain tokens
+ * @returns A copy with known tokens replaced by their values
+ */
+export async function reidentifyValue<T>(value: T): Promise<T> {
+  const values = await loadValues(findRedactionTokens(JSON.stringify(value) ?? ""));
+
+  if (Object.keys(values).length === 0) {
+    return value;
+  }
+
+  return mapStrings(value, (text) => replaceRedactionTokens(text, values));
+}
+
+/**
+ * Restore the details in a saved transcription, its words and speaker segments
+ * @param transcription The saved transcription
+ * @returns The transcription with known tokens replaced by their values
+ */
+export async function reidentifyTranscription<T extends { text: string; metadata?: TranscriptionMetadata }>(
+  transcription: T
+): Promise<T> {
+  const metadata = transcription.metadata;
+  const words: TranscriptWord[] | undefined = metadata?.words;
+  const segments: TranscriptSegment[] | undefined = metadata?.diarization?.segments;
+  const values = await loadValues(
+    findRedactionTokens(
+      [
+        transcription.text,
+        ...(words || []).map((word) => word.text),
+        ...(segments || []).map((segment) => segment.text),
+      ].join(" ")
+    )
+  );
+
+  if (Object.keys(values).length === 0) {
+    return transcription;
+  }
+
+  return {
+    ...transcription,
+    text: replaceRedactionTokens(transcription.text, values),
+    metadata: metadata && {
+      ...metadata,
+      ...(words && {
+        words: words.map((word) => ({ ...word, text: replaceRedactionTokens(word.text, values) })),
+      }),
+      ...(segments && {
+        diarization: {
+          ...metadata.diarization,
+          segments: segments.map((segment) => ({
+            ...segment,
+            text: replaceRedactionTokens(segment.text, values),
+          })),
+        },
+      }),
+    },
+  };
+}
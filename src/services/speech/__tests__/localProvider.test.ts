@@ -0,0 +1,122 @@
+import { LocalProvider, parseAudio, scriptFromText } from '../localProvider';
+import type { SpeechProviderHandlers, TranscriptionResult } from '../types';
+
+/**
+ * Build a WAV file holding the given number of silent 16-bit samples
+ */
+function wav(samples: number, sampleRate = 8000, channels = 1): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples * 2);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) =>
+    tag.split('').forEach((char, index) => view.setUint8(offset + index, char.charCodeAt(0)));
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + samples * 2, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true);
+  view.setUint16(32, channels * 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, samples * 2, true);
+  return buffer;
+}
+
+function recordingHandlers(results: TranscriptionResult[], audio: ArrayBuffer[] = []): SpeechProviderHandlers {
+  return {
+    onOpen: jest.fn(),
+    onClose: jest.fn(),
+    onError: jest.fn(),
+    onTranscript: result => results.push(result),
+    onAudio: chunk => audio.push(chunk)
+  };
+}
+
+describe('scriptFromText', () => {
+  it('splits text into consecutive sentences timed by word count', () => {
+    const segments = scriptFromText('Hello there. How are you today?');
+
+    expect(segments.map(segment => segment.transcript)).toEqual(['Hello there.', 'How are you today?']);
+    expect(segments[0].start).toBe(0);
+    expect(segments[0].end).toBeCloseTo(0.8);
+    expect(segments[1].start).toBeCloseTo(0.8);
+    expect(segments[1].end).toBeCloseTo(2.4);
+  });
+});
+
+describe('parseAudio', () => {
+  it('reads the format and payload of a WAV file', () => {
+    const { format, data } = parseAudio(wav(100, 8000, 2));
+
+    expect(format).toEqual({ sampleRate: 8000, channels: 2, bitsPerSample: 16 });
+    expect(data.byteLength).toBe(200);
+  });
+
+  it('treats audio without a WAV header as raw PCM in the fallback format', () => {
+    const raw = new ArrayBuffer(64);
+    const { format, data } = parseAudio(raw, { sampleRate: 22050, channels: 1, bitsPerSample: 8 });
+
+    expect(format.sampleRate).toBe(22050);
+    expect(data).toBe(raw);
+  });
+});
+
+describe('LocalProvider', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('replays the script as interim and final results', async () => {
+    const provider = new LocalProvider({ script: 'One two three four.' });
+    const results: TranscriptionResult[] = [];
+    const handlers = recordingHandlers(results);
+
+    await provider.initialize();
+    await provider.connect({}, handlers);
+    jest.advanceTimersByTime(2000);
+
+    expect(handlers.onOpen).toHaveBeenCalled();
+    expect(results.some(result => !result.isFinal)).toBe(true);
+    const final = results.filter(result => result.isFinal);
+    expect(final).toHaveLength(1);
+    expect(final[0].transcript).toBe('One two three four.');
+    expect(final[0].words.map(word => word.word)).toEqual(['One', 'two', 'three', 'four.']);
+
+    provider.close();
+    expect(handlers.onClose).toHaveBeenCalled();
+  });
+
+  it('holds the replay while paused', async () => {
+    const provider = new LocalProvider({ script: 'One two.', emitInterim: false });
+    const results: TranscriptionResult[] = [];
+
+    await provider.initialize();
+    await provider.connect({}, recordingHandlers(results));
+    jest.advanceTimersByTime(0);
+    provider.pause();
+    jest.advanceTimersByTime(5000);
+    expect(results).toHaveLength(0);
+
+    provider.resume();
+    jest.advanceTimersByTime(1000);
+    expect(results).toHaveLength(1);
+    provider.close();
+  });
+
+  it('paces the replayed audio against the clock', async () => {
+    const provider = new LocalProvider({ script: 'Hi.', audio: wav(8000) });
+    const audio: ArrayBuffer[] = [];
+
+    await provider.initialize();
+    expect(provider.capturesAudio).toBe(true);
+    await provider.connect({}, recordingHandlers([], audio));
+    jest.advanceTimersByTime(500);
+
+    const bytes = audio.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+    expect(bytes).toBe(8000);
+    provider.close();
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * DeepGram live transcription provider.
+ * Connects straight to DeepGram's WebSocket API using a short-lived token
+ * issued by /api/transcription/socket, so the API key stays on the server.
+ */
+import {
+  SpeechProviderHandlers,
+  SpeechToTextProvider,
+  TranscriptionOptions,
+  TranscriptionResult,
+  TranscriptionWord,
+} from "./types";
+
+const TOKEN_ENDPOINT = "/api/transcription/socket";
+
+interface DeepgramCredentials {
+  socketUrl: string;
+  accessToken: string;
+  expiresAt: string;
+}
+
+// Subset of the DeepGram live "Results" message that we use
+interface DeepgramResultsMessage {
+  type: string;
+  is_final?: boolean;
+  channel?: {
+    alternatives?: Array<{
+      transcript: string;
+      confidence?: number;
+      words?: TranscriptionWord[];
+    }>;
+  };
+}
+
+/**
+ * Convert transcription options into DeepGram query parameters
+ */
+function toQueryString(options: TranscriptionOptions): string {
+  const params = new URLSearchParams();
+
+  Object.entries(options).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => params.append(key, String(item)));
+    } else {
+      params.append(key, String(value));
+    }
+  });
+
+  return params.toString();
+}
+
+// DeepGram closes connections that receive no audio for about ten seconds
+const KEEP_ALIVE_INTERVAL_MS = 5000;
+
+export class DeepgramProvider implements SpeechToTextProvider {
+  readonly name = "deepgram";
+  readonly capturesAudio = false;
+
+  private socket: WebSocket | null = null;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * Check that the server is able to issue DeepGram credentials
+   */
+  async initialize(): Promise<void> {
+    const response = await fetch(TOKEN_ENDPOINT, { method: "HEAD" });
+
+    if (!response.ok) {
+      throw new Error("DeepGram is not properly configured");
+    }
+  }
+
+  /**
+   * Open a live transcription connection with a freshly issued token
+   */
+  async connect(
+    options: TranscriptionOptions,
+    handlers: SpeechProviderHandlers
+  ): Promise<void> {
+    const credentials = await this.fetchCredentials();
+    const query = toQueryString(options);
+    const url = query ? `${credentials.socketUrl}?${query}` : credentials.socketUrl;
+
+    const socket = new WebSocket(url, ["bearer", credentials.accessToken]);
+    socket.binaryType = "arraybuffer";
+    this.socket = socket;
+
+    socket.onopen = () => {
+      handlers.onOpen();
+    };
+
+    socket.onclose = () => {
+      if (this.socket === socket) {
+        this.socket = null;
+      }
+      handlers.onClose();
+    };
+
+    socket.onerror = (event) => {
+      console.error("DeepGram error:", event);
+      handlers.onError(new Error("DeepGram connection error"));
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const data: DeepgramResultsMessage = JSON.parse(event.data);
+        if (data.type !== "Results") return;
+
+        const alternatives = data.channel?.alternatives;
+
+        if (alternatives && alternatives.length > 0) {
+          const transcript = alternatives[0].transcript;
+
+          if (transcript) {
+            const result: TranscriptionResult = {
+              transcript,
+              isFinal: !!data.is_final,
+              confidence: alternatives[0].confidence || 0,
+              words: alternatives[0].words || [],
+            };
+
+            handlers.onTranscript(result);
+          }
+        }
+      } catch (error) {
+        console.error("Error parsing DeepGram transcript:", error);
+      }
+    };
+  }
+
+  /**
+   * Forward an audio chunk to DeepGram
+   */
+  sendAudio(chunk: ArrayBuffer): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(chunk);
+    }
+  }
+
+  /**
+   * Flush pending results and send keep-alive messages until resumed
+   */
+  pause(): void {
+    this.resume();
+    this.sendControl("Finalize");
+    this.keepAliveTimer = setInterval(() => this.sendControl("KeepAlive"), KEEP_ALIVE_INTERVAL_MS);
+  }
+
+  /**
+   * Stop sending keep-alive messages
+   */
+  resume(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+  }
+
+  /**
+   * Ask DeepGram to flush any pending results and close the connection
+   */
+  close(): void {
+    this.resume();
+    if (!this.socket) return;
+
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: "CloseStream" }));
+    } else {
+      this.socket.close();
+    }
+  }
+
+  /**
+   * Send a control message on the open connection
+   */
+  private sendControl(type: "Finalize" | "KeepAlive"): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type }));
+    }
+  }
+
+  /**
+   * Request a short-lived token from our server
+   */
+  private async fetchCredentials(): Promise<DeepgramCredentials> {
+    const response = await fetch(TOKEN_ENDPOINT, { cache: "no-store" });
+    const data = await response.json().catch(() => ({}));
+
+    if (response.status === 429) {
+      throw new Error(
+        `Too many recording attempts. Please wait ${data.retryAfter || 60} seconds and try again.`
+      );
+    }
+
+    if (!response.ok || !data.accessToken) {
+      throw new Error(data.error || "Failed to obtain DeepGram credentials");
+    }
+
+    return data as DeepgramCredentials;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Speech-to-text provider selection
+ */
+import { DeepgramProvider } from "./deepgramProvider";
+import { LocalProvider } from "./localProvider";
+import { SpeechToTextProvider } from "./types";
+
+export * from "./types";
+export { DeepgramProvider } from "./deepgramProvider";
+export { LocalProvider, scriptFromText, parseAudio } from "./localProvider";
+export type { LocalProviderConfig, ScriptedSegment, PcmFormat } from "./localProvider";
+
+/**
+ * Create the provider named by NEXT_PUBLIC_SPEECH_PROVIDER (defaults to DeepGram)
+ */
+export function createSpeechProvider(
+  name: string = process.env.NEXT_PUBLIC_SPEECH_PROVIDER || "deepgram"
+): SpeechToTextProvider {
+  switch (name) {
+    case "local":
+      return new LocalProvider({
+        scriptUrl: process.env.NEXT_PUBLIC_LOCAL_SPEECH_SCRIPT_URL,
+        audioUrl: process.env.NEXT_PUBLIC_LOCAL_SPEECH_AUDIO_URL,
+      });
+    case "deepgram":
+      return new DeepgramProvider();
+    default:
+      console.warn(`Unknown speech provider "${name}", using DeepGram`);
+      return new DeepgramProvider();
+  }
+}
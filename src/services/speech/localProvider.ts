@@ -0,0 +1,335 @@
+/**
+ * Offline speech provider that replays a scripted transcript, optionally
+ * paced against a WAV or raw PCM recording. Used to exercise the recorder
+ * without network access or a live speech engine.
+ */
+import {
+  SpeechProviderHandlers,
+  SpeechToTextProvider,
+  TranscriptionOptions,
+  TranscriptionWord,
+} from "./types";
+
+export interface ScriptedSegment {
+  transcript: string;
+  start: number;
+  end: number;
+  confidence?: number;
+  speaker?: number;
+  words?: TranscriptionWord[];
+}
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+}
+
+export interface LocalProviderConfig {
+  // Scripted segments, or plain text that is split into timed sentences
+  script?: ScriptedSegment[] | string;
+  // URL of a JSON file containing the script
+  scriptUrl?: string;
+  // WAV or raw PCM audio to replay alongside the script
+  audio?: ArrayBuffer;
+  audioUrl?: string;
+  // Format used when the audio has no WAV header
+  pcmFormat?: PcmFormat;
+  // Values above 1 replay faster than real time
+  playbackRate?: number;
+  // Emit word-by-word interim results before each final segment
+  emitInterim?: boolean;
+}
+
+const TICK_MS = 100;
+const SECONDS_PER_WORD = 0.4;
+const DEFAULT_PCM_FORMAT: PcmFormat = {
+  sampleRate: 16000,
+  channels: 1,
+  bitsPerSample: 16,
+};
+
+/**
+ * Split plain text into sentence segments timed at a steady speaking rate
+ */
+export function scriptFromText(text: string): ScriptedSegment[] {
+  const sentences = text.match(/[^.!?]+[.!?]*/g) || [];
+  const segments: ScriptedSegment[] = [];
+  let cursor = 0;
+
+  for (const sentence of sentences) {
+    const transcript = sentence.trim();
+    if (!transcript) continue;
+
+    const duration = transcript.split(/\s+/).length * SECONDS_PER_WORD;
+    segments.push({ transcript, start: cursor, end: cursor + duration });
+    cursor += duration;
+  }
+
+  return segments;
+}
+
+/**
+ * Spread a segment's words evenly across its time range
+ */
+function timeWords(segment: ScriptedSegment): TranscriptionWord[] {
+  if (segment.words && segment.words.length > 0) {
+    return segment.words;
+  }
+
+  const tokens = segment.transcript.split(/\s+/).filter(Boolean);
+  const step = (segment.end - segment.start) / Math.max(tokens.length, 1);
+
+  return tokens.map((word, index) => ({
+    word,
+    start: segment.start + index * step,
+    end: segment.start + (index + 1) * step,
+    confidence: segment.confidence ?? 1,
+    speaker: segment.speaker,
+  }));
+}
+
+/**
+ * Locate the PCM payload and its format, reading the WAV header if present
+ */
+export function parseAudio(
+  buffer: ArrayBuffer,
+  fallbackFormat: PcmFormat = DEFAULT_PCM_FORMAT
+): { format: PcmFormat; data: ArrayBuffer } {
+  const view = new DataView(buffer);
+  const tag = (offset: number) =>
+    String.fromCharCode(
+      view.getUint8(offset),
+      view.getUint8(offset + 1),
+      view.getUint8(offset + 2),
+      view.getUint8(offset + 3)
+    );
+
+  if (buffer.byteLength < 12 || tag(0) !== "RIFF" || tag(8) !== "WAVE") {
+    return { format: fallbackFormat, data: buffer };
+  }
+
+  let format = fallbackFormat;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.byteLength) {
+    const chunkId = tag(offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === "fmt ") {
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (chunkId === "data") {
+      const end = Math.min(body + chunkSize, buffer.byteLength);
+      return { format, data: buffer.slice(body, end) };
+    }
+
+    // Chunks are padded to an even number of bytes
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error("WAV file has no data chunk");
+}
+
+export class LocalProvider implements SpeechToTextProvider {
+  readonly name = "local";
+
+  private config: LocalProviderConfig;
+  private segments: ScriptedSegment[] = [];
+  private audio: { format: PcmFormat; data: ArrayBuffer } | null = null;
+  private handlers: SpeechProviderHandlers | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private clock = 0;
+  private nextSegment = 0;
+  private audioOffset = 0;
+  private receivedBytes = 0;
+  private paused = false;
+
+  constructor(config: LocalProviderConfig = {}) {
+    this.config = config;
+  }
+
+  get capturesAudio(): boolean {
+    return !!(this.config.audio || this.config.audioUrl);
+  }
+
+  /**
+   * Number of audio bytes received through sendAudio since connecting
+   */
+  get bytesReceived(): number {
+    return this.receivedBytes;
+  }
+
+  /**
+   * Load the script and audio
+   */
+  async initialize(): Promise<void> {
+    let script = this.config.script;
+
+    if (!script && this.config.scriptUrl) {
+      const response = await fetch(this.config.scriptUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to load transcript script: ${response.status}`);
+      }
+      script = await response.json();
+    }
+
+    this.segments =
+      typeof script === "string" ? scriptFromText(script) : [...(script || [])];
+    this.segments.sort((a, b) => a.start - b.start);
+
+    let audio = this.config.audio;
+
+    if (!audio && this.config.audioUrl) {
+      const response = await fetch(this.config.audioUrl);
+      if (!response.ok) {
+        throw new Error(`Failed to load replay audio: ${response.status}`);
+      }
+      audio = await response.arrayBuffer();
+    }
+
+    this.audio = audio ? parseAudio(audio, this.config.pcmFormat) : null;
+  }
+
+  /**
+   * Start replaying the script (and audio) on a timer
+   */
+  async connect(
+    options: TranscriptionOptions,
+    handlers: SpeechProviderHandlers
+  ): Promise<void> {
+    this.close();
+
+    this.handlers = handlers;
+    this.clock = 0;
+    this.nextSegment = 0;
+    this.audioOffset = 0;
+    this.receivedBytes = 0;
+    this.paused = false;
+
+    // Open asynchronously, like a real socket
+    setTimeout(() => {
+      if (this.handlers !== handlers) return;
+      handlers.onOpen();
+      this.startTimer();
+    }, 0);
+  }
+
+  /**
+   * Hold the replay clock until resumed
+   */
+  pause(): void {
+    this.paused = true;
+    this.stopTimer();
+  }
+
+  /**
+   * Continue the replay from where it was paused
+   */
+  resume(): void {
+    this.paused = false;
+    if (this.handlers && !this.timer) {
+      this.startTimer();
+    }
+  }
+
+  /**
+   * Audio is accepted but not recognised
+   */
+  sendAudio(chunk: ArrayBuffer): void {
+    this.receivedBytes += chunk.byteLength;
+  }
+
+  /**
+   * Stop the replay and report the connection as closed
+   */
+  close(): void {
+    this.stopTimer();
+
+    const handlers = this.handlers;
+    this.handlers = null;
+
+    if (handlers) {
+      handlers.onClose();
+    }
+  }
+
+  /**
+   * Tick at the configured playback rate, unless paused
+   */
+  private startTimer(): void {
+    if (this.paused) return;
+    const playbackRate = this.config.playbackRate || 1;
+    this.timer = setInterval(() => this.tick(), TICK_MS / playbackRate);
+  }
+
+  /**
+   * Stop the replay timer
+   */
+  private stopTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Advance the replay clock by one tick
+   */
+  private tick(): void {
+    const handlers = this.handlers;
+    if (!handlers) return;
+
+    this.clock += TICK_MS / 1000;
+
+    if (this.audio && handlers.onAudio) {
+      const { format, data } = this.audio;
+      const bytesPerSecond =
+        format.sampleRate * format.channels * (format.bitsPerSample / 8);
+      const end = Math.min(
+        Math.floor(this.clock * bytesPerSecond),
+        data.byteLength
+      );
+
+      if (end > this.audioOffset) {
+        handlers.onAudio(data.slice(this.audioOffset, end));
+        this.audioOffset = end;
+      }
+    }
+
+    while (this.nextSegment < this.segments.length) {
+      const segment = this.segments[this.nextSegment];
+      const words = timeWords(segment);
+
+      if (this.clock >= segment.end) {
+        handlers.onTranscript({
+          transcript: segment.transcript,
+          isFinal: true,
+          confidence: segment.confidence ?? 1,
+          words,
+        });
+        this.nextSegment++;
+        continue;
+      }
+
+      if (this.config.emitInterim !== false && this.clock >= segment.start) {
+        const spoken = words.filter((word) => word.end <= this.clock);
+
+        if (spoken.length > 0) {
+          handlers.onTranscript({
+            transcript: spoken.map((word) => word.word).join(" "),
+            isFinal: false,
+            confidence: segment.confidence ?? 1,
+            words: spoken,
+          });
+        }
+      }
+
+      break;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Shared types for speech-to-text providers
+ */
+
+export interface TranscriptionWord {
+  word: string;
+  start: number;
+  end: number;
+  confidence: number;
+  // Present when diarization is enabled
+  speaker?: number;
+  punctuated_word?: string;
+  // Present when the provider detects the language per word
+  language?: string;
+}
+
+export interface TranscriptionResult {
+  transcript: string;
+  isFinal: boolean;
+  confidence: number;
+  words: TranscriptionWord[];
+}
+
+export type TranscriptionStatus =
+  | "connecting"
+  | "connected"
+  | "disconnected"
+  | "recording"
+  // Connection dropped mid-recording; audio is being buffered
+  | "reconnecting"
+  // Reconnected and replaying buffered audio
+  | "catching-up"
+  // Capture paused; the connection is kept open
+  | "paused"
+  | "error";
+
+/**
+ * Options passed to a provider when a connection is opened.
+ * Providers ignore options they do not understand.
+ */
+export interface TranscriptionOptions {
+  language?: string;
+  punctuate?: boolean;
+  smart_format?: boolean;
+  diarize?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * Handlers a provider calls while a connection is open
+ */
+export interface SpeechProviderHandlers {
+  onOpen: () => void;
+  onClose: () => void;
+  onTranscript: (result: TranscriptionResult) => void;
+  onError: (error: Error) => void;
+  // Only called by providers that capture their own audio
+  onAudio?: (chunk: ArrayBuffer) => void;
+}
+
+/**
+ * A speech-to-text engine that accepts streamed audio and reports
+ * interim and final transcription results.
+ */
+export interface SpeechToTextProvider {
+  readonly name: string;
+  // When true the provider supplies its own audio and no microphone is opened
+  readonly capturesAudio: boolean;
+  initialize(): Promise<void>;
+  connect(options: TranscriptionOptions, handlers: SpeechProviderHandlers): Promise<void>;
+  sendAudio(chunk: ArrayBuffer): void;
+  // Optional: keep the connection usable while no audio is sent
+  pause?(): void;
+  resume?(): void;
+  close(): void;
+}
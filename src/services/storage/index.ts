@@ -0,0 +1,38 @@
+/**
+ * Storage adapter selection
+ */
+import path from "path";
+import { LocalFileStorage } from "./localFileStorage";
+import { StorageAdapter } from "./types";
+
+export * from "./types";
+export { LocalFileStorage } from "./localFileStorage";
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * Create the adapter named by STORAGE_PROVIDER (defaults to the local filesystem)
+ */
+export function createStorageAdapter(
+  name: string = process.env.STORAGE_PROVIDER || "local"
+): StorageAdapter {
+  const root = process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), "storage");
+
+  switch (name) {
+    case "local":
+      return new LocalFileStorage(root);
+    default:
+      console.warn(`Unknown storage provider "${name}", using local filesystem`);
+      return new LocalFileStorage(root);
+  }
+}
+
+/**
+ * Get the shared storage adapter, creating it on first use
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = createStorageAdapter();
+  }
+  return storage;
+}
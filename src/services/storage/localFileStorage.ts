@@ -0,0 +1,79 @@
+/**
+ * Storage adapter that keeps objects on the local filesystem.
+ * The content type is written to a sidecar file next to each object.
+ */
+import { promises as fs } from "fs";
+import path from "path";
+import { StorageAdapter, StoredObject } from "./types";
+
+const META_SUFFIX = ".meta.json";
+
+export class LocalFileStorage implements StorageAdapter {
+  readonly name = "local";
+
+  private root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  /**
+   * Write an object, replacing any existing one under the same key
+   */
+  async save(key: string, data: Buffer, contentType: string): Promise<void> {
+    const filePath = this.resolve(key);
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    await fs.writeFile(filePath + META_SUFFIX, JSON.stringify({ contentType }));
+  }
+
+  /**
+   * Read an object and its content type
+   */
+  async read(key: string): Promise<StoredObject | null> {
+    const filePath = this.resolve(key);
+
+    try {
+      const data = await fs.readFile(filePath);
+      const meta = await fs
+        .readFile(filePath + META_SUFFIX, "utf8")
+        .then((raw) => JSON.parse(raw))
+        .catch(() => ({}));
+
+      return {
+        data,
+        contentType: meta.contentType || "application/octet-stream",
+        size: data.byteLength,
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove an object if it exists
+   */
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+
+    await fs.rm(filePath, { force: true });
+    await fs.rm(filePath + META_SUFFIX, { force: true });
+  }
+
+  /**
+   * Map a key to a path inside the storage root, rejecting keys that escape it
+   */
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    return filePath;
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Shared types for binary object storage (recorded audio, exports)
+ */
+
+export interface StoredObject {
+  data: Buffer;
+  contentType: string;
+  size: number;
+}
+
+/**
+ * A place to keep binary objects addressed by a slash-separated key
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when nothing is stored under the key
+  read(key: string): Promise<StoredObject | null>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,157 @@
+/**
+ * Lecture summaries: the summary itself, summarized in segments for long
+ * transcripts, and the topics, key points and questions drawn from it
+ */
+import type { PromptDefinition, RenderedPrompt } from '@/types/prompt';
+import { generateChatCompletion, parseJsonResponse } from '@/utils/openai';
+import { getPromptId, renderPrompt, selectPrompt } from '@/utils/prompts';
+import { countTokens } from '@/utils/tokens';
+import { ChatCompletion, getLlm, mapReduce } from '@/services/llm';
+
+// Use the latest optimized model; the one that answered is recorded with the summary
+const SUMMARY_MODEL = "gpt-3.5-turbo-0125";
+
+// Reply limit for the summary of the transcript or of one of its segments
+const SUMMARY_MAX_TOKENS = 400;
+// The "PART n:" label before each summary in a merge request
+const PART_LABEL_TOKENS = 5;
+
+// Registry prompts a summary is generated with, chosen once per request
+export interface SummaryPrompts {
+  summary: PromptDefinition;
+  part: PromptDefinition;
+  merge: PromptDefinition;
+  topics: PromptDefinition;
+  keyPoints: PromptDefinition;
+  questions: PromptDefinition;
+}
+
+/**
+ * Choose the version of each summary prompt for a request
+ */
+export function selectSummaryPrompts(): SummaryPrompts {
+  return {
+    summary: selectPrompt('summary'),
+    part: selectPrompt('summary.part'),
+    merge: selectPrompt('summary.merge'),
+    topics: selectPrompt('summary.topics'),
+    keyPoints: selectPrompt('summary.key-points'),
+    questions: selectPrompt('summary.questions')
+  };
+}
+
+/**
+ * Build the messages for a rendered prompt, adding the language and redaction instructions
+ */
+function toMessages({ systemPrompt, userPrompt }: RenderedPrompt, languageInstruction: string): Array<{ role: 'system' | 'user'; content: string }> {
+  return [
+    { role: "system", content: systemPrompt + languageInstruction },
+    { role: "user", content: userPrompt }
+  ];
+}
+
+/**
+ * Summarize a lecture transcript of any length. Transcripts too long for one
+ * request are summarized in segments whose summaries are then combined.
+ * @returns The completion holding the summary, with the model that produced it
+ */
+export async function summarizeTranscript(
+  text: string,
+  prompts: SummaryPrompts,
+  languageInstruction: string,
+  onDelta?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<ChatCompletion> {
+  // Only the request whose reply is the final summary is streamed
+  const request = (prompt: RenderedPrompt, final: boolean) => getLlm().chat(toMessages(prompt, languageInstruction), {
+    model: SUMMARY_MODEL,
+    temperature: 0.3, // Lower temperature for faster, more deterministic responses
+    maxTokens: SUMMARY_MAX_TOKENS, // Limit token count
+    ...(final && { onDelta }),
+    signal
+  });
+  // Tokens a prompt takes up before the text is added
+  const promptTokens = (prompt: RenderedPrompt) =>
+    countTokens(prompt.systemPrompt + prompt.userPrompt + languageInstruction, SUMMARY_MODEL) + SUMMARY_MAX_TOKENS;
+
+  return mapReduce<ChatCompletion>(text, {
+    model: SUMMARY_MODEL,
+    mapReservedTokens: Math.max(
+      promptTokens(renderPrompt(prompts.summary, { text: '' })),
+      promptTokens(renderPrompt(prompts.part, { text: '', part: 0, parts: 0 }))
+    ),
+    reduceReservedTokens: promptTokens(renderPrompt(prompts.merge, { summaries: '', length: ' in 2-3 paragraphs' })),
+    map: (segment, part, parts) => parts === 1
+      ? request(renderPrompt(prompts.summary, { text: segment }), true)
+      : request(renderPrompt(prompts.part, { text: segment, part, parts }), false),
+    reduce: (summaries, final) => request(renderPrompt(prompts.merge, {
+      summaries: summaries.map((summary, index) => `PART ${index + 1}:\n${summary.content}`).join('\n\n'),
+      length: final ? ' in 2-3 paragraphs' : ''
+    }), final),
+    size: (summary) => countTokens(summary.content, SUMMARY_MODEL) + PART_LABEL_TOKENS,
+    signal
+  });
+}
+
+/**
+ * Get the prompt versions a summary was generated with, as recorded with it
+ * @param prompts The prompts chosen for the request
+ * @returns Their ids, comma separated
+ */
+export function getSummaryPromptVersion(prompts: SummaryPrompts): string {
+  return Object.values(prompts).map(getPromptId).join(',');
+}
+
+/**
+ * Extract the key topics of a lecture from its summary
+ * @returns Up to five topics, and whether the model answered with the JSON array it was asked for
+ */
+export async function extractTopics(
+  summary: string,
+  prompts: SummaryPrompts,
+  languageInstruction: string
+): Promise<{ topics: string[]; validJson: boolean }> {
+  const topicsContent = await generateChatCompletion(toMessages(renderPrompt(prompts.topics, { summary }), languageInstruction), {
+    model: SUMMARY_MODEL,
+    temperature: 0.3, // Lower temperature for faster responses
+    max_tokens: 100 // Limit token count
+  });
+
+  // Parse topics with fallback handling
+  let topics = parseJsonResponse<string[]>(topicsContent, []);
+  const validJson = Array.isArray(topics) && topics.length > 0;
+
+  // If parsing fails, try to extract topics manually
+  if (!validJson) {
+    topics = topicsContent
+      .replace(/[\[\]"]/g, '')
+      .split(',')
+      .map(t => t.trim())
+      .filter(t => t.length > 0);
+  }
+
+  // Limit to 5 topics maximum
+  return { topics: topics.slice(0, 5).map(String), validJson };
+}
+
+/**
+ * Extract the key points of a lecture from its summary, one per line starting with a dash
+ */
+export async function extractKeyPoints(summary: string, prompts: SummaryPrompts, languageInstruction: string): Promise<string> {
+  return generateChatCompletion(toMessages(renderPrompt(prompts.keyPoints, { summary }), languageInstruction), {
+    model: SUMMARY_MODEL,
+    temperature: 0.3, // Lower temperature for faster responses
+    max_tokens: 200 // Limit token count
+  });
+}
+
+/**
+ * Generate sample questions about a lecture from its summary, one per numbered line
+ */
+export async function generateSampleQuestions(summary: string, prompts: SummaryPrompts, languageInstruction: string): Promise<string> {
+  return generateChatCompletion(toMessages(renderPrompt(prompts.questions, { summary }), languageInstruction), {
+    model: SUMMARY_MODEL,
+    temperature: 0.7, // Higher temperature for more creative questions
+    max_tokens: 250 // Limit token count
+  });
+}
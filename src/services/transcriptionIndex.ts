@@ -0,0 +1,117 @@
+/**
+ * Keeps the embedded chunks of saved transcriptions up to date so they can
+ * be found with semantic search. Transcriptions to index are kept in a queue
+ * in Postgres, so none is lost when a process stops part-way; failures are
+ * retried up to MAX_ATTEMPTS times. The queue is worked through after the
+ * response that queued a transcription, and by `npm run index:transcriptions`.
+ */
+import { TranscriptionPg } from "@/models/postgres/Transcription";
+import { TranscriptionChunkPg } from "@/models/postgres/TranscriptionChunk";
+import { TranscriptionIndexJobPg } from "@/models/postgres/TranscriptionIndexJob";
+import { generateEmbedding } from "@/services/embedding";
+import { generateChunks } from "@/utils/text";
+
+const CHUNK_SIZE = 1000;
+const OVERLAP_SIZE = 200;
+
+export const MAX_INDEX_ATTEMPTS = 5;
+// Long enough to embed a long transcription; a worker that stops part-way releases it after this
+const LOCK_SECONDS = 300;
+// Wait before retrying a failed transcription, multiplied by the attempts made
+const RETRY_DELAY_SECONDS = 60;
+
+export interface IndexQueueResult {
+  indexed: number;
+  failed: number;
+}
+
+let running: Promise<IndexQueueResult> | null = null;
+let requested = false;
+
+/**
+ * Queue a transcription to be (re)indexed. The request is saved before this
+ * returns; call processTranscriptionIndexQueue to work through it.
+ * Failures are logged rather than thrown, as the transcription itself is saved.
+ */
+export async function enqueueTranscriptionIndexing(transcriptionId: number): Promise<void> {
+  try {
+    await TranscriptionIndexJobPg.enqueue(transcriptionId);
+  } catch (error) {
+    console.error(`Failed to queue transcription ${transcriptionId} for indexing:`, error);
+  }
+}
+
+/**
+ * Index queued transcriptions one at a time until none is waiting. Only one
+ * run works through the queue in each process; calls during a run join it,
+ * and it checks the queue again before finishing.
+ * @returns How many transcriptions were indexed and how many failed
+ */
+export function processTranscriptionIndexQueue(): Promise<IndexQueueResult> {
+  requested = true;
+
+  if (!running) {
+    running = drainQueue().finally(() => {
+      running = null;
+    });
+  }
+
+  return running;
+}
+
+async function drainQueue(): Promise<IndexQueueResult> {
+  const result: IndexQueueResult = { indexed: 0, failed: 0 };
+
+  while (requested) {
+    requested = false;
+
+    for (
+      let job = await TranscriptionIndexJobPg.claimNext(MAX_INDEX_ATTEMPTS, LOCK_SECONDS);
+      job;
+      job = await TranscriptionIndexJobPg.claimNext(MAX_INDEX_ATTEMPTS, LOCK_SECONDS)
+    ) {
+      try {
+        await indexTranscription(job.transcription_id);
+        await TranscriptionIndexJobPg.complete(job);
+        result.indexed++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        console.error(`Failed to index transcription ${job.transcription_id} (attempt ${job.attempts}):`, error);
+        await TranscriptionIndexJobPg.fail(job, message, RETRY_DELAY_SECONDS * job.attempts);
+        result.failed++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Chunk and embed a transcription's current text, replacing its previous
+ * chunks. They are kept when the transcription cannot be embedded.
+ * @throws When embedding or saving the chunks fails
+ */
+export async function indexTranscription(transcriptionId: number): Promise<void> {
+  const transcription = await TranscriptionPg.findById(transcriptionId);
+
+  if (!transcription) {
+    return;
+  }
+
+  const chunks = generateChunks(transcription.text, CHUNK_SIZE, OVERLAP_SIZE).filter(Boolean);
+  const embedded = [];
+
+  // One at a time to stay within embedding rate limits
+  for (const content of chunks) {
+    const embedding = await generateEmbedding(content);
+
+    // generateEmbedding falls back to a zero vector, which would match nothing
+    if (embedding.every((value) => value === 0)) {
+      throw new Error("The embedding provider returned no embedding");
+    }
+
+    embedded.push({ content, embedding });
+  }
+
+  await TranscriptionChunkPg.replaceForTranscription(transcriptionId, embedded);
+}
@@ -0,0 +1,33 @@
+import type { ClinicalNote } from './clinicalNote';
+
+// Structured parts of a lecture summary, kept alongside the summary text
+export interface SummaryArtifactData {
+  topics: string[];
+  keyPoints: string;
+  sampleQuestions: string;
+}
+
+// Structured output saved with an artifact's text
+export type ArtifactData = SummaryArtifactData | ClinicalNote;
+
+// One saved version of an output generated from a transcription
+export interface TranscriptionArtifact {
+  id: number;
+  transcription_id: number;
+  // Output format such as "SOAP", or "Lecture Summary"
+  artifact_type: string;
+  // Numbered from 1 for each transcription and artifact type
+  version: number;
+  content: string;
+  data?: ArtifactData | null;
+  model?: string | null;
+  prompt_version?: string | null;
+  created_by?: string | null;
+  created_at: string;
+}
+
+// A run of lines in a diff between two versions
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  lines: string[];
+}
@@ -0,0 +1,55 @@
+// Output formats produced as structured clinical notes
+export type ClinicalNoteFormat = 'SOAP' | 'Clinical Summary';
+
+// A headed section of the note, such as "Subjective"
+export interface ClinicalNoteSection {
+  heading: string;
+  content: string;
+}
+
+export type ProblemStatus = 'active' | 'chronic' | 'resolved' | 'suspected';
+
+export interface ClinicalProblem {
+  name: string;
+  status: ProblemStatus;
+  notes?: string;
+}
+
+export interface Medication {
+  name: string;
+  dose?: string;
+  frequency?: string;
+  route?: string;
+  instructions?: string;
+}
+
+// Vital signs as stated, keeping their units (e.g. "120/80 mmHg")
+export interface Vitals {
+  bloodPressure?: string;
+  heartRate?: string;
+  temperature?: string;
+  respiratoryRate?: string;
+  oxygenSaturation?: string;
+  weight?: string;
+}
+
+export interface FollowUp {
+  timeframe?: string;
+  instructions?: string;
+}
+
+// A SOAP note or clinical summary, stored as the data of its artifact
+export interface ClinicalNote {
+  format: ClinicalNoteFormat;
+  sections: ClinicalNoteSection[];
+  problems: ClinicalProblem[];
+  medications: Medication[];
+  vitals: Vitals;
+  followUp: FollowUp | null;
+}
+
+// Result of checking a value against the clinical note schema
+export interface ClinicalNoteValidation {
+  note: ClinicalNote | null;
+  errors: string[];
+}
@@ -0,0 +1,25 @@
+// File formats a transcription or artifact can be exported to
+export type ExportFormat = 'pdf' | 'docx' | 'md' | 'txt' | 'srt' | 'vtt';
+
+// A block of an exported document
+export interface ExportBlock {
+  type: 'heading' | 'paragraph' | 'bullet';
+  text: string;
+  // Heading level, 1 for the largest
+  level?: number;
+}
+
+// Content to render into an export file, independent of the file format
+export interface ExportDocument {
+  title: string;
+  // Lines shown under the title, such as the date and user type
+  details: string[];
+  blocks: ExportBlock[];
+}
+
+// A subtitle shown between two times (seconds)
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
@@ -0,0 +1,17 @@
+// How a template's output is written and displayed
+export type TemplateOutputType = 'text' | 'markdown' | 'html';
+
+// A user-defined output format, offered alongside the built-in formats
+export interface FormatTemplate {
+  id: number;
+  // Owner of a personal template; null for templates shared with everyone
+  user_id: string | null;
+  name: string;
+  system_prompt: string;
+  // Headings the output is organized under, in order
+  sections: string[];
+  output_type: TemplateOutputType;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,18 @@
+// Selects cached LLM results to invalidate; every field given must match
+export interface LlmCacheFilter {
+  namespace?: string;
+  promptVersion?: string;
+  model?: string;
+}
+
+// How the cache is used for one namespace, e.g. "format"
+export interface LlmCacheStats {
+  namespace: string;
+  // Unexpired entries and the bytes of their values
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  // Share of lookups that found a result; null before the first lookup
+  hitRate: number | null;
+}
@@ -0,0 +1,21 @@
+// A named prompt at one version, as kept in the prompt registry
+export interface PromptDefinition {
+  // Shared by every version of the prompt, e.g. "format.soap"
+  name: string;
+  version: number;
+  // Message templates; {{variable}} placeholders are filled in when the prompt is rendered
+  system: string;
+  user?: string;
+}
+
+export interface RenderedPrompt {
+  // Name and version, as recorded with generated outputs, e.g. "format.soap@1"
+  id: string;
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+// Relative weights of the versions of a prompt being compared, keyed by version
+export type PromptExperiment = Record<string, number>;
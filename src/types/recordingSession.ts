@@ -0,0 +1,49 @@
+import type { SectionMarker, TranscriptSegment, TranscriptWord } from './transcript';
+
+export type RecordingSessionStatus = 'recording' | 'paused' | 'completed';
+
+// Boundary of one uninterrupted stretch of a session, from start or resume to pause or stop
+export interface RecordingSegment {
+  index: number;
+  startedAt: string;
+  endedAt: string;
+  // Seconds of audio captured in the segment
+  duration: number;
+  // Seconds into the session at which the segment starts
+  offset: number;
+  // Character range of the segment within the transcription text
+  textStart: number;
+  textEnd: number;
+}
+
+// A finished segment as reported by the recorder; times are relative to the segment start
+export interface RecordedSegment {
+  text: string;
+  words: TranscriptWord[];
+  speakerSegments: TranscriptSegment[];
+  sections?: SectionMarker[];
+  startedAt: string;
+  endedAt: string;
+  duration: number;
+  language?: string | null;
+}
+
+export interface RecordingSessionOptions {
+  language?: string;
+  diarize?: boolean;
+}
+
+export interface RecordingSession {
+  id: number;
+  status: RecordingSessionStatus;
+  userType: string | null;
+  purpose: string | null;
+  options: RecordingSessionOptions;
+  transcriptionId: number | null;
+  segments: RecordingSegment[];
+  // Total seconds recorded across all segments
+  duration: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
@@ -0,0 +1,11 @@
+// Kinds of personal information replaced by tokens before text is stored or sent to a model
+export type RedactionEntityType = 'name' | 'date_of_birth' | 'phone' | 'address' | 'identifier' | 'email';
+
+// Personal information found in a text
+export interface RedactionEntity {
+  type: RedactionEntityType;
+  value: string;
+  // Character range of the value in the text
+  start: number;
+  end: number;
+}
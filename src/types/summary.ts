@@ -35,3 +35,17 @@ export interface SummaryResponse {
   additionalResources: any[];
   resources: Resources;
 }
+
+// Running summary kept while a lecture is still being recorded
+export interface LiveSummary {
+  sessionId: string;
+  summary: string;
+  topics: string[];
+  keyPoints: string[];
+  // Number of transcript deltas folded into the summary so far
+  updates: number;
+  updatedAt: string;
+  // Model and prompt version ("summary.live@1") that produced the latest update
+  model?: string;
+  promptVersion?: string;
+}
@@ -0,0 +1,61 @@
+import type { RecordingSegment } from './recordingSession';
+
+export interface TranscriptSegment {
+  speaker: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface DiarizationMetadata {
+  segments: TranscriptSegment[];
+  // Display names keyed by speaker number
+  speakerNames: Record<string, string>;
+}
+
+// A recognised word with its position in the recorded audio (seconds)
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
+  speaker?: number;
+  // Set once a user has corrected the recognised text
+  corrected?: boolean;
+}
+
+// Start of a section announced by voice command during recording
+export interface SectionMarker {
+  section: string;
+  // Character offset in the transcription text where the section starts
+  offset: number;
+  // Seconds into the recording
+  time: number;
+}
+
+// A single word replaced during review
+export interface WordCorrection {
+  index: number;
+  from: string;
+  to: string;
+}
+
+export interface AudioMetadata {
+  // Storage key of the recorded audio
+  key: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+}
+
+// Details saved alongside a transcription's text
+export interface TranscriptionMetadata {
+  words?: TranscriptWord[];
+  diarization?: DiarizationMetadata;
+  sections?: SectionMarker[];
+  recordingSegments?: RecordingSegment[];
+  audio?: AudioMetadata;
+  // Spoken language code
+  language?: string;
+  [key: string]: unknown;
+}
@@ -0,0 +1,20 @@
+export type VocabularyScope = 'user_type' | 'user';
+
+export type VocabularyKind = 'keyword' | 'substitution';
+
+export interface KeywordBoost {
+  term: string;
+  // DeepGram intensifier; higher values favour the term more strongly
+  boost: number;
+}
+
+export interface Substitution {
+  term: string;
+  replacement: string;
+}
+
+// Vocabulary in effect for a recording, with user entries overriding user type entries
+export interface ActiveVocabulary {
+  keywords: KeywordBoost[];
+  substitutions: Substitution[];
+}
@@ -0,0 +1,22 @@
+export type VoiceCommandAction = 'section' | 'pause' | 'stop' | 'format';
+
+export interface VoiceCommandDefinition {
+  // Trigger phrase; "{value}" stands for one of `values`, or any single word when none are given
+  phrase: string;
+  action: VoiceCommandAction;
+  values?: string[];
+}
+
+// A command recognised in a transcription result
+export interface VoiceCommand {
+  action: VoiceCommandAction;
+  // Matched value, as written in the definition's values
+  value?: string;
+  // The words that were spoken, as they were removed from the transcript
+  phrase: string;
+  // Seconds into the recording at which the command was spoken, when known
+  time?: number;
+  // Character offset where the command was removed: within the cleaned result
+  // transcript, or within the whole transcript once reported by the recorder
+  textOffset: number;
+}
@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+import { parseJsonReply, renderClinicalNote, validateClinicalNote } from '@/utils/clinicalNote';
+
+describe('validateClinicalNote', () => {
+  it('puts the required sections first, in order, followed by extra ones', () => {
+    const { note, errors } = validateClinicalNote({
+      sections: [
+        { heading: 'plan', content: 'Review in two weeks.' },
+        { heading: 'Social History', content: 'Non-smoker.' },
+        { heading: 'Subjective', content: ' Cough for three days. ' }
+      ]
+    }, 'SOAP');
+
+    expect(errors).toEqual([]);
+    expect(note?.sections).toEqual([
+      { heading: 'Subjective', content: 'Cough for three days.' },
+      { heading: 'Objective', content: '' },
+      { heading: 'Assessment', content: '' },
+      { heading: 'Plan', content: 'Review in two weeks.' },
+      { heading: 'Social History', content: 'Non-smoker.' }
+    ]);
+  });
+
+  it('fills in missing lists and normalizes their entries', () => {
+    const { note } = validateClinicalNote({
+      problems: [{ name: 'Hypertension', status: 'Chronic' }, { name: 'Cough' }],
+      medications: [{ name: 'Amlodipine', dose: 5, frequency: 'daily', route: null }],
+      vitals: { bloodPressure: '150/95', heartRate: 72 },
+      followUp: { timeframe: '', instructions: '' }
+    }, 'Clinical Summary');
+
+    expect(note).toEqual({
+      format: 'Clinical Summary',
+      sections: [
+        { heading: 'Overview', content: '' },
+        { heading: 'Key Findings', content: '' },
+        { heading: 'Plan', content: '' }
+      ],
+      problems: [
+        { name: 'Hypertension', status: 'chronic', notes: undefined },
+        { name: 'Cough', status: 'active', notes: undefined }
+      ],
+      medications: [{ name: 'Amlodipine', dose: '5', frequency: 'daily' }],
+      vitals: { bloodPressure: '150/95', heartRate: '72' },
+      followUp: null
+    });
+  });
+
+  it('reports each value of the wrong type and returns no note', () => {
+    const { note, errors } = validateClinicalNote({
+      sections: [{ content: 'No heading' }],
+      problems: [{ name: 'Asthma', status: 'worse' }],
+      medications: 'Salbutamol',
+      vitals: ['120/80'],
+      followUp: 'Two weeks'
+    }, 'SOAP');
+
+    expect(note).toBeNull();
+    expect(errors).toEqual([
+      'sections[0] must have a heading',
+      'problems[0].status must be one of active, chronic, resolved, suspected',
+      'medications must be an array',
+      'vitals must be an object',
+      'followUp must be an object or null'
+    ]);
+  });
+
+  it('rejects values that are not objects', () => {
+    expect(validateClinicalNote(['Subjective'], 'SOAP')).toEqual({
+      note: null,
+      errors: ['Clinical note must be an object']
+    });
+  });
+});
+
+describe('renderClinicalNote', () => {
+  it('renders sections, lists and vitals as Markdown', () => {
+    const { note } = validateClinicalNote({
+      sections: [{ heading: 'Subjective', content: 'Cough.' }],
+      medications: [{ name: 'Amoxicillin', dose: '500 mg', route: 'oral', frequency: 'three times daily' }],
+      vitals: { temperature: '38.2 C' },
+      followUp: { timeframe: '1 week' }
+    }, 'SOAP');
+
+    expect(renderClinicalNote(note!)).toBe([
+      '# SOAP Note',
+      '## Subjective\nCough.',
+      '## Objective\nNot documented.',
+      '## Assessment\nNot documented.',
+      '## Plan\nNot documented.',
+      '## Medications\n- Amoxicillin 500 mg oral three times daily',
+      '## Vitals\n- Temperature: 38.2 C',
+      '## Follow-up\n1 week'
+    ].join('\n\n'));
+  });
+});
+
+describe('parseJsonReply', () => {
+  it('reads the object inside a code fence', () => {
+    expect(parseJsonReply('Here is the note:\n```json\n{"sections": []}\n```')).toEqual({ sections: [] });
+  });
+
+  it('fails on replies without an object', () => {
+    expect(() => parseJsonReply('No note could be written.')).toThrow('Reply does not contain a JSON object');
+  });
+});
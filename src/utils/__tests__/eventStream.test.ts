@@ -0,0 +1,85 @@
+/**
+ * @jest-environment node
+ */
+import { createEventStreamResponse, readChatCompletionStream, readEventStream } from '@/utils/eventStream';
+
+// A stream that delivers the text in the given pieces
+function streamOf(...pieces: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    }
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<[string, string][]> {
+  const events: [string, string][] = [];
+  await readEventStream(body, (type, data) => events.push([type, data]));
+  return events;
+}
+
+describe('readEventStream', () => {
+  it('reads events split across chunks', async () => {
+    const events = await collect(streamOf('event: delta\nda', 'ta: {"text":"Hel', 'lo"}\n', '\nevent: done\ndata: {}\n\n'));
+
+    expect(events).toEqual([['delta', '{"text":"Hello"}'], ['done', '{}']]);
+  });
+
+  it('names events without an event line "message" and joins data lines', async () => {
+    const events = await collect(streamOf('data: first\ndata: second\n\n: comment\n\ndata: [DONE]\n\n'));
+
+    expect(events).toEqual([['message', 'first\nsecond'], ['message', '[DONE]']]);
+  });
+
+  it('accepts CRLF line endings and a last event without a blank line', async () => {
+    const events = await collect(streamOf('event: reset\r\ndata: {}\r\n\r\nevent: done\r\ndata: {"ok":true}'));
+
+    expect(events).toEqual([['reset', '{}'], ['done', '{"ok":true}']]);
+  });
+
+  it('decodes characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('data: café\n\n');
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 10));
+        controller.enqueue(bytes.slice(10));
+        controller.close();
+      }
+    });
+
+    expect(await collect(body)).toEqual([['message', 'café']]);
+  });
+});
+
+describe('readChatCompletionStream', () => {
+  it('joins the content deltas of a streamed completion', async () => {
+    const chunk = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+    const deltas: string[] = [];
+
+    const content = await readChatCompletionStream(
+      new Response(streamOf(chunk('Hello'), chunk(' world'), 'data: [DONE]\n\n')),
+      delta => deltas.push(delta)
+    );
+
+    expect(content).toBe('Hello world');
+    expect(deltas).toEqual(['Hello', ' world']);
+  });
+});
+
+describe('createEventStreamResponse', () => {
+  it('sends a thrown error as an error event', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const response = createEventStreamResponse(new Request('http://localhost/api'), async send => {
+      send('delta', { text: 'Partial' });
+      throw new Error('Model unavailable');
+    });
+
+    expect(await collect(response.body!)).toEqual([
+      ['delta', '{"text":"Partial"}'],
+      ['error', '{"error":"Failed to generate a response","details":"Model unavailable"}']
+    ]);
+    jest.restoreAllMocks();
+  });
+});
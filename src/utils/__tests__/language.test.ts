@@ -0,0 +1,13 @@
+/**
+ * @jest-environment node
+ */
+import { getAutoDetectDescription } from '@/utils/language';
+
+describe('getAutoDetectDescription', () => {
+  it('names the languages auto-detection covers and those to choose explicitly', () => {
+    expect(getAutoDetectDescription()).toBe(
+      'Auto-detect recognises English, Spanish, French, German, Italian, Portuguese, Dutch, Hindi, Japanese; ' +
+      'choose Korean or Chinese explicitly'
+    );
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * @jest-environment node
+ */
+import { getToken } from 'next-auth/jwt';
+import { getOwnerId, getRequestUser, isAdminUser } from '@/utils/requestUser';
+
+jest.mock('next-auth/jwt', () => ({ getToken: jest.fn() }));
+
+const mockGetToken = getToken as jest.Mock;
+
+function request(headers: Record<string, string>): Request {
+  return new Request('http://localhost/api/test', { headers });
+}
+
+describe('getRequestUser', () => {
+  beforeEach(() => {
+    process.env.AUTH_SECRET = 'secret';
+    process.env.ADMIN_USERS = 'admin-1';
+    mockGetToken.mockReset();
+  });
+
+  it('takes the user from the verified session', async () => {
+    mockGetToken.mockResolvedValue({ sub: 'admin-1' });
+
+    const user = await getRequestUser(request({ 'x-user-id': 'someone-else' }));
+
+    expect(user).toMatchObject({ userId: 'admin-1', authenticated: true });
+    expect(isAdminUser(user)).toBe(true);
+  });
+
+  it('ignores a client-supplied user id header', async () => {
+    mockGetToken.mockResolvedValue(null);
+
+    const user = await getRequestUser(request({ 'x-user-id': 'admin-1' }));
+
+    expect(user.authenticated).toBe(false);
+    expect(user.userId).not.toBe('admin-1');
+    expect(isAdminUser(user)).toBe(false);
+  });
+
+  it('has no signed-in users without a session secret', async () => {
+    delete process.env.AUTH_SECRET;
+    delete process.env.NEXTAUTH_SECRET;
+
+    const user = await getRequestUser(request({ authorization: 'Bearer token' }));
+
+    expect(user.authenticated).toBe(false);
+    expect(mockGetToken).not.toHaveBeenCalled();
+  });
+});
+
+describe('getRequestUser client address', () => {
+  beforeEach(() => {
+    delete process.env.AUTH_SECRET;
+    delete process.env.NEXTAUTH_SECRET;
+    delete process.env.TRUSTED_PROXY_HOPS;
+  });
+
+  it('ignores forwarded headers without trusted proxies', async () => {
+    const user = await getRequestUser(request({ 'x-forwarded-for': '203.0.113.9', 'x-real-ip': '203.0.113.9' }));
+
+    expect(user.ipAddress).toBeNull();
+    expect(user.userId).toBe('ip:unknown');
+  });
+
+  it('takes the address seen by the outermost trusted proxy', async () => {
+    process.env.TRUSTED_PROXY_HOPS = '2';
+
+    const user = await getRequestUser(request({ 'x-forwarded-for': '198.51.100.1, 203.0.113.9, 10.0.0.2' }));
+
+    expect(user.ipAddress).toBe('203.0.113.9');
+    expect(user.userId).toBe('ip:203.0.113.9');
+  });
+
+  it('has no address when fewer proxies forwarded the request than configured', async () => {
+    process.env.TRUSTED_PROXY_HOPS = '2';
+
+    const user = await getRequestUser(request({ 'x-forwarded-for': '203.0.113.9' }));
+
+    expect(user.ipAddress).toBeNull();
+  });
+});
+
+describe('browser id', () => {
+  const browserId = '11111111-1111-4111-8111-111111111111';
+
+  beforeEach(() => {
+    delete process.env.TRUSTED_PROXY_HOPS;
+    mockGetToken.mockResolvedValue(null);
+  });
+
+  it('identifies callers without a session by their browser cookie', async () => {
+    const user = await getRequestUser(request({ cookie: `theme=dark; browser_id=${browserId}` }));
+
+    expect(user).toMatchObject({ userId: `browser:${browserId}`, authenticated: false, browserId });
+    expect(getOwnerId(user)).toBe(`browser:${browserId}`);
+  });
+
+  it('gives callers known only by address no owner id', async () => {
+    const user = await getRequestUser(request({ cookie: 'browser_id=not-a-uuid' }));
+
+    expect(user.browserId).toBeNull();
+    expect(user.userId).toBe('ip:unknown');
+    expect(getOwnerId(user)).toBeNull();
+  });
+});
+
+describe('rate limit key', () => {
+  const browserId = '11111111-1111-4111-8111-111111111111';
+
+  beforeEach(() => {
+    delete process.env.TRUSTED_PROXY_HOPS;
+    mockGetToken.mockResolvedValue(null);
+  });
+
+  it('prefers a trusted client address to the browser id', async () => {
+    process.env.TRUSTED_PROXY_HOPS = '1';
+
+    const user = await getRequestUser(request({ cookie: `browser_id=${browserId}`, 'x-forwarded-for': '203.0.113.9' }));
+
+    expect(user.rateLimitKey).toBe('ip:203.0.113.9');
+  });
+
+  it('uses the browser id without a trusted address', async () => {
+    const user = await getRequestUser(request({ cookie: `browser_id=${browserId}` }));
+
+    expect(user.rateLimitKey).toBe(`browser:${browserId}`);
+  });
+
+  it('does not use a browser id issued with the same request', async () => {
+    const user = await getRequestUser(request({ cookie: `browser_id=${browserId}`, 'x-new-browser-id': '1' }));
+
+    expect(user.userId).toBe(`browser:${browserId}`);
+    expect(user.rateLimitKey).toBe('ip:unknown');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @jest-environment node
+ */
+import { countTokens, getContextTokens, getReplyTokens, tokensToChars } from '@/utils/tokens';
+
+describe('countTokens', () => {
+  it('counts tokens with the tokenizer of the model', () => {
+    expect(countTokens('hello world', 'gpt-4')).toBe(2);
+    expect(countTokens('', 'gpt-4')).toBe(0);
+  });
+
+  it('uses the newer tokenizer for gpt-4o', () => {
+    const text = 'καλημέρα σας, πώς είστε σήμερα;';
+
+    expect(countTokens(text, 'gpt-4o')).toBe(12);
+    expect(countTokens(text, 'gpt-4')).toBe(28);
+  });
+
+  it('falls back to cl100k_base for models tiktoken does not know', () => {
+    const text = 'The quick brown fox jumps over the lazy dog.';
+
+    expect(countTokens(text, 'azure:my-deployment')).toBe(countTokens(text, 'gpt-4'));
+    expect(countTokens(text)).toBe(countTokens(text, 'gpt-4'));
+  });
+
+  it('counts text that looks like a special token as plain text', () => {
+    expect(() => countTokens('before <|endoftext|> after', 'gpt-4')).not.toThrow();
+    expect(countTokens('before <|endoftext|> after', 'gpt-4')).toBeGreaterThan(3);
+  });
+
+  it('counts non-Latin scripts as more tokens per character', () => {
+    const english = 'good morning';
+    const greek = 'καλημέρα σας';
+
+    expect(countTokens(greek, 'gpt-4') / greek.length).toBeGreaterThan(countTokens(english, 'gpt-4') / english.length);
+  });
+});
+
+describe('model limits', () => {
+  it('matches the most specific model name first', () => {
+    expect(getContextTokens('gpt-4-turbo-2024-04-09')).toBe(128000);
+    expect(getContextTokens('gpt-4-32k')).toBe(32768);
+    expect(getContextTokens('gpt-4')).toBe(8192);
+    expect(getContextTokens('azure:my-deployment')).toBe(8192);
+  });
+
+  it('limits replies to the output limit and half the context', () => {
+    expect(getReplyTokens('gpt-4-turbo')).toBe(4096);
+    expect(getReplyTokens('gpt-4o')).toBe(16384);
+    expect(getReplyTokens('gpt-4')).toBe(4096);
+    expect(getReplyTokens('local')).toBe(2048);
+  });
+});
+
+describe('tokensToChars', () => {
+  it('scales a token budget by the text\'s characters per token', () => {
+    const text = 'word '.repeat(100);
+    const chars = tokensToChars(text, 10, 'gpt-4');
+
+    expect(countTokens(text.slice(0, chars), 'gpt-4')).toBeLessThanOrEqual(11);
+  });
+});
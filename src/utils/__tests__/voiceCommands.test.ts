@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+import type { TranscriptionResult } from '@/services/speech/types';
+import { DEFAULT_VOICE_COMMANDS, extractVoiceCommands } from '@/utils/voiceCommands';
+
+/**
+ * A final result whose words are the transcript's, one second apart
+ */
+function result(transcript: string, punctuated = true): TranscriptionResult {
+  return {
+    transcript,
+    isFinal: true,
+    confidence: 1,
+    words: transcript.split(/\s+/).map((text, index) => ({
+      word: text.toLowerCase().replace(/[^a-z0-9]/g, ''),
+      start: index,
+      end: index + 1,
+      confidence: 1,
+      ...(punctuated && { punctuated_word: text })
+    }))
+  };
+}
+
+describe('extractVoiceCommands', () => {
+  it('removes a command at the start', () => {
+    const extracted = extractVoiceCommands(result('New section plan. Start amoxicillin.'), DEFAULT_VOICE_COMMANDS);
+
+    expect(extracted.commands).toEqual([
+      { action: 'section', value: 'Plan', phrase: 'New section plan.', time: 0, textOffset: 0 }
+    ]);
+    expect(extracted.result.transcript).toBe('Start amoxicillin.');
+    expect(extracted.result.words.map(word => word.word)).toEqual(['start', 'amoxicillin']);
+  });
+
+  it('removes a command in the middle, keeping its place in the text', () => {
+    const extracted = extractVoiceCommands(
+      result('Chest is clear. New section assessment. Likely viral.'),
+      DEFAULT_VOICE_COMMANDS
+    );
+
+    expect(extracted.result.transcript).toBe('Chest is clear. Likely viral.');
+    expect(extracted.commands).toMatchObject([{ action: 'section', value: 'Assessment', time: 3, textOffset: 16 }]);
+    expect(extracted.result.transcript.slice(extracted.commands[0].textOffset)).toBe('Likely viral.');
+  });
+
+  it('removes a command at the end', () => {
+    const extracted = extractVoiceCommands(result('That is all for today. Stop recording.'), DEFAULT_VOICE_COMMANDS);
+
+    expect(extracted.commands).toMatchObject([{ action: 'stop', phrase: 'Stop recording.' }]);
+    expect(extracted.result.transcript).toBe('That is all for today.');
+  });
+
+  it('leaves a partial command phrase alone', () => {
+    const spoken = result('Please stop the recording device. A new section of the ward.');
+    const extracted = extractVoiceCommands(spoken, DEFAULT_VOICE_COMMANDS);
+
+    expect(extracted.commands).toEqual([]);
+    expect(extracted.result).toBe(spoken);
+  });
+
+  it('recognises words without punctuated forms', () => {
+    const extracted = extractVoiceCommands(
+      result('Blood pressure is fine. Pause recording. Back again.', false),
+      DEFAULT_VOICE_COMMANDS
+    );
+
+    expect(extracted.commands).toMatchObject([{ action: 'pause', phrase: 'pause recording' }]);
+    expect(extracted.result.transcript).toBe('Blood pressure is fine. Back again.');
+  });
+
+  it('keeps the transcript as written where no command matched', () => {
+    const spoken = {
+      ...result('Take 5 mg daily. Stop recording.'),
+      // Formatted differently from the words the provider reports
+      transcript: 'Take 5mg  daily,\tas before. Stop recording.'
+    };
+
+    const extracted = extractVoiceCommands(spoken, DEFAULT_VOICE_COMMANDS);
+
+    expect(extracted.result.transcript).toBe('Take 5mg  daily,\tas before.');
+  });
+});
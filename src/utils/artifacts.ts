@@ -0,0 +1,75 @@
+/**
+ * Utility functions for versioned artifacts generated from transcriptions
+ */
+import type { DiffPart, SummaryArtifactData, TranscriptionArtifact } from '@/types/artifact';
+
+// Artifact type for lecture summaries; formatted outputs use their format name
+export const LECTURE_SUMMARY_ARTIFACT = 'Lecture Summary';
+
+/**
+ * Get the full text of an artifact, including the parts of a summary kept in its data
+ * @param artifact The artifact version
+ * @returns The text to compare or export
+ */
+export function getArtifactText(artifact: Pick<TranscriptionArtifact, 'artifact_type' | 'content' | 'data'>): string {
+  if (artifact.artifact_type !== LECTURE_SUMMARY_ARTIFACT || !artifact.data) {
+    return artifact.content;
+  }
+
+  const { topics, keyPoints, sampleQuestions } = artifact.data as SummaryArtifactData;
+  return [
+    artifact.content,
+    topics?.length ? `Topics:\n${topics.join('\n')}` : '',
+    keyPoints ? `Key Points:\n${keyPoints}` : '',
+    sampleQuestions ? `Sample Questions:\n${sampleQuestions}` : ''
+  ].filter(Boolean).join('\n\n');
+}
+
+/**
+ * Compare two texts line by line
+ * @param before The earlier text
+ * @param after The later text
+ * @returns Runs of unchanged, removed and added lines in order
+ */
+export function diffLines(before: string, after: string): DiffPart[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lengths[i][j] is the longest common subsequence of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], line: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.lines.push(line);
+    } else {
+      parts.push({ type, lines: [line] });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
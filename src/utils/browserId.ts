@@ -0,0 +1,39 @@
+/**
+ * Utility functions for the random id each browser keeps in a cookie, which
+ * tells callers without a session apart
+ */
+
+export const BROWSER_ID_COOKIE = 'browser_id';
+// Kept for a year, so unfinished recordings can be restored after a restart
+export const BROWSER_ID_MAX_AGE = 60 * 60 * 24 * 365;
+// Set by the middleware on requests it issued a browser id for
+export const NEW_BROWSER_ID_HEADER = 'x-new-browser-id';
+
+const BROWSER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Read the browser id from a request's cookies
+ * @param req The incoming request
+ * @returns The browser id, or null when the cookie is missing or malformed
+ */
+export function readBrowserId(req: Request): string | null {
+  const cookies = (req.headers.get('cookie') || '').split(';');
+
+  for (const cookie of cookies) {
+    const separator = cookie.indexOf('=');
+    if (separator !== -1 && cookie.substring(0, separator).trim() === BROWSER_ID_COOKIE) {
+      const value = cookie.substring(separator + 1).trim();
+      return BROWSER_ID_PATTERN.test(value) ? value : null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create a new browser id
+ * @returns A random, unguessable id
+ */
+export function createBrowserId(): string {
+  return crypto.randomUUID();
+}
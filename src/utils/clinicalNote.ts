@@ -0,0 +1,278 @@
+/**
+ * Utility functions for structured clinical notes (SOAP notes and clinical summaries)
+ */
+import type {
+  ClinicalNote,
+  ClinicalNoteFormat,
+  ClinicalNoteValidation,
+  ProblemStatus,
+  Vitals
+} from '@/types/clinicalNote';
+
+export const CLINICAL_NOTE_FORMATS: ClinicalNoteFormat[] = ['SOAP', 'Clinical Summary'];
+
+// Sections every note of a format has, in order
+export const CLINICAL_NOTE_SECTIONS: Record<ClinicalNoteFormat, string[]> = {
+  'SOAP': ['Subjective', 'Objective', 'Assessment', 'Plan'],
+  'Clinical Summary': ['Overview', 'Key Findings', 'Plan']
+};
+
+export const PROBLEM_STATUSES: ProblemStatus[] = ['active', 'chronic', 'resolved', 'suspected'];
+
+export const VITAL_FIELDS: { key: keyof Vitals; label: string }[] = [
+  { key: 'bloodPressure', label: 'Blood pressure' },
+  { key: 'heartRate', label: 'Heart rate' },
+  { key: 'temperature', label: 'Temperature' },
+  { key: 'respiratoryRate', label: 'Respiratory rate' },
+  { key: 'oxygenSaturation', label: 'Oxygen saturation' },
+  { key: 'weight', label: 'Weight' }
+];
+
+const MEDICATION_FIELDS = ['name', 'dose', 'frequency', 'route', 'instructions'] as const;
+
+/**
+ * JSON schema of a clinical note, given to models so they answer in this shape
+ */
+export const CLINICAL_NOTE_SCHEMA = {
+  type: 'object',
+  required: ['sections', 'problems', 'medications', 'vitals', 'followUp'],
+  properties: {
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['heading', 'content'],
+        properties: { heading: { type: 'string' }, content: { type: 'string' } }
+      }
+    },
+    problems: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'status'],
+        properties: {
+          name: { type: 'string' },
+          status: { enum: PROBLEM_STATUSES },
+          notes: { type: 'string' }
+        }
+      }
+    },
+    medications: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name'],
+        properties: Object.fromEntries(MEDICATION_FIELDS.map(field => [field, { type: 'string' }]))
+      }
+    },
+    vitals: {
+      type: 'object',
+      properties: Object.fromEntries(VITAL_FIELDS.map(({ key }) => [key, { type: 'string' }]))
+    },
+    followUp: {
+      type: ['object', 'null'],
+      properties: { timeframe: { type: 'string' }, instructions: { type: 'string' } }
+    }
+  }
+};
+
+/**
+ * Check whether an output format is produced as a structured clinical note
+ * @param format Output format name
+ */
+export function isClinicalNoteFormat(format: string): format is ClinicalNoteFormat {
+  return CLINICAL_NOTE_FORMATS.includes(format as ClinicalNoteFormat);
+}
+
+/**
+ * Create a note with the format's sections and nothing filled in
+ * @param format SOAP or Clinical Summary
+ */
+export function emptyClinicalNote(format: ClinicalNoteFormat): ClinicalNote {
+  return {
+    format,
+    sections: CLINICAL_NOTE_SECTIONS[format].map(heading => ({ heading, content: '' })),
+    problems: [],
+    medications: [],
+    vitals: {},
+    followUp: null
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read an optional string field, recording an error when it has another type
+ */
+function optionalString(value: unknown, path: string, errors: string[]): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') {
+    errors.push(`${path} must be a string`);
+    return undefined;
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * Check a value against the clinical note schema. Missing lists and
+ * sections are filled in empty; values of the wrong type are errors.
+ * @param value Parsed JSON, from a model or an edit
+ * @param format The format the note is for
+ * @returns The normalized note, or null with the errors found
+ */
+export function validateClinicalNote(value: unknown, format: ClinicalNoteFormat): ClinicalNoteValidation {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { note: null, errors: ['Clinical note must be an object'] };
+  }
+
+  const listOf = (key: string): unknown[] => {
+    const list = value[key];
+    if (list === undefined || list === null) return [];
+    if (!Array.isArray(list)) {
+      errors.push(`${key} must be an array`);
+      return [];
+    }
+    return list;
+  };
+
+  const sections = listOf('sections').flatMap((section, index) => {
+    if (!isObject(section) || typeof section.heading !== 'string' || !section.heading.trim()) {
+      errors.push(`sections[${index}] must have a heading`);
+      return [];
+    }
+    return [{
+      heading: section.heading.trim(),
+      content: optionalString(section.content, `sections[${index}].content`, errors) || ''
+    }];
+  });
+
+  // Required sections come first in their usual order, then any extra ones
+  const required = CLINICAL_NOTE_SECTIONS[format];
+  const findSection = (heading: string) =>
+    sections.find(section => section.heading.toLowerCase() === heading.toLowerCase());
+  const orderedSections = [
+    ...required.map(heading => ({ heading, content: findSection(heading)?.content || '' })),
+    ...sections.filter(section => !required.some(heading => heading.toLowerCase() === section.heading.toLowerCase()))
+  ];
+
+  const problems = listOf('problems').flatMap((problem, index) => {
+    if (!isObject(problem) || typeof problem.name !== 'string' || !problem.name.trim()) {
+      errors.push(`problems[${index}] must have a name`);
+      return [];
+    }
+    const status = typeof problem.status === 'string' ? problem.status.toLowerCase() : 'active';
+    if (!PROBLEM_STATUSES.includes(status as ProblemStatus)) {
+      errors.push(`problems[${index}].status must be one of ${PROBLEM_STATUSES.join(', ')}`);
+    }
+    return [{
+      name: problem.name.trim(),
+      status: (PROBLEM_STATUSES.includes(status as ProblemStatus) ? status : 'active') as ProblemStatus,
+      notes: optionalString(problem.notes, `problems[${index}].notes`, errors)
+    }];
+  });
+
+  const medications = listOf('medications').flatMap((medication, index) => {
+    if (!isObject(medication) || typeof medication.name !== 'string' || !medication.name.trim()) {
+      errors.push(`medications[${index}] must have a name`);
+      return [];
+    }
+    return [Object.fromEntries(
+      MEDICATION_FIELDS
+        .map(field => [field, optionalString(medication[field], `medications[${index}].${field}`, errors)])
+        .filter(([, fieldValue]) => fieldValue !== undefined)
+    ) as unknown as ClinicalNote['medications'][number]];
+  });
+
+  let vitals: Vitals = {};
+  if (value.vitals !== undefined && value.vitals !== null) {
+    if (isObject(value.vitals)) {
+      const source = value.vitals;
+      vitals = Object.fromEntries(
+        VITAL_FIELDS
+          .map(({ key }) => [key, optionalString(source[key], `vitals.${key}`, errors)])
+          .filter(([, fieldValue]) => fieldValue !== undefined)
+      );
+    } else {
+      errors.push('vitals must be an object');
+    }
+  }
+
+  let followUp: ClinicalNote['followUp'] = null;
+  if (value.followUp !== undefined && value.followUp !== null) {
+    if (isObject(value.followUp)) {
+      const timeframe = optionalString(value.followUp.timeframe, 'followUp.timeframe', errors);
+      const instructions = optionalString(value.followUp.instructions, 'followUp.instructions', errors);
+      followUp = timeframe || instructions ? { timeframe, instructions } : null;
+    } else {
+      errors.push('followUp must be an object or null');
+    }
+  }
+
+  if (errors.length > 0) {
+    return { note: null, errors };
+  }
+
+  return {
+    note: { format, sections: orderedSections, problems, medications, vitals, followUp },
+    errors
+  };
+}
+
+/**
+ * Render a clinical note as Markdown, the text saved and shown for it
+ * @param note The structured note
+ * @returns Markdown with a heading per section
+ */
+export function renderClinicalNote(note: ClinicalNote): string {
+  const parts = [`# ${note.format === 'SOAP' ? 'SOAP Note' : 'Clinical Summary'}`];
+
+  note.sections.forEach(section => {
+    parts.push(`## ${section.heading}\n${section.content || 'Not documented.'}`);
+  });
+
+  if (note.problems.length > 0) {
+    parts.push(`## Problems\n${note.problems
+      .map(problem => `- ${problem.name} (${problem.status})${problem.notes ? `: ${problem.notes}` : ''}`)
+      .join('\n')}`);
+  }
+
+  if (note.medications.length > 0) {
+    parts.push(`## Medications\n${note.medications
+      .map(medication => {
+        const details = [medication.dose, medication.route, medication.frequency].filter(Boolean).join(' ');
+        return `- ${medication.name}${details ? ` ${details}` : ''}${medication.instructions ? ` - ${medication.instructions}` : ''}`;
+      })
+      .join('\n')}`);
+  }
+
+  const vitals = VITAL_FIELDS.filter(({ key }) => note.vitals[key]);
+  if (vitals.length > 0) {
+    parts.push(`## Vitals\n${vitals.map(({ key, label }) => `- ${label}: ${note.vitals[key]}`).join('\n')}`);
+  }
+
+  if (note.followUp) {
+    parts.push(`## Follow-up\n${[note.followUp.timeframe, note.followUp.instructions].filter(Boolean).join(' - ')}`);
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Parse the JSON object in a model's reply, ignoring any text or code fence around it
+ * @param reply The model's reply
+ * @returns The parsed value
+ */
+export function parseJsonReply(reply: string): unknown {
+  const start = reply.indexOf('{');
+  const end = reply.lastIndexOf('}');
+
+  if (start === -1 || end < start) {
+    throw new Error('Reply does not contain a JSON object');
+  }
+
+  return JSON.parse(reply.slice(start, end + 1));
+}
@@ -0,0 +1,57 @@
+/**
+ * Utility functions for reviewing and correcting recognised words
+ */
+import type { TranscriptWord, WordCorrection } from '@/types/transcript';
+
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.85;
+
+/**
+ * Get the confidence below which words are flagged for review
+ * @returns NEXT_PUBLIC_LOW_CONFIDENCE_THRESHOLD when valid, otherwise the default
+ */
+export function getConfidenceThreshold(): number {
+  const configured = parseFloat(process.env.NEXT_PUBLIC_LOW_CONFIDENCE_THRESHOLD || '');
+  return configured >= 0 && configured <= 1 ? configured : DEFAULT_CONFIDENCE_THRESHOLD;
+}
+
+/**
+ * Check whether a word should be flagged for review
+ * @param word The recognised word
+ * @param threshold Confidence below which words are flagged
+ * @returns true for uncorrected words under the threshold
+ */
+export function isLowConfidence(word: TranscriptWord, threshold: number): boolean {
+  return !word.corrected && word.confidence < threshold;
+}
+
+/**
+ * Replace the text of a single word
+ * @param words Words in spoken order
+ * @param index Position of the word to replace
+ * @param text Corrected text
+ * @returns The updated words and a record of the change
+ */
+export function applyCorrection(
+  words: TranscriptWord[],
+  index: number,
+  text: string
+): { words: TranscriptWord[]; correction: WordCorrection } {
+  const correction = { index, from: words[index].text, to: text };
+  const updated = words.map((word, idx) =>
+    idx === index ? { ...word, text, corrected: true } : word
+  );
+
+  return { words: updated, correction };
+}
+
+/**
+ * Rebuild transcript text from its words
+ * @param words Words in spoken order
+ * @returns The words joined by single spaces, skipping removed words
+ */
+export function wordsToText(words: TranscriptWord[]): string {
+  return words
+    .map(word => word.text)
+    .filter(Boolean)
+    .join(' ');
+}
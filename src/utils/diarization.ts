@@ -0,0 +1,101 @@
+/**
+ * Utility functions for timed and speaker-diarized transcripts
+ */
+import type { TranscriptionWord } from '@/services/speech';
+import type { TranscriptSegment, TranscriptWord } from '@/types/transcript';
+
+/**
+ * Check whether a set of words carries speaker information
+ * @param words Words from a transcription result
+ * @returns true if at least one word has a speaker
+ */
+export function hasSpeakerInfo(words: TranscriptionWord[]): boolean {
+  return words.some(word => word.speaker !== undefined);
+}
+
+/**
+ * Group consecutive words by the same speaker into segments
+ * @param words Words from a final transcription result
+ * @returns Segments in spoken order
+ */
+export function buildSegments(words: TranscriptionWord[]): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+
+  for (const word of words) {
+    const speaker = word.speaker ?? 0;
+    const text = word.punctuated_word || word.word;
+    const last = segments[segments.length - 1];
+
+    if (last && last.speaker === speaker) {
+      last.text += ` ${text}`;
+      last.end = word.end;
+    } else {
+      segments.push({ speaker, start: word.start, end: word.end, text });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Append new segments to an existing list, joining the boundary segments
+ * when the same speaker continues talking
+ * @param existing Segments collected so far
+ * @param incoming Segments from the latest final result
+ * @returns A new list of segments
+ */
+export function appendSegments(existing: TranscriptSegment[], incoming: TranscriptSegment[]): TranscriptSegment[] {
+  if (incoming.length === 0) return existing;
+
+  const merged = existing.map(segment => ({ ...segment }));
+
+  for (const segment of incoming) {
+    const last = merged[merged.length - 1];
+
+    if (last && last.speaker === segment.speaker) {
+      last.text += ` ${segment.text}`;
+      last.end = segment.end;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Get the display label for a speaker
+ * @param speaker Speaker number reported by the provider
+ * @param speakerNames Custom names keyed by speaker number
+ * @returns The custom name, or "Speaker N" (1-based)
+ */
+export function getSpeakerLabel(speaker: number, speakerNames: Record<string, string> = {}): string {
+  return speakerNames[speaker.toString()] || `Speaker ${speaker + 1}`;
+}
+
+/**
+ * Render segments as plain text with speaker labels
+ * @param segments Diarized segments
+ * @param speakerNames Custom names keyed by speaker number
+ * @returns One "Label: text" line per segment
+ */
+export function formatSpeakerTranscript(segments: TranscriptSegment[], speakerNames: Record<string, string> = {}): string {
+  return segments
+    .map(segment => `${getSpeakerLabel(segment.speaker, speakerNames)}: ${segment.text}`)
+    .join('\n');
+}
+
+/**
+ * Keep the timing fields of recognised words for storage and playback
+ * @param words Words from final transcription results
+ * @returns Words with punctuated text where available
+ */
+export function toTranscriptWords(words: TranscriptionWord[]): TranscriptWord[] {
+  return words.map(word => ({
+    text: word.punctuated_word || word.word,
+    start: word.start,
+    end: word.end,
+    confidence: word.confidence,
+    ...(word.speaker !== undefined && { speaker: word.speaker })
+  }));
+}
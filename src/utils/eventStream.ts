@@ -0,0 +1,234 @@
+/**
+ * Utility functions for streaming responses as server-sent events, and for
+ * reading them back in the browser
+ *
+ * A streamed request sends "delta" events carrying the next piece of text,
+ * "reset" when the text so far should be discarded (a fallback model started
+ * over), then either "done" with the same JSON a non-streamed request returns
+ * or "error" with { error, details }.
+ */
+
+export type StreamEventType = 'delta' | 'reset' | 'done' | 'error';
+
+export type SendStreamEvent = (type: StreamEventType, data: unknown) => void;
+
+const encoder = new TextEncoder();
+
+/**
+ * Check whether a request body asks for a streamed response
+ * @param body The parsed request body
+ * @param request The request, whose Accept header may ask for events instead
+ */
+export function wantsEventStream(body: { stream?: unknown } | null | undefined, request: Request): boolean {
+  return body?.stream === true || (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Create a server-sent event response whose events are produced by a function.
+ * A thrown error is sent as an "error" event, unless the client has gone away.
+ * @param request The incoming request; its signal aborts when the client disconnects
+ * @param run Sends the events; should stop once the signal aborts
+ * @returns The streaming response
+ */
+export function createEventStreamResponse(
+  request: Request,
+  run: (send: SendStreamEvent, signal: AbortSignal) => Promise<void>
+): Response {
+  const signal = request.signal;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const send: SendStreamEvent = (type, data) => {
+        if (closed || signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        await run(send, signal);
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error('Error in event stream:', error);
+          send('error', {
+            error: 'Failed to generate a response',
+            details: error instanceof Error ? error.message : 'Unknown error'
+          });
+        }
+      } finally {
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled reader
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+/**
+ * Read a server-sent event stream, calling back once per event. Events without
+ * an "event:" line, such as OpenAI's streamed completions, are named "message".
+ * @param body The response body
+ * @param onEvent Called with each event's name and data
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (type: string, data: string) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let type = 'message';
+    const data: string[] = [];
+
+    block.split('\n').forEach(line => {
+      if (line.startsWith('event:')) {
+        type = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    });
+
+    if (data.length > 0) {
+      onEvent(type, data.join('\n'));
+    }
+  };
+
+  try {
+    for (let result = await reader.read(); !result.done; result = await reader.read()) {
+      buffer += decoder.decode(result.value, { stream: true }).replace(/\r\n?/g, '\n');
+
+      let end = buffer.indexOf('\n\n');
+      while (end !== -1) {
+        dispatch(buffer.slice(0, end));
+        buffer = buffer.slice(end + 2);
+        end = buffer.indexOf('\n\n');
+      }
+    }
+
+    if (buffer.trim()) {
+      dispatch(buffer);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read the text deltas of an OpenAI-compatible streamed chat completion
+ * @param response The completion response, requested with stream: true
+ * @param onDelta Called with each piece of text as it arrives
+ * @returns The complete text
+ */
+export async function readChatCompletionStream(
+  response: Response,
+  onDelta: (text: string) => void
+): Promise<string> {
+  if (!response.body) {
+    throw new Error('Streamed completion has no body');
+  }
+
+  let content = '';
+  await readEventStream(response.body, (_type, data) => {
+    if (data === '[DONE]') return;
+
+    const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+    if (delta) {
+      content += delta;
+      onDelta(delta);
+    }
+  });
+
+  return content;
+}
+
+export interface StreamRequestOptions {
+  // Called with each piece of text as it arrives
+  onDelta?: (text: string) => void;
+  // Called when the text received so far should be discarded
+  onReset?: () => void;
+  // Aborts the request, which also stops generation on the server
+  signal?: AbortSignal;
+}
+
+/**
+ * POST a JSON body to a streaming route and follow its events
+ * @param url The route to call
+ * @param body The request body; stream: true is added
+ * @param options Callbacks for the streamed text and an abort signal
+ * @returns The "done" event's data, the same JSON the route returns unstreamed
+ */
+export async function postEventStream<T>(
+  url: string,
+  body: Record<string, unknown>,
+  { onDelta, onReset, signal }: StreamRequestOptions = {}
+): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `API error: ${response.status} ${response.statusText}`);
+  }
+
+  // Routes answer some requests, such as cache hits, with plain JSON
+  if (!response.body || !(response.headers.get('content-type') || '').includes('text/event-stream')) {
+    return response.json();
+  }
+
+  let result: T | undefined;
+  let failure: { error?: string; details?: string } | undefined;
+
+  await readEventStream(response.body, (type, data) => {
+    switch (type) {
+      case 'delta':
+        onDelta?.(JSON.parse(data).text);
+        break;
+      case 'reset':
+        onReset?.();
+        break;
+      case 'done':
+        result = JSON.parse(data);
+        break;
+      case 'error':
+        failure = JSON.parse(data);
+        break;
+    }
+  });
+
+  if (failure) {
+    throw new Error([failure.error, failure.details].filter(Boolean).join(': ') || 'Streamed request failed');
+  }
+
+  if (result === undefined) {
+    throw new Error('Stream ended before the response was complete');
+  }
+
+  return result;
+}
+
+/**
+ * Check whether an error comes from an aborted request
+ * @param error The caught error
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
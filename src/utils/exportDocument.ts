@@ -0,0 +1,199 @@
+/**
+ * Utility functions for turning transcripts, formatted notes and summaries
+ * into export documents, and rendering those as Markdown or plain text
+ */
+import type { SummaryArtifactData } from '@/types/artifact';
+import type { ExportBlock, ExportDocument } from '@/types/export';
+import type { SectionMarker, TranscriptSegment } from '@/types/transcript';
+import { getSpeakerLabel } from '@/utils/diarization';
+import { insertSectionMarkers } from '@/utils/voiceCommands';
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+/**
+ * Remove inline Markdown emphasis and code markers
+ */
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/\*\*(.+?)\*\*/g, '$1')
+    .replace(/__(.+?)__/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(^|\s)[*_]([^*_\s][^*_]*?)[*_](?=\s|[.,;:!?]|$)/g, '$1$2')
+    .trim();
+}
+
+/**
+ * Split Markdown-style text into blocks. Handles the headings, bullet and
+ * numbered lists that formatted notes use; other lines become paragraphs.
+ * @param text Markdown or plain text
+ * @returns Blocks in order
+ */
+export function parseMarkdownBlocks(text: string): ExportBlock[] {
+  const blocks: ExportBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: stripInlineMarkdown(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  text.replace(/\r\n/g, '\n').split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const bullet = line.match(/^(?:[-*+•]|\d+[.)])\s+(.*)$/);
+
+    if (!line || /^(?:-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      flush();
+    } else if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, text: stripInlineMarkdown(heading[2]) });
+    } else if (bullet) {
+      flush();
+      // Keep the number of numbered items, as it is often referred to
+      const numbered = line.match(/^(\d+)[.)]\s/);
+      blocks.push({ type: 'bullet', text: (numbered ? `${numbered[1]}. ` : '') + stripInlineMarkdown(bullet[1]) });
+    } else {
+      paragraph.push(line);
+    }
+  });
+
+  flush();
+  return blocks;
+}
+
+/**
+ * Convert the HTML produced by the format route to Markdown
+ * @param html An HTML fragment
+ * @returns Equivalent Markdown with tags removed
+ */
+export function htmlToMarkdown(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level, text) => `\n\n${'#'.repeat(Number(level))} ${text}\n\n`)
+    .replace(/<li[^>]*>([\s\S]*?)<\/li>/gi, '\n- $1\n')
+    .replace(/<(strong|b)[^>]*>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|article|header|footer|ul|ol|table|tr)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#\d+|#x[0-9a-f]+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1));
+        return isNaN(code) ? entity : String.fromCharCode(code);
+      }
+      return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Build blocks for a transcript, with speaker labels when it was diarized
+ * and headings for sections marked by voice command
+ * @param text The transcription text
+ * @param segments Diarized speaker segments, if any
+ * @param speakerNames Custom names keyed by speaker number
+ * @param sections Section markers recorded by voice command
+ * @returns Blocks in order
+ */
+export function transcriptBlocks(
+  text: string,
+  segments: TranscriptSegment[] = [],
+  speakerNames: Record<string, string> = {},
+  sections: SectionMarker[] = []
+): ExportBlock[] {
+  if (segments.length > 0) {
+    return segments.map(segment => ({
+      type: 'paragraph',
+      text: `${getSpeakerLabel(segment.speaker, speakerNames)}: ${segment.text}`
+    }));
+  }
+
+  const headings = new Set(sections.map(marker => `${marker.section}:`));
+  return insertSectionMarkers(text, sections)
+    .split(/\n\s*\n/)
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => headings.has(part)
+      ? { type: 'heading', level: 2, text: part.slice(0, -1) }
+      : { type: 'paragraph', text: part });
+}
+
+/**
+ * Build blocks for a lecture summary
+ * @param summary The summary text
+ * @param data Topics, key points and sample questions kept with the summary
+ * @returns Blocks in order
+ */
+export function summaryBlocks(summary: string, data?: Partial<SummaryArtifactData> | null): ExportBlock[] {
+  const blocks: ExportBlock[] = [{ type: 'heading', level: 2, text: 'Summary' }, ...parseMarkdownBlocks(summary)];
+
+  if (data?.topics && data.topics.length > 0) {
+    blocks.push({ type: 'heading', level: 2, text: 'Topics' });
+    data.topics.forEach(topic => blocks.push({ type: 'bullet', text: topic }));
+  }
+
+  if (data?.keyPoints) {
+    blocks.push({ type: 'heading', level: 2, text: 'Key Points' }, ...parseMarkdownBlocks(data.keyPoints));
+  }
+
+  if (data?.sampleQuestions) {
+    blocks.push({ type: 'heading', level: 2, text: 'Sample Questions' }, ...parseMarkdownBlocks(data.sampleQuestions));
+  }
+
+  return blocks;
+}
+
+/**
+ * Render a document as Markdown
+ * @param document The document to render
+ * @returns Markdown text
+ */
+export function renderMarkdown(document: ExportDocument): string {
+  return [
+    `# ${document.title}`,
+    ...(document.details.length > 0 ? [document.details.map(detail => `_${detail}_`).join('  \n')] : []),
+    ...document.blocks.map(block => {
+      switch (block.type) {
+        case 'heading':
+          // The title is the only level 1 heading
+          return `${'#'.repeat(Math.min(6, (block.level || 1) + 1))} ${block.text}`;
+        case 'bullet':
+          return `- ${block.text}`;
+        default:
+          return block.text;
+      }
+    })
+  ].join('\n\n') + '\n';
+}
+
+/**
+ * Render a document as plain text
+ * @param document The document to render
+ * @returns Plain text with underlined headings
+ */
+export function renderPlainText(document: ExportDocument): string {
+  return [
+    `${document.title}\n${'='.repeat(document.title.length)}`,
+    ...(document.details.length > 0 ? [document.details.join('\n')] : []),
+    ...document.blocks.map(block => {
+      switch (block.type) {
+        case 'heading':
+          return `${block.text}\n${'-'.repeat(block.text.length)}`;
+        case 'bullet':
+          return `• ${block.text}`;
+        default:
+          return block.text;
+      }
+    })
+  ].join('\n\n') + '\n';
+}
@@ -0,0 +1,211 @@
+/**
+ * Utility functions for building the prompts used to format transcriptions,
+ * shared by every model the format route can call
+ */
+import type { FormatTemplate, TemplateOutputType } from '@/types/formatTemplate';
+import type { PromptDefinition, RenderedPrompt } from '@/types/prompt';
+import { CLINICAL_NOTE_SCHEMA, CLINICAL_NOTE_SECTIONS, isClinicalNoteFormat } from '@/utils/clinicalNote';
+import { renderPrompt, selectPrompt } from '@/utils/prompts';
+
+export const BUILT_IN_FORMATS = ['Plain', 'SOAP', 'Clinical Summary', 'Bullet Points', 'HTML', 'Markdown'] as const;
+
+export type BuiltInFormat = typeof BUILT_IN_FORMATS[number];
+
+// How the output of each built-in format is written
+export const BUILT_IN_OUTPUT_TYPES: Record<BuiltInFormat, TemplateOutputType> = {
+  'Plain': 'text',
+  'SOAP': 'markdown',
+  'Clinical Summary': 'markdown',
+  'Bullet Points': 'text',
+  'HTML': 'html',
+  'Markdown': 'markdown'
+};
+
+// The parts of a template that shape its prompt
+export type PromptTemplate = Pick<FormatTemplate, 'name' | 'system_prompt' | 'sections' | 'output_type'>;
+
+const OUTPUT_TYPE_INSTRUCTIONS: Record<TemplateOutputType, string> = {
+  text: 'Respond in plain text, without Markdown or HTML.',
+  markdown: 'Respond in Markdown, with a heading for each section.',
+  html: 'Respond with well-formed HTML using semantic HTML5 elements, with a heading for each section.'
+};
+
+/**
+ * Check whether a format is one of the built-in formats
+ * @param format Output format name
+ */
+export function isBuiltInFormat(format: string): format is BuiltInFormat {
+  return BUILT_IN_FORMATS.includes(format as BuiltInFormat);
+}
+
+// Registry prompt for each built-in format
+const FORMAT_PROMPT_NAMES: Record<BuiltInFormat, string> = {
+  'Plain': 'format.plain',
+  'SOAP': 'format.soap',
+  'Clinical Summary': 'format.clinical-summary',
+  'Bullet Points': 'format.bullet-points',
+  'HTML': 'format.html',
+  'Markdown': 'format.markdown'
+};
+
+export const TEMPLATE_PROMPT_NAME = 'format.template';
+export const FORMAT_MERGE_PROMPT_NAME = 'format.merge';
+
+/**
+ * Get the name of the registry prompt a format is generated with
+ * @param format Output format name
+ * @param template The user-defined template for the format, if it is not built in
+ * @returns The prompt name
+ */
+export function getFormatPromptName(format: string, template?: PromptTemplate | null): string {
+  if (template) {
+    return TEMPLATE_PROMPT_NAME;
+  }
+  return isBuiltInFormat(format) ? FORMAT_PROMPT_NAMES[format] : FORMAT_PROMPT_NAMES.Plain;
+}
+
+/**
+ * Build the prompts for formatting a transcription
+ * @param text The transcription text
+ * @param format Output format name
+ * @param userType The user type the transcription was recorded for
+ * @param template The user-defined template for the format, if it is not built in
+ * @param prompt Version of the format's prompt to use; the one chosen for the request by default
+ * @returns System and user prompts
+ */
+export function getFormatPrompts(
+  text: string,
+  format: string,
+  userType: string,
+  template?: PromptTemplate | null,
+  prompt: PromptDefinition = selectPrompt(getFormatPromptName(format, template))
+): RenderedPrompt {
+  if (template) {
+    return renderPrompt(prompt, {
+      text,
+      userType,
+      templateName: template.name,
+      templatePrompt: template.system_prompt.trim(),
+      sectionInstruction: template.sections.length > 0
+        ? ` Organize the output under these headings, in this order: ${template.sections.join(', ')}.`
+        : '',
+      outputInstruction: OUTPUT_TYPE_INSTRUCTIONS[template.output_type]
+    });
+  }
+
+  if (isClinicalNoteFormat(format)) {
+    return renderPrompt(prompt, {
+      text,
+      userType,
+      schema: JSON.stringify(CLINICAL_NOTE_SCHEMA),
+      sections: CLINICAL_NOTE_SECTIONS[format].join(', ')
+    });
+  }
+
+  return renderPrompt(prompt, { text, userType });
+}
+
+/**
+ * Build the prompts for merging the outputs for consecutive parts of a long transcription
+ * @param parts The formatted parts, in order
+ * @param format Output format name
+ * @param userType The user type the transcription was recorded for
+ * @param template The user-defined template for the format, if it is not built in
+ * @param prompt Version of the format's prompt the parts were made with
+ * @param mergePrompt Version of the merge prompt to use
+ * @returns System and user prompts
+ */
+export function getFormatMergePrompts(
+  parts: string[],
+  format: string,
+  userType: string,
+  template: PromptTemplate | null | undefined,
+  prompt: PromptDefinition,
+  mergePrompt: PromptDefinition = selectPrompt(FORMAT_MERGE_PROMPT_NAME)
+): RenderedPrompt {
+  return renderPrompt(mergePrompt, {
+    formatPrompt: getFormatPrompts('', format, userType, template, prompt).systemPrompt,
+    output: isClinicalNoteFormat(format) ? 'note' : 'document',
+    userType,
+    parts: parts.map((part, index) => `PART ${index + 1}:\n${part}`).join('\n\n')
+  });
+}
+
+/**
+ * Lay out a template's headings around the transcription, for when no model is available
+ * @param text The transcription text
+ * @param template The template to lay out
+ * @returns The empty section skeleton followed by the transcription
+ */
+export function renderTemplateSkeleton(text: string, template: PromptTemplate): string {
+  const headings = [...template.sections, 'Transcript'];
+  const bodies = [...template.sections.map(() => ''), text.trim()];
+
+  switch (template.output_type) {
+    case 'html':
+      return [
+        `<h2>${escapeHtml(template.name)}</h2>`,
+        ...headings.map((heading, index) =>
+          `<h3>${escapeHtml(heading)}</h3>\n<p>${escapeHtml(bodies[index]).replace(/\n/g, '<br>')}</p>`)
+      ].join('\n');
+    case 'markdown':
+      return [`# ${template.name}`, ...headings.map((heading, index) => `## ${heading}\n${bodies[index]}`)].join('\n\n');
+    default:
+      return [template.name.toUpperCase(), ...headings.map((heading, index) => `${heading}:\n${bodies[index]}`)].join('\n\n');
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const OUTPUT_TYPES: TemplateOutputType[] = ['text', 'markdown', 'html'];
+
+export type TemplateInput = Partial<Pick<FormatTemplate, 'name' | 'system_prompt' | 'sections' | 'output_type'>>;
+
+/**
+ * Check the fields of a template being created or updated
+ * @param body The request body
+ * @param partial Whether fields may be left out, as in an update
+ * @returns The cleaned fields, or an error message
+ */
+export function validateTemplateInput(body: Record<string, unknown>, partial: boolean = false): { input: TemplateInput } | { error: string } {
+  const { name, system_prompt, sections, output_type } = body;
+  const input: TemplateInput = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || !name.trim()) {
+      return { error: 'name is required' };
+    }
+    if (BUILT_IN_FORMATS.some(format => format.toLowerCase() === name.trim().toLowerCase())) {
+      return { error: `"${name.trim()}" is a built-in format` };
+    }
+    input.name = name.trim();
+  }
+
+  if (system_prompt !== undefined || !partial) {
+    if (typeof system_prompt !== 'string' || !system_prompt.trim()) {
+      return { error: 'system_prompt is required' };
+    }
+    input.system_prompt = system_prompt.trim();
+  }
+
+  if (sections !== undefined) {
+    if (!Array.isArray(sections) || sections.some(section => typeof section !== 'string')) {
+      return { error: 'sections must be an array of headings' };
+    }
+    input.sections = sections.map((section: string) => section.trim()).filter(Boolean);
+  } else if (!partial) {
+    input.sections = [];
+  }
+
+  if (output_type !== undefined || !partial) {
+    const type = (output_type ?? 'markdown') as TemplateOutputType;
+    if (!OUTPUT_TYPES.includes(type)) {
+      return { error: `output_type must be one of ${OUTPUT_TYPES.join(', ')}` };
+    }
+    input.output_type = type;
+  }
+
+  return { input };
+}
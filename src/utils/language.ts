@@ -0,0 +1,107 @@
+/**
+ * Utility functions for transcription languages and multilingual prompts
+ */
+
+// Selecting this lets the speech provider detect the spoken language
+export const AUTO_DETECT_LANGUAGE = 'auto';
+
+// Live auto-detection uses DeepGram's multilingual recognition ("multi"), which
+// nova-2 only offers for English and Spanish
+export const AUTO_DETECT_MODEL = 'nova-3';
+
+// Base codes of the languages nova-3 recognises when auto-detecting; other
+// supported languages have to be chosen explicitly
+export const AUTO_DETECT_LANGUAGES = ['en', 'es', 'fr', 'de', 'hi', 'ru', 'pt', 'ja', 'it', 'nl'];
+
+export const DEFAULT_LANGUAGE = 'en-US';
+
+export const SUPPORTED_LANGUAGES: { code: string; name: string }[] = [
+  { code: 'en-US', name: 'English (US)' },
+  { code: 'en-GB', name: 'English (UK)' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'de', name: 'German' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'hi', name: 'Hindi' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'zh', name: 'Chinese' }
+];
+
+/**
+ * Get the display name for a language code
+ * @param code Language code such as "fr" or "en-US"
+ * @returns The name of the language, matching on the base language when the region is unknown
+ */
+export function getLanguageName(code: string): string {
+  const exact = SUPPORTED_LANGUAGES.find(language => language.code === code);
+  if (exact) return exact.name;
+
+  const base = code.split('-')[0].toLowerCase();
+  const match = SUPPORTED_LANGUAGES.find(language => language.code.split('-')[0] === base);
+  return match ? match.name.replace(/ \(.*\)$/, '') : code;
+}
+
+/**
+ * Describe which languages auto-detection recognises
+ * @returns A sentence naming the supported languages it covers and those that must be chosen
+ */
+export function getAutoDetectDescription(): string {
+  const covered = (code: string) => AUTO_DETECT_LANGUAGES.includes(code.split('-')[0]);
+  const names = (detected: boolean) => Array.from(new Set(
+    SUPPORTED_LANGUAGES.filter(({ code }) => covered(code) === detected).map(({ code }) => getLanguageName(code.split('-')[0]))
+  ));
+  const others = names(false);
+
+  return `Auto-detect recognises ${names(true).join(', ')}` +
+    (others.length > 0 ? `; choose ${others.join(' or ')} explicitly` : '');
+}
+
+/**
+ * Pick the most common language among recognised words
+ * @param languages Language reported for each word
+ * @returns The dominant language, or null when none was reported
+ */
+export function dominantLanguage(languages: (string | undefined)[]): string | null {
+  const counts = new Map<string, number>();
+
+  for (const language of languages) {
+    if (language) {
+      counts.set(language, (counts.get(language) || 0) + 1);
+    }
+  }
+
+  let best: string | null = null;
+  counts.forEach((count, language) => {
+    if (best === null || count > (counts.get(best) || 0)) {
+      best = language;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Build the prompt instruction that controls the response language
+ * @param sourceLanguage Language of the transcript, when known
+ * @param targetLanguage Language to translate into, when requested
+ * @returns A sentence to append to a system prompt, or an empty string
+ */
+export function getLanguageInstruction(sourceLanguage?: string | null, targetLanguage?: string | null): string {
+  const source = sourceLanguage && sourceLanguage !== AUTO_DETECT_LANGUAGE ? getLanguageName(sourceLanguage) : null;
+  const target = targetLanguage ? getLanguageName(targetLanguage) : null;
+
+  if (target && target !== source) {
+    return source
+      ? ` The transcript is in ${source}. Write your entire response in ${target}, translating as needed.`
+      : ` Write your entire response in ${target}, translating as needed.`;
+  }
+
+  if (source) {
+    return ` The transcript is in ${source}. Write your entire response in ${source}.`;
+  }
+
+  return '';
+}
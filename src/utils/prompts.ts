@@ -0,0 +1,129 @@
+/**
+ * Utility functions for the prompt registry: looking up prompts by name and
+ * version, choosing the version each request uses and filling in variables
+ */
+import { prompts } from '@/data/prompts';
+import type { PromptDefinition, PromptExperiment, PromptVariables, RenderedPrompt } from '@/types/prompt';
+
+/**
+ * Get the id a prompt is recorded under
+ * @param prompt The prompt
+ * @returns Its name and version, e.g. "format.soap@1"
+ */
+export function getPromptId(prompt: PromptDefinition): string {
+  return `${prompt.name}@${prompt.version}`;
+}
+
+/**
+ * Look up a prompt in the registry
+ * @param name Prompt name
+ * @param version Version to get; the latest when left out
+ * @returns The prompt
+ */
+export function getPrompt(name: string, version?: number): PromptDefinition {
+  const versions = prompts.filter(prompt => prompt.name === name);
+
+  if (versions.length === 0) {
+    throw new Error(`Unknown prompt "${name}"`);
+  }
+
+  if (version === undefined) {
+    return versions.reduce((latest, prompt) => prompt.version > latest.version ? prompt : latest);
+  }
+
+  const prompt = versions.find(candidate => candidate.version === version);
+  if (!prompt) {
+    throw new Error(`Unknown version ${version} of prompt "${name}"`);
+  }
+  return prompt;
+}
+
+/**
+ * Read the running experiments from PROMPT_EXPERIMENTS, a JSON object of
+ * version weights per prompt, e.g. {"format.soap": {"1": 1, "2": 1}}.
+ * An experiment with a single version pins the prompt to it.
+ * @returns The experiments keyed by prompt name
+ */
+export function getPromptExperiments(): Record<string, PromptExperiment> {
+  const setting = process.env.PROMPT_EXPERIMENTS;
+  if (!setting) {
+    return {};
+  }
+
+  try {
+    const experiments = JSON.parse(setting);
+    return experiments && typeof experiments === 'object' && !Array.isArray(experiments) ? experiments : {};
+  } catch (error) {
+    console.warn('Ignoring invalid PROMPT_EXPERIMENTS:', error);
+    return {};
+  }
+}
+
+/**
+ * FNV-1a hash of a string, scaled to [0, 1)
+ */
+function hashToUnit(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash / 0x100000000;
+}
+
+/**
+ * Choose the version of a prompt for a request: a weighted pick between the
+ * versions when the prompt is in an experiment, otherwise the latest
+ * @param name Prompt name
+ * @param seed Makes the pick repeatable, e.g. a user id to keep each user on one variant;
+ *   without it each request is assigned at random
+ * @returns The chosen prompt
+ */
+export function selectPrompt(name: string, seed?: string): PromptDefinition {
+  const experiment = getPromptExperiments()[name];
+  const variants = experiment
+    ? Object.keys(experiment)
+      .map(version => ({ version: Number(version), weight: Number(experiment[version]) }))
+      .filter(({ version, weight }) => weight > 0 && prompts.some(prompt => prompt.name === name && prompt.version === version))
+    : [];
+
+  if (variants.length === 0) {
+    return getPrompt(name);
+  }
+
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let point = (seed === undefined ? Math.random() : hashToUnit(`${name}:${seed}`)) * total;
+  const variant = variants.find(candidate => (point -= candidate.weight) < 0) || variants[variants.length - 1];
+
+  return getPrompt(name, variant.version);
+}
+
+/**
+ * Fill in the {{variable}} placeholders of a template. Values are inserted
+ * as they are, so placeholders inside them are left alone.
+ * @param template The template text
+ * @param variables Values by name
+ * @returns The filled-in text
+ */
+export function interpolate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Missing prompt variable "${name}"`);
+    }
+    return String(variables[name]);
+  });
+}
+
+/**
+ * Fill in a prompt's messages
+ * @param prompt The prompt
+ * @param variables Values for its placeholders
+ * @returns The system and user messages with the prompt's id
+ */
+export function renderPrompt(prompt: PromptDefinition, variables: PromptVariables = {}): RenderedPrompt {
+  return {
+    id: getPromptId(prompt),
+    systemPrompt: interpolate(prompt.system, variables),
+    userPrompt: prompt.user ? interpolate(prompt.user, variables) : ''
+  };
+}
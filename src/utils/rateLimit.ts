@@ -0,0 +1,49 @@
+/**
+ * Utility functions for in-memory rate limiting
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Milliseconds until the next request will be allowed
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  check: (key: string) => RateLimitResult;
+}
+
+/**
+ * Create a sliding-window rate limiter
+ * @param limit Maximum number of requests per key within the window
+ * @param windowMs Length of the window in milliseconds
+ * @returns A limiter whose check() records a request and reports whether it is allowed
+ */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const requests = new Map<string, number[]>();
+
+  return {
+    check(key: string): RateLimitResult {
+      const now = Date.now();
+      const recent = (requests.get(key) || []).filter(time => now - time < windowMs);
+
+      if (recent.length >= limit) {
+        requests.set(key, recent);
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterMs: windowMs - (now - recent[0]),
+        };
+      }
+
+      recent.push(now);
+      requests.set(key, recent);
+
+      return {
+        allowed: true,
+        remaining: limit - recent.length,
+        retryAfterMs: 0,
+      };
+    },
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Utility functions for multi-segment recording sessions
+ */
+import type { PgRecordingSession } from '@/models/postgres/RecordingSession';
+import type { RecordedSegment, RecordingSegment, RecordingSession } from '@/types/recordingSession';
+import type { SectionMarker, TranscriptionMetadata, TranscriptSegment, TranscriptWord } from '@/types/transcript';
+import { appendSegments } from './diarization';
+
+/**
+ * Convert a session row into the shape returned by the API
+ * @param session The database row
+ * @returns The session with camel-cased fields
+ */
+export function toRecordingSessionResponse(session: PgRecordingSession): RecordingSession {
+  return {
+    id: session.id,
+    status: session.status,
+    userType: session.user_type ?? null,
+    purpose: session.purpose ?? null,
+    options: session.options || {},
+    transcriptionId: session.transcription_id ?? null,
+    segments: session.segments || [],
+    duration: Number(session.duration) || 0,
+    createdAt: new Date(session.created_at).toISOString(),
+    updatedAt: new Date(session.updated_at).toISOString(),
+    completedAt: session.completed_at ? new Date(session.completed_at).toISOString() : null
+  };
+}
+
+/**
+ * Append a recorded segment to a transcription's text and metadata.
+ * Word and speaker timings are moved from segment time to session time.
+ * @param current The transcription so far, or null for the first segment
+ * @param segment The segment reported by the recorder
+ * @param index Position of the segment within the session
+ * @param offset Seconds recorded in the session before this segment
+ * @returns The new text and metadata, and the segment's boundary
+ */
+export function mergeRecordedSegment(
+  current: { text: string; metadata?: TranscriptionMetadata } | null,
+  segment: RecordedSegment,
+  index: number,
+  offset: number
+): { text: string; metadata: TranscriptionMetadata; boundary: RecordingSegment } {
+  const previousText = current?.text || '';
+  const metadata: TranscriptionMetadata = { ...(current?.metadata || {}) };
+  const addition = segment.text.trim();
+  const separator = previousText && addition ? ' ' : '';
+  const text = previousText + separator + addition;
+
+  const boundary: RecordingSegment = {
+    index,
+    startedAt: segment.startedAt,
+    endedAt: segment.endedAt,
+    duration: segment.duration,
+    offset,
+    textStart: previousText.length + separator.length,
+    textEnd: text.length
+  };
+
+  const words: TranscriptWord[] = (segment.words || []).map(word => ({
+    ...word,
+    start: word.start + offset,
+    end: word.end + offset
+  }));
+  const speakerSegments: TranscriptSegment[] = (segment.speakerSegments || []).map(speakerSegment => ({
+    ...speakerSegment,
+    start: speakerSegment.start + offset,
+    end: speakerSegment.end + offset
+  }));
+
+  const sections: SectionMarker[] = (segment.sections || []).map(section => ({
+    ...section,
+    offset: section.offset + boundary.textStart,
+    time: section.time + offset
+  }));
+
+  if (words.length > 0) {
+    metadata.words = [...(metadata.words || []), ...words];
+  }
+
+  if (speakerSegments.length > 0) {
+    metadata.diarization = {
+      speakerNames: metadata.diarization?.speakerNames || {},
+      segments: appendSegments(metadata.diarization?.segments || [], speakerSegments)
+    };
+  }
+
+  if (sections.length > 0) {
+    metadata.sections = [...(metadata.sections || []), ...sections];
+  }
+
+  if (segment.language) {
+    metadata.language = segment.language;
+  }
+
+  metadata.recordingSegments = [...(metadata.recordingSegments || []), boundary];
+
+  return { text, metadata, boundary };
+}
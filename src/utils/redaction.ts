@@ -0,0 +1,273 @@
+/**
+ * Utility functions for finding personal information in transcripts and
+ * replacing it with redaction tokens
+ */
+import type { RedactionEntity, RedactionEntityType } from '@/types/redaction';
+import type { TranscriptWord } from '@/types/transcript';
+
+export const REDACTION_TOKEN_PREFIXES: Record<RedactionEntityType, string> = {
+  name: 'NAME',
+  date_of_birth: 'DOB',
+  phone: 'PHONE',
+  address: 'ADDRESS',
+  identifier: 'ID',
+  email: 'EMAIL'
+};
+
+// Appended to system prompts when the text sent to the model contains tokens
+export const REDACTION_INSTRUCTION =
+  ' Bracketed tokens such as [NAME_1A2B3C4D5E] stand for personal details that were removed. Copy them exactly where the detail belongs and never guess what they contain.';
+
+const TOKEN_SOURCE = `\\[(?:${Object.values(REDACTION_TOKEN_PREFIXES).join('|')})_[0-9A-F]{10}\\]`;
+
+const MONTH = '(?:January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept|Sep|Oct|Nov|Dec)\\.?';
+const DATE = [
+  '\\d{1,2}[/.-]\\d{1,2}[/.-]\\d{2,4}',
+  '\\d{4}-\\d{2}-\\d{2}',
+  `(?:the\\s+)?\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH},?\\s+\\d{4}`,
+  `${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}`
+].join('|');
+const NAME_WORD = "[A-Z][a-z'’-]+";
+const NAME = `${NAME_WORD}(?:\\s+${NAME_WORD}){0,2}`;
+
+// Each pattern's first capture group (or the whole match) is the value to redact.
+// Earlier patterns win where matches overlap.
+const PATTERNS: { type: RedactionEntityType; pattern: RegExp; validate?: (value: string) => boolean }[] = [
+  { type: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  {
+    type: 'identifier',
+    pattern: /\b(?:NHS(?:\s+number)?|MRN|medical\s+record\s+(?:number|no\.?)|hospital\s+(?:number|no\.?)|patient\s+(?:ID|number|no\.?))\s*(?:is\s+|:\s*|#\s*)?([A-Z]{0,3}\d[\dA-Z-]*(?:\s\d[\dA-Z-]*)*)/gi
+  },
+  {
+    type: 'date_of_birth',
+    pattern: new RegExp(`\\b(?:date\\s+of\\s+birth|DOB|D\\.O\\.B\\.?|born(?:\\s+on)?|birthday)\\s*(?:is\\s+|was\\s+|:\\s*)?(${DATE})`, 'gi')
+  },
+  { type: 'identifier', pattern: /\b\d{3}[\s-]?\d{3}[\s-]?\d{4}\b/g, validate: isNhsNumber },
+  {
+    type: 'phone',
+    pattern: /(?:\+\d{1,3}[\s-]?)?(?:\(\d{2,5}\)[\s-]?)?\d{2,5}(?:[\s-]?\d{2,4}){1,3}/g,
+    validate: value => {
+      const digits = value.replace(/\D/g, '').length;
+      return digits >= 10 && digits <= 13;
+    }
+  },
+  {
+    type: 'address',
+    pattern: /\b\d{1,5}[A-Za-z]?,?\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Road|Rd|Avenue|Ave|Lane|Ln|Drive|Close|Way|Crescent|Court|Ct|Place|Pl|Gardens|Terrace|Grove|Boulevard|Blvd|Hill|Square|Row|Mews)\b\.?/g
+  },
+  { type: 'address', pattern: /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/g },
+  {
+    type: 'name',
+    pattern: new RegExp(`\\b(?:Mr|Mrs|Ms|Miss|Mx|Dr|Doctor|Prof|Professor|Nurse|Sister)\\.?\\s+(${NAME})`, 'g')
+  },
+  {
+    type: 'name',
+    pattern: new RegExp(`\\b(?:[Mm]y name is|[Nn]ame is|[Nn]ame's|[Nn]amed|[Cc]alled|[Tt]his is)\\s+(${NAME})`, 'g')
+  }
+];
+
+// Capitalised words that follow "this is" or "called" without being names.
+// Titles are listed so "my name is Dr. Patel" leaves the title to the title pattern.
+const NOT_NAMES = new Set([
+  'Mr', 'Mrs', 'Ms', 'Miss', 'Mx', 'Dr', 'Doctor', 'Prof', 'Professor', 'Nurse', 'Sister',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August',
+  'September', 'October', 'November', 'December',
+  'The', 'A', 'An', 'It', 'This', 'That', 'He', 'She', 'We', 'They', 'My', 'Your', 'Our', 'Their'
+]);
+
+/**
+ * Check the modulus 11 check digit of a 10-digit NHS number
+ */
+function isNhsNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length !== 10) return false;
+
+  const total = digits
+    .slice(0, 9)
+    .split('')
+    .reduce((sum, digit, index) => sum + Number(digit) * (10 - index), 0);
+  const check = 11 - (total % 11);
+
+  return check !== 10 && (check === 11 ? 0 : check) === Number(digits[9]);
+}
+
+/**
+ * Escape a value for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find personal information in a text
+ * @param text The text to scan
+ * @returns Non-overlapping entities in text order
+ */
+export function detectPersonalInformation(text: string): RedactionEntity[] {
+  const entities: RedactionEntity[] = [];
+  // Tokens from an earlier redaction are left alone
+  const reserved: { start: number; end: number }[] = [];
+  const tokenMatcher = new RegExp(TOKEN_SOURCE, 'g');
+  let token: RegExpExecArray | null;
+  while ((token = tokenMatcher.exec(text)) !== null) {
+    reserved.push({ start: token.index, end: token.index + token[0].length });
+  }
+
+  const overlaps = (start: number, end: number) =>
+    [...reserved, ...entities].some(range => start < range.end && end > range.start);
+  const add = (type: RedactionEntityType, value: string, start: number) => {
+    const end = start + value.length;
+    if (!value.trim() || overlaps(start, end)) return;
+    entities.push({ type, value, start, end });
+  };
+
+  PATTERNS.forEach(({ type, pattern, validate }) => {
+    const matcher = new RegExp(pattern.source, pattern.flags);
+    let match: RegExpExecArray | null;
+
+    while ((match = matcher.exec(text)) !== null) {
+      const value = (match[1] ?? match[0]).trim();
+      const start = match.index + match[0].lastIndexOf(value);
+
+      if (type === 'name' && NOT_NAMES.has(value.split(/\s+/)[0])) continue;
+      if (validate && !validate(value)) continue;
+      add(type, value, start);
+    }
+  });
+
+  // Catch later mentions of a name without its title, e.g. "Smith" after "Mr John Smith"
+  const names = new Set<string>();
+  entities
+    .filter(entity => entity.type === 'name')
+    .forEach(entity => {
+      names.add(entity.value);
+      entity.value.split(/\s+/).filter(part => part.length >= 3).forEach(part => names.add(part));
+    });
+
+  Array.from(names)
+    .sort((a, b) => b.length - a.length)
+    .forEach(name => {
+      const matcher = new RegExp(`\\b${escapeRegExp(name)}\\b`, 'g');
+      let match: RegExpExecArray | null;
+
+      while ((match = matcher.exec(text)) !== null) {
+        add('name', match[0], match.index);
+      }
+    });
+
+  return entities.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Build the token that stands in for a redacted value
+ * @param type The kind of information
+ * @param digest Hex digest identifying the value
+ * @returns A token such as [NAME_1A2B3C4D5E]
+ */
+export function formatRedactionToken(type: RedactionEntityType, digest: string): string {
+  return `[${REDACTION_TOKEN_PREFIXES[type]}_${digest.slice(0, 10).toUpperCase()}]`;
+}
+
+/**
+ * Find the redaction tokens in a text
+ * @param text Text that may contain tokens
+ * @returns Each distinct token once
+ */
+export function findRedactionTokens(text: string): string[] {
+  return Array.from(new Set(text.match(new RegExp(TOKEN_SOURCE, 'g')) || []));
+}
+
+/**
+ * Swap tokens in a text for their values
+ * @param text Text that may contain tokens
+ * @param values Original values keyed by token
+ * @returns The text with every known token replaced
+ */
+export function replaceRedactionTokens(text: string, values: Record<string, string>): string {
+  return text.replace(new RegExp(TOKEN_SOURCE, 'g'), token => values[token] ?? token);
+}
+
+// Length of the longest token, such as [ADDRESS_1A2B3C4D5E]
+const MAX_TOKEN_LENGTH = Math.max(...Object.values(REDACTION_TOKEN_PREFIXES).map(prefix => prefix.length)) + 13;
+
+/**
+ * Split streamed text before a token that may still be incomplete
+ * @param text Text received so far
+ * @returns The text that can be shown now, and the start of a token to hold back
+ */
+export function splitPartialRedactionToken(text: string): [string, string] {
+  const start = text.lastIndexOf('[');
+
+  if (start === -1 || text.indexOf(']', start) !== -1 || text.length - start >= MAX_TOKEN_LENGTH) {
+    return [text, ''];
+  }
+
+  return [text.slice(0, start), text.slice(start)];
+}
+
+/**
+ * Replace entities in a text with their tokens
+ * @param text The original text
+ * @param entities Entities found in the text, in text order
+ * @param tokens Token for each entity
+ * @returns The redacted text
+ */
+export function replaceEntities(text: string, entities: RedactionEntity[], tokens: string[]): string {
+  let result = '';
+  let cursor = 0;
+
+  entities.forEach((entity, index) => {
+    result += text.slice(cursor, entity.start) + tokens[index];
+    cursor = entity.end;
+  });
+
+  return result + text.slice(cursor);
+}
+
+/**
+ * Replace entities in a word list, merging the words an entity spans into one
+ * word that covers their timing
+ * @param words Words in spoken order
+ * @param entities Entities found in the words joined by single spaces
+ * @param tokens Token for each entity
+ * @returns The redacted words
+ */
+export function redactWords(
+  words: TranscriptWord[],
+  entities: RedactionEntity[],
+  tokens: string[]
+): TranscriptWord[] {
+  if (entities.length === 0) return words;
+
+  // Position of each word in the joined text; removed (empty) words are skipped
+  const positions: { index: number; start: number; end: number }[] = [];
+  let offset = 0;
+  words.forEach((word, index) => {
+    if (!word.text) return;
+    positions.push({ index, start: offset, end: offset + word.text.length });
+    offset += word.text.length + 1;
+  });
+
+  const result = [...words];
+  const dropped = new Set<number>();
+
+  entities.forEach((entity, entityIndex) => {
+    const covered = positions.filter(position => position.start < entity.end && position.end > entity.start);
+    if (covered.length === 0) return;
+
+    const first = covered[0];
+    const last = covered[covered.length - 1];
+    const prefix = words[first.index].text.slice(0, Math.max(0, entity.start - first.start));
+    const suffix = words[last.index].text.slice(Math.max(0, entity.end - last.start));
+
+    result[first.index] = {
+      ...result[first.index],
+      text: prefix + tokens[entityIndex] + suffix,
+      end: words[last.index].end
+    };
+    covered.slice(1).forEach(position => dropped.add(position.index));
+  });
+
+  return result.filter((_, index) => !dropped.has(index));
+}
@@ -0,0 +1,117 @@
+/**
+ * Utility functions for identifying the caller of an API route
+ */
+import { getToken } from 'next-auth/jwt';
+import { NEW_BROWSER_ID_HEADER, readBrowserId } from '@/utils/browserId';
+
+export interface RequestUser {
+  // The signed-in user's id, or "browser:<id>" / "ip:<address>" for callers without a session
+  userId: string;
+  // Whether userId comes from a verified session; only these callers are granted permissions
+  authenticated: boolean;
+  // The random id kept in the browser's cookie, set by the middleware
+  browserId: string | null;
+  // Requests counted against the same rate limits: the signed-in user, else the trusted
+  // client address, else the browser id. An id issued with this very request is not used,
+  // as a client could get a new one each time by dropping the cookie.
+  rateLimitKey: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * Read the signed-in user's id from the Auth.js session token, sent as the
+ * session cookie or as an "Authorization: Bearer" header
+ * @param req The incoming request
+ * @returns The user's id, or null without a valid session
+ */
+async function getSessionUserId(req: Request): Promise<string | null> {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    return null;
+  }
+
+  const siteUrl = process.env.AUTH_URL || process.env.NEXTAUTH_URL || req.url;
+  const token = await getToken({ req, secret, secureCookie: siteUrl.startsWith('https:') });
+  const userId = token?.sub || token?.email;
+
+  return typeof userId === 'string' && userId ? userId : null;
+}
+
+/**
+ * Read the client IP address from the headers set by trusted proxies.
+ * TRUSTED_PROXY_HOPS is the number of proxies in front of the app; each one
+ * appends the address it received the request from to X-Forwarded-For, so the
+ * entry that many places from the right was seen by the outermost proxy and
+ * anything further left came from the client. Without it, forwarded headers
+ * are ignored.
+ * @param req The incoming request
+ * @returns The client's address, or null when it cannot be trusted
+ */
+function getClientIp(req: Request): string | null {
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '0');
+  if (!(hops > 0)) {
+    return null;
+  }
+
+  const addresses = (req.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(address => address.trim());
+  return addresses.length >= hops ? addresses[addresses.length - hops] || null : null;
+}
+
+/**
+ * Identify the caller of a request.
+ * Uses the verified session when there is one and falls back to the browser id
+ * cookie, then to the client IP address reported by trusted proxies.
+ * @param req The incoming request
+ * @returns The caller's identity
+ */
+export async function getRequestUser(req: Request): Promise<RequestUser> {
+  const ipAddress = getClientIp(req);
+  const browserId = readBrowserId(req);
+  const sessionUserId = await getSessionUserId(req);
+  const limitedBrowserId = req.headers.has(NEW_BROWSER_ID_HEADER) ? null : browserId;
+  const anonymousKey = !ipAddress && limitedBrowserId ? `browser:${limitedBrowserId}` : `ip:${ipAddress || 'unknown'}`;
+
+  return {
+    userId: sessionUserId || (browserId ? `browser:${browserId}` : `ip:${ipAddress || 'unknown'}`),
+    authenticated: !!sessionUserId,
+    browserId,
+    rateLimitKey: sessionUserId || anonymousKey,
+    ipAddress,
+    userAgent: req.headers.get('user-agent'),
+  };
+}
+
+/**
+ * Get the id that owns private records created by the caller, such as recording sessions
+ * @param user The caller, as identified by getRequestUser
+ * @returns The signed-in user's id or the browser id, or null when neither is known,
+ * since callers identified by address alone may be sharing it
+ */
+export function getOwnerId(user: RequestUser): string | null {
+  return user.authenticated || user.browserId ? user.userId : null;
+}
+
+/**
+ * Check whether a user id is listed in a comma-separated setting
+ * @param user The caller, as identified by getRequestUser
+ * @param setting The setting's value
+ * @returns true for signed-in users in the list
+ */
+export function isListedUser(user: RequestUser, setting: string | undefined): boolean {
+  return user.authenticated && (setting || '')
+    .split(',')
+    .map(value => value.trim())
+    .includes(user.userId);
+}
+
+/**
+ * Check whether a caller may manage shared settings such as shared format templates
+ * @param user The caller, as identified by getRequestUser
+ * @returns true for signed-in users listed in ADMIN_USERS
+ */
+export function isAdminUser(user: RequestUser): boolean {
+  return isListedUser(user, process.env.ADMIN_USERS);
+}
@@ -0,0 +1,87 @@
+/**
+ * Utility functions for building subtitle files from timed words
+ */
+import type { SubtitleCue } from '@/types/export';
+import type { TranscriptWord } from '@/types/transcript';
+import { getSpeakerLabel } from '@/utils/diarization';
+
+const MAX_CUE_SECONDS = 6;
+const MAX_CUE_CHARACTERS = 84;
+// A pause this long (seconds) starts a new cue
+const CUE_GAP_SECONDS = 1.5;
+
+/**
+ * Group words into subtitle cues, breaking at sentence ends, pauses,
+ * speaker changes and length limits
+ * @param words Timed words in spoken order
+ * @param speakerNames Custom names keyed by speaker number; when words have
+ * speakers, each cue that starts a new speaker's turn is prefixed with the label
+ * @returns Cues in order
+ */
+export function buildSubtitleCues(words: TranscriptWord[], speakerNames?: Record<string, string>): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let current: (SubtitleCue & { speaker?: number }) | null = null;
+  let lastSpeaker: number | undefined;
+
+  words
+    .filter(word => word.text)
+    .forEach(word => {
+      const breaks = current && (
+        word.speaker !== current.speaker ||
+        word.start - current.end > CUE_GAP_SECONDS ||
+        word.end - current.start > MAX_CUE_SECONDS ||
+        current.text.length + word.text.length + 1 > MAX_CUE_CHARACTERS ||
+        /[.!?]$/.test(current.text)
+      );
+
+      if (!current || breaks) {
+        if (current) cues.push(current);
+
+        const label = speakerNames && word.speaker !== undefined && word.speaker !== lastSpeaker
+          ? `${getSpeakerLabel(word.speaker, speakerNames)}: `
+          : '';
+        current = { start: word.start, end: word.end, text: label + word.text, speaker: word.speaker };
+        lastSpeaker = word.speaker;
+      } else {
+        current.text += ` ${word.text}`;
+        current.end = word.end;
+      }
+    });
+
+  if (current) cues.push(current);
+
+  return cues.map(({ start, end, text }) => ({ start, end, text }));
+}
+
+/**
+ * Format a time as HH:MM:SS plus milliseconds
+ * @param seconds Time in seconds
+ * @param separator Separator before the milliseconds ("," for SRT, "." for WebVTT)
+ */
+function formatTimestamp(seconds: number, separator: string): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+
+  return `${pad(Math.floor(totalMs / 3600000))}:${pad(Math.floor(totalMs / 60000) % 60)}:${pad(Math.floor(totalMs / 1000) % 60)}${separator}${pad(totalMs % 1000, 3)}`;
+}
+
+/**
+ * Render cues as a SubRip (.srt) file
+ * @param cues Subtitle cues in order
+ * @returns The file contents
+ */
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+/**
+ * Render cues as a WebVTT (.vtt) file
+ * @param cues Subtitle cues in order
+ * @returns The file contents
+ */
+export function formatVtt(cues: SubtitleCue[]): string {
+  return ['WEBVTT\n', ...cues.map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)]
+    .join('\n');
+}
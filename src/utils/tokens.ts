@@ -0,0 +1,109 @@
+/**
+ * Utility functions for counting how many tokens a model will see
+ */
+import { getEncoding, getEncodingNameForModel, Tiktoken, TiktokenEncoding, TiktokenModel } from 'js-tiktoken';
+
+interface ModelLimits {
+  // Tokens the prompt and reply can use together
+  context: number;
+  // Longest reply the model can generate
+  output: number;
+}
+
+// Limits of each model family, more specific names first as they are matched by prefix
+const MODEL_LIMITS: [string, ModelLimits][] = [
+  ['gpt-3.5-turbo-instruct', { context: 4096, output: 4096 }],
+  ['gpt-3.5-turbo', { context: 16385, output: 4096 }],
+  ['gpt-4-turbo', { context: 128000, output: 4096 }],
+  ['gpt-4-0125', { context: 128000, output: 4096 }],
+  ['gpt-4-1106', { context: 128000, output: 4096 }],
+  ['gpt-4-32k', { context: 32768, output: 32768 }],
+  ['gpt-4o', { context: 128000, output: 16384 }],
+  ['gpt-4', { context: 8192, output: 8192 }],
+  ['local', { context: 4096, output: 4096 }]
+];
+
+// Used for models not listed, such as Azure deployment names
+const DEFAULT_LIMITS: ModelLimits = { context: 8192, output: 4096 };
+
+// Tokenizer for models tiktoken does not know, such as Azure deployments and the local provider
+const DEFAULT_ENCODING: TiktokenEncoding = 'cl100k_base';
+
+// Tokenizers are built on first use, as loading one takes a moment
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+/**
+ * Look up the limits of a model
+ */
+function getModelLimits(model: string): ModelLimits {
+  const name = model.toLowerCase();
+  const match = MODEL_LIMITS.find(([prefix]) => name.startsWith(prefix));
+  return match ? match[1] : DEFAULT_LIMITS;
+}
+
+/**
+ * Get the tokenizer of a model
+ */
+function getEncoder(model: string): Tiktoken {
+  let name = DEFAULT_ENCODING;
+  try {
+    name = getEncodingNameForModel(model as TiktokenModel);
+  } catch {
+    // Not an OpenAI model name
+  }
+
+  let encoder = encoders.get(name);
+  if (!encoder) {
+    encoder = getEncoding(name);
+    encoders.set(name, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Count the tokens in a text with the tokenizer of the model it is sent to.
+ * Anything that looks like a special token is counted as plain text.
+ * @param text The text to count
+ * @param model Model name; models tiktoken does not know are counted with cl100k_base
+ * @returns The token count
+ */
+export function countTokens(text: string, model: string = ''): number {
+  if (!text) {
+    return 0;
+  }
+
+  return getEncoder(model).encode(text, [], []).length;
+}
+
+/**
+ * Get the context window of a model
+ * @param model Model name, e.g. "gpt-4-turbo" or "azure:deployment"
+ * @returns The number of tokens the prompt and reply can use together
+ */
+export function getContextTokens(model: string): number {
+  return getModelLimits(model).context;
+}
+
+/**
+ * Get the longest reply worth asking a model for: its output limit, leaving
+ * at least half of its context for the request
+ * @param model Model name
+ * @returns The number of tokens
+ */
+export function getReplyTokens(model: string): number {
+  const { context, output } = getModelLimits(model);
+  return Math.min(output, Math.floor(context / 2));
+}
+
+/**
+ * Estimate how many characters of a text fit in a number of tokens, from the
+ * text's own characters per token
+ * @param text The text to be split
+ * @param tokens The token budget
+ * @param model Model the text is sent to
+ * @returns The number of characters
+ */
+export function tokensToChars(text: string, tokens: number, model: string = ''): number {
+  const tokenCount = countTokens(text, model);
+  return tokenCount === 0 ? tokens : Math.floor(tokens * (text.length / tokenCount));
+}
@@ -175,7 +175,7 @@ export class PGVectorStore {
       }
 
       // Generate embedding for the query
-      console.log(`Generating embedding for query: "${query}"`);
+      console.log(`Generating embedding for a query of length ${query.length}`);
       const embedding = await this.embeddings.embedQuery(query);
       
       // Execute the similarity search query using standard SQL
@@ -0,0 +1,98 @@
+/**
+ * Utility functions for custom vocabulary: keyword boosts and substitutions
+ */
+import type { TranscriptionWord } from '@/services/speech';
+import type { ActiveVocabulary, Substitution, VocabularyKind } from '@/types/vocabulary';
+
+export const DEFAULT_KEYWORD_BOOST = 2;
+
+/**
+ * Merge stored terms into the vocabulary for a recording. Terms are expected
+ * user type first, so a user's own entry replaces one for the same term.
+ * @param terms Stored vocabulary terms
+ * @returns Keyword boosts and substitutions, one per term
+ */
+export function resolveVocabulary(
+  terms: { kind: VocabularyKind; term: string; replacement?: string | null; boost?: number | null }[]
+): ActiveVocabulary {
+  const keywords = new Map<string, { term: string; boost: number }>();
+  const substitutions = new Map<string, Substitution>();
+
+  for (const entry of terms) {
+    const key = entry.term.toLowerCase();
+
+    if (entry.kind === 'keyword') {
+      keywords.set(key, { term: entry.term, boost: entry.boost ?? DEFAULT_KEYWORD_BOOST });
+    } else if (entry.replacement !== undefined && entry.replacement !== null) {
+      substitutions.set(key, { term: entry.term, replacement: entry.replacement });
+    }
+  }
+
+  return {
+    keywords: Array.from(keywords.values()),
+    substitutions: Array.from(substitutions.values())
+  };
+}
+
+/**
+ * Convert keyword boosts into DeepGram "keywords" parameters
+ * @param vocabulary Active vocabulary
+ * @returns Values in "term:boost" form
+ */
+export function toKeywordOptions(vocabulary: ActiveVocabulary): string[] {
+  return vocabulary.keywords.map(({ term, boost }) => `${term}:${boost}`);
+}
+
+/**
+ * Convert keyword boosts into DeepGram "keyterm" parameters, which nova-3
+ * takes in place of keywords. Key terms have no boost.
+ * @param vocabulary Active vocabulary
+ * @returns The terms
+ */
+export function toKeytermOptions(vocabulary: ActiveVocabulary): string[] {
+  return vocabulary.keywords.map(({ term }) => term);
+}
+
+/**
+ * Escape a string for use inside a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace whole-word matches of each substitution term, ignoring case
+ * @param text Transcript text
+ * @param substitutions Terms and their replacements
+ * @returns The rewritten text
+ */
+export function applySubstitutions(text: string, substitutions: Substitution[]): string {
+  if (substitutions.length === 0) return text;
+
+  // Longest terms first so multi-word phrases win over their parts
+  const ordered = [...substitutions].sort((a, b) => b.term.length - a.term.length);
+
+  return ordered.reduce((result, { term, replacement }) => {
+    const pattern = new RegExp(`(?<![\\w-])${escapeRegExp(term)}(?![\\w-])`, 'gi');
+    return result.replace(pattern, replacement);
+  }, text);
+}
+
+/**
+ * Apply single-word substitutions to recognised words, keeping their timings
+ * @param words Words from a final transcription result
+ * @param substitutions Terms and their replacements
+ * @returns Words with substituted text
+ */
+export function applyWordSubstitutions(words: TranscriptionWord[], substitutions: Substitution[]): TranscriptionWord[] {
+  const singleWord = substitutions.filter(({ term }) => !/\s/.test(term.trim()));
+  if (singleWord.length === 0) return words;
+
+  return words.map(word => ({
+    ...word,
+    word: applySubstitutions(word.word, singleWord),
+    ...(word.punctuated_word !== undefined && {
+      punctuated_word: applySubstitutions(word.punctuated_word, singleWord)
+    })
+  }));
+}
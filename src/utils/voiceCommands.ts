@@ -0,0 +1,270 @@
+/**
+ * Utility functions for recognising spoken commands in transcription results
+ */
+import type { TranscriptionResult } from '@/services/speech/types';
+import type { SectionMarker } from '@/types/transcript';
+import type { VoiceCommand, VoiceCommandDefinition } from '@/types/voiceCommands';
+
+export const CLINICAL_SECTIONS = [
+  'Subjective',
+  'Objective',
+  'Assessment',
+  'Plan',
+  'History',
+  'Examination',
+  'Medications',
+  'Allergies',
+  'Diagnosis'
+];
+
+export const DEFAULT_VOICE_COMMANDS: VoiceCommandDefinition[] = [
+  { phrase: 'new section {value}', action: 'section', values: CLINICAL_SECTIONS },
+  { phrase: 'pause recording', action: 'pause' },
+  { phrase: 'stop recording', action: 'stop' },
+  { phrase: 'switch format to {value}', action: 'format' },
+  { phrase: 'format as {value}', action: 'format' }
+];
+
+const VALUE_SLOT = '{value}';
+const NON_WORD_CHARACTERS = new RegExp('[^\\p{L}\\p{N}]+', 'gu');
+
+/**
+ * Lower-case a spoken word and drop its punctuation
+ */
+function normalizeToken(token: string): string {
+  return token.toLowerCase().replace(NON_WORD_CHARACTERS, '');
+}
+
+/**
+ * Split a phrase into normalised words
+ */
+function tokenize(phrase: string): string[] {
+  return phrase.split(/\s+/).map(normalizeToken).filter(Boolean);
+}
+
+/**
+ * Get the voice commands in effect
+ * @param formats Output formats that "{value}" may name in format commands without their own values
+ * @returns Definitions from NEXT_PUBLIC_VOICE_COMMANDS (a JSON array) when valid, otherwise the defaults
+ */
+export function getVoiceCommands(formats: string[] = []): VoiceCommandDefinition[] {
+  let definitions = DEFAULT_VOICE_COMMANDS;
+  const configured = process.env.NEXT_PUBLIC_VOICE_COMMANDS;
+
+  if (configured) {
+    try {
+      const parsed = JSON.parse(configured);
+      if (!Array.isArray(parsed) || parsed.some(item => !item?.phrase || !item?.action)) {
+        throw new Error('Expected an array of { phrase, action } objects');
+      }
+      definitions = parsed;
+    } catch (error) {
+      console.warn('Invalid NEXT_PUBLIC_VOICE_COMMANDS, using the default commands:', error);
+    }
+  }
+
+  return definitions.map(definition =>
+    definition.action === 'format' && !definition.values
+      ? { ...definition, values: formats }
+      : definition
+  );
+}
+
+/**
+ * Try to match a command definition at a position in the spoken words
+ * @returns The number of words matched and the captured value, or null
+ */
+function matchAt(
+  definition: VoiceCommandDefinition,
+  tokens: string[],
+  position: number
+): { length: number; value?: string } | null {
+  const parts = definition.phrase.split(/\s+/).filter(Boolean);
+  // Longest values first so "clinical summary" wins over "clinical"
+  const values = (definition.values || [])
+    .map(value => ({ value, tokens: tokenize(value) }))
+    .filter(option => option.tokens.length > 0)
+    .sort((a, b) => b.tokens.length - a.tokens.length);
+  let cursor = position;
+  let value: string | undefined;
+
+  for (const part of parts) {
+    if (part !== VALUE_SLOT) {
+      const expected = normalizeToken(part);
+      if (expected && tokens[cursor] !== expected) return null;
+      if (expected) cursor++;
+      continue;
+    }
+
+    if (!definition.values) {
+      if (!tokens[cursor]) return null;
+      value = tokens[cursor];
+      cursor++;
+      continue;
+    }
+
+    const option = values.find(candidate =>
+      candidate.tokens.every((token, offset) => tokens[cursor + offset] === token)
+    );
+    if (!option) return null;
+
+    value = option.value;
+    cursor += option.tokens.length;
+  }
+
+  return cursor > position ? { length: cursor - position, value } : null;
+}
+
+/**
+ * Find where each spoken item appears in the transcript, in order
+ * @returns The character range of each item, or null for items not found
+ */
+function locateInTranscript(transcript: string, tokens: string[]): ({ start: number; end: number } | null)[] {
+  const written = Array.from(transcript.matchAll(/\S+/g), match => ({
+    token: normalizeToken(match[0]),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length
+  }));
+  let cursor = 0;
+
+  return tokens.map(token => {
+    const index = written.findIndex((item, position) => position >= cursor && item.token === token);
+    if (index === -1) return null;
+
+    cursor = index + 1;
+    return { start: written[index].start, end: written[index].end };
+  });
+}
+
+/**
+ * Find command phrases in a transcription result and remove them from it.
+ * The rest of the transcript is kept as it was written, unless the words of
+ * a command cannot be found in it.
+ * @param result A result from the speech provider
+ * @param definitions Commands to listen for
+ * @returns The result without the command phrases, and the commands in spoken order
+ */
+export function extractVoiceCommands(
+  result: TranscriptionResult,
+  definitions: VoiceCommandDefinition[]
+): { result: TranscriptionResult; commands: VoiceCommand[] } {
+  if (definitions.length === 0) {
+    return { result, commands: [] };
+  }
+
+  const items = result.words.length > 0
+    ? result.words.map(word => ({ display: word.punctuated_word || word.word, word }))
+    : result.transcript.split(/\s+/).filter(Boolean).map(display => ({ display, word: undefined }));
+  const tokens = items.map(item => normalizeToken(item.display));
+  const matches: { definition: VoiceCommandDefinition; position: number; length: number; value?: string }[] = [];
+  let position = 0;
+
+  while (position < items.length) {
+    let match: (typeof matches)[number] | null = null;
+
+    for (const definition of definitions) {
+      const found = matchAt(definition, tokens, position);
+      if (found) {
+        match = { definition, position, ...found };
+        break;
+      }
+    }
+
+    if (!match) {
+      position++;
+      continue;
+    }
+
+    matches.push(match);
+    position += match.length;
+  }
+
+  if (matches.length === 0) {
+    return { result, commands: [] };
+  }
+
+  const removed = new Set(matches.flatMap(match =>
+    Array.from({ length: match.length }, (_, offset) => match.position + offset)
+  ));
+  const spans = locateInTranscript(result.transcript, tokens);
+  const fromTranscript = matches.every(match =>
+    spans[match.position] && spans[match.position + match.length - 1]
+  );
+
+  // Text kept before each command, and after the last one
+  const kept = fromTranscript
+    ? [...matches, null].map((match, index) => {
+        const previous = index > 0 ? matches[index - 1] : null;
+        const start = previous ? spans[previous.position + previous.length - 1]!.end : 0;
+        const end = match ? spans[match.position]!.start : result.transcript.length;
+        return result.transcript.slice(start, end).trim();
+      })
+    : [...matches, null].map((match, index) => {
+        const previous = index > 0 ? matches[index - 1] : null;
+        const start = previous ? previous.position + previous.length : 0;
+        const end = match ? match.position : items.length;
+        return items.slice(start, end).map(item => item.display).join(' ');
+      });
+
+  let transcript = '';
+  const commands = matches.map((match, index) => {
+    if (kept[index]) {
+      transcript += (transcript ? ' ' : '') + kept[index];
+    }
+
+    const spoken = items.slice(match.position, match.position + match.length);
+    return {
+      action: match.definition.action,
+      value: match.value,
+      phrase: spoken.map(item => item.display).join(' '),
+      time: spoken[0].word?.start,
+      textOffset: transcript ? transcript.length + 1 : 0
+    };
+  });
+
+  if (kept[matches.length]) {
+    transcript += (transcript ? ' ' : '') + kept[matches.length];
+  }
+
+  return {
+    result: {
+      ...result,
+      transcript,
+      words: result.words.filter((_, index) => !removed.has(index))
+    },
+    commands
+  };
+}
+
+/**
+ * Insert section headings into a transcript for formatting
+ * @param text The transcription text
+ * @param markers Section markers recorded by voice command
+ * @returns The text with a "Section:" heading before each marked section
+ */
+export function insertSectionMarkers(text: string, markers: SectionMarker[]): string {
+  if (markers.length === 0) return text;
+
+  const parts: string[] = [];
+  let cursor = 0;
+
+  [...markers]
+    .sort((a, b) => a.offset - b.offset)
+    .forEach(marker => {
+      // Never split a word if the text was edited after the marker was placed
+      let offset = Math.min(Math.max(marker.offset, cursor), text.length);
+      while (offset < text.length && offset > 0 && !/\s/.test(text[offset - 1])) {
+        offset++;
+      }
+
+      const before = text.slice(cursor, offset).trim();
+      if (before) parts.push(before);
+      parts.push(`${marker.section}:`);
+      cursor = offset;
+    });
+
+  const rest = text.slice(cursor).trim();
+  if (rest) parts.push(rest);
+
+  return parts.join('\n\n');
+}